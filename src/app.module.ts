@@ -2,6 +2,7 @@ import { Module, Logger } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { TelegramModule } from './modules/telegram/telegram.module';
 import { WhisperModule } from './modules/whisper/whisper.module';
+import { isValidTimezone } from './modules/preference/timezone';
 import * as Joi from 'joi';
 
 const logger = new Logger('AppModule');
@@ -14,15 +15,101 @@ const logger = new Logger('AppModule');
       validationSchema: Joi.object({
         // Telegram
         TELEGRAM_BOT_TOKEN: Joi.string().required(),
-        
+
         // OpenAI
         OPENAI_API_KEY: Joi.string().required(),
-        
+
         // Application
         NODE_ENV: Joi.string()
           .valid('development', 'production')
           .default('development'),
         PORT: Joi.number().default(3000),
+        DATA_DIR: Joi.string().optional(),
+        REQUEST_TIMEOUT: Joi.number().default(30000),
+        UPLOAD_TIMEOUT_PER_MB: Joi.number().min(0).default(15000),
+        API_KEYS: Joi.string().optional(),
+
+        // Transcription
+        TRANSCRIPTION_PROVIDER: Joi.string()
+          .valid('openai', 'local')
+          .default('openai'),
+        TRANSCRIPTION_PROVIDERS: Joi.string()
+          .pattern(/^\s*(openai|local)\s*(,\s*(openai|local)\s*)*$/)
+          .optional(),
+        LOCAL_WHISPER_ENGINE: Joi.string()
+          .valid('whisper.cpp', 'faster-whisper')
+          .default('whisper.cpp'),
+        LOCAL_WHISPER_BINARY: Joi.string().optional(),
+        LOCAL_WHISPER_MODEL: Joi.string().optional(),
+        LOCAL_WHISPER_THREADS: Joi.number().integer().min(1).optional(),
+        LOCAL_WHISPER_TIMEOUT: Joi.number().default(600000),
+        TRANSCRIPTION_TIMEOUT: Joi.number().default(120000),
+        MAX_FILE_SIZE: Joi.number().default(200 * 1024 * 1024),
+        TRANSCRIPTION_CHUNK_SECONDS: Joi.number().min(30).default(600),
+        TRANSCRIPTION_CONCURRENCY: Joi.number().integer().min(1).default(3),
+        TRANSCRIPTION_SILENCE_THRESHOLD: Joi.string().default('-30dB'),
+        TRANSCRIPTION_MIN_SILENCE_SECONDS: Joi.number().min(0.1).default(0.5),
+
+        // Access control
+        ADMIN_IDS: Joi.string()
+          .pattern(/^\s*\d+(\s*,\s*\d+)*\s*$/)
+          .optional(),
+        ALLOWED_USER_IDS: Joi.string()
+          .pattern(/^\s*\d+(\s*,\s*\d+)*\s*$/)
+          .optional(),
+        ALLOWED_CHAT_IDS: Joi.string()
+          .pattern(/^\s*-?\d+(\s*,\s*-?\d+)*\s*$/)
+          .optional(),
+        DEFAULT_ROLE: Joi.string()
+          .valid('transcriber', 'sender', 'admin')
+          .default('sender'),
+
+        // Usage quotas
+        QUOTA_DAILY_AUDIO_MINUTES: Joi.number().min(0).optional(),
+        QUOTA_MONTHLY_AUDIO_MINUTES: Joi.number().min(0).optional(),
+        QUOTA_DAILY_TOKENS: Joi.number().integer().min(0).optional(),
+        QUOTA_MONTHLY_TOKENS: Joi.number().integer().min(0).optional(),
+        QUOTA_DAILY_EMAILS: Joi.number().integer().min(0).optional(),
+        QUOTA_MONTHLY_EMAILS: Joi.number().integer().min(0).optional(),
+        USAGE_TEAMS: Joi.string()
+          .pattern(
+            /^\s*[\w-]+\s*=\s*(\d+|api)(\s*,\s*(\d+|api))*(\s*;\s*[\w-]+\s*=\s*(\d+|api)(\s*,\s*(\d+|api))*)*\s*$/,
+          )
+          .optional(),
+
+        // Email accounts
+        SMTP_HOST: Joi.string().optional(),
+        SMTP_PORT: Joi.number().port().optional(),
+        SMTP_USER: Joi.string().optional(),
+        SMTP_PASS: Joi.string().optional(),
+        SMTP_SECURE: Joi.boolean().default(false),
+        ALLOW_SHARED_SMTP: Joi.boolean().default(false),
+        ACCOUNT_ENCRYPTION_KEY: Joi.string().min(16).optional(),
+
+        // Drafts
+        DRAFT_TTL_MINUTES: Joi.number().min(1).default(15),
+
+        // Jobs
+        JOB_CONCURRENCY: Joi.number().integer().min(1).default(2),
+        JOB_MAX_ATTEMPTS: Joi.number().integer().min(1).default(5),
+        JOB_RETRY_DELAY: Joi.number().min(100).default(5000),
+
+        // Outbox
+        OUTBOX_MAX_ATTEMPTS: Joi.number().integer().min(1).default(8),
+        OUTBOX_RETRY_DELAY: Joi.number().min(100).default(30000),
+
+        // Inbox
+        INBOX_POLL_SECONDS: Joi.number().min(10).default(60),
+
+        // History
+        HISTORY_RETENTION_DAYS: Joi.number().min(1).default(90),
+
+        // Scheduling
+        DEFAULT_TIMEZONE: Joi.string()
+          .custom((value: string, helpers) =>
+            isValidTimezone(value) ? value : helpers.error('any.invalid'),
+          )
+          .default('UTC'),
       }),
     }),
     TelegramModule,
@@ -0,0 +1,51 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+
+/** Header carrying the API key */
+export const API_KEY_HEADER = 'x-api-key';
+
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(ApiKeyGuard.name);
+  private readonly apiKeys: Buffer[];
+
+  constructor(private configService: ConfigService) {
+    this.apiKeys = this.configService
+      .get<string>('API_KEYS', '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean)
+      .map((key) => Buffer.from(key));
+
+    if (this.apiKeys.length === 0) {
+      this.logger.warn(
+        'API_KEYS is not configured, all API requests will be rejected',
+      );
+    }
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const provided = request.header(API_KEY_HEADER);
+
+    if (!provided || !this.isValid(Buffer.from(provided))) {
+      throw new UnauthorizedException('Invalid or missing API key');
+    }
+
+    return true;
+  }
+
+  private isValid(provided: Buffer): boolean {
+    return this.apiKeys.some(
+      (key) => key.length === provided.length && timingSafeEqual(key, provided),
+    );
+  }
+}
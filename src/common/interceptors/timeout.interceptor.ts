@@ -5,26 +5,48 @@ import {
   CallHandler,
   RequestTimeoutException,
   Logger,
+  SetMetadata,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
 import { Observable, throwError, TimeoutError } from 'rxjs';
 import { catchError, timeout } from 'rxjs/operators';
 
+/** Metadata key marking routes whose timeout grows with the size of the upload */
+export const UPLOAD_TIMEOUT_KEY = 'uploadTimeout';
+
+/**
+ * Scales the request timeout of a route to the size of its upload, so long recordings are not
+ * cut off while they are still being transcribed. See {@link TimeoutInterceptor}.
+ */
+export const UploadTimeout = () => SetMetadata(UPLOAD_TIMEOUT_KEY, true);
+
 @Injectable()
 export class TimeoutInterceptor implements NestInterceptor {
   private readonly logger = new Logger(TimeoutInterceptor.name);
 
-  constructor(private readonly timeoutMs: number) {}
+  /**
+   * @param {number} timeoutMs - Timeout of every request
+   * @param {number} uploadTimeoutPerMegabyteMs - Time added per megabyte of request body on routes marked with {@link UploadTimeout}
+   * @param {Reflector} reflector - Reads the route metadata
+   */
+  constructor(
+    private readonly timeoutMs: number,
+    private readonly uploadTimeoutPerMegabyteMs = 0,
+    private readonly reflector = new Reflector(),
+  ) {}
 
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
-    const request = context.switchToHttp().getRequest();
+    const request = context.switchToHttp().getRequest<Request>();
     const { method, url } = request;
+    const timeoutMs = this.getTimeout(context, request);
 
     return next.handle().pipe(
-      timeout(this.timeoutMs),
-      catchError(err => {
+      timeout(timeoutMs),
+      catchError((err: unknown) => {
         if (err instanceof TimeoutError) {
           this.logger.warn(
-            `Request timeout after ${this.timeoutMs}ms: ${method} ${url}`,
+            `Request timeout after ${timeoutMs}ms: ${method} ${url}`,
           );
           return throwError(
             () => new RequestTimeoutException('Request timeout'),
@@ -34,4 +56,24 @@ export class TimeoutInterceptor implements NestInterceptor {
       }),
     );
   }
-} 
\ No newline at end of file
+
+  /**
+   * Computes the timeout of a request: the global one, plus time for each megabyte of an upload.
+   * The size is taken from Content-Length, as the body has not been read yet.
+   */
+  private getTimeout(context: ExecutionContext, request: Request): number {
+    const scaled = this.reflector.getAllAndOverride<boolean>(
+      UPLOAD_TIMEOUT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!scaled) {
+      return this.timeoutMs;
+    }
+
+    const megabytes =
+      (Number(request.header('content-length')) || 0) / (1024 * 1024);
+    return (
+      this.timeoutMs + Math.ceil(megabytes * this.uploadTimeoutPerMegabyteMs)
+    );
+  }
+}
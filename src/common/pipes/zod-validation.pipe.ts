@@ -0,0 +1,29 @@
+import {
+  PipeTransform,
+  Injectable,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { ZodSchema, ZodError } from 'zod';
+
+@Injectable()
+export class ZodValidationPipe<T> implements PipeTransform<unknown, T> {
+  private readonly logger = new Logger(ZodValidationPipe.name);
+
+  constructor(private readonly schema: ZodSchema<T>) {}
+
+  transform(value: unknown): T {
+    try {
+      return this.schema.parse(value);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const message = error.errors
+          .map((e) => `${e.path.join('.') || 'value'}: ${e.message}`)
+          .join(', ');
+        this.logger.debug(`Validation failed: ${message}`);
+        throw new BadRequestException(message);
+      }
+      throw error;
+    }
+  }
+}
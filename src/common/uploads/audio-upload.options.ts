@@ -0,0 +1,27 @@
+import { MulterOptions } from '@nestjs/platform-express/multer/interfaces/multer-options.interface';
+import { diskStorage } from 'multer';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+
+/** Directory where uploaded audio is stored until it is processed */
+export const UPLOAD_DIR = path.resolve(__dirname, '../../../tmp');
+
+/** Maximum accepted upload size; recordings over the provider limit are split into chunks */
+export const MAX_AUDIO_UPLOAD_SIZE = 200 * 1024 * 1024;
+
+/**
+ * Multer options for audio uploads.
+ * Files are written to the temporary directory under a random name that keeps the original extension;
+ * the transcription pipeline detects the actual format from the file content.
+ */
+export const audioUploadOptions: MulterOptions = {
+  storage: diskStorage({
+    destination: UPLOAD_DIR,
+    filename: (req, file, cb) =>
+      cb(
+        null,
+        `${randomUUID()}${path.extname(file.originalname).toLowerCase()}`,
+      ),
+  }),
+  limits: { fileSize: MAX_AUDIO_UPLOAD_SIZE },
+};
@@ -1,8 +1,13 @@
-import { NestFactory } from '@nestjs/core';
+import { NestFactory, Reflector } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { ConfigService } from '@nestjs/config';
 import { Logger } from '@nestjs/common';
 import helmet from 'helmet';
+import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { HttpExceptionFilter } from './common/filters/http-exception.filter';
+import { TransformInterceptor } from './common/interceptors/transform.interceptor';
+import { TimeoutInterceptor } from './common/interceptors/timeout.interceptor';
+import { API_KEY_HEADER } from './common/guards/api-key.guard';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
@@ -13,13 +18,42 @@ async function bootstrap() {
   const configService = app.get(ConfigService);
   const port = configService.get<number>('PORT', 3000);
   const environment = configService.get<string>('NODE_ENV', 'development');
+  const requestTimeout = configService.get<number>('REQUEST_TIMEOUT', 30000);
+  const uploadTimeoutPerMegabyte = configService.get<number>(
+    'UPLOAD_TIMEOUT_PER_MB',
+    15000,
+  );
 
   // Security
   app.use(helmet());
 
+  // HTTP API
+  app.useGlobalFilters(new HttpExceptionFilter());
+  app.useGlobalInterceptors(
+    new TransformInterceptor(),
+    new TimeoutInterceptor(
+      requestTimeout,
+      uploadTimeoutPerMegabyte,
+      app.get(Reflector),
+    ),
+  );
+
+  // API Documentation
+  const swaggerConfig = new DocumentBuilder()
+    .setTitle('Vox Relay API')
+    .setDescription('Voice transcription and email drafting API')
+    .setVersion('1.0')
+    .addApiKey(
+      { type: 'apiKey', in: 'header', name: API_KEY_HEADER },
+      'api-key',
+    )
+    .build();
+  const document = SwaggerModule.createDocument(app, swaggerConfig);
+  SwaggerModule.setup('docs', app, document);
+
   // Graceful Shutdown
   const signals = ['SIGTERM', 'SIGINT'];
-  signals.forEach(signal => {
+  signals.forEach((signal) => {
     process.on(signal, async () => {
       logger.log(`Received ${signal}, starting graceful shutdown`);
       try {
@@ -37,9 +71,10 @@ async function bootstrap() {
   await app.listen(port);
   logger.log(`🚀 Bot is running on port ${port}`);
   logger.log(`🌍 Environment: ${environment}`);
+  logger.log(`📚 API docs available at /docs`);
 }
 
-bootstrap().catch(error => {
+bootstrap().catch((error) => {
   const logger = new Logger('Bootstrap');
   logger.error('Error during application bootstrap:', error);
   process.exit(1);
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AccessService } from './access.service';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [ConfigModule, StorageModule],
+  providers: [AccessService],
+  exports: [AccessService],
+})
+export class AccessModule {}
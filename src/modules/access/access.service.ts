@@ -0,0 +1,363 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageService, Collection } from '../storage/storage.service';
+
+/**
+ * What a user may do, each role including the ones before it:
+ * transcribers get transcriptions only, senders can also write and send emails,
+ * admins can also manage who has access.
+ */
+export const ROLES = ['transcriber', 'sender', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/** What each role may do, for messages and pickers */
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  transcriber: 'transcribe voice messages',
+  sender: 'transcribe voice messages and send emails',
+  admin: 'everything, including managing access',
+};
+
+/**
+ * A user's access as decided by an admin.
+ *
+ * @interface AccessGrant
+ */
+interface AccessGrant {
+  status: 'allowed' | 'denied';
+  /** Role of allowed users */
+  role?: Role;
+  /** Name shown in /users */
+  name?: string;
+  /** Admin who made the decision */
+  decidedBy: number;
+  decidedAt: string;
+}
+
+/**
+ * A request for access waiting for an admin.
+ *
+ * @interface AccessRequest
+ */
+export interface AccessRequest {
+  userId: number;
+  /** Chat the request was made from, told about the decision */
+  chatId: number;
+  name: string;
+  username?: string;
+  requestedAt: Date;
+}
+
+/**
+ * A user known to the access list, as shown to admins.
+ *
+ * @interface AccessUser
+ */
+export interface AccessUser {
+  userId: number;
+  /** Role of the user; undefined if they are denied */
+  role?: Role;
+  name?: string;
+  /** "config" for users listed in ADMIN_IDS or ALLOWED_USER_IDS, "admin" for users an admin decided on */
+  source: 'config' | 'admin';
+}
+
+/**
+ * Reads a comma-separated list of Telegram IDs.
+ *
+ * @param {string} [value] - List such as "123, -100456"
+ * @returns {Set<number>} The IDs
+ */
+function parseIds(value?: string): Set<number> {
+  return new Set(
+    (value ?? '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean)
+      .map(Number)
+      .filter(Number.isInteger),
+  );
+}
+
+/**
+ * Checks whether a name is one of the roles.
+ *
+ * @param {string} name - Role name
+ * @returns {boolean} True if the name is a role
+ */
+export function isRole(name: string): name is Role {
+  return (ROLES as readonly string[]).includes(name);
+}
+
+/**
+ * Tells whether a role includes another.
+ *
+ * @param {Role | undefined} role - Role a user has, if any
+ * @param {Role} required - Role an action needs
+ * @returns {boolean} True if the role is at least the required one
+ */
+export function hasRole(role: Role | undefined, required: Role): boolean {
+  return role !== undefined && ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Service deciding who may use the bot and what for.
+ * Access comes from the ADMIN_IDS, ALLOWED_USER_IDS and ALLOWED_CHAT_IDS lists, and from admins
+ * allowing or denying users with /allow and /deny, which overrides the lists (except for ADMIN_IDS).
+ *
+ * @class AccessService
+ */
+@Injectable()
+export class AccessService {
+  private readonly logger = new Logger(AccessService.name);
+  private readonly grants: Collection<AccessGrant>;
+  private readonly requests: Collection<AccessRequest>;
+  private readonly adminIds: Set<number>;
+  private readonly allowedUserIds: Set<number>;
+  private readonly allowedChatIds: Set<number>;
+  private readonly defaultRole: Role;
+
+  /**
+   * Creates an instance of AccessService.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   * @param {StorageService} storageService - Service for persisting grants and requests
+   */
+  constructor(
+    private configService: ConfigService,
+    private storageService: StorageService,
+  ) {
+    this.grants = this.storageService.collection<AccessGrant>('access');
+    this.requests =
+      this.storageService.collection<AccessRequest>('access-requests');
+    this.adminIds = parseIds(this.configService.get<string>('ADMIN_IDS'));
+    this.allowedUserIds = parseIds(
+      this.configService.get<string>('ALLOWED_USER_IDS'),
+    );
+    this.allowedChatIds = parseIds(
+      this.configService.get<string>('ALLOWED_CHAT_IDS'),
+    );
+    this.defaultRole = this.configService.get<Role>('DEFAULT_ROLE', 'sender');
+
+    if (this.adminIds.size === 0) {
+      this.logger.warn(
+        'ADMIN_IDS is not configured, nobody can answer access requests',
+      );
+    }
+  }
+
+  /**
+   * Finds what a user may do in a chat.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {number} [chatId] - Telegram chat ID; members of allowed chats get the default role there
+   * @returns {Role | undefined} The user's role, or undefined if they have no access
+   */
+  getRole(userId: number, chatId?: number): Role | undefined {
+    if (this.adminIds.has(userId)) {
+      return 'admin';
+    }
+
+    const grant = this.grants.get(String(userId));
+    if (grant) {
+      return grant.status === 'allowed' ? grant.role : undefined;
+    }
+
+    if (
+      this.allowedUserIds.has(userId) ||
+      (chatId !== undefined && this.allowedChatIds.has(chatId))
+    ) {
+      return this.defaultRole;
+    }
+    return undefined;
+  }
+
+  /**
+   * Tells whether a user has at least a role in a chat.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {number | undefined} chatId - Telegram chat ID
+   * @param {Role} required - Role the action needs
+   * @returns {boolean} True if the user may go ahead
+   */
+  can(userId: number, chatId: number | undefined, required: Role): boolean {
+    return hasRole(this.getRole(userId, chatId), required);
+  }
+
+  /**
+   * Gets the role of users from the allowlists, also given by /allow when no role is named.
+   *
+   * @returns {Role} DEFAULT_ROLE
+   */
+  getDefaultRole(): Role {
+    return this.defaultRole;
+  }
+
+  /**
+   * Tells whether an admin has denied a user access.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {boolean} True if the user is denied
+   */
+  isDenied(userId: number): boolean {
+    return (
+      !this.adminIds.has(userId) &&
+      this.grants.get(String(userId))?.status === 'denied'
+    );
+  }
+
+  /**
+   * Gets the IDs of the admins listed in ADMIN_IDS, who are told about access requests.
+   *
+   * @returns {number[]} Admin user IDs
+   */
+  getAdminIds(): number[] {
+    return [...this.adminIds];
+  }
+
+  /**
+   * Records a request for access, unless the user already has one pending.
+   *
+   * @param {Omit<AccessRequest, 'requestedAt'>} request - Who is asking, and from which chat
+   * @returns {{ request: AccessRequest; created: boolean }} The pending request, and whether it is new
+   */
+  requestAccess(request: Omit<AccessRequest, 'requestedAt'>): {
+    request: AccessRequest;
+    created: boolean;
+  } {
+    const existing = this.getRequest(request.userId);
+    if (existing) {
+      return { request: existing, created: false };
+    }
+
+    const created: AccessRequest = { ...request, requestedAt: new Date() };
+    this.requests.set(String(request.userId), created);
+    this.logger.log(
+      `User ${request.userId} (${request.name}) requested access`,
+    );
+    return { request: created, created: true };
+  }
+
+  /**
+   * Gets a user's pending request.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {AccessRequest | undefined} The request, or undefined if there is none
+   */
+  getRequest(userId: number): AccessRequest | undefined {
+    const request = this.requests.get(String(userId));
+    return request
+      ? { ...request, requestedAt: new Date(request.requestedAt) }
+      : undefined;
+  }
+
+  /**
+   * Lists pending requests, oldest first.
+   *
+   * @returns {AccessRequest[]} Pending requests
+   */
+  listRequests(): AccessRequest[] {
+    return this.requests
+      .values()
+      .map((request) => ({
+        ...request,
+        requestedAt: new Date(request.requestedAt),
+      }))
+      .sort((a, b) => a.requestedAt.getTime() - b.requestedAt.getTime());
+  }
+
+  /**
+   * Gives a user a role, answering their pending request if they have one.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {Role} role - Role to give
+   * @param {number} adminId - Admin making the decision
+   * @returns {AccessRequest | undefined} The request that was answered, if any
+   * @throws {BadRequestException} If the user is an admin from ADMIN_IDS
+   */
+  allow(
+    userId: number,
+    role: Role,
+    adminId: number,
+  ): AccessRequest | undefined {
+    return this.decide(userId, { status: 'allowed', role }, adminId);
+  }
+
+  /**
+   * Takes a user's access away, overriding the allowlists, and rejects their pending request.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {number} adminId - Admin making the decision
+   * @returns {AccessRequest | undefined} The request that was rejected, if any
+   * @throws {BadRequestException} If the user is an admin from ADMIN_IDS
+   */
+  deny(userId: number, adminId: number): AccessRequest | undefined {
+    return this.decide(userId, { status: 'denied' }, adminId);
+  }
+
+  /**
+   * Records an admin's decision about a user.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {Pick<AccessGrant, 'status' | 'role'>} decision - Allowed with a role, or denied
+   * @param {number} adminId - Admin making the decision
+   * @returns {AccessRequest | undefined} The request that was answered, if any
+   * @throws {BadRequestException} If the user is an admin from ADMIN_IDS
+   * @private
+   */
+  private decide(
+    userId: number,
+    decision: Pick<AccessGrant, 'status' | 'role'>,
+    adminId: number,
+  ): AccessRequest | undefined {
+    if (this.adminIds.has(userId)) {
+      throw new BadRequestException(
+        `User ${userId} is an admin from ADMIN_IDS and can only be changed in the configuration`,
+      );
+    }
+
+    const request = this.getRequest(userId);
+    this.grants.set(String(userId), {
+      ...decision,
+      name: request?.name ?? this.grants.get(String(userId))?.name,
+      decidedBy: adminId,
+      decidedAt: new Date().toISOString(),
+    });
+    this.requests.delete(String(userId));
+    this.logger.log(
+      `Admin ${adminId} ${decision.status === 'allowed' ? `allowed user ${userId} as ${decision.role}` : `denied user ${userId}`}`,
+    );
+    return request;
+  }
+
+  /**
+   * Lists everyone with a role or a decision: configured admins and users, then admin decisions.
+   *
+   * @returns {AccessUser[]} Users sorted by ID within each source
+   */
+  list(): AccessUser[] {
+    const decided = this.grants.entries().map(([userId, grant]) => ({
+      userId: Number(userId),
+      role: grant.status === 'allowed' ? grant.role : undefined,
+      name: grant.name,
+      source: 'admin' as const,
+    }));
+    const configured = [...this.adminIds, ...this.allowedUserIds]
+      .filter(
+        (userId, index, ids) =>
+          ids.indexOf(userId) === index &&
+          (this.adminIds.has(userId) || !this.grants.has(String(userId))),
+      )
+      .map((userId) => ({
+        userId,
+        role: this.adminIds.has(userId) ? ('admin' as const) : this.defaultRole,
+        source: 'config' as const,
+      }));
+
+    const byId = (a: AccessUser, b: AccessUser) => a.userId - b.userId;
+    return [
+      ...configured.sort(byId),
+      ...decided.filter((user) => !this.adminIds.has(user.userId)).sort(byId),
+    ];
+  }
+}
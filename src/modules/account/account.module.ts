@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AccountService } from './account.service';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [ConfigModule, StorageModule],
+  providers: [AccountService],
+  exports: [AccountService],
+})
+export class AccountModule {}
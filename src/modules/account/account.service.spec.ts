@@ -0,0 +1,65 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StorageService } from '../storage/storage.service';
+import { AccountService } from './account.service';
+
+const SMTP_SETTINGS = {
+  SMTP_HOST: 'smtp.example.com',
+  SMTP_PORT: 587,
+  SMTP_USER: 'bot@example.com',
+  SMTP_PASS: 'secret',
+};
+
+describe('AccountService', () => {
+  let dataDir: string;
+
+  function createService(settings: Record<string, unknown>): AccountService {
+    const config = new ConfigService({ DATA_DIR: dataDir, ...settings });
+    return new AccountService(config, new StorageService(config));
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'accounts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('shared account', () => {
+    it('is not used unless an admin allows it', () => {
+      const service = createService(SMTP_SETTINGS);
+
+      expect(service.hasSharedAccount()).toBe(false);
+      expect(() => service.resolve(42)).toThrow(BadRequestException);
+      expect(() => service.resolve()).toThrow(BadRequestException);
+    });
+
+    it('sends for users without an account and the HTTP API when allowed', () => {
+      const service = createService({
+        ...SMTP_SETTINGS,
+        ALLOW_SHARED_SMTP: true,
+      });
+
+      expect(service.hasSharedAccount()).toBe(true);
+      expect(service.resolve(42)).toMatchObject({
+        user: 'bot@example.com',
+        key: 'shared',
+      });
+      expect(service.resolve().key).toBe('shared');
+    });
+
+    it('is missing when allowed but not configured', () => {
+      const service = createService({ ALLOW_SHARED_SMTP: true });
+
+      expect(service.hasSharedAccount()).toBe(false);
+    });
+  });
+});
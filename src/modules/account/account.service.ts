@@ -0,0 +1,301 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageService, Collection } from '../storage/storage.service';
+import { deriveKey, encryptSecret, decryptSecret } from './credential-cipher';
+
+/**
+ * Connection settings of an SMTP account.
+ *
+ * @interface SmtpSettings
+ */
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  /** Use TLS from the start (port 465) rather than upgrading with STARTTLS */
+  secure: boolean;
+  /** Login, usually the email address */
+  user: string;
+  pass: string;
+  /** Address emails are sent from; the login when unset */
+  from?: string;
+}
+
+/**
+ * An account emails can be sent from, with its password decrypted.
+ *
+ * @interface SenderAccount
+ */
+export interface SenderAccount extends SmtpSettings {
+  /** Key of the account's connection in the transporter pool: "user:<id>" or "shared" */
+  key: string;
+  /** Changes whenever the settings do, so stale pooled connections are replaced */
+  revision: string;
+}
+
+/**
+ * A user's linked account as shown to them; the password never leaves the service.
+ *
+ * @interface LinkedAccount
+ */
+export interface LinkedAccount {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  from?: string;
+  /** When the login was last checked against the server */
+  verifiedAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A linked account as persisted: the password is encrypted and dates are ISO strings.
+ *
+ * @interface StoredAccount
+ */
+interface StoredAccount {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  /** Password encrypted with ACCOUNT_ENCRYPTION_KEY */
+  pass: string;
+  from?: string;
+  verifiedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Service responsible for the SMTP accounts emails are sent from.
+ * Each Telegram user links their own mailbox; the global SMTP_* account is only used
+ * for users without one, and for the HTTP API, when ALLOW_SHARED_SMTP is set.
+ *
+ * @class AccountService
+ */
+@Injectable()
+export class AccountService {
+  private readonly logger = new Logger(AccountService.name);
+  private readonly accounts: Collection<StoredAccount>;
+  private readonly encryptionKey?: Buffer;
+  private readonly shared?: SmtpSettings;
+
+  /**
+   * Creates an instance of AccountService.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   * @param {StorageService} storageService - Service for persisting accounts
+   */
+  constructor(
+    private configService: ConfigService,
+    private storageService: StorageService,
+  ) {
+    this.accounts = this.storageService.collection<StoredAccount>('accounts');
+
+    const secret = this.configService.get<string>('ACCOUNT_ENCRYPTION_KEY');
+    if (secret) {
+      this.encryptionKey = deriveKey(secret);
+    } else {
+      this.logger.warn(
+        'ACCOUNT_ENCRYPTION_KEY is not set, users cannot connect their own email accounts',
+      );
+    }
+
+    this.shared = this.loadSharedAccount();
+  }
+
+  /**
+   * Reads the global SMTP account, if it is configured and users may send from it.
+   *
+   * @returns {SmtpSettings | undefined} The shared account
+   * @private
+   */
+  private loadSharedAccount(): SmtpSettings | undefined {
+    if (!this.configService.get<boolean>('ALLOW_SHARED_SMTP', false)) {
+      return undefined;
+    }
+
+    const host = this.configService.get<string>('SMTP_HOST');
+    const port = this.configService.get<number>('SMTP_PORT');
+    const user = this.configService.get<string>('SMTP_USER');
+    const pass = this.configService.get<string>('SMTP_PASS');
+    if (!host || !port || !user || !pass) {
+      this.logger.warn(
+        'ALLOW_SHARED_SMTP is set but the SMTP_* settings are incomplete, there is no shared account',
+      );
+      return undefined;
+    }
+
+    return {
+      host,
+      port,
+      secure: this.configService.get<boolean>('SMTP_SECURE', false),
+      user,
+      pass,
+    };
+  }
+
+  /**
+   * Tells whether users can link their own accounts, which needs an encryption key.
+   *
+   * @returns {boolean} True if accounts can be linked
+   */
+  canLink(): boolean {
+    return this.encryptionKey !== undefined;
+  }
+
+  /**
+   * Tells whether users without an account of their own can send from the global account.
+   *
+   * @returns {boolean} True if the shared account is available
+   */
+  hasSharedAccount(): boolean {
+    return this.shared !== undefined;
+  }
+
+  /**
+   * Gets the account a user linked.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {LinkedAccount | undefined} The account, or undefined if none is linked
+   */
+  get(userId: number): LinkedAccount | undefined {
+    const stored = this.accounts.get(String(userId));
+    return stored ? this.toLinkedAccount(stored) : undefined;
+  }
+
+  /**
+   * Links an account to a user, replacing any previous one. The login should have been verified.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {SmtpSettings} settings - Account settings; the password is encrypted before it is stored
+   * @returns {LinkedAccount} The linked account
+   * @throws {BadRequestException} If no encryption key is configured
+   */
+  link(userId: number, settings: SmtpSettings): LinkedAccount {
+    if (!this.encryptionKey) {
+      throw new BadRequestException(
+        'Linking email accounts is not enabled on this server',
+      );
+    }
+
+    const now = new Date().toISOString();
+    const stored: StoredAccount = {
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      user: settings.user,
+      pass: encryptSecret(settings.pass, this.encryptionKey),
+      from: settings.from,
+      verifiedAt: now,
+      createdAt: this.accounts.get(String(userId))?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.accounts.set(String(userId), stored);
+    this.logger.log(
+      `User ${userId} linked ${settings.user} via ${settings.host}:${settings.port}`,
+    );
+    return this.toLinkedAccount(stored);
+  }
+
+  /**
+   * Removes a user's linked account.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {boolean} True if an account was removed
+   */
+  unlink(userId: number): boolean {
+    const removed = this.accounts.delete(String(userId));
+    if (removed) {
+      this.logger.log(`User ${userId} unlinked their email account`);
+    }
+    return removed;
+  }
+
+  /**
+   * Finds the account a user's emails are sent from: their own, else the shared one if allowed.
+   *
+   * @param {number} [userId] - Telegram user ID; omitted for clients without a user, such as the HTTP API
+   * @returns {SenderAccount} The account with its password decrypted
+   * @throws {BadRequestException} If there is no account to send from, or the stored one cannot be decrypted
+   */
+  resolve(userId?: number): SenderAccount {
+    const stored =
+      userId !== undefined ? this.accounts.get(String(userId)) : undefined;
+
+    if (stored) {
+      if (!this.encryptionKey) {
+        throw new BadRequestException(
+          'Email accounts cannot be used: the server has no encryption key',
+        );
+      }
+
+      let pass: string;
+      try {
+        pass = decryptSecret(stored.pass, this.encryptionKey);
+      } catch (error) {
+        this.logger.error(
+          `Failed to decrypt the account of user ${userId}: ${(error as Error).message}`,
+        );
+        throw new BadRequestException(
+          'Your email account could not be read, connect it again with /connect',
+        );
+      }
+
+      return {
+        host: stored.host,
+        port: stored.port,
+        secure: stored.secure,
+        user: stored.user,
+        pass,
+        from: stored.from,
+        key: `user:${userId}`,
+        revision: stored.updatedAt,
+      };
+    }
+
+    if (this.shared) {
+      return { ...this.shared, key: 'shared', revision: 'shared' };
+    }
+
+    throw new BadRequestException(
+      userId !== undefined
+        ? 'No email account to send from, connect yours with /connect'
+        : 'No email account to send from: the shared SMTP account is not enabled',
+    );
+  }
+
+  /**
+   * Gets the address a user's emails are sent from, without failing when there is none.
+   *
+   * @param {number} [userId] - Telegram user ID
+   * @returns {string | undefined} The sender address
+   */
+  getSenderAddress(userId?: number): string | undefined {
+    const stored =
+      userId !== undefined ? this.accounts.get(String(userId)) : undefined;
+    if (stored) {
+      return stored.from ?? stored.user;
+    }
+    return this.shared ? (this.shared.from ?? this.shared.user) : undefined;
+  }
+
+  /**
+   * Maps a stored account to what is shown to its owner.
+   *
+   * @param {StoredAccount} stored - Stored account
+   * @returns {LinkedAccount} The account without its password
+   * @private
+   */
+  private toLinkedAccount(stored: StoredAccount): LinkedAccount {
+    return {
+      host: stored.host,
+      port: stored.port,
+      secure: stored.secure,
+      user: stored.user,
+      from: stored.from,
+      verifiedAt: new Date(stored.verifiedAt),
+      updatedAt: new Date(stored.updatedAt),
+    };
+  }
+}
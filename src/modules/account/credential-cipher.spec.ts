@@ -0,0 +1,68 @@
+import { decryptSecret, deriveKey, encryptSecret } from './credential-cipher';
+
+describe('credential cipher', () => {
+  const key = deriveKey('server secret');
+
+  it('derives the same 256-bit key from the same secret', () => {
+    expect(key).toHaveLength(32);
+    expect(deriveKey('server secret').equals(key)).toBe(true);
+    expect(deriveKey('another secret').equals(key)).toBe(false);
+  });
+
+  it.each(['app-password', '', 'pässwörd 🔑'])(
+    'decrypts what it encrypted: %j',
+    (secret) => {
+      expect(decryptSecret(encryptSecret(secret, key), key)).toBe(secret);
+    },
+  );
+
+  it('encrypts the same secret differently every time', () => {
+    const first = encryptSecret('app-password', key);
+    const second = encryptSecret('app-password', key);
+
+    expect(first).not.toBe(second);
+    expect(first).not.toContain('app-password');
+    expect(first.split(':')).toHaveLength(3);
+  });
+
+  it('rejects a secret encrypted with another key', () => {
+    const payload = encryptSecret('app-password', deriveKey('old secret'));
+    expect(() => decryptSecret(payload, key)).toThrow();
+  });
+
+  it('rejects tampered ciphertext', () => {
+    const [iv, tag, encrypted] = encryptSecret('app-password', key).split(':');
+    const bytes = Buffer.from(encrypted, 'base64');
+    bytes[0] ^= 1;
+
+    expect(() =>
+      decryptSecret([iv, tag, bytes.toString('base64')].join(':'), key),
+    ).toThrow();
+  });
+
+  it('rejects a tampered or truncated tag', () => {
+    const [iv, tag, encrypted] = encryptSecret('app-password', key).split(':');
+    const bytes = Buffer.from(tag, 'base64');
+    bytes[0] ^= 1;
+
+    expect(() =>
+      decryptSecret([iv, bytes.toString('base64'), encrypted].join(':'), key),
+    ).toThrow();
+    expect(() =>
+      decryptSecret(
+        [
+          iv,
+          Buffer.from(tag, 'base64').subarray(0, 4).toString('base64'),
+          encrypted,
+        ].join(':'),
+        key,
+      ),
+    ).toThrow();
+  });
+
+  it('rejects a malformed payload', () => {
+    expect(() => decryptSecret('not encrypted', key)).toThrow(
+      'Malformed encrypted secret',
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from 'crypto';
+
+/** AES-256-GCM: authenticated, so a tampered or wrongly keyed secret fails to decrypt instead of decrypting to garbage */
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_SALT = 'vox-relay:credentials';
+
+/**
+ * Derives the 256-bit encryption key from the server secret.
+ *
+ * @param {string} secret - Server secret, e.g. ACCOUNT_ENCRYPTION_KEY
+ * @returns {Buffer} Encryption key
+ */
+export function deriveKey(secret: string): Buffer {
+  return scryptSync(secret, KEY_SALT, 32);
+}
+
+/**
+ * Encrypts a secret for storage.
+ *
+ * @param {string} plain - Secret to encrypt
+ * @param {Buffer} key - Key from deriveKey
+ * @returns {string} "iv:tag:ciphertext", each part base64
+ */
+export function encryptSecret(plain: string, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([
+    cipher.update(plain, 'utf8'),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString('base64'))
+    .join(':');
+}
+
+/**
+ * Decrypts a secret written by encryptSecret.
+ *
+ * @param {string} payload - "iv:tag:ciphertext"
+ * @param {Buffer} key - Key from deriveKey
+ * @returns {string} The secret
+ * @throws {Error} If the payload is malformed, was tampered with or was encrypted with another key
+ */
+export function decryptSecret(payload: string, key: Buffer): string {
+  const [iv, tag, encrypted] = payload
+    .split(':')
+    .map((part) => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !encrypted) {
+    throw new Error('Malformed encrypted secret');
+  }
+
+  // A fixed tag length, so a truncated tag cannot weaken the authentication
+  const decipher = createDecipheriv(ALGORITHM, key, iv, {
+    authTagLength: TAG_LENGTH,
+  });
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    'utf8',
+  );
+}
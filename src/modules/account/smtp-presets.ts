@@ -0,0 +1,73 @@
+/**
+ * SMTP server of a well-known mail provider.
+ *
+ * @interface SmtpPreset
+ */
+export interface SmtpPreset {
+  provider: string;
+  host: string;
+  port: number;
+  /** IMAP server new mail is read from, over TLS */
+  imap: { host: string; port: number };
+  /** Extra advice shown when connecting, e.g. that an app password is needed */
+  hint?: string;
+}
+
+const GMAIL: SmtpPreset = {
+  provider: 'Gmail',
+  host: 'smtp.gmail.com',
+  port: 465,
+  imap: { host: 'imap.gmail.com', port: 993 },
+  hint: 'Gmail needs an app password: https://myaccount.google.com/apppasswords',
+};
+const OUTLOOK: SmtpPreset = {
+  provider: 'Outlook',
+  host: 'smtp.office365.com',
+  port: 587,
+  imap: { host: 'outlook.office365.com', port: 993 },
+};
+const YAHOO: SmtpPreset = {
+  provider: 'Yahoo',
+  host: 'smtp.mail.yahoo.com',
+  port: 465,
+  imap: { host: 'imap.mail.yahoo.com', port: 993 },
+  hint: 'Yahoo needs an app password, generated in Account security',
+};
+const ICLOUD: SmtpPreset = {
+  provider: 'iCloud',
+  host: 'smtp.mail.me.com',
+  port: 587,
+  imap: { host: 'imap.mail.me.com', port: 993 },
+  hint: 'iCloud needs an app-specific password: https://appleid.apple.com',
+};
+const FASTMAIL: SmtpPreset = {
+  provider: 'Fastmail',
+  host: 'smtp.fastmail.com',
+  port: 465,
+  imap: { host: 'imap.fastmail.com', port: 993 },
+  hint: 'Fastmail needs an app password, created under Privacy & Security',
+};
+
+/** Presets by the domain of the email address */
+const PRESETS: Record<string, SmtpPreset> = {
+  'gmail.com': GMAIL,
+  'googlemail.com': GMAIL,
+  'outlook.com': OUTLOOK,
+  'hotmail.com': OUTLOOK,
+  'live.com': OUTLOOK,
+  'yahoo.com': YAHOO,
+  'icloud.com': ICLOUD,
+  'me.com': ICLOUD,
+  'fastmail.com': FASTMAIL,
+};
+
+/**
+ * Finds the SMTP server of the provider hosting an email address.
+ *
+ * @param {string} address - Email address
+ * @returns {SmtpPreset | undefined} The provider's server, or undefined for unknown domains
+ */
+export function findSmtpPreset(address: string): SmtpPreset | undefined {
+  const domain = address.split('@').pop()?.trim().toLowerCase();
+  return domain ? PRESETS[domain] : undefined;
+}
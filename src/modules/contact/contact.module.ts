@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ContactService } from './contact.service';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [StorageModule],
+  providers: [ContactService],
+  exports: [ContactService],
+})
+export class ContactModule {}
@@ -0,0 +1,205 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { z } from 'zod';
+import { StorageService, Collection } from '../storage/storage.service';
+
+/**
+ * An entry in a user's personal address book.
+ *
+ * @interface Contact
+ */
+export interface Contact {
+  /** Name as the user would say it (e.g. "John Smith") */
+  name: string;
+  /** Email address */
+  email: string;
+  /** Optional hint used to tell contacts apart (e.g. "finance") */
+  description?: string;
+  /** ISO-639-1 code of the language emails to this contact are translated into */
+  language?: string;
+}
+
+/**
+ * Service responsible for per-user address books.
+ * Contacts are persisted per Telegram user and used to resolve spoken names to email addresses.
+ *
+ * @class ContactService
+ */
+@Injectable()
+export class ContactService {
+  private readonly logger = new Logger(ContactService.name);
+  private readonly contacts: Collection<Contact[]>;
+
+  // Validation schemas
+  private readonly contactSchema = z.object({
+    name: z.string().trim().min(1, 'Name cannot be empty'),
+    email: z.string().trim().toLowerCase().email('Invalid email address'),
+    description: z.string().trim().min(1).optional(),
+    language: z.string().trim().toLowerCase().length(2).optional(),
+  });
+
+  /**
+   * Creates an instance of ContactService.
+   *
+   * @param {StorageService} storageService - Service for persisting contacts
+   */
+  constructor(private storageService: StorageService) {
+    this.contacts = this.storageService.collection<Contact[]>('contacts');
+  }
+
+  /**
+   * Lists a user's contacts sorted by name.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {Contact[]} The user's contacts
+   */
+  list(userId: number): Contact[] {
+    return [...(this.contacts.get(String(userId)) ?? [])].sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  /**
+   * Adds a contact to a user's address book.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {Contact} contact - Contact to add
+   * @returns {Contact} The stored contact
+   * @throws {BadRequestException} If the contact is invalid
+   * @throws {ConflictException} If a contact with the same name and email already exists
+   */
+  add(userId: number, contact: Contact): Contact {
+    const result = this.contactSchema.safeParse(contact);
+    if (!result.success) {
+      throw new BadRequestException(
+        result.error.errors.map((e) => e.message).join(', '),
+      );
+    }
+
+    const validated = result.data;
+    const existing = this.contacts.get(String(userId)) ?? [];
+    const duplicate = existing.some(
+      (c) =>
+        c.email === validated.email &&
+        c.name.toLowerCase() === validated.name.toLowerCase(),
+    );
+    if (duplicate) {
+      throw new ConflictException('Contact already exists');
+    }
+
+    this.contacts.set(String(userId), [...existing, validated]);
+    this.logger.log(`Contact added for user ${userId}`);
+
+    return validated;
+  }
+
+  /**
+   * Removes contacts matching a name or email address exactly (case-insensitive).
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {string} nameOrEmail - Contact name or email address
+   * @returns {Contact[]} The removed contacts
+   */
+  remove(userId: number, nameOrEmail: string): Contact[] {
+    const key = nameOrEmail.trim().toLowerCase();
+    const existing = this.contacts.get(String(userId)) ?? [];
+    const removed = existing.filter(
+      (c) => c.email === key || c.name.toLowerCase() === key,
+    );
+
+    if (removed.length > 0) {
+      this.contacts.set(
+        String(userId),
+        existing.filter((c) => !removed.includes(c)),
+      );
+      this.logger.log(
+        `${removed.length} contact(s) removed for user ${userId}`,
+      );
+    }
+
+    return removed;
+  }
+
+  /**
+   * Sets or clears the language emails to contacts are translated into, for every contact
+   * matching a name or email address exactly (case-insensitive).
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {string} nameOrEmail - Contact name or email address
+   * @param {string} [language] - ISO-639-1 code, or undefined to send emails as written
+   * @returns {Contact[]} The updated contacts
+   */
+  setLanguage(
+    userId: number,
+    nameOrEmail: string,
+    language?: string,
+  ): Contact[] {
+    const key = nameOrEmail.trim().toLowerCase();
+    const updated: Contact[] = [];
+    const contacts = (this.contacts.get(String(userId)) ?? []).map((c) => {
+      if (c.email !== key && c.name.toLowerCase() !== key) {
+        return c;
+      }
+      const contact = { ...c, language };
+      updated.push(contact);
+      return contact;
+    });
+
+    if (updated.length > 0) {
+      this.contacts.set(String(userId), contacts);
+      this.logger.log(
+        `Language of ${updated.length} contact(s) set for user ${userId}`,
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Finds the language emails to some addresses are translated into: the one their contacts share.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {string[]} addresses - Recipient addresses
+   * @returns {string | undefined} ISO-639-1 code, or undefined if no contact has one or they differ
+   */
+  getPreferredLanguage(
+    userId: number,
+    addresses: string[],
+  ): string | undefined {
+    const languages = new Set(
+      this.list(userId)
+        .filter((c) => c.language && addresses.includes(c.email))
+        .map((c) => c.language),
+    );
+    return languages.size === 1 ? [...languages][0] : undefined;
+  }
+
+  /**
+   * Finds contacts whose name or description contains every word of the query.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {string} query - Spoken name, e.g. "John from finance"
+   * @returns {Contact[]} Matching contacts
+   */
+  search(userId: number, query: string): Contact[] {
+    const stopWords = new Set(['from', 'in', 'at', 'the', 'of']);
+    const words = query
+      .toLowerCase()
+      .split(/\s+/)
+      .filter((word) => word && !stopWords.has(word));
+
+    if (words.length === 0) {
+      return [];
+    }
+
+    return this.list(userId).filter((contact) => {
+      const haystack =
+        `${contact.name} ${contact.description ?? ''} ${contact.email}`.toLowerCase();
+      return words.every((word) => haystack.includes(word));
+    });
+  }
+}
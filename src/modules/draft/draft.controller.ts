@@ -0,0 +1,375 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Param,
+  Body,
+  ParseUUIDPipe,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+  BadRequestException,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiConsumes,
+  ApiBody,
+  ApiSecurity,
+  ApiOkResponse,
+  ApiAcceptedResponse,
+  ApiCreatedResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiUnauthorizedResponse,
+  ApiTooManyRequestsResponse,
+} from '@nestjs/swagger';
+import * as fs from 'fs';
+import { DraftService, Draft, DraftSource } from './draft.service';
+import { GptService } from '../gpt/gpt.service';
+import { WhisperService } from '../whisper/whisper.service';
+import { PreferenceService } from '../preference/preference.service';
+import { UsageService } from '../usage/usage.service';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import { UploadTimeout } from '../../common/interceptors/timeout.interceptor';
+import { audioUploadOptions } from '../../common/uploads/audio-upload.options';
+import { CreateDraftDto, createDraftSchema } from './dto/create-draft.dto';
+import { UpdateDraftDto, updateDraftSchema } from './dto/update-draft.dto';
+import { DraftResponseDto, DraftPreviewDto } from './dto/draft-response.dto';
+
+/**
+ * HTTP API for reviewing and sending email drafts.
+ * Drafts share their lifecycle with Telegram, so a draft started in a chat can be finished here.
+ *
+ * @class DraftController
+ */
+@ApiTags('drafts')
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ description: 'Missing or invalid API key' })
+@UseGuards(ApiKeyGuard)
+@Controller('drafts')
+export class DraftController {
+  constructor(
+    private draftService: DraftService,
+    private gptService: GptService,
+    private whisperService: WhisperService,
+    private preferenceService: PreferenceService,
+    private usageService: UsageService,
+  ) {}
+
+  /**
+   * Creates a draft from dictated text or an uploaded recording.
+   *
+   * @param {Express.Multer.File | undefined} file - Optional audio file
+   * @param {CreateDraftDto} body - Text and attachment choices
+   * @returns {Promise<DraftResponseDto>} The new draft
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create a draft from text or an audio file' })
+  @ApiConsumes('application/json', 'multipart/form-data')
+  @ApiBody({ type: CreateDraftDto })
+  @ApiCreatedResponse({ type: DraftResponseDto })
+  @ApiTooManyRequestsResponse({ description: 'Audio quota used up' })
+  @UploadTimeout()
+  @UseInterceptors(FileInterceptor('file', audioUploadOptions))
+  async create(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body(new ZodValidationPipe(createDraftSchema)) body: CreateDraftDto,
+  ): Promise<DraftResponseDto> {
+    let ownedByDraft = false;
+
+    try {
+      if (!file && !body.text) {
+        throw new BadRequestException(
+          'Either text or an audio file is required',
+        );
+      }
+
+      if (file) {
+        this.usageService.assertWithinQuota(undefined, 'audio');
+      }
+      const transcription = file
+        ? await this.whisperService.transcribe(file.path, {
+            language: body.language,
+          })
+        : undefined;
+      if (transcription) {
+        this.usageService.record(undefined, {
+          audioSeconds: transcription.duration,
+        });
+      }
+      const { text: transcript, language } = transcription ?? {
+        text: body.text!,
+        language: body.language,
+      };
+
+      const source: DraftSource = {
+        transcript,
+        language,
+        audioPath: file?.path,
+      };
+      const extraction = await this.gptService.extractEmailFields(
+        transcript,
+        undefined,
+        {
+          language,
+          timezone: body.timezone ?? this.preferenceService.getTimezone(),
+        },
+      );
+      this.usageService.recordTokens(undefined, extraction);
+      const email = {
+        ...extraction.data,
+        translateTo: body.translateTo ?? extraction.data.translateTo,
+      };
+      const { draft } = this.draftService.create(email, {
+        channel: 'api',
+        source,
+        attachments: {
+          recording: Boolean(file) && body.attachRecording,
+          transcript: body.attachTranscript,
+        },
+        template: body.template,
+        signature: body.signature,
+      });
+      ownedByDraft = true;
+
+      return this.toResponse(await this.translate(draft));
+    } finally {
+      if (file && !ownedByDraft && fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+    }
+  }
+
+  /**
+   * Retrieves a draft.
+   *
+   * @param {string} id - Draft ID
+   * @returns {DraftResponseDto} The draft
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a draft' })
+  @ApiOkResponse({ type: DraftResponseDto })
+  @ApiNotFoundResponse({ description: 'Draft not found' })
+  findOne(@Param('id', ParseUUIDPipe) id: string): DraftResponseDto {
+    return this.toResponse(this.draftService.get(id));
+  }
+
+  /**
+   * Renders a draft the way its email will be sent.
+   *
+   * @param {string} id - Draft ID
+   * @returns {DraftPreviewDto} HTML and plain-text bodies
+   */
+  @Get(':id/preview')
+  @ApiOperation({ summary: 'Render a draft as it will be sent' })
+  @ApiOkResponse({ type: DraftPreviewDto })
+  @ApiNotFoundResponse({ description: 'Draft not found' })
+  preview(@Param('id', ParseUUIDPipe) id: string): DraftPreviewDto {
+    return this.draftService.render(this.draftService.get(id));
+  }
+
+  /**
+   * Updates a pending draft. An instruction is applied with GPT first, then explicit fields override the result.
+   *
+   * @param {string} id - Draft ID
+   * @param {UpdateDraftDto} body - Changes to apply
+   * @returns {Promise<DraftResponseDto>} The updated draft
+   */
+  @Patch(':id')
+  @ApiOperation({ summary: 'Edit a pending draft' })
+  @ApiOkResponse({ type: DraftResponseDto })
+  @ApiNotFoundResponse({ description: 'Draft not found' })
+  @ApiConflictResponse({ description: 'Draft is no longer pending' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(updateDraftSchema)) body: UpdateDraftDto,
+  ): Promise<DraftResponseDto> {
+    let draft = this.draftService.get(id);
+    const {
+      instruction,
+      attachments,
+      template,
+      signature,
+      sendAt: requestedSendAt,
+      translateTo,
+      useTranslation,
+      ...fields
+    } = body;
+
+    let { email, unresolvedRecipients, sendAt } = draft;
+    if (instruction) {
+      const revision = await this.gptService.reviseEmail(
+        email,
+        instruction,
+        undefined,
+        {
+          timezone: this.preferenceService.getTimezone(draft.userId),
+          sendAt,
+        },
+      );
+      this.usageService.recordTokens(draft.userId, revision);
+      ({ email, unresolvedRecipients, sendAt } = revision.data);
+    }
+    if (requestedSendAt !== undefined) {
+      sendAt = requestedSendAt ? new Date(requestedSendAt) : undefined;
+    }
+
+    // Explicit recipient lists settle any open question about that list
+    email = { ...email, ...fields };
+    unresolvedRecipients = unresolvedRecipients.filter(
+      (recipient) => !fields[recipient.field],
+    );
+
+    if (
+      instruction ||
+      requestedSendAt !== undefined ||
+      Object.keys(fields).length > 0
+    ) {
+      draft = this.draftService.revise(id, {
+        email,
+        unresolvedRecipients,
+        sendAt,
+      });
+    }
+
+    if (attachments) {
+      draft = this.draftService.update(id, {
+        attachments: { ...draft.attachments, ...attachments },
+      });
+    }
+
+    if (template || signature !== undefined) {
+      draft = this.draftService.update(id, {
+        template: template ?? draft.template,
+        signature:
+          signature === undefined ? draft.signature : (signature ?? undefined),
+      });
+    }
+
+    if (translateTo !== undefined) {
+      const kept =
+        translateTo !== null && draft.translation?.language === translateTo;
+      draft = this.draftService.update(id, {
+        translateTo,
+        translation: kept ? draft.translation : undefined,
+        useTranslation: kept,
+      });
+    }
+    draft = await this.translate(draft);
+
+    if (useTranslation !== undefined) {
+      if (useTranslation && !draft.translation) {
+        throw new BadRequestException('The draft has no translation');
+      }
+      draft = this.draftService.update(id, { useTranslation });
+    }
+
+    return this.toResponse(draft);
+  }
+
+  /**
+   * Sends a pending draft. A draft is only ever sent once; its email is delivered
+   * through the outbox, and the draft becomes sent once delivery succeeds.
+   *
+   * @param {string} id - Draft ID
+   * @returns {DraftResponseDto} The sending draft
+   */
+  @Post(':id/send')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Send a pending draft' })
+  @ApiAcceptedResponse({
+    type: DraftResponseDto,
+    description: 'Email queued in the outbox',
+  })
+  @ApiNotFoundResponse({ description: 'Draft not found' })
+  @ApiConflictResponse({
+    description: 'Draft is already sent, sending, cancelled or expired',
+  })
+  send(@Param('id', ParseUUIDPipe) id: string): DraftResponseDto {
+    return this.toResponse(this.draftService.send(id, 'api'));
+  }
+
+  /**
+   * Cancels a pending draft.
+   *
+   * @param {string} id - Draft ID
+   * @returns {DraftResponseDto} The cancelled draft
+   */
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a pending draft' })
+  @ApiOkResponse({ type: DraftResponseDto })
+  @ApiNotFoundResponse({ description: 'Draft not found' })
+  @ApiConflictResponse({ description: 'Draft is no longer pending' })
+  cancel(@Param('id', ParseUUIDPipe) id: string): DraftResponseDto {
+    return this.toResponse(this.draftService.cancel(id, 'api'));
+  }
+
+  /**
+   * Translates a draft into the language it should be sent in, unless it already is.
+   *
+   * @param {Draft} draft - Draft to translate
+   * @returns {Promise<Draft>} The draft, with its translation if it needs one
+   * @private
+   */
+  private async translate(draft: Draft): Promise<Draft> {
+    const language = this.draftService.getPendingTranslation(draft);
+    if (!language) {
+      return draft;
+    }
+
+    const translation = await this.gptService.translateEmail(
+      draft.email,
+      language,
+    );
+    this.usageService.recordTokens(draft.userId, translation);
+    return this.draftService.setTranslation(draft.id, {
+      language,
+      ...translation.data,
+    });
+  }
+
+  /**
+   * Maps a draft to its public representation, leaving out chat internals and file paths.
+   *
+   * @param {Draft} draft - Draft to map
+   * @returns {DraftResponseDto} Public draft representation
+   * @private
+   */
+  private toResponse(draft: Draft): DraftResponseDto {
+    return {
+      id: draft.id,
+      status: draft.status,
+      channel: draft.channel,
+      email: draft.email,
+      unresolvedRecipients: draft.unresolvedRecipients.map((recipient) => ({
+        field: recipient.field,
+        name: recipient.name,
+        candidates: recipient.candidates.map((contact) => contact.email),
+      })),
+      missingFields: this.draftService.getMissingFields(draft),
+      transcript: draft.source?.transcript,
+      language: draft.source?.language,
+      translateTo: draft.translateTo ?? undefined,
+      translation: draft.translation,
+      useTranslation: draft.useTranslation,
+      attachments: draft.attachments,
+      revisions: draft.revisions.length,
+      template: draft.template,
+      signature: draft.signature,
+      sendAt: draft.sendAt,
+      outboxId: draft.outboxId,
+      sentMessageId: draft.sentMessageId,
+      rejectedRecipients: draft.delivery?.rejected,
+      createdAt: draft.createdAt,
+      updatedAt: draft.updatedAt,
+      expiresAt: draft.expiresAt,
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DraftService } from './draft.service';
+import { DraftController } from './draft.controller';
+import { OutboxModule } from '../outbox/outbox.module';
+import { GptModule } from '../gpt/gpt.module';
+import { WhisperModule } from '../whisper/whisper.module';
+import { StorageModule } from '../storage/storage.module';
+import { PreferenceModule } from '../preference/preference.module';
+import { AccountModule } from '../account/account.module';
+import { UsageModule } from '../usage/usage.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    OutboxModule,
+    GptModule,
+    WhisperModule,
+    StorageModule,
+    PreferenceModule,
+    AccountModule,
+    UsageModule,
+  ],
+  controllers: [DraftController],
+  providers: [DraftService],
+  exports: [DraftService],
+})
+export class DraftModule {}
@@ -0,0 +1,409 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccountService } from '../account/account.service';
+import { EmailExtraction, ExtractedEmail } from '../gpt/gpt.service';
+import {
+  EnqueueEmailOptions,
+  OutboxEntry,
+  OutboxEvent,
+  OutboxService,
+} from '../outbox/outbox.service';
+import { StorageService } from '../storage/storage.service';
+import { Draft, DraftService } from './draft.service';
+
+const EXTRACTION: EmailExtraction = {
+  email: {
+    to: ['ana@example.com'],
+    subject: 'Quarterly report',
+    body: 'The report is attached.',
+  },
+  unresolvedRecipients: [],
+};
+
+const TTL_MS = 15 * 60 * 1000;
+
+/** Outbox that records what is queued and lets tests report deliveries */
+class FakeOutbox {
+  readonly enqueued: EnqueueEmailOptions[] = [];
+  readonly emails: ExtractedEmail[] = [];
+  private listener?: (entry: OutboxEntry, event: OutboxEvent) => unknown;
+
+  enqueue(email: ExtractedEmail, options: EnqueueEmailOptions): OutboxEntry {
+    this.emails.push(email);
+    this.enqueued.push(options);
+    return { id: `outbox-${this.enqueued.length}` } as OutboxEntry;
+  }
+
+  onEvent(listener: (entry: OutboxEntry, event: OutboxEvent) => unknown): void {
+    this.listener = listener;
+  }
+
+  report(draft: Draft, event: OutboxEvent): void {
+    this.listener?.(
+      {
+        id: draft.outboxId!,
+        reference: draft.id,
+        delivery: { messageId: '<1@example.com>', accepted: [], rejected: [] },
+      } as unknown as OutboxEntry,
+      event,
+    );
+  }
+}
+
+describe('DraftService', () => {
+  let dataDir: string;
+  let outbox: FakeOutbox;
+  let services: DraftService[];
+
+  /** Starts the draft service on the data directory, the way the application does on boot */
+  function start(): DraftService {
+    const config = new ConfigService({
+      DATA_DIR: dataDir,
+      DRAFT_TTL_MINUTES: 15,
+    });
+    const service = new DraftService(
+      config,
+      outbox as unknown as OutboxService,
+      new StorageService(config),
+      { getSenderAddress: () => undefined } as unknown as AccountService,
+    );
+    service.onModuleInit();
+    services.push(service);
+    return service;
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-06-15T12:00:00Z') });
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drafts-'));
+    outbox = new FakeOutbox();
+    services = [];
+  });
+
+  afterEach(() => {
+    services.forEach((service) => service.onModuleDestroy());
+    jest.useRealTimers();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('send', () => {
+    it('queues a confirmed draft exactly once', () => {
+      const service = start();
+      const { draft } = service.create(EXTRACTION, {
+        channel: 'telegram',
+        chatId: 1,
+        userId: 7,
+      });
+
+      expect(service.send(draft.id).status).toBe('sending');
+      expect(() => service.send(draft.id, 'api')).toThrow(ConflictException);
+      expect(() => service.cancel(draft.id)).toThrow(ConflictException);
+      expect(outbox.enqueued).toHaveLength(1);
+      expect(outbox.enqueued[0]).toMatchObject({
+        userId: 7,
+        chatId: 1,
+        reference: draft.id,
+      });
+      expect(service.getActiveForChat(1)).toBeUndefined();
+    });
+
+    it('becomes sent once the outbox delivers the email', () => {
+      const service = start();
+      const finished = jest.fn();
+      service.onFinished(finished);
+      const { draft } = service.create(EXTRACTION, { channel: 'telegram' });
+      service.send(draft.id);
+
+      outbox.report(draft, 'retrying');
+      expect(service.get(draft.id).status).toBe('sending');
+
+      outbox.report(draft, 'sent');
+      expect(service.get(draft.id)).toMatchObject({
+        status: 'sent',
+        sentMessageId: '<1@example.com>',
+        finishedVia: 'telegram',
+      });
+      expect(finished).toHaveBeenCalledTimes(1);
+    });
+
+    it('is cancelled when its email is discarded from the outbox', () => {
+      const service = start();
+      const { draft } = service.create(EXTRACTION, { channel: 'api' });
+      service.send(draft.id, 'api');
+
+      outbox.report(draft, 'discarded');
+
+      expect(service.get(draft.id).status).toBe('cancelled');
+    });
+
+    it('refuses a draft whose recipient is not resolved yet', () => {
+      const service = start();
+      const { draft } = service.create(
+        {
+          email: { ...EXTRACTION.email, to: [] },
+          unresolvedRecipients: [{ field: 'to', name: 'Ana', candidates: [] }],
+        },
+        { channel: 'telegram' },
+      );
+
+      expect(() => service.send(draft.id)).toThrow(BadRequestException);
+      expect(service.get(draft.id).status).toBe('pending');
+      expect(outbox.enqueued).toHaveLength(0);
+    });
+  });
+
+  describe('scheduled sending', () => {
+    it('queues a draft for its send time', () => {
+      const sendAt = new Date('2025-06-16T09:00:00Z');
+      const service = start();
+      const { draft } = service.create(
+        { ...EXTRACTION, sendAt },
+        { channel: 'telegram' },
+      );
+
+      service.send(draft.id);
+
+      expect(outbox.enqueued[0].sendAt).toEqual(sendAt);
+    });
+
+    it('sends right away when the send time passed while the draft waited', () => {
+      const service = start();
+      const { draft } = service.create(
+        { ...EXTRACTION, sendAt: new Date('2025-06-15T12:05:00Z') },
+        { channel: 'telegram' },
+      );
+
+      jest.setSystemTime(new Date('2025-06-15T12:10:00Z'));
+      service.send(draft.id);
+
+      expect(outbox.enqueued[0].sendAt).toBeUndefined();
+    });
+  });
+
+  describe('chats', () => {
+    it('keeps one pending draft per chat, cancelling the one it replaces', () => {
+      const service = start();
+      const first = service.create(EXTRACTION, {
+        channel: 'telegram',
+        chatId: 1,
+      });
+      const second = service.create(EXTRACTION, {
+        channel: 'telegram',
+        chatId: 1,
+      });
+
+      expect(second.replaced?.id).toBe(first.draft.id);
+      expect(service.get(first.draft.id).status).toBe('cancelled');
+      expect(service.getActiveForChat(1)?.id).toBe(second.draft.id);
+    });
+  });
+
+  describe('expiry', () => {
+    it('expires a draft left alone for its TTL', () => {
+      const service = start();
+      const finished = jest.fn();
+      service.onFinished(finished);
+      const { draft } = service.create(EXTRACTION, {
+        channel: 'telegram',
+        chatId: 1,
+      });
+
+      jest.setSystemTime(Date.now() + TTL_MS);
+
+      expect(service.get(draft.id).status).toBe('expired');
+      expect(service.getActiveForChat(1)).toBeUndefined();
+      expect(() => service.send(draft.id)).toThrow(ConflictException);
+      expect(finished).toHaveBeenCalledTimes(1);
+    });
+
+    it('restarts the TTL whenever the draft changes', () => {
+      const service = start();
+      const { draft } = service.create(EXTRACTION, { channel: 'telegram' });
+
+      jest.setSystemTime(Date.now() + TTL_MS - 1000);
+      service.update(draft.id, { awaitingEdit: true });
+      jest.setSystemTime(Date.now() + TTL_MS - 1000);
+
+      expect(service.get(draft.id).status).toBe('pending');
+    });
+
+    it('expires drafts in the background and later forgets them', () => {
+      const service = start();
+      const finished = jest.fn();
+      service.onFinished(finished);
+      const { draft } = service.create(EXTRACTION, { channel: 'telegram' });
+
+      jest.advanceTimersByTime(TTL_MS + 30 * 1000);
+      expect(finished).toHaveBeenCalledWith(
+        expect.objectContaining({ id: draft.id, status: 'expired' }),
+      );
+
+      jest.advanceTimersByTime(TTL_MS + 30 * 1000);
+      expect(() => service.get(draft.id)).toThrow(NotFoundException);
+    });
+  });
+
+  describe('translation', () => {
+    const TRANSLATION = {
+      language: 'pt',
+      subject: 'Relatório trimestral',
+      body: 'O relatório está em anexo.',
+    };
+
+    it('sends the translation once it is chosen', () => {
+      const service = start();
+      const { draft } = service.create(
+        { ...EXTRACTION, translateTo: 'pt' },
+        { channel: 'telegram' },
+      );
+      expect(service.getPendingTranslation(draft)).toBe('pt');
+
+      service.setTranslation(draft.id, TRANSLATION);
+      service.send(draft.id);
+
+      expect(service.getPendingTranslation(draft)).toBeUndefined();
+      expect(outbox.emails[0]).toEqual({
+        ...EXTRACTION.email,
+        subject: TRANSLATION.subject,
+        body: TRANSLATION.body,
+      });
+    });
+
+    it('drops the translation when the text changes', () => {
+      const service = start();
+      const { draft } = service.create(EXTRACTION, { channel: 'telegram' });
+      service.setTranslation(draft.id, TRANSLATION);
+
+      service.update(draft.id, {
+        email: { ...EXTRACTION.email, to: ['rui@example.com'] },
+      });
+      expect(draft.useTranslation).toBe(true);
+
+      service.update(draft.id, {
+        email: { ...EXTRACTION.email, body: 'The report is below.' },
+      });
+      expect(draft.translation).toBeUndefined();
+      expect(draft.useTranslation).toBe(false);
+      expect(service.getPendingTranslation(draft)).toBe('pt');
+      expect(service.getEmail(draft).body).toBe('The report is below.');
+    });
+
+    it('needs no translation into the language the draft was spoken in', () => {
+      const service = start();
+      const { draft } = service.create(
+        { ...EXTRACTION, translateTo: 'pt' },
+        {
+          channel: 'telegram',
+          source: { transcript: 'Manda o relatório à Ana', language: 'pt' },
+        },
+      );
+
+      expect(service.getPendingTranslation(draft)).toBeUndefined();
+    });
+
+    it('waits for the subject and body before translating', () => {
+      const service = start();
+      const { draft } = service.create(
+        {
+          ...EXTRACTION,
+          email: { ...EXTRACTION.email, body: '' },
+          translateTo: 'pt',
+        },
+        { channel: 'telegram' },
+      );
+
+      expect(service.getPendingTranslation(draft)).toBeUndefined();
+    });
+  });
+
+  describe('forget', () => {
+    it("deletes a user's finished drafts, keeping the ones still in use", () => {
+      const service = start();
+      const cancelled = service.create(EXTRACTION, {
+        channel: 'telegram',
+        userId: 7,
+      }).draft;
+      service.cancel(cancelled.id);
+      const sending = service.create(EXTRACTION, {
+        channel: 'telegram',
+        userId: 7,
+      }).draft;
+      service.send(sending.id);
+      const pending = service.create(EXTRACTION, {
+        channel: 'telegram',
+        userId: 7,
+      }).draft;
+      const other = service.create(EXTRACTION, {
+        channel: 'telegram',
+        userId: 8,
+      }).draft;
+      service.cancel(other.id);
+
+      expect(service.forget(7)).toBe(1);
+
+      expect(() => service.get(cancelled.id)).toThrow(NotFoundException);
+      expect(() => start().get(cancelled.id)).toThrow(NotFoundException);
+      expect(service.get(sending.id).status).toBe('sending');
+      expect(service.get(pending.id).status).toBe('pending');
+      expect(service.get(other.id).status).toBe('cancelled');
+    });
+  });
+
+  describe('restore', () => {
+    it('brings pending drafts back after a restart', () => {
+      const sendAt = new Date('2025-06-16T09:00:00Z');
+      const first = start();
+      const { draft } = first.create(
+        { ...EXTRACTION, sendAt },
+        { channel: 'telegram', chatId: 1, userId: 7 },
+      );
+      first.revise(draft.id, {
+        ...EXTRACTION,
+        email: { ...EXTRACTION.email, subject: 'Q2 report' },
+      });
+
+      const restored = start().getActiveForChat(1)!;
+
+      expect(restored.id).toBe(draft.id);
+      expect(restored.email.subject).toBe('Q2 report');
+      expect(restored.expiresAt).toEqual(draft.expiresAt);
+      expect(restored.revisions[0].sendAt).toEqual(sendAt);
+    });
+
+    it('does not bring back a chat pointer to a finished draft', () => {
+      const first = start();
+      const { draft } = first.create(EXTRACTION, {
+        channel: 'telegram',
+        chatId: 1,
+      });
+      first.cancel(draft.id);
+
+      const restarted = start();
+
+      expect(restarted.getActiveForChat(1)).toBeUndefined();
+      expect(restarted.get(draft.id).status).toBe('cancelled');
+    });
+
+    it('sends a restored draft only once', () => {
+      const { draft } = start().create(EXTRACTION, { channel: 'telegram' });
+      start().send(draft.id);
+
+      const restarted = start();
+
+      expect(restarted.get(draft.id).status).toBe('sending');
+      expect(() => restarted.send(draft.id)).toThrow(ConflictException);
+      expect(outbox.enqueued).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,814 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ExtractedEmail,
+  EmailExtraction,
+  UnresolvedRecipient,
+  TranslatedEmail,
+} from '../gpt/gpt.service';
+import { EmailDelivery, EmailThread } from '../email/email.service';
+import {
+  EmailTemplateName,
+  DEFAULT_EMAIL_TEMPLATE,
+  RenderedEmail,
+  renderEmail,
+} from '../email/email-templates';
+import {
+  OutboxService,
+  OutboxEntry,
+  OutboxEvent,
+} from '../outbox/outbox.service';
+import { StorageService, Collection } from '../storage/storage.service';
+import { AccountService } from '../account/account.service';
+
+/**
+ * Lifecycle states of an email draft.
+ * A draft only moves forward: pending → sending → sent, or pending → cancelled/expired.
+ * A sending draft is in the outbox; it stays sending while delivery is retried or the email
+ * is dead, and is cancelled if the email is discarded from the outbox.
+ */
+export type DraftStatus =
+  | 'pending'
+  | 'sending'
+  | 'sent'
+  | 'cancelled'
+  | 'expired';
+
+/** Where a draft was created or finished */
+export type DraftChannel = 'telegram' | 'api';
+
+/** Parts of the email the user asked for without giving, which must be filled in before sending */
+export type MissingField = 'subject' | 'body';
+
+/**
+ * What a draft was created from.
+ *
+ * @interface DraftSource
+ */
+export interface DraftSource {
+  /** Transcript of the original recording */
+  transcript: string;
+  /** ISO-639-1 code of the spoken language, if known */
+  language?: string;
+  /** Original recording; owned by the draft and deleted once the draft is finished */
+  audioPath?: string;
+}
+
+/**
+ * Which source files are attached to the email when it is sent.
+ *
+ * @interface DraftAttachments
+ */
+export interface DraftAttachments {
+  recording: boolean;
+  transcript: boolean;
+}
+
+/**
+ * The subject and body of a draft in another language.
+ *
+ * @interface DraftTranslation
+ */
+export interface DraftTranslation extends TranslatedEmail {
+  /** ISO-639-1 code of the language */
+  language: string;
+}
+
+/**
+ * An email draft awaiting confirmation in a chat.
+ *
+ * @interface Draft
+ */
+export interface Draft {
+  /** Unique draft identifier */
+  id: string;
+  /** Channel the draft was created from */
+  channel: DraftChannel;
+  /** Telegram chat the draft belongs to, if created in Telegram */
+  chatId?: number;
+  /** Telegram user who created the draft, if created in Telegram */
+  userId?: number;
+  /** Current email content */
+  email: ExtractedEmail;
+  /** Recipients the user still has to clarify, asked one at a time */
+  unresolvedRecipients: UnresolvedRecipient[];
+  /** Earlier versions of the email, oldest first */
+  revisions: EmailExtraction[];
+  /** What the draft was created from, if known */
+  source?: DraftSource;
+  /** Source files to attach when sending */
+  attachments: DraftAttachments;
+  /** When the email should be sent once confirmed; right away when unset */
+  sendAt?: Date;
+  /** Template the body is rendered into */
+  template: EmailTemplateName;
+  /** Signature appended below the body */
+  signature?: string;
+  /** Conversation the email replies to, if it is a reply */
+  thread?: EmailThread;
+  /**
+   * ISO-639-1 code of the language the email should be translated into: asked for by the user or
+   * preferred by the recipient. Null once the user turned translation off.
+   */
+  translateTo?: string | null;
+  /** The email in that language; dropped whenever the subject or body changes */
+  translation?: DraftTranslation;
+  /** Whether the translation is sent rather than the original */
+  useTranslation: boolean;
+  /** Current lifecycle state */
+  status: DraftStatus;
+  /** Whether the next message in the chat should be treated as a change request */
+  awaitingEdit: boolean;
+  /** Telegram message holding the preview and its inline keyboard */
+  previewMessageId?: number;
+  /** Outbox entry the confirmed email was queued as */
+  outboxId?: string;
+  /** Message ID returned by the SMTP server once sent */
+  sentMessageId?: string;
+  /** Recipients the SMTP server accepted and rejected, once sent */
+  delivery?: EmailDelivery;
+  /** Channel that sent or cancelled the draft */
+  finishedVia?: DraftChannel;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+type DraftChanges = Partial<
+  Pick<
+    Draft,
+    | 'email'
+    | 'unresolvedRecipients'
+    | 'attachments'
+    | 'sendAt'
+    | 'template'
+    | 'signature'
+    | 'awaitingEdit'
+    | 'previewMessageId'
+    | 'translateTo'
+    | 'translation'
+    | 'useTranslation'
+  >
+>;
+
+/**
+ * Options for creating a draft.
+ *
+ * @interface CreateDraftOptions
+ */
+export interface CreateDraftOptions {
+  /** Channel the draft is created from */
+  channel: DraftChannel;
+  /** Telegram chat; a chat has at most one pending draft */
+  chatId?: number;
+  /** Telegram user */
+  userId?: number;
+  source?: DraftSource;
+  attachments?: DraftAttachments;
+  template?: EmailTemplateName;
+  signature?: string;
+  /** Conversation the email replies to */
+  thread?: EmailThread;
+}
+
+type FinishedListener = (draft: Draft) => void | Promise<void>;
+
+/**
+ * Service responsible for the lifecycle of email drafts.
+ * Keeps at most one pending draft per chat, expires drafts after a configurable TTL
+ * and guarantees that a confirmed draft is queued in the outbox exactly once.
+ * Drafts are persisted, so pending drafts survive a restart.
+ *
+ * @class DraftService
+ * @implements {OnModuleInit}
+ * @implements {OnModuleDestroy}
+ */
+@Injectable()
+export class DraftService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DraftService.name);
+  private readonly drafts = new Map<string, Draft>();
+  private readonly store: Collection<Draft>;
+  private readonly activeByChat = new Map<number, string>();
+  private readonly finishedListeners: FinishedListener[] = [];
+  private readonly ttlMs: number;
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  /**
+   * Creates an instance of DraftService.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   * @param {OutboxService} outboxService - Outbox delivering confirmed emails
+   * @param {StorageService} storageService - Service for persisting drafts
+   * @param {AccountService} accountService - Service providing the address emails are sent from
+   */
+  constructor(
+    private configService: ConfigService,
+    private outboxService: OutboxService,
+    private storageService: StorageService,
+    private accountService: AccountService,
+  ) {
+    this.ttlMs =
+      this.configService.get<number>('DRAFT_TTL_MINUTES', 15) * 60 * 1000;
+    this.store = this.storageService.collection<Draft>('drafts');
+    this.restore();
+    this.sweepTimer = setInterval(() => this.sweepExpired(), 30 * 1000);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Lifecycle hook that follows the delivery of confirmed drafts.
+   */
+  onModuleInit() {
+    this.outboxService.onEvent((entry, event) =>
+      this.handleOutboxEvent(entry, event),
+    );
+  }
+
+  /**
+   * Lifecycle hook that stops the expiry sweep.
+   */
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  /**
+   * Registers a callback invoked whenever a draft is sent, cancelled or expires.
+   *
+   * @param {FinishedListener} listener - Callback receiving the finished draft
+   */
+  onFinished(listener: FinishedListener): void {
+    this.finishedListeners.push(listener);
+  }
+
+  /**
+   * Creates a new pending draft.
+   * Any previous pending draft in the same chat is cancelled.
+   *
+   * @param {EmailExtraction} extraction - Extracted email content
+   * @param {CreateDraftOptions} options - Owner, source and attachment choices
+   * @returns {{ draft: Draft; replaced?: Draft }} The new draft and the draft it replaced, if any
+   */
+  create(
+    extraction: EmailExtraction,
+    options: CreateDraftOptions,
+  ): { draft: Draft; replaced?: Draft } {
+    const { chatId, userId, channel } = options;
+    const replaced =
+      chatId !== undefined ? this.getActiveForChat(chatId) : undefined;
+    if (replaced) {
+      this.transition(replaced, 'cancelled');
+    }
+
+    const now = new Date();
+    const draft: Draft = {
+      id: randomUUID(),
+      channel,
+      chatId,
+      userId,
+      email: extraction.email,
+      unresolvedRecipients: extraction.unresolvedRecipients,
+      revisions: [],
+      source: options.source,
+      attachments: options.attachments ?? {
+        recording: false,
+        transcript: false,
+      },
+      sendAt: extraction.sendAt,
+      template: options.template ?? DEFAULT_EMAIL_TEMPLATE,
+      signature: options.signature,
+      thread: options.thread,
+      translateTo: extraction.translateTo,
+      useTranslation: false,
+      status: 'pending',
+      awaitingEdit: false,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: new Date(now.getTime() + this.ttlMs),
+    };
+
+    this.drafts.set(draft.id, draft);
+    this.save(draft);
+    if (chatId !== undefined) {
+      this.activeByChat.set(chatId, draft.id);
+    }
+    this.logger.log(`Draft ${draft.id} created via ${channel}`);
+
+    return { draft, replaced };
+  }
+
+  /**
+   * Retrieves a draft by ID, expiring it first if its TTL has elapsed.
+   *
+   * @param {string} id - Draft ID
+   * @returns {Draft} The draft
+   * @throws {NotFoundException} If the draft does not exist
+   */
+  get(id: string): Draft {
+    const draft = this.drafts.get(id);
+    if (!draft) {
+      throw new NotFoundException('Draft not found');
+    }
+    this.expireIfDue(draft);
+    return draft;
+  }
+
+  /**
+   * Retrieves the pending draft of a chat, if any.
+   *
+   * @param {number} chatId - Telegram chat ID
+   * @returns {Draft | undefined} The pending draft
+   */
+  getActiveForChat(chatId: number): Draft | undefined {
+    const id = this.activeByChat.get(chatId);
+    if (!id) {
+      return undefined;
+    }
+    const draft = this.get(id);
+    return draft.status === 'pending' ? draft : undefined;
+  }
+
+  /**
+   * Applies changes to a pending draft and refreshes its TTL.
+   *
+   * @param {string} id - Draft ID
+   * @param {DraftChanges} changes - Fields to update
+   * @returns {Draft} The updated draft
+   * @throws {ConflictException} If the draft is no longer pending
+   */
+  update(id: string, changes: DraftChanges): Draft {
+    const draft = this.getPending(id);
+    // A translation only matches the text it was made from
+    if (
+      changes.email &&
+      !('translation' in changes) &&
+      (changes.email.subject !== draft.email.subject ||
+        changes.email.body !== draft.email.body)
+    ) {
+      changes = { ...changes, translation: undefined, useTranslation: false };
+    }
+    Object.assign(draft, changes);
+    draft.updatedAt = new Date();
+    draft.expiresAt = new Date(draft.updatedAt.getTime() + this.ttlMs);
+    this.save(draft);
+    return draft;
+  }
+
+  /**
+   * Replaces the email of a pending draft, keeping the previous version in its history.
+   *
+   * @param {string} id - Draft ID
+   * @param {EmailExtraction} extraction - Revised email content
+   * @returns {Draft} The updated draft
+   * @throws {ConflictException} If the draft is no longer pending
+   */
+  revise(id: string, extraction: EmailExtraction): Draft {
+    const draft = this.getPending(id);
+    draft.revisions.push({
+      email: draft.email,
+      unresolvedRecipients: draft.unresolvedRecipients,
+      sendAt: draft.sendAt,
+    });
+    return this.update(id, {
+      email: extraction.email,
+      unresolvedRecipients: extraction.unresolvedRecipients,
+      sendAt: extraction.sendAt,
+      translateTo: extraction.translateTo ?? draft.translateTo,
+      awaitingEdit: false,
+    });
+  }
+
+  /**
+   * Stores the translation of a pending draft and chooses it for sending.
+   *
+   * @param {string} id - Draft ID
+   * @param {DraftTranslation} translation - The subject and body in another language
+   * @returns {Draft} The updated draft
+   * @throws {ConflictException} If the draft is no longer pending
+   */
+  setTranslation(id: string, translation: DraftTranslation): Draft {
+    return this.update(id, {
+      translateTo: translation.language,
+      translation,
+      useTranslation: true,
+    });
+  }
+
+  /**
+   * Finds the language a draft still has to be translated into: the one it should be sent in,
+   * unless it already has that translation, was spoken in that language or is not complete yet.
+   *
+   * @param {Draft} draft - Draft to check
+   * @returns {string | undefined} ISO-639-1 code of the language, or undefined if no translation is needed
+   */
+  getPendingTranslation(draft: Draft): string | undefined {
+    const language = draft.translateTo;
+    if (
+      !language ||
+      draft.translation?.language === language ||
+      draft.source?.language === language ||
+      this.getMissingFields(draft).length > 0
+    ) {
+      return undefined;
+    }
+    return language;
+  }
+
+  /**
+   * Gets a draft's email in its original or translated version.
+   *
+   * @param {Draft} draft - Draft
+   * @param {boolean} [translated] - Whether to use the translation, if there is one; defaults to the version chosen for sending
+   * @returns {ExtractedEmail} The email
+   */
+  getEmail(
+    draft: Draft,
+    translated: boolean = draft.useTranslation,
+  ): ExtractedEmail {
+    const { translation } = draft;
+    return translated && translation
+      ? { ...draft.email, subject: translation.subject, body: translation.body }
+      : draft.email;
+  }
+
+  /**
+   * Answers the first open recipient question of a pending draft with an address.
+   *
+   * @param {string} id - Draft ID
+   * @param {string} address - Recipient email address
+   * @returns {Draft} The updated draft
+   * @throws {ConflictException} If the draft is no longer pending or has no open recipient question
+   */
+  resolveRecipient(id: string, address: string): Draft {
+    const draft = this.getPending(id);
+    const [recipient, ...remaining] = draft.unresolvedRecipients;
+    if (!recipient) {
+      throw new ConflictException('Draft has no open recipient question');
+    }
+
+    const list = draft.email[recipient.field] ?? [];
+    return this.revise(id, {
+      email: {
+        ...draft.email,
+        [recipient.field]: list.includes(address) ? list : [...list, address],
+      },
+      unresolvedRecipients: remaining,
+      sendAt: draft.sendAt,
+    });
+  }
+
+  /**
+   * Restores the previous version of a pending draft.
+   *
+   * @param {string} id - Draft ID
+   * @returns {Draft} The updated draft
+   * @throws {ConflictException} If the draft is no longer pending or has no earlier version
+   */
+  undo(id: string): Draft {
+    const draft = this.getPending(id);
+    const previous = draft.revisions.pop();
+    if (!previous) {
+      throw new ConflictException('Draft has no earlier version');
+    }
+    return this.update(id, {
+      email: previous.email,
+      unresolvedRecipients: previous.unresolvedRecipients,
+      sendAt: previous.sendAt,
+      awaitingEdit: false,
+    });
+  }
+
+  /**
+   * Cancels a pending draft.
+   *
+   * @param {string} id - Draft ID
+   * @param {DraftChannel} via - Channel the cancellation came from
+   * @returns {Draft} The cancelled draft
+   * @throws {ConflictException} If the draft is no longer pending
+   */
+  cancel(id: string, via: DraftChannel = 'telegram'): Draft {
+    const draft = this.getPending(id);
+    draft.finishedVia = via;
+    this.transition(draft, 'cancelled');
+    return draft;
+  }
+
+  /**
+   * Confirms a pending draft and puts its email in the outbox.
+   * The draft is claimed synchronously, so concurrent confirmations of the same draft
+   * result in a single email. It becomes sent once the outbox has delivered the email,
+   * which waits for the draft's send time if it has one.
+   *
+   * @param {string} id - Draft ID
+   * @param {DraftChannel} via - Channel the confirmation came from
+   * @returns {Draft} The sending draft
+   * @throws {ConflictException} If the draft is not pending (already sent, sending, cancelled or expired)
+   * @throws {BadRequestException} If the recipient has not been resolved yet, the subject or body is missing,
+   * an address is invalid or the recording to attach is no longer available
+   */
+  send(id: string, via: DraftChannel = 'telegram'): Draft {
+    const draft = this.getPending(id);
+    if (draft.unresolvedRecipients.length > 0 || draft.email.to.length === 0) {
+      throw new BadRequestException('Draft has unresolved recipients');
+    }
+    const missing = this.getMissingFields(draft);
+    if (missing.length > 0) {
+      throw new BadRequestException(`Draft has no ${missing.join(' or ')}`);
+    }
+
+    const entry = this.outboxService.enqueue(this.getEmail(draft), {
+      attachments: this.collectAttachments(draft),
+      userId: draft.userId,
+      chatId: draft.chatId,
+      reference: draft.id,
+      // A time that passed while the draft waited for confirmation means right away
+      sendAt:
+        draft.sendAt && draft.sendAt.getTime() > Date.now()
+          ? draft.sendAt
+          : undefined,
+      template: draft.template,
+      signature: draft.signature,
+      thread: draft.thread,
+    });
+    draft.outboxId = entry.id;
+    draft.finishedVia = via;
+    this.transition(draft, 'sending');
+    return draft;
+  }
+
+  /**
+   * Deletes a user's finished drafts. Pending drafts and drafts being sent stay.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {number} How many drafts were deleted
+   */
+  forget(userId: number): number {
+    const ids = new Set(
+      [...this.drafts.values()]
+        .filter(
+          (draft) =>
+            draft.userId === userId &&
+            draft.status !== 'pending' &&
+            draft.status !== 'sending',
+        )
+        .map((draft) => draft.id),
+    );
+    ids.forEach((id) => this.drafts.delete(id));
+    this.store.deleteWhere((_draft, id) => ids.has(id));
+    return ids.size;
+  }
+
+  /**
+   * Lists the parts of a draft's email that are still empty, because the user did not say them.
+   *
+   * @param {Draft} draft - Draft to check
+   * @returns {MissingField[]} Empty fields, the body first
+   */
+  getMissingFields(draft: Draft): MissingField[] {
+    const missing: MissingField[] = [];
+    if (!draft.email.body.trim()) {
+      missing.push('body');
+    }
+    if (!draft.email.subject.trim()) {
+      missing.push('subject');
+    }
+    return missing;
+  }
+
+  /**
+   * Renders a draft the way its email will be sent: the body in its template, with its signature.
+   *
+   * @param {Draft} draft - Draft to render
+   * @param {boolean} [translated] - Whether to render the translation; defaults to the version chosen for sending
+   * @returns {RenderedEmail} HTML and plain-text bodies
+   */
+  render(
+    draft: Draft,
+    translated: boolean = draft.useTranslation,
+  ): RenderedEmail {
+    return renderEmail(this.getEmail(draft, translated), {
+      template: draft.template,
+      signature: draft.signature,
+      from: this.accountService.getSenderAddress(draft.userId),
+    });
+  }
+
+  /**
+   * Finishes a sending draft once the outbox has delivered or discarded its email.
+   *
+   * @param {OutboxEntry} entry - Outbox entry
+   * @param {OutboxEvent} event - What happened to it
+   * @private
+   */
+  private handleOutboxEvent(entry: OutboxEntry, event: OutboxEvent): void {
+    const draft = entry.reference
+      ? this.drafts.get(entry.reference)
+      : undefined;
+    if (draft?.status !== 'sending' || draft.outboxId !== entry.id) {
+      return;
+    }
+
+    if (event === 'sent') {
+      draft.delivery = entry.delivery;
+      draft.sentMessageId = entry.delivery?.messageId;
+      this.transition(draft, 'sent');
+    } else if (event === 'discarded') {
+      this.transition(draft, 'cancelled');
+    }
+  }
+
+  /**
+   * Reads the source files selected for attachment.
+   *
+   * @param {Draft} draft - Draft being sent
+   * @returns {{ filename: string; content: Buffer }[]} Files to attach
+   * @throws {BadRequestException} If the recording was requested but is no longer available
+   * @private
+   */
+  private collectAttachments(
+    draft: Draft,
+  ): { filename: string; content: Buffer }[] {
+    const files: { filename: string; content: Buffer }[] = [];
+    const { source, attachments } = draft;
+
+    if (attachments.recording) {
+      if (!source?.audioPath || !fs.existsSync(source.audioPath)) {
+        throw new BadRequestException(
+          'The original recording is not available',
+        );
+      }
+      files.push({
+        filename: `recording${path.extname(source.audioPath)}`,
+        content: fs.readFileSync(source.audioPath),
+      });
+    }
+
+    if (attachments.transcript && source?.transcript) {
+      files.push({
+        filename: 'transcript.txt',
+        content: Buffer.from(source.transcript, 'utf8'),
+      });
+    }
+
+    return files;
+  }
+
+  /**
+   * Deletes the recording owned by a finished draft.
+   *
+   * @param {Draft} draft - Finished draft
+   * @private
+   */
+  private releaseSource(draft: Draft): void {
+    const audioPath = draft.source?.audioPath;
+    if (!audioPath) {
+      return;
+    }
+
+    try {
+      if (fs.existsSync(audioPath)) {
+        fs.unlinkSync(audioPath);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to delete recording of draft ${draft.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Retrieves a draft and ensures it is still pending.
+   *
+   * @param {string} id - Draft ID
+   * @returns {Draft} The pending draft
+   * @throws {ConflictException} If the draft is not pending
+   * @private
+   */
+  private getPending(id: string): Draft {
+    const draft = this.get(id);
+    if (draft.status !== 'pending') {
+      throw new ConflictException(`Draft is ${draft.status}`);
+    }
+    return draft;
+  }
+
+  /**
+   * Moves a draft to a new status and keeps the per-chat index in sync.
+   * Finished drafts release their recording and notify listeners.
+   *
+   * @param {Draft} draft - Draft to update
+   * @param {DraftStatus} status - New status
+   * @private
+   */
+  private transition(draft: Draft, status: DraftStatus): void {
+    this.logger.debug(`Draft ${draft.id}: ${draft.status} → ${status}`);
+    draft.status = status;
+    draft.updatedAt = new Date();
+    this.save(draft);
+
+    if (status !== 'pending' && status !== 'sending') {
+      if (
+        draft.chatId !== undefined &&
+        this.activeByChat.get(draft.chatId) === draft.id
+      ) {
+        this.activeByChat.delete(draft.chatId);
+      }
+      this.releaseSource(draft);
+
+      for (const listener of this.finishedListeners) {
+        Promise.resolve(listener(draft)).catch((error) =>
+          this.logger.error(
+            `Draft listener failed: ${(error as Error).message}`,
+          ),
+        );
+      }
+    }
+  }
+
+  /**
+   * Expires a pending draft whose TTL has elapsed.
+   *
+   * @param {Draft} draft - Draft to check
+   * @private
+   */
+  private expireIfDue(draft: Draft): void {
+    if (draft.status !== 'pending' || draft.expiresAt.getTime() > Date.now()) {
+      return;
+    }
+
+    this.transition(draft, 'expired');
+    this.logger.log(`Draft ${draft.id} expired`);
+  }
+
+  /**
+   * Expires overdue drafts and forgets finished drafts older than one TTL.
+   *
+   * @private
+   */
+  private sweepExpired(): void {
+    const cutoff = Date.now() - this.ttlMs;
+
+    for (const draft of this.drafts.values()) {
+      this.expireIfDue(draft);
+
+      if (
+        draft.status !== 'pending' &&
+        draft.status !== 'sending' &&
+        draft.updatedAt.getTime() < cutoff
+      ) {
+        this.drafts.delete(draft.id);
+        this.store.delete(draft.id);
+      }
+    }
+  }
+
+  /**
+   * Loads persisted drafts and rebuilds the per-chat index.
+   *
+   * @private
+   */
+  private restore(): void {
+    for (const stored of this.store.values()) {
+      // Dates come back from JSON as strings
+      const draft: Draft = {
+        ...stored,
+        createdAt: new Date(stored.createdAt),
+        updatedAt: new Date(stored.updatedAt),
+        expiresAt: new Date(stored.expiresAt),
+        // Drafts stored before templates or translations existed
+        template: stored.template ?? DEFAULT_EMAIL_TEMPLATE,
+        useTranslation: stored.useTranslation ?? false,
+        sendAt: stored.sendAt && new Date(stored.sendAt),
+        revisions: stored.revisions.map((revision) => ({
+          ...revision,
+          sendAt: revision.sendAt && new Date(revision.sendAt),
+        })),
+      };
+
+      this.drafts.set(draft.id, draft);
+      if (draft.status === 'pending' && draft.chatId !== undefined) {
+        this.activeByChat.set(draft.chatId, draft.id);
+      }
+    }
+  }
+
+  /**
+   * Persists a draft.
+   *
+   * @param {Draft} draft - Draft to store
+   * @private
+   */
+  private save(draft: Draft): void {
+    this.store.set(draft.id, draft);
+  }
+}
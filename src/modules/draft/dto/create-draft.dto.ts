@@ -0,0 +1,99 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { z } from 'zod';
+import { toLanguageCode } from '../../whisper/languages';
+import { isValidTimezone } from '../../preference/timezone';
+import {
+  EMAIL_TEMPLATES,
+  EmailTemplateName,
+} from '../../email/email-templates';
+
+/** Accepts real booleans (JSON) as well as "true" / "false" strings (multipart) */
+export const booleanField = z.preprocess(
+  (value) => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean(),
+);
+
+/** Accepts a language code or name and turns it into its ISO-639-1 code */
+export const languageField = z.string().transform((value, ctx) => {
+  const code = toLanguageCode(value);
+  if (!code) {
+    ctx.addIssue({ code: 'custom', message: 'Unknown language' });
+    return z.NEVER;
+  }
+  return code;
+});
+
+export const createDraftSchema = z.object({
+  text: z.string().trim().min(1, 'Text cannot be empty').optional(),
+  language: languageField.optional(),
+  translateTo: languageField.optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+  template: z.enum(EMAIL_TEMPLATES).optional(),
+  signature: z.string().trim().min(1).max(500).optional(),
+  attachRecording: booleanField.default(false),
+  attachTranscript: booleanField.default(false),
+});
+
+/**
+ * Body of POST /drafts: either JSON with "text", or multipart with an audio "file".
+ * Validated with {@link createDraftSchema}; the decorators only describe it for Swagger.
+ */
+export class CreateDraftDto {
+  @ApiPropertyOptional({
+    description: 'Dictated text to extract the email from',
+    example:
+      'Send an email to anna@example.com saying the Q3 budget is approved',
+  })
+  text?: string;
+
+  @ApiPropertyOptional({
+    type: 'string',
+    format: 'binary',
+    description:
+      'Audio or video file to transcribe instead of text (multipart only)',
+  })
+  file?: unknown;
+
+  @ApiPropertyOptional({
+    description:
+      'Language of the text or recording (code or name); detected from the audio when omitted',
+    example: 'pt',
+  })
+  language?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Language to translate the email into (code or name); the draft then offers both versions, and the translation is sent unless useTranslation is turned off',
+    example: 'en',
+  })
+  translateTo?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA timezone of send times in the text ("send it tomorrow at 9am"); DEFAULT_TIMEZONE when omitted',
+    example: 'Europe/Lisbon',
+  })
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    enum: EMAIL_TEMPLATES,
+    default: 'standard',
+    description: 'Template the email is rendered into',
+  })
+  template?: EmailTemplateName;
+
+  @ApiPropertyOptional({ description: 'Signature appended below the body' })
+  signature?: string;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: 'Attach the uploaded recording when sending',
+  })
+  attachRecording: boolean;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: 'Attach the transcript when sending',
+  })
+  attachTranscript: boolean;
+}
@@ -0,0 +1,152 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DraftStatus, DraftChannel, MissingField } from '../draft.service';
+import {
+  EMAIL_TEMPLATES,
+  EmailTemplateName,
+} from '../../email/email-templates';
+
+export class DraftEmailDto {
+  @ApiProperty({ type: [String] })
+  to: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  cc?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  bcc?: string[];
+
+  @ApiProperty()
+  subject: string;
+
+  @ApiProperty()
+  body: string;
+}
+
+export class DraftTranslationDto {
+  @ApiProperty({ description: 'ISO-639-1 code of the language', example: 'en' })
+  language: string;
+
+  @ApiProperty()
+  subject: string;
+
+  @ApiProperty()
+  body: string;
+}
+
+export class UnresolvedRecipientDto {
+  @ApiProperty({ enum: ['to', 'cc', 'bcc'] })
+  field: 'to' | 'cc' | 'bcc';
+
+  @ApiProperty({ description: 'Recipient as spoken or typed' })
+  name: string;
+
+  @ApiProperty({
+    type: [String],
+    description: 'Addresses of the contacts that could be meant',
+  })
+  candidates: string[];
+}
+
+export class DraftResponseDto {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @ApiProperty({ enum: ['pending', 'sending', 'sent', 'cancelled', 'expired'] })
+  status: DraftStatus;
+
+  @ApiProperty({ enum: ['telegram', 'api'] })
+  channel: DraftChannel;
+
+  @ApiProperty({ type: DraftEmailDto })
+  email: DraftEmailDto;
+
+  @ApiProperty({
+    type: [UnresolvedRecipientDto],
+    description: 'Recipients that must be set before the draft can be sent',
+  })
+  unresolvedRecipients: UnresolvedRecipientDto[];
+
+  @ApiProperty({
+    enum: ['subject', 'body'],
+    isArray: true,
+    description:
+      'Parts of the email the text asked for without giving; revise the draft with them before sending',
+  })
+  missingFields: MissingField[];
+
+  @ApiPropertyOptional({ description: 'Transcript the draft was created from' })
+  transcript?: string;
+
+  @ApiPropertyOptional({
+    description: 'ISO-639-1 code of the spoken language',
+    example: 'pt',
+  })
+  language?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'ISO-639-1 code of the language the email should be translated into',
+    example: 'en',
+  })
+  translateTo?: string;
+
+  @ApiPropertyOptional({
+    type: DraftTranslationDto,
+    description: 'The email translated into translateTo',
+  })
+  translation?: DraftTranslationDto;
+
+  @ApiProperty({
+    description: 'Whether the translation is sent rather than the original',
+  })
+  useTranslation: boolean;
+
+  @ApiProperty({ example: { recording: false, transcript: true } })
+  attachments: { recording: boolean; transcript: boolean };
+
+  @ApiProperty({ description: 'Number of earlier versions' })
+  revisions: number;
+
+  @ApiProperty({ enum: EMAIL_TEMPLATES })
+  template: EmailTemplateName;
+
+  @ApiPropertyOptional()
+  signature?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'When the email is sent once confirmed; right away when absent',
+  })
+  sendAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Outbox entry the email was queued as once confirmed',
+  })
+  outboxId?: string;
+
+  @ApiPropertyOptional({ description: 'SMTP message ID once sent' })
+  sentMessageId?: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Recipients the SMTP server rejected, once sent',
+  })
+  rejectedRecipients?: string[];
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  @ApiProperty()
+  expiresAt: Date;
+}
+
+export class DraftPreviewDto {
+  @ApiProperty({ description: 'HTML body as it will be sent' })
+  html: string;
+
+  @ApiProperty({ description: 'Plain-text alternative sent with it' })
+  text: string;
+}
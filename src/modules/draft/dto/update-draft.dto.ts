@@ -0,0 +1,110 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { z } from 'zod';
+import {
+  EMAIL_TEMPLATES,
+  EmailTemplateName,
+} from '../../email/email-templates';
+import { languageField } from './create-draft.dto';
+
+const addressList = z.array(z.string().trim().toLowerCase().email());
+
+export const updateDraftSchema = z
+  .object({
+    instruction: z.string().trim().min(1).optional(),
+    to: addressList.min(1, 'At least one recipient is required').optional(),
+    cc: addressList.optional(),
+    bcc: addressList.optional(),
+    subject: z.string().trim().min(1, 'Subject cannot be empty').optional(),
+    body: z.string().trim().min(1, 'Body cannot be empty').optional(),
+    sendAt: z
+      .string()
+      .datetime({ offset: true })
+      .refine(
+        (value) => Date.parse(value) > Date.now(),
+        'Send time must be in the future',
+      )
+      .nullable()
+      .optional(),
+    template: z.enum(EMAIL_TEMPLATES).optional(),
+    signature: z.string().trim().min(1).max(500).nullable().optional(),
+    translateTo: languageField.nullable().optional(),
+    useTranslation: z.boolean().optional(),
+    attachments: z
+      .object({ recording: z.boolean(), transcript: z.boolean() })
+      .partial()
+      .optional(),
+  })
+  .refine((value) => Object.keys(value).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * Body of PATCH /drafts/:id.
+ * An instruction is applied with GPT first; explicit fields then override the result.
+ */
+export class UpdateDraftDto {
+  @ApiPropertyOptional({
+    description: 'Free-form change request applied with GPT',
+    example: 'Make it shorter and copy my manager',
+  })
+  instruction?: string;
+
+  @ApiPropertyOptional({ type: [String], example: ['anna@example.com'] })
+  to?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  cc?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  bcc?: string[];
+
+  @ApiPropertyOptional()
+  subject?: string;
+
+  @ApiPropertyOptional()
+  body?: string;
+
+  @ApiPropertyOptional({
+    type: String,
+    format: 'date-time',
+    nullable: true,
+    description:
+      'When to send the email once confirmed; null sends it right away',
+    example: '2025-06-02T09:00:00+01:00',
+  })
+  sendAt?: string | null;
+
+  @ApiPropertyOptional({
+    enum: EMAIL_TEMPLATES,
+    description: 'Template the email is rendered into',
+  })
+  template?: EmailTemplateName;
+
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    description: 'Signature appended below the body; null removes it',
+  })
+  signature?: string | null;
+
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    description:
+      'Language to translate the email into (code or name); null drops the translation',
+    example: 'en',
+  })
+  translateTo?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Whether the translation is sent rather than the original; requires a translation',
+  })
+  useTranslation?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Which source files to attach when sending',
+    example: { recording: true, transcript: false },
+  })
+  attachments?: { recording?: boolean; transcript?: boolean };
+}
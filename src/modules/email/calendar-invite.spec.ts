@@ -0,0 +1,139 @@
+import { CalendarEvent, renderCalendarInvite } from './calendar-invite';
+
+const event: CalendarEvent = {
+  uid: 'meeting-1@vox-relay',
+  sequence: 0,
+  title: 'Launch review',
+  location: 'Room 4',
+  start: new Date('2025-06-02T09:00:00+01:00'),
+  end: new Date('2025-06-02T09:30:00+01:00'),
+  organizer: { address: 'jane@example.com', name: 'Jane Doe' },
+  attendees: [
+    { address: 'priya@example.com', name: 'Priya' },
+    { address: 'sam@example.com' },
+  ],
+};
+
+const now = new Date('2025-05-30T12:34:56.789Z');
+
+/** Unfolds the content lines of an iCalendar object (RFC 5545, section 3.1) */
+function unfold(content: string): string[] {
+  return content.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('renderCalendarInvite', () => {
+  it('renders an invitation with CRLF line endings', () => {
+    const { method, content } = renderCalendarInvite(event, 'REQUEST', now);
+
+    expect(method).toBe('REQUEST');
+    expect(content.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(content.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    expect(unfold(content)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//vox-relay//Meeting invites//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:REQUEST',
+      'BEGIN:VEVENT',
+      'UID:meeting-1@vox-relay',
+      'SEQUENCE:0',
+      'DTSTAMP:20250530T123456Z',
+      'DTSTART:20250602T080000Z',
+      'DTEND:20250602T083000Z',
+      'SUMMARY:Launch review',
+      'LOCATION:Room 4',
+      'ORGANIZER;CN="Jane Doe":mailto:jane@example.com',
+      'ATTENDEE;CN="Priya";ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:priya@example.com',
+      'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:sam@example.com',
+      'STATUS:CONFIRMED',
+      'TRANSP:OPAQUE',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('writes times in UTC whatever the offset they were given in', () => {
+    const lines = unfold(
+      renderCalendarInvite(
+        {
+          ...event,
+          start: new Date('2025-12-31T23:30:00-05:00'),
+          end: new Date('2026-01-01T00:15:00-05:00'),
+        },
+        'REQUEST',
+        now,
+      ).content,
+    );
+
+    expect(lines).toContain('DTSTART:20260101T043000Z');
+    expect(lines).toContain('DTEND:20260101T051500Z');
+  });
+
+  it('renders a cancellation with the same UID and the sequence it is given', () => {
+    const lines = unfold(
+      renderCalendarInvite({ ...event, sequence: 3 }, 'CANCEL', now).content,
+    );
+
+    expect(lines).toContain('METHOD:CANCEL');
+    expect(lines).toContain('UID:meeting-1@vox-relay');
+    expect(lines).toContain('SEQUENCE:3');
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines).not.toContain('STATUS:CONFIRMED');
+  });
+
+  it('escapes text values', () => {
+    const lines = unfold(
+      renderCalendarInvite(
+        {
+          ...event,
+          title: 'Budget; Q3, Q4\\misc',
+          description: 'Agenda:\nfirst\r\nsecond',
+          location: undefined,
+        },
+        'REQUEST',
+        now,
+      ).content,
+    );
+
+    expect(lines).toContain('SUMMARY:Budget\\; Q3\\, Q4\\\\misc');
+    expect(lines).toContain('DESCRIPTION:Agenda:\\nfirst\\nsecond');
+    expect(lines.some((line) => line.startsWith('LOCATION'))).toBe(false);
+  });
+
+  it('drops characters a quoted name cannot hold', () => {
+    const lines = unfold(
+      renderCalendarInvite(
+        {
+          ...event,
+          organizer: { address: 'jane@example.com', name: 'Jane "JD"\nDoe' },
+        },
+        'REQUEST',
+        now,
+      ).content,
+    );
+
+    expect(lines).toContain(
+      'ORGANIZER;CN="Jane JDDoe":mailto:jane@example.com',
+    );
+  });
+
+  it('folds lines at 75 octets without splitting multi-byte characters', () => {
+    const title = 'Réunion de lancement 🚀 '.repeat(8);
+    const { content } = renderCalendarInvite(
+      { ...event, title },
+      'REQUEST',
+      now,
+    );
+    const physical = content.split('\r\n');
+
+    for (const line of physical) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      // A character split between lines would not survive a round trip through UTF-8
+      expect(Buffer.from(line).toString('utf8')).toBe(line);
+    }
+    const summary = physical.findIndex((line) => line.startsWith('SUMMARY:'));
+    expect(physical[summary + 1].startsWith(' ')).toBe(true);
+    expect(unfold(content)).toContain(`SUMMARY:${title}`);
+  });
+});
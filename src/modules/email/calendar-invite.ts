@@ -0,0 +1,171 @@
+/**
+ * iTIP methods of an invitation: REQUEST invites to or updates an event, CANCEL calls it off.
+ * See RFC 5546.
+ */
+export type CalendarMethod = 'REQUEST' | 'CANCEL';
+
+/**
+ * A calendar invitation ready to be sent as the text/calendar part of an email.
+ *
+ * @interface CalendarInvite
+ */
+export interface CalendarInvite {
+  method: CalendarMethod;
+  /** The iCalendar object */
+  content: string;
+}
+
+/**
+ * A person taking part in an event.
+ *
+ * @interface CalendarAttendee
+ */
+export interface CalendarAttendee {
+  address: string;
+  name?: string;
+}
+
+/**
+ * An event as put in an invitation.
+ *
+ * @interface CalendarEvent
+ */
+export interface CalendarEvent {
+  /** Identifies the event across updates and cancellations */
+  uid: string;
+  /** Revision of the event; every update or cancellation sent must increase it */
+  sequence: number;
+  title: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  /** Who the invitation is sent from */
+  organizer: CalendarAttendee;
+  attendees: CalendarAttendee[];
+}
+
+/** Identifies the software that produced the invitations */
+const PRODUCT_ID = '-//vox-relay//Meeting invites//EN';
+
+/** Longest content line in octets, without the line break (RFC 5545, section 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Formats an instant as an iCalendar UTC date-time, e.g. "20250602T090000Z".
+ *
+ * @param {Date} date - Instant
+ * @returns {string} The date-time
+ */
+function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escapes a TEXT value (RFC 5545, section 3.3.11).
+ *
+ * @param {string} value - Text
+ * @returns {string} The escaped text
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Quotes a parameter value, such as a common name, dropping the characters it cannot hold.
+ *
+ * @param {string} value - Parameter value
+ * @returns {string} The quoted value
+ */
+function quoteParameter(value: string): string {
+  return `"${value.replace(/["\r\n]/g, '')}"`;
+}
+
+/**
+ * Folds a content line into lines of at most 75 octets, continued with a leading space,
+ * without splitting multi-byte characters.
+ *
+ * @param {string} line - Content line
+ * @returns {string} The folded line
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Renders an invitation to an event, or its cancellation, as an iCalendar object (RFC 5545).
+ * Times are written in UTC, which every calendar shows in its own timezone.
+ *
+ * @param {CalendarEvent} event - The event
+ * @param {CalendarMethod} method - REQUEST to invite or update, CANCEL to call the event off
+ * @param {Date} [now] - When the invitation is made; now when unset
+ * @returns {CalendarInvite} The invitation
+ */
+export function renderCalendarInvite(
+  event: CalendarEvent,
+  method: CalendarMethod,
+  now: Date = new Date(),
+): CalendarInvite {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+    `DTEND:${formatDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    ...(event.description
+      ? [`DESCRIPTION:${escapeText(event.description)}`]
+      : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    'ORGANIZER' +
+      (event.organizer.name
+        ? `;CN=${quoteParameter(event.organizer.name)}`
+        : '') +
+      `:mailto:${event.organizer.address}`,
+    ...event.attendees.map(
+      (attendee) =>
+        'ATTENDEE;' +
+        (attendee.name ? `CN=${quoteParameter(attendee.name)};` : '') +
+        'ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:' +
+        `mailto:${attendee.address}`,
+    ),
+    `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return {
+    method,
+    content: lines.map(foldLine).join('\r\n') + '\r\n',
+  };
+}
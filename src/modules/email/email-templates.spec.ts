@@ -0,0 +1,79 @@
+import { ExtractedEmail } from '../gpt/gpt.service';
+import { isEmailTemplateName, renderEmail } from './email-templates';
+
+const EMAIL: ExtractedEmail = {
+  to: ['ana@example.com'],
+  cc: ['rui@example.com'],
+  subject: 'Q2 <report>',
+  body: 'Hi Ana,\n\nThe numbers are in.\nSee the attachment.',
+};
+
+describe('renderEmail', () => {
+  it('turns paragraphs and line breaks into HTML, escaping the text', () => {
+    const { html } = renderEmail({
+      ...EMAIL,
+      body: 'Tom & Jerry <3\n\nBye',
+    });
+
+    expect(html).toContain(
+      '<p style="margin:0 0 1em;">Tom &amp; Jerry &lt;3</p>\n<p style="margin:0 0 1em;">Bye</p>',
+    );
+    expect(html).toContain('<title>Q2 &lt;report&gt;</title>');
+    expect(renderEmail(EMAIL).html).toContain('The numbers are in.<br>See');
+  });
+
+  it('keeps the plain-text alternative as the body', () => {
+    expect(renderEmail(EMAIL).text).toBe(EMAIL.body);
+  });
+
+  it('appends the signature to both versions', () => {
+    const { html, text } = renderEmail(EMAIL, {
+      signature: 'Maria Silva\nHead of <Sales>',
+    });
+
+    expect(text).toBe(`${EMAIL.body}\n\n-- \nMaria Silva\nHead of <Sales>`);
+    expect(html).toContain('Maria Silva<br>Head of &lt;Sales&gt;</div>');
+  });
+
+  it('leaves out a blank signature', () => {
+    expect(renderEmail(EMAIL, { signature: '  ' }).text).toBe(EMAIL.body);
+  });
+
+  it('styles each template differently', () => {
+    const standard = renderEmail(EMAIL).html;
+    const formal = renderEmail(EMAIL, { template: 'formal' }).html;
+
+    expect(standard).toContain('font-family:-apple-system');
+    expect(formal).toContain('font-family:Georgia');
+  });
+
+  it('heads a memo with its recipients, sender, date and subject', () => {
+    const { html, text } = renderEmail(EMAIL, {
+      template: 'memo',
+      from: 'maria@example.com',
+      date: new Date('2025-06-02T10:00:00Z'),
+    });
+
+    expect(text).toBe(
+      [
+        'MEMORANDUM',
+        'To: ana@example.com',
+        'CC: rui@example.com',
+        'From: maria@example.com',
+        'Date: 2 June 2025',
+        'Subject: Q2 <report>',
+        '',
+        EMAIL.body,
+      ].join('\n'),
+    );
+    expect(html).toContain('>MEMORANDUM</p>');
+    expect(html).toContain('<td style="padding:2px 0;">Q2 &lt;report&gt;</td>');
+  });
+});
+
+describe('isEmailTemplateName', () => {
+  it('accepts only known templates', () => {
+    expect(isEmailTemplateName('memo')).toBe(true);
+    expect(isEmailTemplateName('fancy')).toBe(false);
+  });
+});
@@ -0,0 +1,213 @@
+import { ExtractedEmail } from '../gpt/gpt.service';
+
+export const EMAIL_TEMPLATES = ['standard', 'formal', 'memo'] as const;
+
+export type EmailTemplateName = (typeof EMAIL_TEMPLATES)[number];
+
+export const DEFAULT_EMAIL_TEMPLATE: EmailTemplateName = 'standard';
+
+/** What each template looks like, for pickers */
+export const EMAIL_TEMPLATE_DESCRIPTIONS: Record<EmailTemplateName, string> = {
+  standard: 'Clean and modern, for everyday emails',
+  formal: 'Classic serif letter, for clients and official requests',
+  memo: 'Internal memo with a To / Date / Subject header',
+};
+
+/**
+ * Options for rendering an email.
+ *
+ * @interface RenderEmailOptions
+ */
+export interface RenderEmailOptions {
+  template?: EmailTemplateName;
+  /** Signature appended below the body; may span several lines */
+  signature?: string;
+  /** Sender shown in the memo header */
+  from?: string;
+  /** Date shown in the memo header; now when unset */
+  date?: Date;
+}
+
+/**
+ * An email body ready to send: HTML with a plain-text alternative.
+ *
+ * @interface RenderedEmail
+ */
+export interface RenderedEmail {
+  html: string;
+  text: string;
+}
+
+/** Styles of the box holding the email in each template */
+const CONTAINER_STYLES: Record<EmailTemplateName, string> = {
+  standard:
+    "font-family:-apple-system,'Segoe UI',Helvetica,Arial,sans-serif;font-size:15px;line-height:1.6;color:#1f2328;",
+  formal:
+    "font-family:Georgia,'Times New Roman',serif;font-size:16px;line-height:1.7;color:#000000;",
+  memo: 'font-family:Arial,Helvetica,sans-serif;font-size:14px;line-height:1.5;color:#222222;',
+};
+
+/**
+ * Checks whether a name is one of the email templates.
+ *
+ * @param {string} name - Template name
+ * @returns {boolean} True if the name is a template
+ */
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return (EMAIL_TEMPLATES as readonly string[]).includes(name);
+}
+
+/**
+ * Escapes text for use in HTML.
+ *
+ * @param {string} text - Text to escape
+ * @returns {string} Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Turns plain text into HTML paragraphs: blank lines separate paragraphs, single newlines become line breaks.
+ *
+ * @param {string} text - Plain text
+ * @returns {string} HTML paragraphs
+ */
+function toParagraphs(text: string): string {
+  return text
+    .trim()
+    .split(/\n\s*\n/)
+    .map(
+      (paragraph) =>
+        `<p style="margin:0 0 1em;">${paragraph
+          .trim()
+          .split('\n')
+          .map(escapeHtml)
+          .join('<br>')}</p>`,
+    )
+    .join('\n');
+}
+
+/**
+ * Lists the header lines of a memo.
+ *
+ * @param {ExtractedEmail} email - Email to describe
+ * @param {RenderEmailOptions} options - Sender and date
+ * @returns {[string, string][]} Label and value of each line
+ */
+function memoHeader(
+  email: ExtractedEmail,
+  options: RenderEmailOptions,
+): [string, string][] {
+  const date = (options.date ?? new Date()).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+  const lines: [string, string][] = [['To', email.to.join(', ')]];
+  if (email.cc && email.cc.length > 0) {
+    lines.push(['CC', email.cc.join(', ')]);
+  }
+  if (options.from) {
+    lines.push(['From', options.from]);
+  }
+  lines.push(['Date', date], ['Subject', email.subject]);
+  return lines;
+}
+
+/**
+ * Renders the plain-text version of an email, which is also what chat previews show.
+ *
+ * @param {ExtractedEmail} email - Email to render
+ * @param {RenderEmailOptions} options - Template, signature, sender and date
+ * @returns {string} Plain-text body
+ */
+function renderText(
+  email: ExtractedEmail,
+  options: RenderEmailOptions,
+): string {
+  let text = email.body.trim();
+  if (options.template === 'memo') {
+    const header = memoHeader(email, options)
+      .map(([label, value]) => `${label}: ${value}`)
+      .join('\n');
+    text = `MEMORANDUM\n${header}\n\n${text}`;
+  }
+  if (options.signature?.trim()) {
+    // "-- " is the standard signature separator, which mail clients recognise
+    text += `\n\n-- \n${options.signature.trim()}`;
+  }
+  return text;
+}
+
+/**
+ * Renders the HTML version of an email.
+ *
+ * @param {ExtractedEmail} email - Email to render
+ * @param {RenderEmailOptions} options - Template, signature, sender and date
+ * @returns {string} HTML document
+ */
+function renderHtml(
+  email: ExtractedEmail,
+  options: RenderEmailOptions,
+): string {
+  const template = options.template ?? DEFAULT_EMAIL_TEMPLATE;
+  const parts: string[] = [];
+
+  if (template === 'memo') {
+    const rows = memoHeader(email, options)
+      .map(
+        ([label, value]) =>
+          `<tr><td style="padding:2px 16px 2px 0;font-weight:bold;">${label}:</td><td style="padding:2px 0;">${escapeHtml(value)}</td></tr>`,
+      )
+      .join('\n');
+    parts.push(
+      '<p style="margin:0 0 12px;font-size:18px;font-weight:bold;letter-spacing:2px;">MEMORANDUM</p>',
+      `<table style="border-collapse:collapse;margin-bottom:16px;">\n${rows}\n</table>`,
+      '<hr style="border:0;border-top:2px solid #222222;margin:0 0 16px;">',
+    );
+  }
+
+  parts.push(toParagraphs(email.body));
+
+  if (options.signature?.trim()) {
+    const signature = options.signature.trim().split('\n').map(escapeHtml);
+    parts.push(
+      `<div style="margin-top:24px;padding-top:12px;border-top:1px solid #d0d7de;color:#57606a;">${signature.join('<br>')}</div>`,
+    );
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    `<head><meta charset="utf-8"><title>${escapeHtml(email.subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f6f8fa;">',
+    `<div style="max-width:640px;margin:0 auto;padding:32px;background:#ffffff;${CONTAINER_STYLES[template]}">`,
+    parts.join('\n'),
+    '</div>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+/**
+ * Renders an email body into a template, with a plain-text alternative carrying the same content.
+ *
+ * @param {ExtractedEmail} email - Email to render
+ * @param {RenderEmailOptions} options - Template, signature, sender and date
+ * @returns {RenderedEmail} HTML and plain-text bodies
+ */
+export function renderEmail(
+  email: ExtractedEmail,
+  options: RenderEmailOptions = {},
+): RenderedEmail {
+  return {
+    html: renderHtml(email, options),
+    text: renderText(email, options),
+  };
+}
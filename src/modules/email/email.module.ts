@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { EmailService } from './email.service';
 import { ConfigModule } from '@nestjs/config';
+import { AccountModule } from '../account/account.module';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, AccountModule],
   providers: [EmailService],
   exports: [EmailService],
 })
@@ -1,17 +1,40 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import * as nodemailer from 'nodemailer';
+import SMTPPool from 'nodemailer/lib/smtp-pool';
 import { ExtractedEmail } from '../gpt/gpt.service';
+import {
+  AccountService,
+  SenderAccount,
+  SmtpSettings,
+} from '../account/account.service';
+import {
+  EMAIL_TEMPLATES,
+  EmailTemplateName,
+  renderEmail,
+} from './email-templates';
+import { CalendarInvite } from './calendar-invite';
 import { z } from 'zod';
 
 /**
  * Email sending options with additional configuration.
- * 
+ *
  * @interface EmailOptions
  */
 interface EmailOptions {
-  /** Whether to send as HTML instead of plain text */
+  /** Telegram user whose account the email is sent from; the shared account when unset */
+  userId?: number;
+  /** Whether to send an HTML part, rendered from the body, next to the plain text */
   html?: boolean;
+  /** Template the body is rendered into */
+  template?: EmailTemplateName;
+  /** Signature appended below the body */
+  signature?: string;
   /** CC recipients */
   cc?: string[];
   /** BCC recipients */
@@ -22,166 +45,401 @@ interface EmailOptions {
     content: Buffer | string;
     contentType?: string;
   }>;
+  /** Calendar invitation sent as a text/calendar part, which mail clients show as an invite */
+  calendar?: CalendarInvite;
+  /** Conversation the email replies to */
+  thread?: EmailThread;
+  /** Message-ID header to send with, so that sending the same email again reuses it */
+  messageId?: string;
 }
 
+/**
+ * Headers tying a reply to the conversation it belongs to (RFC 5322, section 3.6.4).
+ *
+ * @interface EmailThread
+ */
+export interface EmailThread {
+  /** Message ID of the email replied to */
+  inReplyTo: string;
+  /** Message IDs of the conversation so far, oldest first, ending with the one replied to */
+  references: string[];
+}
+
+/**
+ * What the SMTP server did with an email.
+ *
+ * @interface EmailDelivery
+ */
+export interface EmailDelivery {
+  /** Message ID of the sent email */
+  messageId: string;
+  /** Recipients the server accepted */
+  accepted: string[];
+  /** Recipients the server refused; the email still went to the accepted ones */
+  rejected: string[];
+}
+
+/**
+ * A pooled SMTP connection and the account revision it was opened with.
+ *
+ * @interface PooledTransporter
+ */
+interface PooledTransporter {
+  transporter: nodemailer.Transporter<SMTPPool.SentMessageInfo>;
+  revision: string;
+}
+
+/** Nodemailer error codes meaning the server could not be reached, as opposed to refusing the login */
+const CONNECTION_ERROR_CODES = [
+  'ECONNECTION',
+  'ESOCKET',
+  'ETIMEDOUT',
+  'EDNS',
+  'ETLS',
+];
+
 /**
  * Service responsible for handling email operations.
  * Provides functionality for sending emails with various options and formats.
- * 
+ * Emails go out through the sender's own SMTP account, over a connection pool kept per account.
+ *
  * @class EmailService
  */
 @Injectable()
-export class EmailService {
+export class EmailService implements OnModuleDestroy {
   private readonly logger = new Logger(EmailService.name);
-  private readonly transporter: nodemailer.Transporter;
-  private readonly defaultFrom: string;
+  private readonly transporters = new Map<string, PooledTransporter>();
 
   // Validation schemas
   private readonly emailSchema = z.object({
-    to: z.string().email('Invalid email address'),
+    to: z
+      .array(z.string().email('Invalid email address'))
+      .min(1, 'At least one recipient is required'),
+    cc: z.array(z.string().email('Invalid CC email address')).optional(),
+    bcc: z.array(z.string().email('Invalid BCC email address')).optional(),
     subject: z.string().min(1, 'Subject cannot be empty'),
     body: z.string().min(1, 'Body cannot be empty'),
   });
 
   private readonly emailOptionsSchema = z.object({
+    userId: z.number().optional(),
     html: z.boolean().optional(),
+    template: z.enum(EMAIL_TEMPLATES).optional(),
+    signature: z.string().optional(),
     cc: z.array(z.string().email('Invalid CC email address')).optional(),
     bcc: z.array(z.string().email('Invalid BCC email address')).optional(),
-    attachments: z.array(z.object({
-      filename: z.string(),
-      content: z.union([z.instanceof(Buffer), z.string()]),
-      contentType: z.string().optional(),
-    })).optional(),
+    attachments: z
+      .array(
+        z.object({
+          filename: z.string(),
+          content: z.union([z.instanceof(Buffer), z.string()]),
+          contentType: z.string().optional(),
+        }),
+      )
+      .optional(),
+    calendar: z
+      .object({
+        method: z.enum(['REQUEST', 'CANCEL']),
+        content: z.string().min(1),
+      })
+      .optional(),
+    thread: z
+      .object({
+        inReplyTo: z.string().min(1),
+        references: z.array(z.string().min(1)),
+      })
+      .optional(),
+    messageId: z.string().min(1).optional(),
   });
 
   /**
    * Creates an instance of EmailService.
-   * 
-   * @param {ConfigService} configService - Service for accessing configuration values
-   * @throws {Error} If required SMTP configuration is missing
+   *
+   * @param {AccountService} accountService - Service providing the accounts emails are sent from
    */
-  constructor(private configService: ConfigService) {
-    const smtpConfig = this.validateSmtpConfig();
-    this.defaultFrom = smtpConfig.user;
-
-    this.transporter = nodemailer.createTransport({
-      host: smtpConfig.host,
-      port: smtpConfig.port,
-      secure: smtpConfig.secure,
-      auth: {
-        user: smtpConfig.user,
-        pass: smtpConfig.pass,
-      },
-    });
-
-    // Verify SMTP connection
-    this.verifyConnection();
+  constructor(private accountService: AccountService) {
+    // Verify the shared SMTP connection, if users may fall back to it
+    if (this.accountService.hasSharedAccount()) {
+      this.verifyConnection();
+    }
   }
 
   /**
-   * Validates SMTP configuration from environment variables.
-   * 
-   * @returns {Object} Validated SMTP configuration
-   * @throws {Error} If required configuration is missing
-   * @private
+   * Closes all pooled SMTP connections on shutdown.
    */
-  private validateSmtpConfig() {
-    const host = this.configService.get<string>('SMTP_HOST');
-    const port = this.configService.get<number>('SMTP_PORT');
-    const user = this.configService.get<string>('SMTP_USER');
-    const pass = this.configService.get<string>('SMTP_PASS');
-    const secure = this.configService.get<boolean>('SMTP_SECURE', false);
-
-    if (!host || !port || !user || !pass) {
-      throw new Error('Missing required SMTP configuration');
+  onModuleDestroy(): void {
+    for (const { transporter } of this.transporters.values()) {
+      transporter.close();
     }
-
-    return { host, port, user, pass, secure };
+    this.transporters.clear();
   }
 
   /**
-   * Verifies SMTP connection on service initialization.
-   * 
+   * Verifies the shared SMTP connection on service initialization.
+   *
    * @private
    */
   private async verifyConnection() {
     try {
-      await this.transporter.verify();
+      await this.transporterFor(this.accountService.resolve()).verify();
       this.logger.log('✅ SMTP connection verified successfully');
     } catch (error) {
-      this.logger.error('❌ Failed to verify SMTP connection:', error.message);
+      this.logger.error(
+        '❌ Failed to verify SMTP connection:',
+        (error as Error).message,
+      );
       throw new Error('SMTP connection verification failed');
     }
   }
 
+  /**
+   * Gets the pooled transporter of an account, replacing it if the account changed since it was opened.
+   *
+   * @param {SenderAccount} account - Account to send from
+   * @returns {nodemailer.Transporter<SMTPPool.SentMessageInfo>} Pooled transporter
+   * @private
+   */
+  private transporterFor(
+    account: SenderAccount,
+  ): nodemailer.Transporter<SMTPPool.SentMessageInfo> {
+    const pooled = this.transporters.get(account.key);
+    if (pooled && pooled.revision === account.revision) {
+      return pooled.transporter;
+    }
+
+    pooled?.transporter.close();
+    const transporter = nodemailer.createTransport({
+      pool: true,
+      host: account.host,
+      port: account.port,
+      secure: account.secure,
+      auth: {
+        user: account.user,
+        pass: account.pass,
+      },
+    });
+    this.transporters.set(account.key, {
+      transporter,
+      revision: account.revision,
+    });
+    return transporter;
+  }
+
+  /**
+   * Checks that an SMTP account accepts the login, without sending anything.
+   *
+   * @param {SmtpSettings} settings - Account to check
+   * @throws {BadRequestException} If the server cannot be reached or refuses the login
+   */
+  async verifyAccount(settings: SmtpSettings): Promise<void> {
+    const transporter = nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: {
+        user: settings.user,
+        pass: settings.pass,
+      },
+      connectionTimeout: 15000,
+      greetingTimeout: 15000,
+    });
+
+    try {
+      await transporter.verify();
+      this.logger.log(
+        `✅ SMTP login verified for ${settings.user} at ${settings.host}:${settings.port}`,
+      );
+    } catch (error) {
+      // Nodemailer tells refused logins from unreachable servers by the error code
+      const { code, message } = error as NodeJS.ErrnoException;
+      this.logger.warn(
+        `SMTP login failed for ${settings.user} at ${settings.host}:${settings.port}: ${message}`,
+      );
+      if (code === 'EAUTH') {
+        throw new BadRequestException(
+          'The server refused the login, check the address and password',
+          { cause: error },
+        );
+      }
+      if (code && CONNECTION_ERROR_CODES.includes(code)) {
+        throw new BadRequestException(
+          `Could not reach ${settings.host}:${settings.port}, check the server and port`,
+          { cause: error },
+        );
+      }
+      throw new BadRequestException('SMTP verification failed: ' + message, {
+        cause: error,
+      });
+    } finally {
+      transporter.close();
+    }
+  }
+
+  /**
+   * Checks that a user has an account to send from.
+   *
+   * @param {number} [userId] - Telegram user ID; omitted for clients without a user, such as the HTTP API
+   * @throws {BadRequestException} If there is no account to send from
+   */
+  checkSender(userId?: number): void {
+    this.accountService.resolve(userId);
+  }
+
+  /**
+   * Creates a Message-ID in the domain of the address a user's emails are sent from.
+   *
+   * @param {number} [userId] - Telegram user ID; omitted for clients without a user, such as the HTTP API
+   * @returns {string} The Message-ID, angle brackets included
+   */
+  createMessageId(userId?: number): string {
+    // The sender may be a bare address or a display name with the address in angle brackets
+    const domain =
+      this.accountService.getSenderAddress(userId)?.match(/@([^\s>]+)/)?.[1] ??
+      'localhost';
+    return `<${randomUUID()}@${domain}>`;
+  }
+
+  /**
+   * Checks that an email can be sent: at least one valid recipient, a subject and a body.
+   *
+   * @param {ExtractedEmail} email - Email data to check
+   * @throws {BadRequestException} If email data is invalid
+   */
+  validate(email: ExtractedEmail): void {
+    const result = this.emailSchema.safeParse(email);
+    if (!result.success) {
+      throw new BadRequestException(
+        'Invalid email data: ' +
+          result.error.errors.map((e) => e.message).join(', '),
+      );
+    }
+  }
+
   /**
    * Sends an email using the provided email data and options.
-   * 
+   * CC and BCC recipients from the email data and the options are combined.
+   * The template and signature are applied to the body.
+   * The email is sent from the user's account, or the shared one if they have none and it is allowed.
+   *
    * @param {ExtractedEmail} email - Email data to send
    * @param {EmailOptions} options - Additional email options
-   * @returns {Promise<string>} Message ID of the sent email
-   * @throws {BadRequestException} If email data is invalid
-   * @throws {Error} If email sending fails
+   * @returns {Promise<EmailDelivery>} Message ID and the recipients the server accepted and rejected
+   * @throws {BadRequestException} If email data is invalid or there is no account to send from
+   * @throws {Error} If email sending fails; the original error is kept as cause
    */
-  async sendEmail(email: ExtractedEmail, options: EmailOptions = {}): Promise<string> {
+  async sendEmail(
+    email: ExtractedEmail,
+    options: EmailOptions = {},
+  ): Promise<EmailDelivery> {
+    const account = this.accountService.resolve(options.userId);
+    const from = account.from ?? account.user;
+
     try {
       // Validate email data
       const validatedEmail = this.emailSchema.parse(email);
       const validatedOptions = this.emailOptionsSchema.parse(options);
 
+      const cc = [...(validatedEmail.cc ?? []), ...(validatedOptions.cc ?? [])];
+      const bcc = [
+        ...(validatedEmail.bcc ?? []),
+        ...(validatedOptions.bcc ?? []),
+      ];
+      const rendered = renderEmail(validatedEmail, {
+        template: validatedOptions.template,
+        signature: validatedOptions.signature,
+        from,
+      });
+
       const mailOptions: nodemailer.SendMailOptions = {
-        from: this.defaultFrom,
+        from,
         to: validatedEmail.to,
         subject: validatedEmail.subject,
-        ...(validatedOptions.html ? { html: validatedEmail.body } : { text: validatedEmail.body }),
-        ...(validatedOptions.cc && { cc: validatedOptions.cc }),
-        ...(validatedOptions.bcc && { bcc: validatedOptions.bcc }),
-        ...(validatedOptions.attachments && { attachments: validatedOptions.attachments }),
+        ...(validatedOptions.html
+          ? { html: rendered.html, text: rendered.text }
+          : { text: rendered.text }),
+        ...(cc.length > 0 && { cc }),
+        ...(bcc.length > 0 && { bcc }),
+        ...(validatedOptions.attachments && {
+          attachments: validatedOptions.attachments,
+        }),
+        ...(validatedOptions.calendar && {
+          icalEvent: validatedOptions.calendar,
+        }),
+        ...(validatedOptions.thread && {
+          inReplyTo: validatedOptions.thread.inReplyTo,
+          references: validatedOptions.thread.references,
+        }),
+        ...(validatedOptions.messageId && {
+          messageId: validatedOptions.messageId,
+        }),
+      };
+
+      const info = await this.transporterFor(account).sendMail(mailOptions);
+      // Nodemailer reports recipients as plain strings or { name, address } objects
+      const address = (recipient: string | { address: string }) =>
+        typeof recipient === 'string' ? recipient : recipient.address;
+      const delivery: EmailDelivery = {
+        messageId: info.messageId,
+        accepted: info.accepted.map(address),
+        rejected: info.rejected.map(address),
       };
+      this.logger.log(
+        `📧 Email sent successfully from ${from} to ${delivery.accepted.join(', ')} (${info.messageId})` +
+          (delivery.rejected.length > 0
+            ? `, rejected: ${delivery.rejected.join(', ')}`
+            : ''),
+      );
 
-      const info = await this.transporter.sendMail(mailOptions);
-      this.logger.log(`📧 Email sent successfully to ${validatedEmail.to} (${info.messageId})`);
-      
-      return info.messageId;
+      return delivery;
     } catch (error) {
       if (error instanceof z.ZodError) {
         this.logger.error('Invalid email data:', error.errors);
-        throw new BadRequestException('Invalid email data: ' + error.errors.map(e => e.message).join(', '));
+        throw new BadRequestException(
+          'Invalid email data: ' +
+            error.errors.map((e) => e.message).join(', '),
+        );
       }
 
-      this.logger.error(`❌ Failed to send email: ${error.message}`);
-      throw new Error('Email sending failed: ' + error.message);
+      this.logger.error(`❌ Failed to send email: ${(error as Error).message}`);
+      throw new Error('Email sending failed: ' + (error as Error).message, {
+        cause: error,
+      });
     }
   }
 
   /**
-   * Sends an HTML email.
-   * 
+   * Sends an email whose body is rendered into an HTML template, with a plain-text alternative.
+   *
    * @param {ExtractedEmail} email - Email data to send
-   * @param {Omit<EmailOptions, 'html'>} options - Additional email options
-   * @returns {Promise<string>} Message ID of the sent email
+   * @param {Omit<EmailOptions, 'html'>} options - Template, signature and other email options
+   * @returns {Promise<EmailDelivery>} Message ID and the recipients the server accepted and rejected
    */
-  async sendHtmlEmail(email: ExtractedEmail, options: Omit<EmailOptions, 'html'> = {}): Promise<string> {
+  async sendHtmlEmail(
+    email: ExtractedEmail,
+    options: Omit<EmailOptions, 'html'> = {},
+  ): Promise<EmailDelivery> {
     return this.sendEmail(email, { ...options, html: true });
   }
 
   /**
    * Sends an email with attachments.
-   * 
+   *
    * @param {ExtractedEmail} email - Email data to send
    * @param {Buffer[]} attachments - Array of file buffers to attach
    * @param {string[]} filenames - Array of filenames for the attachments
    * @param {Omit<EmailOptions, 'attachments'>} options - Additional email options
-   * @returns {Promise<string>} Message ID of the sent email
+   * @returns {Promise<EmailDelivery>} Message ID and the recipients the server accepted and rejected
    */
   async sendEmailWithAttachments(
     email: ExtractedEmail,
     attachments: Buffer[],
     filenames: string[],
     options: Omit<EmailOptions, 'attachments'> = {},
-  ): Promise<string> {
+  ): Promise<EmailDelivery> {
     if (attachments.length !== filenames.length) {
-      throw new BadRequestException('Number of attachments must match number of filenames');
+      throw new BadRequestException(
+        'Number of attachments must match number of filenames',
+      );
     }
 
     const emailAttachments = attachments.map((content, index) => ({
@@ -193,17 +451,20 @@ export class EmailService {
   }
 
   /**
-   * Gets the current SMTP configuration (without sensitive data).
-   * 
-   * @returns {Object} Current SMTP configuration
+   * Gets the SMTP configuration a user's emails are sent with (without sensitive data).
+   *
+   * @param {number} [userId] - Telegram user ID; the shared account when omitted
+   * @returns {Object} SMTP configuration
+   * @throws {BadRequestException} If there is no account to send from
    */
-  getConfig() {
-    const config = this.validateSmtpConfig();
+  getConfig(userId?: number) {
+    const account = this.accountService.resolve(userId);
     return {
-      host: config.host,
-      port: config.port,
-      secure: config.secure,
-      user: config.user,
+      host: account.host,
+      port: account.port,
+      secure: account.secure,
+      user: account.user,
+      from: account.from ?? account.user,
     };
   }
 }
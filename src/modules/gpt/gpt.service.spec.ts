@@ -0,0 +1,276 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { z } from 'zod';
+import { GptService } from './gpt.service';
+
+const EMAIL_ANSWER = {
+  intent: 'email',
+  recipients: [
+    { field: 'to', address: 'ana@example.com', name: null, candidates: [] },
+  ],
+  subject: 'Report',
+  body: 'Here it is.',
+  sendAt: null,
+  translateTo: null,
+};
+
+/**
+ * Builds a chat completion in which GPT calls a function with the given arguments.
+ *
+ * @param {unknown} args - Function arguments, serialized as GPT would; strings are sent as they are
+ * @returns {object} The completion
+ */
+function toolCall(args: unknown) {
+  return {
+    choices: [
+      {
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: 'call-1',
+              type: 'function',
+              function: {
+                name: 'output',
+                arguments:
+                  typeof args === 'string' ? args : JSON.stringify(args),
+              },
+            },
+          ],
+        },
+      },
+    ],
+    usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+  };
+}
+
+describe('GptService', () => {
+  let service: GptService;
+  let create: jest.Mock;
+
+  /** Answers the next GPT calls with these function arguments, in order */
+  function respond(...answers: unknown[]): void {
+    for (const answer of answers) {
+      create.mockImplementationOnce(
+        (request: { tools: { function: { name: string } }[] }) => {
+          const completion = toolCall(answer);
+          completion.choices[0].message.tool_calls[0].function.name =
+            request.tools[0].function.name;
+          return Promise.resolve(completion);
+        },
+      );
+    }
+  }
+
+  /** Text of the prompt sent in the nth GPT call */
+  function prompt(call = 0): string {
+    const [{ messages }] = create.mock.calls[call] as [
+      { messages: { content: string }[] },
+    ];
+    return messages[0].content;
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-06-15T12:00:00Z') });
+    service = new GptService(new ConfigService({ OPENAI_API_KEY: 'sk-test' }));
+    create = jest.fn();
+    // Every GPT call goes through the OpenAI client the service creates
+    Object.assign(service, { openai: { chat: { completions: { create } } } });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('send times', () => {
+    it('reads a spoken time in the user timezone', async () => {
+      respond({ sendAt: '2025-06-16T09:00' });
+
+      const { data } = await service.parseSendTime('at 9am', undefined, {
+        timezone: 'America/New_York',
+      });
+
+      expect(data).toEqual(new Date('2025-06-16T13:00:00Z'));
+      expect(prompt()).toContain('America/New_York');
+      expect(prompt()).toContain('2025-06-15T08:00');
+    });
+
+    it('reads times in UTC without a timezone', async () => {
+      respond({ sendAt: '2025-06-16T09:00' });
+
+      const { data } = await service.parseSendTime('tomorrow at 9am');
+
+      expect(data).toEqual(new Date('2025-06-16T09:00:00Z'));
+    });
+
+    it('ignores a time that has already passed', async () => {
+      respond({ sendAt: '2025-06-15T11:00' });
+
+      const { data } = await service.parseSendTime('at 11', undefined, {
+        timezone: 'UTC',
+      });
+
+      expect(data).toBeNull();
+    });
+
+    it('schedules an extracted email when the text says when to send it', async () => {
+      respond({ ...EMAIL_ANSWER, sendAt: '2025-06-16T09:00' });
+
+      const { data } = await service.extractEmailFields(
+        'Email Ana the report tomorrow at 9',
+        undefined,
+        { timezone: 'Europe/Lisbon' },
+      );
+
+      expect(data.sendAt).toEqual(new Date('2025-06-16T08:00:00Z'));
+    });
+  });
+
+  describe('structured output', () => {
+    it('makes GPT call the output function', async () => {
+      respond(EMAIL_ANSWER);
+
+      const { data, usage } = await service.extractEmailFields('Email Ana');
+
+      const [[request]] = create.mock.calls as [
+        [{ tools: { function: { name: string } }[]; tool_choice: unknown }],
+      ];
+      expect(request.tool_choice).toEqual({
+        type: 'function',
+        function: { name: request.tools[0].function.name },
+      });
+      expect(data.email).toMatchObject({
+        to: ['ana@example.com'],
+        subject: 'Report',
+      });
+      expect(usage).toEqual({
+        promptTokens: 100,
+        completionTokens: 20,
+        totalTokens: 120,
+      });
+    });
+
+    it('asks GPT to repair output that does not match the schema', async () => {
+      respond({ ...EMAIL_ANSWER, sendAt: 'tomorrow morning' }, EMAIL_ANSWER);
+
+      const { data, usage } = await service.extractEmailFields('Email Ana');
+
+      expect(data.email.subject).toBe('Report');
+      expect(create).toHaveBeenCalledTimes(2);
+      const [, [repair]] = create.mock.calls as [
+        unknown,
+        [{ messages: { role: string; content: string }[] }],
+      ];
+      expect(repair.messages.at(-1)).toMatchObject({
+        role: 'tool',
+        content: expect.stringContaining(
+          'sendAt: Must be a local date',
+        ) as string,
+      });
+      expect(usage.totalTokens).toBe(240);
+    });
+
+    it('repairs arguments that are not JSON', async () => {
+      respond('{"intent": "email", ', EMAIL_ANSWER);
+
+      await service.extractEmailFields('Email Ana');
+
+      expect(create).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives up when the repairs are still invalid', async () => {
+      const invalid = { ...EMAIL_ANSWER, subject: 42 };
+      respond(invalid, invalid, invalid);
+
+      await expect(service.extractEmailFields('Email Ana')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(create).toHaveBeenCalledTimes(3);
+    });
+
+    it('refuses text that does not ask for an email', async () => {
+      respond({ ...EMAIL_ANSWER, intent: 'none' });
+
+      await expect(service.extractEmailFields('Nice weather')).rejects.toThrow(
+        'The text does not ask for an email',
+      );
+    });
+
+    it('extracts data of any schema', async () => {
+      respond({ title: 'Call the bank', due: '2025-06-16T09:00' });
+
+      const { data } = await service.extractStructured(
+        'Remind me to call the bank tomorrow',
+        z.object({ title: z.string(), due: z.string().nullable() }),
+        {
+          name: 'create_task',
+          description: 'Create a to-do item from the transcribed message',
+          guidelines: ['Keep the title short'],
+        },
+      );
+
+      expect(data).toEqual({ title: 'Call the bank', due: '2025-06-16T09:00' });
+      expect(prompt()).toContain('1. Keep the title short');
+    });
+
+    it('keeps the OpenAI error as the cause of a failed call', async () => {
+      const failure = Object.assign(new Error('socket hang up'), {
+        code: 'ECONNRESET',
+      });
+      create.mockRejectedValueOnce(failure);
+
+      const error = (await service
+        .extractEmailFields('Email Ana')
+        .catch((caught: unknown) => caught)) as Error;
+
+      expect(error.message).toContain('socket hang up');
+      expect(error.cause).toBe(failure);
+    });
+  });
+
+  describe('translation', () => {
+    it('translates the subject and body into the language asked for', async () => {
+      respond({ subject: ' Relatório ', body: 'Segue em anexo.\n' });
+
+      const { data } = await service.translateEmail(
+        { subject: 'Report', body: 'Attached.' },
+        'pt',
+      );
+
+      expect(data).toEqual({ subject: 'Relatório', body: 'Segue em anexo.' });
+      expect(prompt()).toContain('into Portuguese');
+      expect(prompt()).toContain('Subject: Report');
+    });
+
+    it('refuses an email without a subject or body', async () => {
+      await expect(
+        service.translateEmail({ subject: 'Report', body: ' ' }, 'pt'),
+      ).rejects.toThrow(BadRequestException);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('reads the language an email should be sent in as a code', async () => {
+      respond({ ...EMAIL_ANSWER, translateTo: 'Portuguese' });
+
+      const { data } = await service.extractEmailFields(
+        'Email Ana the report in Portuguese',
+      );
+
+      expect(data.translateTo).toBe('pt');
+    });
+
+    it('asks for a repair of a language it does not know', async () => {
+      respond({ ...EMAIL_ANSWER, translateTo: 'Elvish' }, EMAIL_ANSWER);
+
+      const { data } = await service.extractEmailFields('Email Ana in Elvish');
+
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(data.translateTo).toBeUndefined();
+    });
+  });
+});
@@ -1,162 +1,1122 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import OpenAI from 'openai';
+import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { zodFunction } from 'openai/helpers/zod';
 import { z } from 'zod';
+import { Contact } from '../contact/contact.service';
+import { getLanguageName, toLanguageCode } from '../whisper/languages';
+import { toLocalDateTime, fromLocalDateTime } from '../preference/timezone';
 
 // Types
 export interface ExtractedEmail {
-    to: string;
-    subject: string;
-    body: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+}
+
+export type RecipientField = 'to' | 'cc' | 'bcc';
+
+export interface UnresolvedRecipient {
+  /** Which recipient list the address belongs to */
+  field: RecipientField;
+  /** Recipient as spoken (e.g. "John from finance"), empty if none was mentioned */
+  name: string;
+  /** Address book entries that could be meant */
+  candidates: Contact[];
+}
+
+export interface EmailExtraction {
+  /** Extracted email; only resolved addresses are included in the recipient lists */
+  email: ExtractedEmail;
+  /** Recipients that could not be resolved to a single address */
+  unresolvedRecipients: UnresolvedRecipient[];
+  /** When the user asked for the email to be sent; right away when unset */
+  sendAt?: Date;
+  /** ISO-639-1 code of the language the user asked the email to be sent in, if any */
+  translateTo?: string;
+}
+
+/** Subject and body of an email in another language */
+export interface TranslatedEmail {
+  subject: string;
+  body: string;
+}
+
+export interface ExtractionContext {
+  /** The user's address book, used to resolve spoken names */
+  contacts?: Contact[];
+  /** ISO-639-1 code of the language the text was spoken in */
+  language?: string;
+  /** IANA timezone spoken times are read in; UTC when unset */
+  timezone?: string;
+  /** Send time already set on the draft being revised */
+  sendAt?: Date;
+}
+
+/** What GPT is told about an intent it may classify a text as */
+export interface IntentDescription {
+  /** Name GPT answers with */
+  name: string;
+  /** When a text has this intent */
+  description: string;
+}
+
+/** A kind of structured data GPT extracts from a text, and how */
+export interface StructuredExtraction {
+  /** Name of the function GPT calls with the data, e.g. "create_task" */
+  name: string;
+  /** What the function does, e.g. "Create a to-do item from the transcribed message" */
+  description: string;
+  /** Instructions specific to this kind of data */
+  guidelines: string[];
+}
+
+/** An email someone sent the user, as shown to GPT */
+export interface ReceivedEmail {
+  /** Sender, e.g. "Anna Smith <anna@example.com>" */
+  from: string;
+  subject: string;
+  /** Plain-text body */
+  body: string;
 }
 
 export interface GptResponse<T> {
-    data: T;
-    usage: {
-        promptTokens: number;
-        completionTokens: number;
-        totalTokens: number;
-    };
+  data: T;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
 }
 
+/** Times GPT is asked to correct output that fails validation before giving up */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/** Longest part of a received email's body shown to GPT; long threads quote much of the same text */
+const MAX_EMAIL_BODY_CHARS = 8000;
+
 // Validation schemas
-const emailSchema = z.object({
-    to: z.string().email('Invalid email address'),
-    subject: z.string().min(1, 'Subject cannot be empty'),
-    body: z.string().min(1, 'Body cannot be empty'),
+const addressSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email('Invalid email address');
+
+/**
+ * Output schemas double as the function definitions GPT must call, so every field is required
+ * (nullable instead of optional) and checks that JSON Schema cannot express are refinements.
+ */
+const nonEmpty = (message: string) =>
+  z.string().refine((value) => value.trim().length > 0, message);
+
+export const localDateTimeSchema = z
+  .string()
+  .nullable()
+  .refine(
+    (value) => value === null || fromLocalDateTime(value, 'UTC') !== undefined,
+    'Must be a local date and time written as YYYY-MM-DDTHH:mm, or null',
+  );
+
+const translateToSchema = z
+  .string()
+  .nullable()
+  .refine(
+    (value) => value === null || toLanguageCode(value) !== undefined,
+    'Must be an ISO-639-1 language code such as "en", or null',
+  )
+  .describe(
+    'ISO-639-1 code of the language the email should be sent in, if the user asked for another one, else null',
+  );
+
+const recipientsSchema = z.array(
+  z.object({
+    field: z
+      .enum(['to', 'cc', 'bcc'])
+      .describe(
+        '"to" for main recipients, "cc" for copies, "bcc" for blind copies',
+      ),
+    address: z
+      .string()
+      .nullable()
+      .describe(
+        'Email address, only if dictated or matching exactly one address book entry',
+      ),
+    name: z
+      .string()
+      .nullable()
+      .describe('The person as spoken, e.g. "John from finance"'),
+    candidates: z
+      .array(z.string())
+      .describe(
+        'Addresses of every address book entry that could be this person',
+      ),
+  }),
+);
+
+const revisionSchema = z.object({
+  recipients: recipientsSchema,
+  subject: nonEmpty('Subject cannot be empty'),
+  body: nonEmpty('Body cannot be empty'),
+  sendAt: localDateTimeSchema,
+  translateTo: translateToSchema,
+});
+
+const extractionSchema = z.object({
+  intent: z
+    .enum(['email', 'none'])
+    .describe(
+      '"email" if the text asks for an email to be written, "none" otherwise',
+    ),
+  recipients: recipientsSchema,
+  subject: z
+    .string()
+    .nullable()
+    .describe('Subject line, or null if the text gives nothing to write about'),
+  body: z
+    .string()
+    .nullable()
+    .describe(
+      'Email body, or null if the text does not say what the email should say',
+    ),
+  sendAt: localDateTimeSchema,
+  translateTo: translateToSchema,
+});
+
+const sendTimeSchema = z.object({
+  sendAt: localDateTimeSchema,
+});
+
+const summarySchema = z.object({
+  summary: nonEmpty('Summary cannot be empty').describe(
+    'What the email says and asks for, in one to three sentences',
+  ),
+});
+
+const replySchema = z.object({
+  body: nonEmpty('Body cannot be empty').describe(
+    'Body of the reply, from the greeting to the sign-off',
+  ),
+});
+
+const translationSchema = z.object({
+  subject: nonEmpty('Subject cannot be empty'),
+  body: nonEmpty('Body cannot be empty'),
 });
 
 const gptConfigSchema = z.object({
-    model: z.string().default('gpt-4'),
-    temperature: z.number().min(0).max(2).default(0.7),
-    maxTokens: z.number().optional(),
+  model: z.string().default('gpt-4o'),
+  temperature: z.number().min(0).max(2).default(0.2),
+  maxTokens: z.number().optional(),
 });
 
+/**
+ * The function GPT is made to call with its answer.
+ *
+ * @interface OutputFunction
+ */
+interface OutputFunction {
+  name: string;
+  description: string;
+}
+
 @Injectable()
 export class GptService {
-    private readonly logger = new Logger(GptService.name);
-    private readonly openai: OpenAI;
-    private readonly defaultConfig: z.infer<typeof gptConfigSchema>;
-
-    constructor(private configService: ConfigService) {
-        const apiKey = this.configService.get<string>('OPENAI_API_KEY');
-        if (!apiKey) {
-            throw new Error('OPENAI_API_KEY is not defined in environment variables');
+  private readonly logger = new Logger(GptService.name);
+  private readonly openai: OpenAI;
+  private readonly defaultConfig: z.infer<typeof gptConfigSchema>;
+
+  constructor(private configService: ConfigService) {
+    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not defined in environment variables');
+    }
+
+    this.openai = new OpenAI({ apiKey });
+
+    // Default configuration; a low temperature keeps structured output consistent
+    this.defaultConfig = {
+      model: 'gpt-4o',
+      temperature: 0.2,
+      maxTokens: 1000,
+    };
+  }
+
+  /**
+   * Extract email fields from transcribed text
+   * @param text - The transcribed text to process
+   * @param config - Optional configuration for GPT
+   * @param context - Optional user context such as the address book
+   * @returns Extracted email fields with usage statistics; subject and body are empty when the text asks for
+   * an email without saying what it should say
+   * @throws {BadRequestException} If the text does not ask for an email, or GPT keeps returning invalid output
+   */
+  async extractEmailFields(
+    text: string,
+    config?: Partial<z.infer<typeof gptConfigSchema>>,
+    context: ExtractionContext = {},
+  ): Promise<GptResponse<EmailExtraction>> {
+    if (!text?.trim()) {
+      throw new BadRequestException('Text cannot be empty');
+    }
+
+    const mergedConfig = { ...this.defaultConfig, ...config };
+    const validatedConfig = gptConfigSchema.parse(mergedConfig);
+
+    const contacts = context.contacts ?? [];
+    const timezone = context.timezone ?? 'UTC';
+    const prompt = this.buildEmailExtractionPrompt(
+      text,
+      contacts,
+      context.language,
+      timezone,
+    );
+
+    const response = await this.requestStructured(
+      prompt,
+      validatedConfig,
+      extractionSchema,
+      {
+        name: 'create_email_draft',
+        description: 'Create an email draft from the transcribed message',
+      },
+    );
+    if (response.data.intent === 'none') {
+      throw new BadRequestException('The text does not ask for an email');
+    }
+    return {
+      ...response,
+      data: {
+        ...this.resolveRecipients(response.data, contacts),
+        sendAt: this.resolveSendTime(response.data.sendAt, timezone),
+        translateTo: toLanguageCode(response.data.translateTo ?? undefined),
+      },
+    };
+  }
+
+  /**
+   * Revise an email draft according to a free-form instruction
+   * @param email - The current email draft
+   * @param instruction - What to change (e.g. "make it shorter")
+   * @param config - Optional configuration for GPT
+   * @param context - Optional user context such as the address book
+   * @returns Revised email fields with usage statistics
+   */
+  async reviseEmail(
+    email: ExtractedEmail,
+    instruction: string,
+    config?: Partial<z.infer<typeof gptConfigSchema>>,
+    context: ExtractionContext = {},
+  ): Promise<GptResponse<EmailExtraction>> {
+    if (!instruction?.trim()) {
+      throw new BadRequestException('Instruction cannot be empty');
+    }
+
+    const mergedConfig = { ...this.defaultConfig, ...config };
+    const validatedConfig = gptConfigSchema.parse(mergedConfig);
+
+    const contacts = context.contacts ?? [];
+    const timezone = context.timezone ?? 'UTC';
+    const prompt = this.buildEmailRevisionPrompt(
+      email,
+      instruction,
+      contacts,
+      timezone,
+      context.sendAt,
+    );
+
+    const response = await this.requestStructured(
+      prompt,
+      validatedConfig,
+      revisionSchema,
+      {
+        name: 'update_email_draft',
+        description: 'Return the complete revised email draft',
+      },
+    );
+    return {
+      ...response,
+      data: {
+        ...this.resolveRecipients(response.data, contacts),
+        sendAt: this.resolveSendTime(response.data.sendAt, timezone),
+        translateTo: toLanguageCode(response.data.translateTo ?? undefined),
+      },
+    };
+  }
+
+  /**
+   * Translate the subject and body of an email
+   * @param email - The email to translate
+   * @param language - ISO-639-1 code of the language to translate into
+   * @param config - Optional configuration for GPT
+   * @returns The translated subject and body with usage statistics
+   * @throws {BadRequestException} If the subject or body is empty, or GPT keeps returning invalid output
+   */
+  async translateEmail(
+    email: Pick<ExtractedEmail, 'subject' | 'body'>,
+    language: string,
+    config?: Partial<z.infer<typeof gptConfigSchema>>,
+  ): Promise<GptResponse<TranslatedEmail>> {
+    if (!email.subject?.trim() || !email.body?.trim()) {
+      throw new BadRequestException(
+        'Only an email with a subject and body can be translated',
+      );
+    }
+
+    const mergedConfig = { ...this.defaultConfig, ...config };
+    const validatedConfig = gptConfigSchema.parse(mergedConfig);
+
+    const prompt = this.buildTranslationPrompt(email, language);
+
+    const response = await this.requestStructured(
+      prompt,
+      validatedConfig,
+      translationSchema,
+      {
+        name: 'translate_email',
+        description: 'Translate the email',
+      },
+    );
+    return {
+      ...response,
+      data: {
+        subject: response.data.subject.trim(),
+        body: response.data.body.trim(),
+      },
+    };
+  }
+
+  /**
+   * Read a send time from a free-form answer such as "tomorrow at 9am" or "Monday morning"
+   * @param text - The answer, typed or transcribed
+   * @param config - Optional configuration for GPT
+   * @param context - Optional user context; the timezone is used to read the time
+   * @returns The future time the text refers to, or null if it names none, with usage statistics
+   */
+  async parseSendTime(
+    text: string,
+    config?: Partial<z.infer<typeof gptConfigSchema>>,
+    context: ExtractionContext = {},
+  ): Promise<GptResponse<Date | null>> {
+    if (!text?.trim()) {
+      throw new BadRequestException('Text cannot be empty');
+    }
+
+    const mergedConfig = { ...this.defaultConfig, ...config };
+    const validatedConfig = gptConfigSchema.parse(mergedConfig);
+
+    const timezone = context.timezone ?? 'UTC';
+    const prompt = this.buildSendTimePrompt(text, timezone);
+
+    const response = await this.requestStructured(
+      prompt,
+      validatedConfig,
+      sendTimeSchema,
+      {
+        name: 'set_send_time',
+        description: 'Set when the email should be sent',
+      },
+    );
+    return {
+      ...response,
+      data: this.resolveSendTime(response.data.sendAt, timezone) ?? null,
+    };
+  }
+
+  /**
+   * Summarize an email someone sent the user
+   * @param email - The received email
+   * @param config - Optional configuration for GPT
+   * @param context - Optional user context; the summary is written in the language, if given
+   * @returns A short summary with usage statistics
+   */
+  async summarizeEmail(
+    email: ReceivedEmail,
+    config?: Partial<z.infer<typeof gptConfigSchema>>,
+    context: ExtractionContext = {},
+  ): Promise<GptResponse<string>> {
+    const mergedConfig = { ...this.defaultConfig, ...config };
+    const validatedConfig = gptConfigSchema.parse(mergedConfig);
+
+    const prompt = this.buildSummaryPrompt(email, context.language);
+
+    const response = await this.requestStructured(
+      prompt,
+      validatedConfig,
+      summarySchema,
+      {
+        name: 'summarize_email',
+        description: 'Summarize the email',
+      },
+    );
+    return { ...response, data: response.data.summary.trim() };
+  }
+
+  /**
+   * Write the body of a reply to an email from what the user said
+   * @param email - The email replied to
+   * @param text - What the user wants to answer, typically transcribed
+   * @param config - Optional configuration for GPT
+   * @param context - Optional user context; the language is the one the user spoke
+   * @returns The reply body with usage statistics
+   */
+  async composeReply(
+    email: ReceivedEmail,
+    text: string,
+    config?: Partial<z.infer<typeof gptConfigSchema>>,
+    context: ExtractionContext = {},
+  ): Promise<GptResponse<string>> {
+    if (!text?.trim()) {
+      throw new BadRequestException('Text cannot be empty');
+    }
+
+    const mergedConfig = { ...this.defaultConfig, ...config };
+    const validatedConfig = gptConfigSchema.parse(mergedConfig);
+
+    const prompt = this.buildReplyPrompt(email, text, context.language);
+
+    const response = await this.requestStructured(
+      prompt,
+      validatedConfig,
+      replySchema,
+      {
+        name: 'write_reply',
+        description: 'Write the reply to the email',
+      },
+    );
+    return { ...response, data: response.data.body.trim() };
+  }
+
+  /**
+   * Classify what a text asks for
+   * @param text - The transcribed text
+   * @param intents - The intents the text may have
+   * @param config - Optional configuration for GPT
+   * @returns The name of the matching intent, or null if the text has none of them, with usage statistics
+   */
+  async classifyIntent(
+    text: string,
+    intents: IntentDescription[],
+    config?: Partial<z.infer<typeof gptConfigSchema>>,
+  ): Promise<GptResponse<string | null>> {
+    if (!text?.trim()) {
+      throw new BadRequestException('Text cannot be empty');
+    }
+    if (intents.length === 0) {
+      return {
+        data: null,
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      };
+    }
+
+    const mergedConfig = { ...this.defaultConfig, ...config };
+    const validatedConfig = gptConfigSchema.parse(mergedConfig);
+
+    const names: [string, ...string[]] = [
+      'none',
+      ...intents.map((intent) => intent.name),
+    ];
+    const schema = z.object({
+      intent: z
+        .enum(names)
+        .describe('The intent of the text, or "none" if it has none of them'),
+    });
+    const prompt = this.buildIntentPrompt(text, intents);
+
+    const response = await this.requestStructured(
+      prompt,
+      validatedConfig,
+      schema,
+      {
+        name: 'route_message',
+        description: 'Choose what to do with the transcribed message',
+      },
+    );
+    return {
+      ...response,
+      data: response.data.intent === 'none' ? null : response.data.intent,
+    };
+  }
+
+  /**
+   * Extract structured data of any kind from transcribed text
+   * @param text - The transcribed text
+   * @param schema - Zod schema of the data; it becomes the function GPT calls
+   * @param extraction - Function name, description and guidelines of this kind of data
+   * @param config - Optional configuration for GPT
+   * @param context - Optional user context; the timezone is used to read times, the language to write text
+   * and the address book, if given, to resolve people
+   * @returns The validated data with usage statistics
+   * @throws {BadRequestException} If GPT keeps returning invalid output
+   */
+  async extractStructured<T extends z.ZodTypeAny>(
+    text: string,
+    schema: T,
+    extraction: StructuredExtraction,
+    config?: Partial<z.infer<typeof gptConfigSchema>>,
+    context: ExtractionContext = {},
+  ): Promise<GptResponse<z.infer<T>>> {
+    if (!text?.trim()) {
+      throw new BadRequestException('Text cannot be empty');
+    }
+
+    const mergedConfig = { ...this.defaultConfig, ...config };
+    const validatedConfig = gptConfigSchema.parse(mergedConfig);
+
+    const prompt = this.buildStructuredPrompt(text, extraction, context);
+    return this.requestStructured(prompt, validatedConfig, schema, extraction);
+  }
+
+  /**
+   * Turn the local send time returned by GPT into an instant
+   * @param local - Local date and time ("2025-06-02T09:00"), or null if none was asked for
+   * @param timezone - IANA timezone the time is in
+   * @returns The instant, or undefined if none was asked for, it is unreadable or it has already passed
+   */
+  private resolveSendTime(
+    local: string | null,
+    timezone: string,
+  ): Date | undefined {
+    if (!local) {
+      return undefined;
+    }
+
+    const sendAt = fromLocalDateTime(local, timezone);
+    if (!sendAt || sendAt.getTime() <= Date.now()) {
+      this.logger.warn(
+        `Ignoring send time "${local}" (${timezone}): ${sendAt ? 'in the past' : 'unreadable'}`,
+      );
+      return undefined;
+    }
+    return sendAt;
+  }
+
+  /**
+   * Resolve the extracted recipients against the address book
+   * @param extracted - Validated GPT output; a missing subject or body becomes empty
+   * @param contacts - The user's address book
+   * @returns The email with resolved addresses, plus the recipients that still need clarification
+   */
+  private resolveRecipients(
+    extracted: Pick<
+      z.infer<typeof extractionSchema>,
+      'recipients' | 'subject' | 'body'
+    >,
+    contacts: Contact[],
+  ): EmailExtraction {
+    const email: ExtractedEmail = {
+      to: [],
+      cc: [],
+      bcc: [],
+      subject: extracted.subject ?? '',
+      body: extracted.body ?? '',
+    };
+    const unresolvedRecipients: UnresolvedRecipient[] = [];
+
+    for (const recipient of extracted.recipients) {
+      const list = email[recipient.field]!;
+      const address = addressSchema.safeParse(recipient.address ?? '');
+
+      if (address.success) {
+        if (!list.includes(address.data)) list.push(address.data);
+        continue;
+      }
+
+      // Only trust candidates that really are in the address book
+      const suggested = new Set(
+        recipient.candidates.map((c) => c.trim().toLowerCase()),
+      );
+      const candidates = contacts.filter((c) => suggested.has(c.email));
+
+      if (candidates.length === 1) {
+        if (!list.includes(candidates[0].email)) list.push(candidates[0].email);
+        continue;
+      }
+
+      unresolvedRecipients.push({
+        field: recipient.field,
+        name: recipient.name ?? recipient.address ?? '',
+        candidates,
+      });
+    }
+
+    if (
+      email.to.length === 0 &&
+      !unresolvedRecipients.some((r) => r.field === 'to')
+    ) {
+      unresolvedRecipients.unshift({ field: 'to', name: '', candidates: [] });
+    }
+
+    return { email, unresolvedRecipients };
+  }
+
+  /**
+   * Send a prompt to GPT, make it answer by calling a function generated from a Zod schema, and validate the arguments.
+   * Arguments that fail validation are sent back with the errors so GPT can correct them, up to MAX_REPAIR_ATTEMPTS times.
+   * @param prompt - The prompt to send
+   * @param config - Validated GPT configuration
+   * @param schema - Zod schema of the function arguments
+   * @param output - Name and description of the function
+   * @returns Validated arguments with the usage statistics of all attempts
+   * @throws {BadRequestException} If GPT still returns invalid output after the repairs
+   */
+  private async requestStructured<T extends z.ZodTypeAny>(
+    prompt: string,
+    config: z.infer<typeof gptConfigSchema>,
+    schema: T,
+    output: OutputFunction,
+  ): Promise<GptResponse<z.infer<T>>> {
+    const tool = zodFunction({
+      name: output.name,
+      description: output.description,
+      parameters: schema,
+    });
+    const messages: ChatCompletionMessageParam[] = [
+      { role: 'user', content: prompt },
+    ];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const response = await this.openai.chat.completions.create({
+          model: config.model,
+          messages,
+          tools: [tool],
+          tool_choice: { type: 'function', function: { name: output.name } },
+          temperature: config.temperature,
+          max_tokens: config.maxTokens,
+        });
+        usage.promptTokens += response.usage?.prompt_tokens ?? 0;
+        usage.completionTokens += response.usage?.completion_tokens ?? 0;
+        usage.totalTokens += response.usage?.total_tokens ?? 0;
+
+        const message = response.choices[0]?.message;
+        const call = message?.tool_calls?.find(
+          (candidate) => candidate.function.name === output.name,
+        );
+        if (!message || !call) {
+          throw new Error('No response from GPT');
         }
 
-        this.openai = new OpenAI({ apiKey });
-
-        // Default configuration
-        this.defaultConfig = {
-            model: 'gpt-4',
-            temperature: 0.7,
-            maxTokens: 1000,
-        };
-    }
-
-    /**
-     * Extract email fields from transcribed text
-     * @param text - The transcribed text to process
-     * @param config - Optional configuration for GPT
-     * @returns Extracted email fields with usage statistics
-     */
-    async extractEmailFields(
-        text: string,
-        config?: Partial<z.infer<typeof gptConfigSchema>>
-    ): Promise<GptResponse<ExtractedEmail>> {
-        if (!text?.trim()) {
-            throw new BadRequestException('Text cannot be empty');
+        this.logger.debug('GPT Response:', {
+          arguments: call.function.arguments,
+          model: config.model,
+          attempt,
+        });
+
+        const result = this.parseArguments(call.function.arguments, schema);
+        if (result.success) {
+          return { data: result.data, usage };
         }
 
-        const mergedConfig = { ...this.defaultConfig, ...config };
-        const validatedConfig = gptConfigSchema.parse(mergedConfig);
-
-        const prompt = this.buildEmailExtractionPrompt(text);
-
-        try {
-            const response = await this.openai.chat.completions.create({
-                model: validatedConfig.model,
-                messages: [{ role: 'user', content: prompt }],
-                temperature: validatedConfig.temperature,
-                max_tokens: validatedConfig.maxTokens,
-            });
-
-            const rawText = response.choices[0]?.message?.content;
-
-            if (!rawText) {
-                throw new Error('No response from GPT');
-            }
-
-            this.logger.debug('GPT Response:', {
-                text: rawText,
-                model: 'gpt-4-turbo-preview',
-                prompt: prompt,
-            });
-
-            // Parse and validate the response
-            const parsedResponse = JSON.parse(rawText);
-            const validatedEmail = emailSchema.parse(parsedResponse);
-
-            return {
-                data: validatedEmail,
-                usage: {
-                    promptTokens: response.usage?.prompt_tokens ?? 0,
-                    completionTokens: response.usage?.completion_tokens ?? 0,
-                    totalTokens: response.usage?.total_tokens ?? 0,
-                },
-            };
-        } catch (error) {
-            this.logger.error('Failed to extract email fields:', {
-                error: error.message,
-                stack: error.stack,
-            });
-
-            if (error instanceof z.ZodError) {
-                throw new BadRequestException('Invalid response format from GPT');
-            }
-
-            if (error instanceof SyntaxError) {
-                throw new BadRequestException('Invalid JSON response from GPT');
-            }
-
-            throw new Error(`Failed to extract email fields: ${error.message}`);
+        if (attempt >= MAX_REPAIR_ATTEMPTS) {
+          throw new BadRequestException(
+            `Invalid response format from GPT: ${result.error}`,
+          );
         }
+        this.logger.warn(
+          `Invalid ${output.name} output from GPT, asking for a repair: ${result.error}`,
+        );
+        messages.push(message, {
+          role: 'tool',
+          tool_call_id: call.id,
+          content: `The arguments are invalid: ${result.error}. Call ${output.name} again with every problem fixed.`,
+        });
+      }
+    } catch (error) {
+      const { message, stack } = error as Error;
+      this.logger.error(`Failed to ${output.description.toLowerCase()}:`, {
+        error: message,
+        stack,
+      });
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      throw new Error(
+        `Failed to ${output.description.toLowerCase()}: ${message}`,
+        { cause: error },
+      );
+    }
+  }
+
+  /**
+   * Parse and validate function arguments returned by GPT
+   * @param raw - JSON arguments
+   * @param schema - Zod schema the arguments must satisfy
+   * @returns The validated arguments, or a description of what is wrong with them
+   */
+  private parseArguments<T extends z.ZodTypeAny>(
+    raw: string,
+    schema: T,
+  ): { success: true; data: z.infer<T> } | { success: false; error: string } {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      return {
+        success: false,
+        error: `not valid JSON (${(error as Error).message})`,
+      };
+    }
+
+    const result = schema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) =>
+        issue.path.length > 0
+          ? `${issue.path.join('.')}: ${issue.message}`
+          : issue.message,
+      );
+      return { success: false, error: issues.join('; ') };
     }
+    return { success: true, data: result.data as z.infer<T> };
+  }
 
-    /**
-     * Build the prompt for email extraction
-     * @param text - The transcribed text
-     * @returns Formatted prompt string
-     */
-    private buildEmailExtractionPrompt(text: string): string {
-        return `
+  /**
+   * Build the prompt for email extraction
+   * @param text - The transcribed text
+   * @param contacts - The user's address book
+   * @param language - ISO-639-1 code of the spoken language, if known
+   * @param timezone - IANA timezone spoken times are read in
+   * @returns Formatted prompt string
+   */
+  private buildEmailExtractionPrompt(
+    text: string,
+    contacts: Contact[],
+    language: string | undefined,
+    timezone: string,
+  ): string {
+    const languageGuideline = language
+      ? `The message was spoken in ${getLanguageName(language)}. Write the subject and body in ${getLanguageName(language)}`
+      : 'Write the subject and body in the language of the message';
+
+    return `
             You are a helpful assistant that receives a transcribed voice message. 
-            Your job is to extract an email draft from the following text.
+            Your job is to extract an email draft from the following text and return it by calling create_email_draft.
 
             Guidelines:
-            1. Extract a valid email address for the "to" field
-            2. Create a concise and relevant subject line
-            3. Format the body text appropriately with paragraphs
-            4. Remove any filler words or hesitations from the transcription
-
-            Return the output in this exact JSON format:
-            {
-                "to": "example@example.com",
-                "subject": "Email subject here",
-                "body": "Full email message here"
-            }
+            1. Set "intent" to "none" if the text does not ask for an email to be written or sent, and leave
+               the other fields empty or null
+            2. Add one entry to "recipients" per person mentioned, with "field" set to "to" for main
+               recipients, "cc" for people to copy and "bcc" for blind copies
+            3. Set "address" only if it was dictated or the person matches exactly one address book entry;
+               otherwise set it to null
+            4. Put the person as spoken (e.g. "John from finance", "my manager") in "name"
+            5. List in "candidates" the email addresses of every address book entry that could be that person
+            6. Create a concise and relevant subject line
+            7. Format the body text appropriately with paragraphs
+            8. If the message asks for an email but does not say what it should say, set "body" to null and
+               "subject" to null unless a subject was given; never make up the content
+            9. Remove any filler words or hesitations from the transcription
+            10. ${languageGuideline}, even if the message asks for the email in another language ("send this
+                in English"): then set "translateTo" to the ISO-639-1 code of that language, and leave the
+                request out of the body. Otherwise set "translateTo" to null
+            11. If the message says when to send the email ("tomorrow at 9am", "Monday morning"), set "sendAt"
+                to that local date and time as "YYYY-MM-DDTHH:mm"; otherwise set it to null. Leave the
+                instruction about when to send out of the body
+
+            ${this.formatAddressBook(contacts)}
+
+            ${this.formatCurrentTime(timezone)}
 
             Transcribed text:
             """
             ${text}
             """`;
-    }
+  }
+
+  /**
+   * Build the prompt for revising an email draft
+   * @param email - The current email draft
+   * @param instruction - The user's change request
+   * @param contacts - The user's address book
+   * @param timezone - IANA timezone spoken times are read in
+   * @param sendAt - Send time currently set on the draft
+   * @returns Formatted prompt string
+   */
+  private buildEmailRevisionPrompt(
+    email: ExtractedEmail,
+    instruction: string,
+    contacts: Contact[],
+    timezone: string,
+    sendAt?: Date,
+  ): string {
+    const draft = {
+      ...email,
+      sendAt: sendAt ? toLocalDateTime(sendAt, timezone) : null,
+    };
+
+    return `
+            You are a helpful assistant that edits email drafts.
+            Apply the user's instruction to the current draft below and return the complete revised draft
+            by calling update_email_draft.
+
+            Guidelines:
+            1. Change only what the instruction asks for and keep everything else as it is
+            2. List every recipient of the revised draft in "recipients", keeping existing addresses as they are
+            3. For new recipients, set "address" only if it was dictated or matches exactly one address book
+               entry; otherwise set it to null, put the person as spoken in "name" and list possible
+               address book matches in "candidates"
+            4. Use "field" "to" for main recipients, "cc" for copies and "bcc" for blind copies
+            5. Keep the same language as the current draft. If the instruction asks for the email in another
+               language ("send it in English"), leave the text as it is and set "translateTo" to the ISO-639-1
+               code of that language; otherwise set "translateTo" to null
+            6. The instruction may be a transcribed voice message, so ignore filler words
+            7. Keep "sendAt" unless the instruction changes when to send; set it to a local date and time
+               as "YYYY-MM-DDTHH:mm", or to null to send right away
+            8. If the current draft has no body, the instruction is what the email should say: write the
+               body from it, and a subject if there is none
+
+            ${this.formatAddressBook(contacts)}
+
+            ${this.formatCurrentTime(timezone)}
+
+            Current draft:
+            ${JSON.stringify(draft, null, 2)}
+
+            Instruction:
+            """
+            ${instruction}
+            """`;
+  }
+
+  /**
+   * Build the prompt for reading a send time
+   * @param text - The user's answer
+   * @param timezone - IANA timezone spoken times are read in
+   * @returns Formatted prompt string
+   */
+  private buildSendTimePrompt(text: string, timezone: string): string {
+    return `
+            You are a helpful assistant that reads when the user wants an email to be sent.
+            Return the time by calling set_send_time.
+
+            Guidelines:
+            1. Set "sendAt" to the local date and time the text refers to, as "YYYY-MM-DDTHH:mm"
+            2. A day without a time means 9am; "morning" means 9am, "afternoon" 2pm and "evening" 6pm
+            3. If the text asks to send right away or names no time, set "sendAt" to null
+            4. The text may be a transcribed voice message, so ignore filler words
+
+            ${this.formatCurrentTime(timezone)}
+
+            Text:
+            """
+            ${text}
+            """`;
+  }
+
+  /**
+   * Build the prompt for summarizing a received email
+   * @param email - The received email
+   * @param language - ISO-639-1 code of the language to write in, if known
+   * @returns Formatted prompt string
+   */
+  private buildSummaryPrompt(
+    email: ReceivedEmail,
+    language: string | undefined,
+  ): string {
+    return `
+            You are a helpful assistant that tells the user about an email they received.
+            Summarize it by calling summarize_email.
+
+            Guidelines:
+            1. Say what the sender wants from the user first, then anything else worth knowing
+            2. Leave out greetings, signatures, disclaimers and quoted earlier messages
+            3. Mention dates, amounts and deadlines exactly as the email gives them
+            4. ${language ? `Write in ${getLanguageName(language)}` : 'Write in the language of the email'}
+
+            ${this.formatReceivedEmail(email)}`;
+  }
 
-    /**
-     * Get the current configuration
-     * @returns Current GPT configuration
-     */
-    getConfig(): z.infer<typeof gptConfigSchema> {
-        return { ...this.defaultConfig };
+  /**
+   * Build the prompt for translating an email
+   * @param email - The email to translate
+   * @param language - ISO-639-1 code of the language to translate into
+   * @returns Formatted prompt string
+   */
+  private buildTranslationPrompt(
+    email: Pick<ExtractedEmail, 'subject' | 'body'>,
+    language: string,
+  ): string {
+    return `
+            You are a professional translator of business emails.
+            Translate the email below into ${getLanguageName(language)} and return it by calling translate_email.
+
+            Guidelines:
+            1. Translate the meaning and tone rather than word for word, as a native speaker would write it
+            2. Keep the paragraphs, lists, names, email addresses, numbers, dates and amounts as they are
+            3. Use the greeting and sign-off conventions of ${getLanguageName(language)}
+            4. Add, leave out or explain nothing
+
+            Email:
+            """
+            Subject: ${email.subject}
+
+            ${email.body}
+            """`;
+  }
+
+  /**
+   * Build the prompt for writing a reply
+   * @param email - The email replied to
+   * @param text - What the user wants to answer
+   * @param language - ISO-639-1 code of the language the user spoke, if known
+   * @returns Formatted prompt string
+   */
+  private buildReplyPrompt(
+    email: ReceivedEmail,
+    text: string,
+    language: string | undefined,
+  ): string {
+    return `
+            You are a helpful assistant that writes email replies for the user.
+            Write the reply to the email below from what the user said, and return it by calling write_reply.
+
+            Guidelines:
+            1. Say what the user said, in full sentences and a tone that fits the email; add nothing they did not say
+            2. Write in the language of the email, unless the user asks for another one
+            3. Start with a greeting to the sender and end with a short sign-off, without a name or signature
+            4. Do not quote the email
+            5. The user's answer is a transcribed voice message${language ? ` in ${getLanguageName(language)}` : ''}, so ignore filler words
+
+            ${this.formatReceivedEmail(email)}
+
+            What the user said:
+            """
+            ${text}
+            """`;
+  }
+
+  /**
+   * Format a received email for inclusion in a prompt, shortening long bodies
+   * @param email - The received email
+   * @returns Prompt section with the sender, subject and body
+   */
+  private formatReceivedEmail(email: ReceivedEmail): string {
+    const body =
+      email.body.length > MAX_EMAIL_BODY_CHARS
+        ? `${email.body.slice(0, MAX_EMAIL_BODY_CHARS)}\n[…]`
+        : email.body;
+
+    return `Email:
+            """
+            From: ${email.from}
+            Subject: ${email.subject}
+
+            ${body}
+            """`;
+  }
+
+  /**
+   * Build the prompt for classifying the intent of a text
+   * @param text - The transcribed text
+   * @param intents - The intents to choose from
+   * @returns Formatted prompt string
+   */
+  private buildIntentPrompt(
+    text: string,
+    intents: IntentDescription[],
+  ): string {
+    const options = intents.map(
+      (intent) => `- "${intent.name}": ${intent.description}`,
+    );
+
+    return `
+            You are a helpful assistant that receives a transcribed voice message.
+            Decide what the user wants done with it and answer by calling route_message.
+
+            Intents:
+            ${options.join('\n            ')}
+            - "none": the message asks for none of the above
+
+            Guidelines:
+            1. Choose the intent the message as a whole asks for, not one it merely mentions
+            2. The message may be a transcribed voice message, so ignore filler words
+
+            Transcribed text:
+            """
+            ${text}
+            """`;
+  }
+
+  /**
+   * Build the prompt for extracting structured data
+   * @param text - The transcribed text
+   * @param extraction - Function name, description and guidelines of the data
+   * @param context - Spoken language, timezone and address book, if known
+   * @returns Formatted prompt string
+   */
+  private buildStructuredPrompt(
+    text: string,
+    extraction: StructuredExtraction,
+    context: ExtractionContext,
+  ): string {
+    const { language, contacts } = context;
+    const guidelines = [
+      ...extraction.guidelines,
+      'Remove any filler words or hesitations from the transcription',
+      language
+        ? `The message was spoken in ${getLanguageName(language)}. Write text fields in ${getLanguageName(language)}`
+        : 'Write text fields in the language of the message',
+      'Write dates and times as local "YYYY-MM-DDTHH:mm"; a day without a time means 9am',
+    ];
+
+    return `
+            You are a helpful assistant that receives a transcribed voice message.
+            ${extraction.description} and return it by calling ${extraction.name}.
+
+            Guidelines:
+            ${guidelines.map((guideline, index) => `${index + 1}. ${guideline}`).join('\n            ')}
+
+            ${contacts ? this.formatAddressBook(contacts) : ''}
+
+            ${this.formatCurrentTime(context.timezone ?? 'UTC')}
+
+            Transcribed text:
+            """
+            ${text}
+            """`;
+  }
+
+  /**
+   * Format the current time for inclusion in a prompt, so relative times can be resolved
+   * @param timezone - IANA timezone of the user
+   * @returns Prompt section with the local date, weekday and time
+   */
+  private formatCurrentTime(timezone: string): string {
+    const now = new Date();
+    const weekday = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'long',
+    }).format(now);
+    return `Current local time: ${weekday} ${toLocalDateTime(now, timezone)} (${timezone})`;
+  }
+
+  /**
+   * Format the address book for inclusion in a prompt
+   * @param contacts - The user's address book
+   * @returns Prompt section listing the contacts
+   */
+  private formatAddressBook(contacts: Contact[]): string {
+    if (contacts.length === 0) {
+      return 'Address book: (empty)';
     }
-}
\ No newline at end of file
+
+    const entries = contacts.map(
+      (c) =>
+        `- ${c.name}${c.description ? ` (${c.description})` : ''}: ${c.email}`,
+    );
+    return `Address book:\n${entries.join('\n')}`;
+  }
+
+  /**
+   * Get the current configuration
+   * @returns Current GPT configuration
+   */
+  getConfig(): z.infer<typeof gptConfigSchema> {
+    return { ...this.defaultConfig };
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { HistoryService } from './history.service';
+import { DraftModule } from '../draft/draft.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { PreferenceModule } from '../preference/preference.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    DraftModule,
+    OutboxModule,
+    PreferenceModule,
+    StorageModule,
+  ],
+  providers: [HistoryService],
+  exports: [HistoryService],
+})
+export class HistoryModule {}
@@ -0,0 +1,158 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Draft, DraftService } from '../draft/draft.service';
+import {
+  OutboxEntry,
+  OutboxEvent,
+  OutboxService,
+} from '../outbox/outbox.service';
+import { PreferenceService } from '../preference/preference.service';
+import { StorageService } from '../storage/storage.service';
+import { HistoryService } from './history.service';
+
+const EMAIL = {
+  to: ['ana@example.com'],
+  subject: 'Quarterly report',
+  body: 'The résumé is attached.',
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('HistoryService', () => {
+  let dataDir: string;
+  let services: HistoryService[];
+  let draftFinished: (draft: Draft) => unknown;
+  let outboxEvent: (entry: OutboxEntry, event: OutboxEvent) => unknown;
+
+  /** Starts the history on the data directory, the way the application does on boot */
+  function start(): HistoryService {
+    const config = new ConfigService({
+      DATA_DIR: dataDir,
+      HISTORY_RETENTION_DAYS: 30,
+    });
+    const service = new HistoryService(
+      config,
+      {
+        onFinished: (listener: typeof draftFinished) => {
+          draftFinished = listener;
+        },
+        get: () => {
+          throw new Error('Draft not found');
+        },
+      } as unknown as DraftService,
+      {
+        onEvent: (listener: typeof outboxEvent) => {
+          outboxEvent = listener;
+        },
+      } as unknown as OutboxService,
+      {} as PreferenceService,
+      new StorageService(config),
+    );
+    service.onModuleInit();
+    services.push(service);
+    return service;
+  }
+
+  /** Records one of each kind of entry for a user */
+  function recordEverything(service: HistoryService, userId: number): void {
+    service.recordTranscript(userId, userId, 'Remind me to call Ana');
+    draftFinished({
+      id: `draft-${userId}`,
+      userId,
+      chatId: userId,
+      email: EMAIL,
+      status: 'cancelled',
+    } as Draft);
+    outboxEvent(
+      {
+        id: `outbox-${userId}`,
+        userId,
+        chatId: userId,
+        email: EMAIL,
+        delivery: { messageId: '<1@example.com>', accepted: [], rejected: [] },
+      } as unknown as OutboxEntry,
+      'sent',
+    );
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-06-15T12:00:00Z') });
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+    services = [];
+  });
+
+  afterEach(() => {
+    services.forEach((service) => service.onModuleDestroy());
+    jest.useRealTimers();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('records transcripts, unsent drafts and sent emails, newest first', () => {
+    const service = start();
+    recordEverything(service, 7);
+
+    const { entries, total } = service.list(7, 0);
+
+    expect(total).toBe(3);
+    expect(entries.map((entry) => entry.kind)).toEqual([
+      'email',
+      'draft',
+      'transcript',
+    ]);
+    expect(entries[0].messageId).toBe('<1@example.com>');
+    expect(entries[1].status).toBe('cancelled');
+  });
+
+  it('finds entries regardless of case and accents', () => {
+    const service = start();
+    recordEverything(service, 7);
+
+    expect(service.search(7, 'RESUME').total).toBe(2);
+    expect(service.search(7, 'call ana').total).toBe(1);
+    expect(service.search(8, 'resume').total).toBe(0);
+  });
+
+  describe('forget', () => {
+    it("deletes all of a user's entries and nobody else's", () => {
+      const service = start();
+      recordEverything(service, 7);
+      recordEverything(service, 8);
+      const [sent] = service.list(7, 0).entries;
+
+      expect(service.forget(7)).toBe(3);
+
+      expect(service.list(7, 0).total).toBe(0);
+      expect(service.search(7, 'resume').total).toBe(0);
+      expect(() => service.get(7, sent.id)).toThrow('History entry not found');
+      expect(service.list(8, 0).total).toBe(3);
+    });
+
+    it('keeps the entries deleted after a restart', () => {
+      const first = start();
+      recordEverything(first, 7);
+      first.forget(7);
+
+      expect(start().list(7, 0).total).toBe(0);
+    });
+  });
+
+  it('deletes entries once the retention period is over', () => {
+    const service = start();
+    service.recordTranscript(7, 7, 'Old');
+    jest.setSystemTime(Date.now() + 20 * DAY);
+    service.recordTranscript(7, 7, 'Recent');
+
+    jest.advanceTimersByTime(10 * DAY + 60 * 60 * 1000);
+
+    expect(service.list(7, 0).entries.map((entry) => entry.transcript)).toEqual(
+      ['Recent'],
+    );
+  });
+});
@@ -0,0 +1,433 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { ExtractedEmail } from '../gpt/gpt.service';
+import { EmailThread } from '../email/email.service';
+import { DraftService, Draft } from '../draft/draft.service';
+import {
+  OutboxService,
+  OutboxEntry,
+  OutboxEvent,
+} from '../outbox/outbox.service';
+import { PreferenceService } from '../preference/preference.service';
+import { StorageService, Collection } from '../storage/storage.service';
+
+/** Entries shown per page of /history */
+const HISTORY_PAGE_SIZE = 5;
+
+/** Most matches a search returns */
+const MAX_SEARCH_RESULTS = 10;
+
+/** One day in milliseconds */
+const DAY = 24 * 60 * 60 * 1000;
+
+/** How often entries past the retention period are deleted */
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Lowercases text and strips its accents, so "Résumé" matches "resume".
+ *
+ * @param {string} text - Text to normalize
+ * @returns {string} The normalized text
+ */
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * What a history entry records: a transcript, a draft that was not sent, or a sent email.
+ */
+export type HistoryKind = 'transcript' | 'draft' | 'email';
+
+/** How an old email is reused: sent again to the same recipients, or forwarded to new ones */
+export type ReuseMode = 'resend' | 'forward';
+
+/**
+ * Something a user said or sent, kept until the retention period is over or they use /forget.
+ *
+ * @interface HistoryEntry
+ */
+export interface HistoryEntry {
+  id: string;
+  kind: HistoryKind;
+  userId: number;
+  chatId?: number;
+  /** The transcript itself, or the one the draft or email was made from */
+  transcript?: string;
+  /** ISO-639-1 code of the spoken language, if known */
+  language?: string;
+  /** The email, for drafts and sent emails */
+  email?: ExtractedEmail;
+  /** Conversation the email replied to */
+  thread?: EmailThread;
+  /** How a draft ended without being sent */
+  status?: 'cancelled' | 'expired';
+  /** Message ID the SMTP server gave the sent email */
+  messageId?: string;
+  /** Draft the entry was recorded from */
+  draftId?: string;
+  /** When it was said, given up or sent, as an ISO string */
+  createdAt: string;
+}
+
+/**
+ * A page of a user's history, newest first.
+ *
+ * @interface HistoryPage
+ */
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  /** Zero-based page number */
+  page: number;
+  pages: number;
+  /** Position of the page's first entry in the whole history, from zero */
+  offset: number;
+  total: number;
+}
+
+/**
+ * Service that keeps a per-user history of transcripts, unsent drafts and sent emails.
+ * Drafts and emails are recorded as they finish, from the draft and outbox events; transcripts are
+ * recorded by whoever transcribes. Entries older than HISTORY_RETENTION_DAYS are deleted.
+ *
+ * @class HistoryService
+ * @implements {OnModuleInit}
+ * @implements {OnModuleDestroy}
+ */
+@Injectable()
+export class HistoryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(HistoryService.name);
+  private readonly entries: Collection<HistoryEntry>;
+  private readonly retentionMs: number;
+  private sweepTimer?: NodeJS.Timeout;
+
+  /**
+   * Creates an instance of HistoryService.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   * @param {DraftService} draftService - Drafts recorded when they finish, and created to reuse old emails
+   * @param {OutboxService} outboxService - Outbox whose sent emails are recorded
+   * @param {PreferenceService} preferenceService - Template and signature of reused emails
+   * @param {StorageService} storageService - Service for persisting the history
+   */
+  constructor(
+    private configService: ConfigService,
+    private draftService: DraftService,
+    private outboxService: OutboxService,
+    private preferenceService: PreferenceService,
+    private storageService: StorageService,
+  ) {
+    this.entries = this.storageService.collection<HistoryEntry>('history');
+    this.retentionMs =
+      this.configService.get<number>('HISTORY_RETENTION_DAYS', 90) * DAY;
+  }
+
+  /**
+   * Lifecycle hook that starts recording finished drafts and sent emails, and deleting old entries.
+   */
+  onModuleInit() {
+    this.draftService.onFinished((draft) => this.handleDraftFinished(draft));
+    this.outboxService.onEvent((entry, event) =>
+      this.handleOutboxEvent(entry, event),
+    );
+    this.sweep();
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Lifecycle hook that stops deleting old entries.
+   */
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  /**
+   * Records a transcript.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {number} chatId - Telegram chat the recording was sent in
+   * @param {string} transcript - What was said
+   * @param {string} [language] - ISO-639-1 code of the spoken language, if known
+   * @returns {HistoryEntry} The new entry
+   */
+  recordTranscript(
+    userId: number,
+    chatId: number,
+    transcript: string,
+    language?: string,
+  ): HistoryEntry {
+    return this.record({
+      kind: 'transcript',
+      userId,
+      chatId,
+      transcript,
+      language,
+    });
+  }
+
+  /**
+   * Lists a page of a user's history, newest first. Pages past the end return the last one.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {number} page - Zero-based page number
+   * @returns {HistoryPage} The page
+   */
+  list(userId: number, page: number): HistoryPage {
+    const all = this.listForUser(userId);
+    const pages = Math.max(1, Math.ceil(all.length / HISTORY_PAGE_SIZE));
+    const current = Math.min(Math.max(0, page), pages - 1);
+    return {
+      entries: all.slice(
+        current * HISTORY_PAGE_SIZE,
+        (current + 1) * HISTORY_PAGE_SIZE,
+      ),
+      page: current,
+      pages,
+      offset: current * HISTORY_PAGE_SIZE,
+      total: all.length,
+    };
+  }
+
+  /**
+   * Finds the entries of a user that contain every search term, newest first. Transcripts are
+   * searched along with the subject, body and recipients of emails; case and accents are ignored.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {string} query - Search terms separated by spaces
+   * @returns {{ entries: HistoryEntry[]; total: number }} The newest matches, and how many there are in all
+   */
+  search(
+    userId: number,
+    query: string,
+  ): { entries: HistoryEntry[]; total: number } {
+    const terms = normalize(query).split(/\s+/).filter(Boolean);
+    const matches = this.listForUser(userId).filter((entry) => {
+      const text = normalize(
+        [
+          entry.transcript,
+          entry.email?.subject,
+          entry.email?.body,
+          ...(entry.email?.to ?? []),
+          ...(entry.email?.cc ?? []),
+        ].join('\n'),
+      );
+      return terms.every((term) => text.includes(term));
+    });
+    return {
+      entries: matches.slice(0, MAX_SEARCH_RESULTS),
+      total: matches.length,
+    };
+  }
+
+  /**
+   * Retrieves an entry of a user.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {string} id - Entry ID
+   * @returns {HistoryEntry} The entry
+   * @throws {NotFoundException} If the user has no such entry, or it was deleted
+   */
+  get(userId: number, id: string): HistoryEntry {
+    const entry = this.entries.get(id);
+    if (entry?.userId !== userId) {
+      throw new NotFoundException('History entry not found');
+    }
+    return entry;
+  }
+
+  /**
+   * Creates a draft from an old draft or email: resent to the same recipients, in the same thread,
+   * or forwarded with its original header quoted, asking who it should go to. The draft replaces
+   * the chat's pending draft and is rendered with the user's current template and signature.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {number} chatId - Telegram chat the draft is created in
+   * @param {string} id - Entry ID
+   * @param {ReuseMode} mode - Resend or forward
+   * @returns {{ draft: Draft; replaced?: Draft }} The new draft and the draft it replaced, if any
+   * @throws {NotFoundException} If the user has no such entry
+   * @throws {BadRequestException} If the entry is a transcript, which has no email
+   */
+  reuse(
+    userId: number,
+    chatId: number,
+    id: string,
+    mode: ReuseMode,
+  ): { draft: Draft; replaced?: Draft } {
+    const entry = this.get(userId, id);
+    if (!entry.email) {
+      throw new BadRequestException('Only emails and drafts can be resent');
+    }
+
+    const { email } = entry;
+    const preferences = this.preferenceService.get(userId);
+    const options = {
+      channel: 'telegram' as const,
+      chatId,
+      userId,
+      template: preferences.emailTemplate,
+      signature: preferences.signature,
+    };
+
+    if (mode === 'resend') {
+      return this.draftService.create(
+        { email: { ...email }, unresolvedRecipients: [] },
+        { ...options, thread: entry.thread },
+      );
+    }
+
+    const header = [
+      '---------- Forwarded message ----------',
+      `Date: ${new Date(entry.createdAt).toUTCString()}`,
+      `Subject: ${email.subject}`,
+      `To: ${email.to.join(', ')}`,
+      ...(email.cc?.length ? [`Cc: ${email.cc.join(', ')}`] : []),
+    ];
+    return this.draftService.create(
+      {
+        email: {
+          to: [],
+          subject: /^fwd?:/i.test(email.subject)
+            ? email.subject
+            : `Fwd: ${email.subject}`,
+          body: `${header.join('\n')}\n\n${email.body}`,
+        },
+        unresolvedRecipients: [{ field: 'to', name: '', candidates: [] }],
+      },
+      options,
+    );
+  }
+
+  /**
+   * Deletes a user's whole history.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {number} How many entries were deleted
+   */
+  forget(userId: number): number {
+    const deleted = this.entries.deleteWhere(
+      (entry) => entry.userId === userId,
+    );
+    this.logger.log(`Deleted ${deleted} history entries of user ${userId}`);
+    return deleted;
+  }
+
+  /**
+   * Records a Telegram draft that was cancelled or expired. Sent drafts are recorded from the outbox.
+   *
+   * @param {Draft} draft - Finished draft
+   * @private
+   */
+  private handleDraftFinished(draft: Draft): void {
+    if (
+      draft.userId === undefined ||
+      (draft.status !== 'cancelled' && draft.status !== 'expired')
+    ) {
+      return;
+    }
+
+    this.record({
+      kind: 'draft',
+      userId: draft.userId,
+      chatId: draft.chatId,
+      transcript: draft.source?.transcript,
+      language: draft.source?.language,
+      email: draft.email,
+      thread: draft.thread,
+      status: draft.status,
+      draftId: draft.id,
+    });
+  }
+
+  /**
+   * Records an email of a user once the outbox has sent it, with the draft it was sent from, if any.
+   *
+   * @param {OutboxEntry} entry - Outbox entry
+   * @param {OutboxEvent} event - What happened to it
+   * @private
+   */
+  private handleOutboxEvent(entry: OutboxEntry, event: OutboxEvent): void {
+    if (event !== 'sent' || entry.userId === undefined) {
+      return;
+    }
+
+    let draft: Draft | undefined;
+    try {
+      draft = entry.reference
+        ? this.draftService.get(entry.reference)
+        : undefined;
+    } catch {
+      // Not sent from a draft, e.g. a meeting invite
+    }
+
+    this.record({
+      kind: 'email',
+      userId: entry.userId,
+      chatId: entry.chatId,
+      transcript: draft?.source?.transcript,
+      language: draft?.source?.language,
+      email: entry.email,
+      thread: draft?.thread,
+      messageId: entry.delivery?.messageId,
+      draftId: draft?.id,
+    });
+  }
+
+  /**
+   * Stores a new entry.
+   *
+   * @param {Omit<HistoryEntry, 'id' | 'createdAt'>} fields - What to record
+   * @returns {HistoryEntry} The new entry
+   * @private
+   */
+  private record(fields: Omit<HistoryEntry, 'id' | 'createdAt'>): HistoryEntry {
+    const entry: HistoryEntry = {
+      ...fields,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.entries.set(entry.id, entry);
+    return entry;
+  }
+
+  /**
+   * Lists all entries of a user, newest first.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {HistoryEntry[]} The entries
+   * @private
+   */
+  private listForUser(userId: number): HistoryEntry[] {
+    return (
+      this.entries
+        .values()
+        .filter((entry) => entry.userId === userId)
+        // Reversed first, so entries recorded in the same millisecond stay newest first
+        .reverse()
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    );
+  }
+
+  /**
+   * Deletes the entries older than the retention period.
+   *
+   * @private
+   */
+  private sweep(): void {
+    const cutoff = new Date(Date.now() - this.retentionMs).toISOString();
+    const deleted = this.entries.deleteWhere(
+      (entry) => entry.createdAt < cutoff,
+    );
+    if (deleted > 0) {
+      this.logger.log(`Deleted ${deleted} history entries past retention`);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { InboxService } from './inbox.service';
+import { GptModule } from '../gpt/gpt.module';
+import { AccountModule } from '../account/account.module';
+import { DraftModule } from '../draft/draft.module';
+import { PreferenceModule } from '../preference/preference.module';
+import { StorageModule } from '../storage/storage.module';
+import { UsageModule } from '../usage/usage.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    GptModule,
+    AccountModule,
+    DraftModule,
+    PreferenceModule,
+    StorageModule,
+    UsageModule,
+  ],
+  providers: [InboxService],
+  exports: [InboxService],
+})
+export class InboxModule {}
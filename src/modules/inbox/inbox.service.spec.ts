@@ -0,0 +1,183 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { simpleParser } from 'mailparser';
+import { AccountService } from '../account/account.service';
+import { DraftService } from '../draft/draft.service';
+import { GptService } from '../gpt/gpt.service';
+import { PreferenceService } from '../preference/preference.service';
+import { StorageService } from '../storage/storage.service';
+import { UsageService } from '../usage/usage.service';
+import { InboundEmail, InboxService } from './inbox.service';
+
+const RAW_EMAIL = [
+  'From: Ana Costa <Ana@Example.com>',
+  'Reply-To: team@example.com',
+  'To: maria@example.com',
+  'Subject: Budget for Q3',
+  'Message-ID: <3@example.com>',
+  'In-Reply-To: <2@example.com>',
+  'References: <1@example.com> <2@example.com>',
+  'Date: Mon, 2 Jun 2025 09:00:00 +0000',
+  '',
+  'Can you send the numbers by Friday?',
+].join('\r\n');
+
+describe('InboxService', () => {
+  let dataDir: string;
+  let service: InboxService;
+  let gptService: { composeReply: jest.Mock; summarizeEmail: jest.Mock };
+  let draftService: { create: jest.Mock };
+  let relayed: InboundEmail[];
+
+  /** Relays a raw email to user 7 as if a check of their mailbox had found it */
+  async function receive(raw: string, uid = 1): Promise<InboundEmail> {
+    await service['relay'](`7-1-${uid}`, 7, 70, await simpleParser(raw));
+    return relayed[relayed.length - 1];
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'inbox-'));
+    const config = new ConfigService({ DATA_DIR: dataDir });
+    const storage = new StorageService(config);
+    const usage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 };
+    gptService = {
+      composeReply: jest.fn(() =>
+        Promise.resolve({ data: 'Sure, on Thursday.', usage }),
+      ),
+      summarizeEmail: jest.fn(() =>
+        Promise.resolve({ data: 'Ana asks for the numbers.', usage }),
+      ),
+    };
+    draftService = { create: jest.fn(() => ({ draft: { id: 'draft-1' } })) };
+    service = new InboxService(
+      config,
+      gptService as unknown as GptService,
+      {} as AccountService,
+      draftService as unknown as DraftService,
+      {
+        get: () => ({ attachRecording: false, attachTranscript: true }),
+      } as unknown as PreferenceService,
+      storage,
+      new UsageService(config, storage),
+    );
+    relayed = [];
+    service.onMessage((email) => {
+      relayed.push(email);
+    });
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('relaying', () => {
+    it('keeps the headers a reply is threaded with', async () => {
+      const email = await receive(RAW_EMAIL);
+
+      expect(email).toMatchObject({
+        messageId: '<3@example.com>',
+        references: ['<1@example.com>', '<2@example.com>'],
+        from: { name: 'Ana Costa', address: 'ana@example.com' },
+        replyTo: 'team@example.com',
+        subject: 'Budget for Q3',
+        summary: 'Ana asks for the numbers.',
+      });
+    });
+
+    it('finds an email by the Telegram message it was relayed as', async () => {
+      const email = await receive(RAW_EMAIL);
+      service.markRelayed(email.id, 500);
+
+      expect(service.findByRelayMessage(70, 500)?.id).toBe(email.id);
+      expect(service.findByRelayMessage(71, 500)).toBeUndefined();
+    });
+  });
+
+  describe('draftReply', () => {
+    it('threads the reply under the email it answers', async () => {
+      const email = await receive(RAW_EMAIL);
+
+      await service.draftReply(email, {
+        userId: 7,
+        chatId: 70,
+        transcript: 'Tell her Thursday',
+        language: 'en',
+      });
+
+      expect(draftService.create).toHaveBeenCalledWith(
+        {
+          email: {
+            to: ['team@example.com'],
+            subject: 'Re: Budget for Q3',
+            body: 'Sure, on Thursday.',
+          },
+          unresolvedRecipients: [],
+        },
+        expect.objectContaining({
+          chatId: 70,
+          userId: 7,
+          attachments: { recording: false, transcript: true },
+          thread: {
+            inReplyTo: '<3@example.com>',
+            references: [
+              '<1@example.com>',
+              '<2@example.com>',
+              '<3@example.com>',
+            ],
+          },
+        }),
+      );
+    });
+
+    it('starts the thread of an email that is not a reply', async () => {
+      const email = await receive(
+        RAW_EMAIL.replace(/In-Reply-To: .*\r\nReferences: .*\r\n/, ''),
+      );
+
+      await service.draftReply(email, {
+        userId: 7,
+        chatId: 70,
+        transcript: 'Tell her Thursday',
+      });
+
+      expect(draftService.create).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          thread: {
+            inReplyTo: '<3@example.com>',
+            references: ['<3@example.com>'],
+          },
+        }),
+      );
+    });
+
+    it('keeps an existing "Re:" and sends unthreaded without a Message-ID', async () => {
+      const email = await receive(
+        RAW_EMAIL.replace('Subject: Budget', 'Subject: RE: Budget').replace(
+          /Message-ID: .*\r\n/,
+          '',
+        ),
+      );
+
+      await service.draftReply(email, {
+        userId: 7,
+        chatId: 70,
+        transcript: 'Tell her Thursday',
+      });
+
+      const [[extraction, options]] = draftService.create.mock.calls as [
+        [{ email: { subject: string } }, { thread?: unknown }],
+      ];
+      expect(extraction.email.subject).toBe('RE: Budget for Q3');
+      expect(options.thread).toBeUndefined();
+    });
+  });
+});
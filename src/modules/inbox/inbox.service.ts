@@ -0,0 +1,657 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ImapFlow, MailboxObject } from 'imapflow';
+import { simpleParser, AddressObject, ParsedMail } from 'mailparser';
+import { GptService, GptResponse, ReceivedEmail } from '../gpt/gpt.service';
+import { AccountService, SenderAccount } from '../account/account.service';
+import { DraftService, Draft } from '../draft/draft.service';
+import { PreferenceService } from '../preference/preference.service';
+import { StorageService, Collection } from '../storage/storage.service';
+import { UsageService } from '../usage/usage.service';
+
+/** Mailbox new mail is read from */
+const INBOX_FOLDER = 'INBOX';
+
+/** Longest body kept of a received email; replies only need its beginning */
+const MAX_STORED_BODY_CHARS = 20000;
+
+/** How long to wait for the IMAP server to answer while connecting */
+const IMAP_TIMEOUT = 15000;
+
+/**
+ * An IMAP server.
+ *
+ * @interface ImapServer
+ */
+export interface ImapServer {
+  host: string;
+  port: number;
+  /** Use TLS from the start (port 993) rather than upgrading with STARTTLS when offered */
+  secure: boolean;
+}
+
+/**
+ * A user's connected mailbox, as shown to them.
+ *
+ * @interface ConnectedMailbox
+ */
+export interface ConnectedMailbox extends ImapServer {
+  /** Login, the same as the account emails are sent from */
+  user: string;
+  /** Telegram chat new mail is relayed to */
+  chatId: number;
+  /** When the mailbox was last checked successfully */
+  lastPolledAt?: Date;
+  /** Why the last check failed, until one succeeds */
+  lastError?: string;
+}
+
+/**
+ * A connected mailbox as persisted, with how far it was read.
+ *
+ * @interface StoredMailbox
+ */
+interface StoredMailbox extends ImapServer {
+  chatId: number;
+  /** UIDVALIDITY of the inbox; UIDs are only comparable while it stays the same */
+  uidValidity: string;
+  /** Highest UID relayed so far */
+  lastUid: number;
+  lastPolledAt?: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * An email relayed from a user's mailbox to Telegram.
+ *
+ * @interface InboundEmail
+ */
+export interface InboundEmail {
+  /** "<userId>-<uidValidity>-<uid>", so an email is only stored once however often it is fetched */
+  id: string;
+  userId: number;
+  chatId: number;
+  /** Message-ID header, without which replies cannot be threaded */
+  messageId?: string;
+  /** References header: the conversation before this email, oldest first */
+  references: string[];
+  from: { name?: string; address: string };
+  /** Where replies go: the Reply-To address, else the sender */
+  replyTo: string;
+  subject: string;
+  /** Plain-text body, shortened if very long */
+  body: string;
+  /** GPT summary, unless summarizing failed or the user was over quota */
+  summary?: string;
+  /** When the email was sent, as an ISO string */
+  receivedAt: string;
+  /** The Telegram message it was relayed as; replying to it answers the email */
+  notificationMessageId?: number;
+}
+
+/**
+ * What a reply to a relayed email is drafted from.
+ *
+ * @interface ReplyContext
+ */
+export interface ReplyContext {
+  userId: number;
+  chatId: number;
+  /** What the user said, typically transcribed */
+  transcript: string;
+  /** ISO-639-1 code of the spoken language, if known */
+  language?: string;
+  /** Original recording; owned by the draft once it is created */
+  audioPath?: string;
+}
+
+type InboundListener = (email: InboundEmail) => void | Promise<void>;
+
+/**
+ * Service that relays new mail from users' IMAP inboxes and drafts replies to it.
+ * Each connected mailbox is checked every INBOX_POLL_SECONDS with the login of the user's linked
+ * account. New emails are summarized by GPT and handed to listeners, which tell the user; an email
+ * is only marked as relayed once every listener succeeded, so a failed notification is retried.
+ *
+ * @class InboxService
+ * @implements {OnModuleInit}
+ * @implements {OnModuleDestroy}
+ */
+@Injectable()
+export class InboxService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(InboxService.name);
+  private readonly mailboxes: Collection<StoredMailbox>;
+  private readonly emails: Collection<InboundEmail>;
+  private readonly listeners: InboundListener[] = [];
+  private readonly pollIntervalMs: number;
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+
+  /**
+   * Creates an instance of InboxService.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   * @param {GptService} gptService - Service summarizing emails and writing replies
+   * @param {AccountService} accountService - Accounts whose logins open the mailboxes
+   * @param {DraftService} draftService - Service managing reply drafts
+   * @param {PreferenceService} preferenceService - Template, signature and language of the user
+   * @param {StorageService} storageService - Service for persisting mailboxes and emails
+   * @param {UsageService} usageService - Ledger the summaries' tokens are counted in
+   */
+  constructor(
+    private configService: ConfigService,
+    private gptService: GptService,
+    private accountService: AccountService,
+    private draftService: DraftService,
+    private preferenceService: PreferenceService,
+    private storageService: StorageService,
+    private usageService: UsageService,
+  ) {
+    this.mailboxes = this.storageService.collection<StoredMailbox>('mailboxes');
+    this.emails = this.storageService.collection<InboundEmail>('inbound');
+    this.pollIntervalMs =
+      this.configService.get<number>('INBOX_POLL_SECONDS', 60) * 1000;
+  }
+
+  /**
+   * Lifecycle hook that starts checking the connected mailboxes.
+   */
+  onModuleInit() {
+    this.pollTimer = setInterval(() => void this.poll(), this.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  /**
+   * Lifecycle hook that stops checking the mailboxes.
+   */
+  onModuleDestroy() {
+    clearInterval(this.pollTimer);
+  }
+
+  /**
+   * Registers a callback invoked with every new email.
+   *
+   * @param {InboundListener} listener - Callback receiving the email; throwing makes it come again on the next check
+   */
+  onMessage(listener: InboundListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Gets the mailbox a user connected.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {ConnectedMailbox | undefined} The mailbox, or undefined if none is connected
+   */
+  get(userId: number): ConnectedMailbox | undefined {
+    const stored = this.mailboxes.get(String(userId));
+    return stored ? this.toConnectedMailbox(userId, stored) : undefined;
+  }
+
+  /**
+   * Connects a user's mailbox, replacing any previous one. The login of the user's linked account
+   * is checked against the server, and only mail arriving from now on is relayed.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {number} chatId - Telegram chat to relay new mail to
+   * @param {ImapServer} server - IMAP server of the mailbox
+   * @returns {Promise<ConnectedMailbox>} The connected mailbox
+   * @throws {BadRequestException} If the user has no linked account, or the server cannot be reached or refuses the login
+   */
+  async connect(
+    userId: number,
+    chatId: number,
+    server: ImapServer,
+  ): Promise<ConnectedMailbox> {
+    if (!this.accountService.get(userId)) {
+      throw new BadRequestException(
+        'Link your email account with /connect first, its login is used to read your mailbox',
+      );
+    }
+    const account = this.accountService.resolve(userId);
+
+    let inbox: Pick<MailboxObject, 'uidValidity' | 'uidNext'>;
+    try {
+      inbox = await this.withInbox(server, account, (_client, mailbox) =>
+        Promise.resolve(mailbox),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `IMAP login failed for ${account.user} at ${server.host}:${server.port}: ${(error as Error).message}`,
+      );
+      if ((error as { authenticationFailed?: boolean }).authenticationFailed) {
+        throw new BadRequestException(
+          'The server refused the login of your linked account',
+          { cause: error },
+        );
+      }
+      throw new BadRequestException(
+        `Could not open your inbox on ${server.host}:${server.port}, check the server and port`,
+        { cause: error },
+      );
+    }
+
+    const now = new Date().toISOString();
+    const stored: StoredMailbox = {
+      ...server,
+      chatId,
+      uidValidity: String(inbox.uidValidity),
+      lastUid: inbox.uidNext - 1,
+      createdAt: this.mailboxes.get(String(userId))?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.mailboxes.set(String(userId), stored);
+    this.logger.log(
+      `User ${userId} connected the inbox of ${account.user} at ${server.host}:${server.port}`,
+    );
+    return this.toConnectedMailbox(userId, stored);
+  }
+
+  /**
+   * Stops relaying a user's mailbox.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {boolean} True if a mailbox was disconnected
+   */
+  disconnect(userId: number): boolean {
+    const removed = this.mailboxes.delete(String(userId));
+    if (removed) {
+      this.logger.log(`User ${userId} disconnected their inbox`);
+    }
+    return removed;
+  }
+
+  /**
+   * Deletes the relayed emails of a user. The mailbox stays connected.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {number} How many emails were deleted
+   */
+  forget(userId: number): number {
+    return this.emails.deleteWhere((email) => email.userId === userId);
+  }
+
+  /**
+   * Records the Telegram message an email was relayed as, so replies to it can be recognized.
+   *
+   * @param {string} id - Inbound email ID
+   * @param {number} messageId - Telegram message ID
+   * @throws {NotFoundException} If the email does not exist
+   */
+  markRelayed(id: string, messageId: number): void {
+    const email = this.emails.get(id);
+    if (!email) {
+      throw new NotFoundException('Email not found');
+    }
+    this.emails.set(id, { ...email, notificationMessageId: messageId });
+  }
+
+  /**
+   * Finds the email a Telegram message relayed.
+   *
+   * @param {number} chatId - Telegram chat ID
+   * @param {number} messageId - Telegram message ID
+   * @returns {InboundEmail | undefined} The email, or undefined if the message relayed none
+   */
+  findByRelayMessage(
+    chatId: number,
+    messageId: number,
+  ): InboundEmail | undefined {
+    return this.emails
+      .values()
+      .find(
+        (email) =>
+          email.chatId === chatId && email.notificationMessageId === messageId,
+      );
+  }
+
+  /**
+   * Drafts a reply to a relayed email from what the user said. The draft goes to the sender with a
+   * "Re:" subject and the headers that thread it under the original, and replaces the chat's pending draft.
+   *
+   * @param {InboundEmail} email - Email replied to
+   * @param {ReplyContext} context - What the user said, and where
+   * @returns {Promise<GptResponse<{ draft: Draft; replaced?: Draft }>>} The draft and the draft it replaced, if any
+   * @throws {BadRequestException} If GPT cannot write the reply
+   */
+  async draftReply(
+    email: InboundEmail,
+    context: ReplyContext,
+  ): Promise<GptResponse<{ draft: Draft; replaced?: Draft }>> {
+    const { userId, chatId, transcript, language, audioPath } = context;
+    const response = await this.gptService.composeReply(
+      this.toReceivedEmail(email),
+      transcript,
+      undefined,
+      { language },
+    );
+
+    const preferences = this.preferenceService.get(userId);
+    const created = this.draftService.create(
+      {
+        email: {
+          to: [email.replyTo],
+          subject: /^re:/i.test(email.subject)
+            ? email.subject
+            : `Re: ${email.subject}`,
+          body: response.data,
+        },
+        unresolvedRecipients: [],
+      },
+      {
+        channel: 'telegram',
+        chatId,
+        userId,
+        source: { transcript, language, audioPath },
+        attachments: {
+          recording: preferences.attachRecording,
+          transcript: preferences.attachTranscript,
+        },
+        template: preferences.emailTemplate,
+        signature: preferences.signature,
+        thread: email.messageId
+          ? {
+              inReplyTo: email.messageId,
+              references: [...email.references, email.messageId],
+            }
+          : undefined,
+      },
+    );
+    return { ...response, data: created };
+  }
+
+  /**
+   * Checks every connected mailbox for new mail, one at a time. A check still running when the
+   * next one is due makes that one skip.
+   *
+   * @private
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      for (const [key, mailbox] of this.mailboxes.entries()) {
+        if (!this.accountService.get(Number(key))) {
+          // The login went with the account; never read the mailbox with the shared one
+          this.disconnect(Number(key));
+          continue;
+        }
+        await this.pollMailbox(Number(key), mailbox);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Relays the mail that arrived in a user's inbox since the last check, oldest first, once the
+   * connection is closed. Failures are recorded on the mailbox and the check is tried again next time.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {StoredMailbox} mailbox - The user's mailbox
+   * @private
+   */
+  private async pollMailbox(
+    userId: number,
+    mailbox: StoredMailbox,
+  ): Promise<void> {
+    try {
+      const account = this.accountService.resolve(userId);
+      const fetched = await this.withInbox(
+        mailbox,
+        account,
+        async (client, inbox) => {
+          const uidValidity = String(inbox.uidValidity);
+          if (uidValidity !== mailbox.uidValidity) {
+            // The server renumbered the inbox: start over from what is there now
+            this.logger.warn(
+              `Inbox of user ${userId} changed UIDVALIDITY, skipping to new mail`,
+            );
+            this.update(userId, { uidValidity, lastUid: inbox.uidNext - 1 });
+            return [];
+          }
+          if (inbox.uidNext <= mailbox.lastUid + 1) {
+            return [];
+          }
+
+          const messages: { uid: number; source: Buffer }[] = [];
+          for await (const message of client.fetch(
+            `${mailbox.lastUid + 1}:*`,
+            { uid: true, source: true },
+            { uid: true },
+          )) {
+            // "n:*" always matches the last message, even if it is older than n
+            if (message.uid > mailbox.lastUid && message.source) {
+              messages.push({ uid: message.uid, source: message.source });
+            }
+          }
+          return messages.sort((a, b) => a.uid - b.uid);
+        },
+      );
+
+      for (const { uid, source } of fetched) {
+        await this.relay(
+          `${userId}-${mailbox.uidValidity}-${uid}`,
+          userId,
+          mailbox.chatId,
+          await simpleParser(source),
+        );
+        this.update(userId, { lastUid: uid });
+      }
+      this.update(userId, {
+        lastPolledAt: new Date().toISOString(),
+        lastError: undefined,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to check the inbox of user ${userId}: ${(error as Error).message}`,
+      );
+      this.update(userId, { lastError: (error as Error).message });
+    }
+  }
+
+  /**
+   * Stores a new email, summarizes it and hands it to the listeners.
+   *
+   * @param {string} id - Inbound email ID
+   * @param {number} userId - Telegram user ID
+   * @param {number} chatId - Telegram chat to relay to
+   * @param {ParsedMail} parsed - The parsed email
+   * @throws {Error} If a listener fails, so the email is relayed again on the next check
+   * @private
+   */
+  private async relay(
+    id: string,
+    userId: number,
+    chatId: number,
+    parsed: ParsedMail,
+  ): Promise<void> {
+    // Stored by an earlier check whose notification failed
+    let email = this.emails.get(id);
+    if (!email) {
+      const from = this.firstAddress(parsed.from) ?? {
+        address: 'unknown sender',
+      };
+      email = {
+        id,
+        userId,
+        chatId,
+        messageId: parsed.messageId,
+        references: Array.isArray(parsed.references)
+          ? parsed.references
+          : parsed.references
+            ? [parsed.references]
+            : [],
+        from,
+        replyTo: this.firstAddress(parsed.replyTo)?.address ?? from.address,
+        subject: parsed.subject?.trim() || '(no subject)',
+        body: (parsed.text ?? '').trim().slice(0, MAX_STORED_BODY_CHARS),
+        receivedAt: (parsed.date ?? new Date()).toISOString(),
+      };
+      email.summary = await this.summarize(email);
+      this.emails.set(id, email);
+    }
+
+    for (const listener of this.listeners) {
+      await listener(email);
+    }
+  }
+
+  /**
+   * Summarizes an email for its notification, counting the tokens against the user's quota.
+   *
+   * @param {InboundEmail} email - The email
+   * @returns {Promise<string | undefined>} The summary, or undefined if the user is over quota or GPT failed
+   * @private
+   */
+  private async summarize(email: InboundEmail): Promise<string | undefined> {
+    if (!email.body) {
+      return undefined;
+    }
+    try {
+      this.usageService.assertWithinQuota(email.userId, 'tokens');
+      const response = await this.gptService.summarizeEmail(
+        this.toReceivedEmail(email),
+        undefined,
+        { language: this.preferenceService.get(email.userId).language },
+      );
+      this.usageService.recordTokens(email.userId, response);
+      return response.data;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to summarize email ${email.id}: ${(error as Error).message}`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Opens the inbox of a mailbox, runs a callback with it and logs out.
+   *
+   * @param {ImapServer} server - IMAP server
+   * @param {SenderAccount} account - Account whose login opens the mailbox
+   * @param callback - Receives the client and the opened inbox
+   * @returns The callback's result
+   * @private
+   */
+  private async withInbox<T>(
+    server: ImapServer,
+    account: SenderAccount,
+    callback: (client: ImapFlow, inbox: MailboxObject) => Promise<T>,
+  ): Promise<T> {
+    const client = new ImapFlow({
+      host: server.host,
+      port: server.port,
+      secure: server.secure,
+      auth: { user: account.user, pass: account.pass },
+      logger: false,
+      connectionTimeout: IMAP_TIMEOUT,
+      greetingTimeout: IMAP_TIMEOUT,
+    });
+    // Connection drops are reported by the command that was running; without a listener they would crash the process
+    client.on('error', (error: Error) =>
+      this.logger.debug(`IMAP connection error: ${error.message}`),
+    );
+
+    await client.connect();
+    try {
+      const lock = await client.getMailboxLock(INBOX_FOLDER);
+      try {
+        return await callback(client, client.mailbox as MailboxObject);
+      } finally {
+        lock.release();
+      }
+    } finally {
+      await client.logout().catch(() => client.close());
+    }
+  }
+
+  /**
+   * Saves changes to a mailbox, unless it was disconnected meanwhile.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {Partial<StoredMailbox>} changes - Fields to change
+   * @private
+   */
+  private update(userId: number, changes: Partial<StoredMailbox>): void {
+    const stored = this.mailboxes.get(String(userId));
+    if (stored) {
+      this.mailboxes.set(String(userId), {
+        ...stored,
+        ...changes,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Picks the first address of an address header.
+   *
+   * @param {AddressObject | AddressObject[]} [header] - Parsed header
+   * @returns {{ name?: string; address: string } | undefined} The address, or undefined if there is none
+   * @private
+   */
+  private firstAddress(
+    header?: AddressObject | AddressObject[],
+  ): { name?: string; address: string } | undefined {
+    const first = (Array.isArray(header) ? header : header ? [header] : [])
+      .flatMap((object) => object.value)
+      .find((entry) => entry.address);
+    return first
+      ? { name: first.name || undefined, address: first.address!.toLowerCase() }
+      : undefined;
+  }
+
+  /**
+   * Maps an email to what GPT is shown of it.
+   *
+   * @param {InboundEmail} email - The email
+   * @returns {ReceivedEmail} Sender, subject and body
+   * @private
+   */
+  private toReceivedEmail(email: InboundEmail): ReceivedEmail {
+    return {
+      from: email.from.name
+        ? `${email.from.name} <${email.from.address}>`
+        : email.from.address,
+      subject: email.subject,
+      body: email.body,
+    };
+  }
+
+  /**
+   * Maps a stored mailbox to what is shown to its owner.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {StoredMailbox} stored - Stored mailbox
+   * @returns {ConnectedMailbox} The mailbox
+   * @private
+   */
+  private toConnectedMailbox(
+    userId: number,
+    stored: StoredMailbox,
+  ): ConnectedMailbox {
+    return {
+      host: stored.host,
+      port: stored.port,
+      secure: stored.secure,
+      user: this.accountService.get(userId)?.user ?? '',
+      chatId: stored.chatId,
+      lastPolledAt: stored.lastPolledAt
+        ? new Date(stored.lastPolledAt)
+        : undefined,
+      lastError: stored.lastError,
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { Injectable } from '@nestjs/common';
+import {
+  GptService,
+  GptResponse,
+  EmailExtraction,
+} from '../../gpt/gpt.service';
+import { DraftService } from '../../draft/draft.service';
+import { ContactService } from '../../contact/contact.service';
+import { PreferenceService } from '../../preference/preference.service';
+import {
+  IntentHandler,
+  IntentContext,
+  IntentResult,
+} from './intent-handler.interface';
+
+/**
+ * Turns transcripts asking for an email into a pending draft, with the user's address book,
+ * template, signature and default attachments.
+ *
+ * @class EmailIntentHandler
+ * @implements {IntentHandler<EmailExtraction>}
+ */
+@Injectable()
+export class EmailIntentHandler implements IntentHandler<EmailExtraction> {
+  readonly name = 'email';
+  readonly label = 'an email';
+  readonly description = 'write or send an email to someone';
+
+  /**
+   * Creates an instance of EmailIntentHandler.
+   *
+   * @param {GptService} gptService - Service extracting the email
+   * @param {DraftService} draftService - Service managing pending drafts
+   * @param {ContactService} contactService - Address books recipients are resolved with
+   * @param {PreferenceService} preferenceService - Template, signature and attachment defaults
+   */
+  constructor(
+    private gptService: GptService,
+    private draftService: DraftService,
+    private contactService: ContactService,
+    private preferenceService: PreferenceService,
+  ) {}
+
+  /**
+   * Extracts the email, resolving spoken names with the user's address book.
+   *
+   * @param {IntentContext} context - The transcript and who sent it
+   * @returns {Promise<GptResponse<EmailExtraction>>} The email and its unresolved recipients
+   * @throws {BadRequestException} If the transcript does not ask for an email after all
+   */
+  extract(context: IntentContext): Promise<GptResponse<EmailExtraction>> {
+    return this.gptService.extractEmailFields(context.transcript, undefined, {
+      contacts: this.contactService.list(context.userId),
+      language: context.language,
+      timezone: context.timezone,
+    });
+  }
+
+  /**
+   * Creates a pending draft, replacing the chat's previous one. The draft takes the recording.
+   *
+   * @param {EmailExtraction} extraction - The extracted email
+   * @param {IntentContext} context - The transcript and who sent it
+   * @returns {IntentResult} The new draft and the draft it replaced, if any
+   */
+  handle(extraction: EmailExtraction, context: IntentContext): IntentResult {
+    const { chatId, userId, transcript, language, audioPath } = context;
+    const preferences = this.preferenceService.get(userId);
+    const { draft, replaced } = this.draftService.create(extraction, {
+      channel: 'telegram',
+      chatId,
+      userId,
+      source: { transcript, language, audioPath },
+      attachments: {
+        recording: preferences.attachRecording,
+        transcript: preferences.attachTranscript,
+      },
+      template: preferences.emailTemplate,
+      signature: preferences.signature,
+    });
+    return { kind: 'draft', draft, replaced };
+  }
+}
@@ -0,0 +1,126 @@
+import { GptResponse } from '../../gpt/gpt.service';
+import { Draft } from '../../draft/draft.service';
+
+/**
+ * Who a transcript came from, and how to read it.
+ *
+ * @interface IntentContext
+ */
+export interface IntentContext {
+  /** Telegram user ID */
+  userId: number;
+  /** Telegram chat ID */
+  chatId: number;
+  /** The transcribed message */
+  transcript: string;
+  /** ISO-639-1 code of the spoken language, if known */
+  language?: string;
+  /** IANA timezone spoken times are read in */
+  timezone: string;
+  /** Original recording; handlers that keep it take ownership, otherwise it is deleted */
+  audioPath?: string;
+}
+
+/**
+ * Who pressed a button under a preview, and where.
+ */
+export type IntentActionContext = Pick<
+  IntentContext,
+  'userId' | 'chatId' | 'timezone'
+>;
+
+/**
+ * A button under a preview. Pressing it calls the handler's handleAction with the preview's item ID.
+ *
+ * @interface IntentButton
+ */
+export interface IntentButton {
+  label: string;
+  /** Action name passed to handleAction, letters only */
+  action: string;
+}
+
+/**
+ * What the chat shows for an item a handler created or changed.
+ *
+ * @interface IntentPreview
+ */
+export interface IntentPreview {
+  /** ID of the item the buttons act on */
+  id: string;
+  text: string;
+  /** Rows of buttons; none once the item is finished */
+  buttons?: IntentButton[][];
+}
+
+/**
+ * What handling a transcript produced: an item with its preview, or an email draft,
+ * which goes through the draft confirmation flow instead.
+ */
+export type IntentResult =
+  | { kind: 'preview'; preview: IntentPreview }
+  | { kind: 'draft'; draft: Draft; replaced?: Draft };
+
+/**
+ * Something a transcript can ask for, such as an email or a to-do item.
+ * IntentService classifies each transcript among the registered handlers, then the chosen handler
+ * extracts its data with its own schema and acts on it.
+ *
+ * @interface IntentHandler
+ * @template T - Data the handler extracts from a transcript
+ */
+export interface IntentHandler<T = unknown> {
+  /** Name GPT classifies transcripts with, and the prefix of the handler's buttons; letters only */
+  readonly name: string;
+  /** What the handler makes, in messages, e.g. "a to-do item" */
+  readonly label: string;
+  /** When a transcript has this intent, as told to GPT */
+  readonly description: string;
+  /** Command listing the user's items, without the slash */
+  readonly command?: string;
+  /** What the command does, for /help */
+  readonly commandDescription?: string;
+
+  /**
+   * Extracts the handler's data from a transcript.
+   *
+   * @param {IntentContext} context - The transcript and who sent it
+   * @returns {Promise<GptResponse<T>>} The data with the GPT usage of extracting it
+   * @throws {BadRequestException} If the transcript does not hold the data after all
+   */
+  extract(context: IntentContext): Promise<GptResponse<T>>;
+
+  /**
+   * Acts on extracted data, for example by saving an item.
+   *
+   * @param {T} data - Data from extract
+   * @param {IntentContext} context - The transcript and who sent it
+   * @returns {IntentResult} What to show the user
+   */
+  handle(data: T, context: IntentContext): IntentResult;
+
+  /**
+   * Handles a button pressed under one of the handler's previews.
+   *
+   * @param {string} action - Action of the button
+   * @param {string} id - Item the preview is about
+   * @param {IntentActionContext} context - Who pressed the button, and in which chat
+   * @returns {IntentPreview} The updated preview
+   * @throws {NotFoundException} If the item no longer exists or belongs to someone else
+   * @throws {BadRequestException} If the action cannot be done yet, with what is missing
+   */
+  handleAction?(
+    action: string,
+    id: string,
+    context: IntentActionContext,
+  ): IntentPreview;
+
+  /**
+   * Lists a user's items, for the handler's command.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {string} timezone - IANA timezone of the user
+   * @returns {string} The list, or a message saying there is nothing
+   */
+  list?(userId: number, timezone: string): string;
+}
@@ -0,0 +1,765 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import {
+  GptService,
+  GptResponse,
+  localDateTimeSchema,
+} from '../../gpt/gpt.service';
+import { ContactService } from '../../contact/contact.service';
+import { AccountService } from '../../account/account.service';
+import { OutboxService } from '../../outbox/outbox.service';
+import { StorageService, Collection } from '../../storage/storage.service';
+import {
+  CalendarAttendee,
+  CalendarMethod,
+  renderCalendarInvite,
+} from '../../email/calendar-invite';
+import {
+  fromLocalDateTime,
+  formatInTimezone,
+  isValidTimezone,
+  toLocalDateTime,
+} from '../../preference/timezone';
+import {
+  IntentHandler,
+  IntentContext,
+  IntentResult,
+  IntentPreview,
+  IntentActionContext,
+  IntentButton,
+} from './intent-handler.interface';
+
+/** Length of meetings whose duration was not said */
+const DEFAULT_MEETING_MINUTES = 30;
+
+/** Loose email address check; addresses GPT got wrong are dropped */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Sender written as "Name <address>", as accounts may set it */
+const NAMED_ADDRESS_PATTERN = /^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/;
+
+/** Domain part of the UIDs calendars tell meetings apart by */
+const UID_DOMAIN = 'vox-relay';
+
+/**
+ * Builds the schema of a meeting message. Updates and cancellations must name one of the user's
+ * meetings, so the schema is built per user.
+ *
+ * @param {string[]} meetingIds - IDs of the meetings the message may change
+ * @returns The schema
+ */
+function buildMeetingSchema(meetingIds: string[]) {
+  return z.object({
+    action: z
+      .enum(['create', 'update', 'cancel'])
+      .describe(
+        'Whether the message sets up a new meeting, changes one or calls one off',
+      ),
+    meetingId: z
+      .string()
+      .nullable()
+      .refine(
+        (value) => value === null || meetingIds.includes(value),
+        'Must be the ID of one of the listed meetings, or null',
+      )
+      .describe('ID of the meeting to update or cancel, or null to create one'),
+    title: z
+      .string()
+      .refine((value) => value.trim().length > 0, 'Title cannot be empty')
+      .describe('What the meeting is about, e.g. "Launch review"'),
+    attendees: z
+      .array(
+        z.object({
+          name: z
+            .string()
+            .nullable()
+            .describe('The person as spoken, e.g. "Priya"'),
+          address: z
+            .string()
+            .nullable()
+            .describe(
+              'Email address, only if dictated or matching exactly one address book entry',
+            ),
+        }),
+      )
+      .describe('Everyone to invite, not including the user'),
+    start: localDateTimeSchema.describe(
+      'When the meeting starts, or null if the message does not say',
+    ),
+    durationMinutes: z
+      .number()
+      .nullable()
+      .refine(
+        (value) => value === null || (Number.isInteger(value) && value > 0),
+        'Must be a whole number of minutes, or null',
+      )
+      .describe(
+        'How long the meeting lasts, or null if the message does not say',
+      ),
+    timezone: z
+      .string()
+      .nullable()
+      .refine(
+        (value) => value === null || isValidTimezone(value),
+        'Must be an IANA timezone such as "America/New_York", or null',
+      )
+      .describe(
+        'IANA timezone "start" is written in, if the message names one, e.g. "America/New_York" for "New York time"; otherwise null',
+      ),
+    location: z
+      .string()
+      .nullable()
+      .describe('Where the meeting takes place or its call link, or null'),
+  });
+}
+
+type MeetingData = z.infer<ReturnType<typeof buildMeetingSchema>>;
+
+/**
+ * A person invited to a meeting.
+ *
+ * @interface Attendee
+ */
+interface Attendee {
+  name?: string;
+  address?: string;
+}
+
+/**
+ * Where a meeting stands with its attendees.
+ * draft → sent → cancelled; a draft that is deleted or cancelled before it is sent is simply removed.
+ */
+type MeetingStatus = 'draft' | 'sent' | 'cancelled';
+
+/**
+ * A meeting saved from a voice message.
+ *
+ * @interface Meeting
+ */
+interface Meeting {
+  id: string;
+  userId: number;
+  /** Identifies the meeting in the attendees' calendars, across updates */
+  uid: string;
+  /** Revision last sent to the attendees; increases with every update or cancellation */
+  sequence: number;
+  status: MeetingStatus;
+  /** Whether the meeting changed since the invitations were sent */
+  changed: boolean;
+  /** Addresses the invitations were last sent to */
+  invited: string[];
+  title: string;
+  attendees: Attendee[];
+  /** When it starts, as an ISO instant; unset if no time was said */
+  start?: string;
+  durationMinutes: number;
+  /** IANA timezone the meeting is described in to attendees */
+  timezone: string;
+  location?: string;
+  createdAt: string;
+}
+
+/**
+ * Saves meetings from transcripts such as "set up a call with Priya Thursday at 3 about the launch",
+ * and sends them as calendar invitations. Later messages such as "move the launch call to Friday"
+ * update or cancel them, with the same UID and a higher sequence so calendars replace the event.
+ *
+ * @class MeetingIntentHandler
+ * @implements {IntentHandler<MeetingData>}
+ */
+@Injectable()
+export class MeetingIntentHandler implements IntentHandler<MeetingData> {
+  readonly name = 'meeting';
+  readonly label = 'a meeting';
+  readonly description =
+    'set up, move, change or cancel a meeting or call with people, e.g. "book a call with Priya on Thursday at 3"';
+  readonly command = 'meetings';
+  readonly commandDescription = 'List your upcoming meetings';
+
+  private readonly meetings: Collection<Meeting>;
+
+  /**
+   * Creates an instance of MeetingIntentHandler.
+   *
+   * @param {GptService} gptService - Service extracting the meeting
+   * @param {ContactService} contactService - Address books attendees are resolved with
+   * @param {AccountService} accountService - Accounts invitations are sent from
+   * @param {OutboxService} outboxService - Outbox invitations are queued in
+   * @param {StorageService} storageService - Service for persisting meetings
+   */
+  constructor(
+    private gptService: GptService,
+    private contactService: ContactService,
+    private accountService: AccountService,
+    private outboxService: OutboxService,
+    private storageService: StorageService,
+  ) {
+    this.meetings = this.storageService.collection<Meeting>('meetings');
+  }
+
+  /**
+   * Extracts the meeting, resolving attendees with the user's address book.
+   * The user's upcoming meetings are listed so the message can update or cancel one of them.
+   *
+   * @param {IntentContext} context - The transcript and who sent it
+   * @returns {Promise<GptResponse<MeetingData>>} What to do, and the meeting's title, attendees, time and location
+   */
+  extract(context: IntentContext): Promise<GptResponse<MeetingData>> {
+    const upcoming = this.listUpcoming(context.userId);
+
+    return this.gptService.extractStructured(
+      context.transcript,
+      buildMeetingSchema(upcoming.map((meeting) => meeting.id)),
+      {
+        name: 'save_meeting',
+        description:
+          'Create, update or cancel a meeting from the transcribed message',
+        guidelines: [
+          'Set "action" to "update" or "cancel" only if the message changes or calls off one of the meetings listed below, and set "meetingId" to its ID',
+          'For "update" and "cancel", return every field of that meeting, with the changes applied for "update"',
+          'Add one entry to "attendees" per person to invite',
+          'Set "address" only if it was dictated or the person matches exactly one address book entry',
+          'Set "durationMinutes" from the length or the end time the message gives',
+          'If the message gives the time in another timezone, write "start" in that timezone and set "timezone"',
+          this.formatForPrompt(upcoming, context.timezone),
+        ],
+      },
+      undefined,
+      {
+        contacts: this.contactService.list(context.userId),
+        language: context.language,
+        timezone: context.timezone,
+      },
+    );
+  }
+
+  /**
+   * Saves a new meeting, applies changes to one, or cancels it.
+   *
+   * @param {MeetingData} data - The extracted meeting
+   * @param {IntentContext} context - The transcript and who sent it
+   * @returns {IntentResult} Preview with the buttons that fit where the meeting stands
+   */
+  handle(data: MeetingData, context: IntentContext): IntentResult {
+    return { kind: 'preview', preview: this.save(data, context) };
+  }
+
+  /**
+   * Sends the invitations or their update, cancels a sent meeting, or deletes one that was not sent.
+   *
+   * @param {string} action - "send", "cancel", "keep" or "delete"
+   * @param {string} id - Meeting ID
+   * @param {IntentActionContext} context - Who pressed the button, and in which chat
+   * @returns {IntentPreview} The updated preview
+   * @throws {NotFoundException} If the meeting no longer exists or belongs to someone else
+   * @throws {BadRequestException} If the meeting cannot be sent yet, or no longer be changed
+   */
+  handleAction(
+    action: string,
+    id: string,
+    context: IntentActionContext,
+  ): IntentPreview {
+    const meeting = this.meetings.get(id);
+    if (!meeting || meeting.userId !== context.userId) {
+      throw new NotFoundException('This meeting no longer exists');
+    }
+    if (meeting.status === 'cancelled') {
+      throw new BadRequestException('This meeting was cancelled');
+    }
+
+    switch (action) {
+      case 'send':
+        return this.send(meeting, context);
+      case 'cancel':
+        return this.cancel(meeting, context);
+      case 'delete':
+        if (meeting.status !== 'draft') {
+          throw new BadRequestException(
+            'The invitations were sent, cancel the meeting instead',
+          );
+        }
+        this.meetings.delete(id);
+        return this.preview(id, `🗑 Deleted meeting: ${meeting.title}`);
+      default:
+        return this.preview(
+          id,
+          this.formatMeeting(meeting, context.timezone),
+          this.buttonsFor(meeting),
+        );
+    }
+  }
+
+  /**
+   * Lists a user's meetings that have not started yet, soonest first; meetings without a time come last.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {string} timezone - IANA timezone of the user
+   * @returns {string} The list, or a message saying there are no meetings
+   */
+  list(userId: number, timezone: string): string {
+    const upcoming = this.listUpcoming(userId);
+    if (upcoming.length === 0) {
+      return '📅 You have no upcoming meetings. Say "set up a call with…" in a voice message to add one.';
+    }
+
+    return (
+      '📅 Your upcoming meetings:\n\n' +
+      upcoming
+        .map((meeting) => this.formatMeeting(meeting, timezone))
+        .join('\n\n')
+    );
+  }
+
+  /**
+   * Creates, updates or cancels the meeting a message is about.
+   *
+   * @param {MeetingData} data - The extracted meeting
+   * @param {IntentContext} context - The transcript and who sent it
+   * @returns {IntentPreview} The preview
+   * @private
+   */
+  private save(data: MeetingData, context: IntentContext): IntentPreview {
+    const timezone = data.timezone ?? context.timezone;
+    const fields = {
+      title: data.title.trim(),
+      attendees: data.attendees
+        .map((attendee) => ({
+          name: attendee.name?.trim() || undefined,
+          address: EMAIL_PATTERN.test(attendee.address?.trim() ?? '')
+            ? attendee.address!.trim().toLowerCase()
+            : undefined,
+        }))
+        .filter((attendee) => attendee.name || attendee.address),
+      start: data.start
+        ? fromLocalDateTime(data.start, timezone)?.toISOString()
+        : undefined,
+      durationMinutes: data.durationMinutes ?? DEFAULT_MEETING_MINUTES,
+      timezone,
+      location: data.location?.trim() || undefined,
+    };
+
+    const existing =
+      data.action !== 'create' && data.meetingId
+        ? this.meetings.get(data.meetingId)
+        : undefined;
+    if (existing?.userId !== context.userId) {
+      if (data.action !== 'create') {
+        return this.preview(
+          '',
+          "🤷 I couldn't tell which meeting you meant. See /meetings for the ones you have.",
+        );
+      }
+
+      const id = randomUUID();
+      const meeting: Meeting = {
+        id,
+        userId: context.userId,
+        uid: `${id}@${UID_DOMAIN}`,
+        sequence: 0,
+        status: 'draft',
+        changed: false,
+        invited: [],
+        ...fields,
+        createdAt: new Date().toISOString(),
+      };
+      this.meetings.set(id, meeting);
+      return this.preview(
+        id,
+        '📅 Meeting saved:\n\n' + this.formatMeeting(meeting, context.timezone),
+        this.buttonsFor(meeting),
+      );
+    }
+
+    if (data.action === 'cancel') {
+      if (existing.status === 'draft') {
+        this.meetings.delete(existing.id);
+        return this.preview(
+          existing.id,
+          `🗑 Deleted meeting: ${existing.title}`,
+        );
+      }
+      return this.preview(
+        existing.id,
+        '❌ Cancel this meeting? Attendees will get a cancellation.\n\n' +
+          this.formatMeeting(existing, context.timezone),
+        [
+          [
+            { label: '❌ Send cancellation', action: 'cancel' },
+            { label: '↩️ Keep it', action: 'keep' },
+          ],
+        ],
+      );
+    }
+
+    // Fields the message leaves out come back null and keep their value
+    const updated: Meeting = {
+      ...existing,
+      ...fields,
+      start: fields.start ?? existing.start,
+      durationMinutes: data.durationMinutes ?? existing.durationMinutes,
+      timezone:
+        data.start || data.timezone ? fields.timezone : existing.timezone,
+      location: fields.location ?? existing.location,
+      changed: existing.status === 'sent',
+    };
+    this.meetings.set(updated.id, updated);
+    return this.preview(
+      updated.id,
+      '📅 Meeting updated:\n\n' + this.formatMeeting(updated, context.timezone),
+      this.buttonsFor(updated),
+    );
+  }
+
+  /**
+   * Queues the invitations, or an update if they were sent before. Attendees who were dropped
+   * since the last invitation are sent a cancellation.
+   *
+   * @param {Meeting} meeting - Meeting to send
+   * @param {IntentActionContext} context - Who pressed the button, and in which chat
+   * @returns {IntentPreview} Preview saying the invitations are on their way
+   * @throws {BadRequestException} If the meeting has no time or an attendee has no address
+   * @private
+   */
+  private send(meeting: Meeting, context: IntentActionContext): IntentPreview {
+    if (!meeting.start) {
+      throw new BadRequestException(
+        'Say when the meeting is in a voice message first',
+      );
+    }
+    const unresolved = meeting.attendees.filter(
+      (attendee) => !attendee.address,
+    );
+    if (unresolved.length > 0) {
+      throw new BadRequestException(
+        `No email address for ${unresolved.map((attendee) => attendee.name).join(', ')}: ` +
+          'say it in a voice message or add them with /contacts',
+      );
+    }
+    if (meeting.attendees.length === 0) {
+      throw new BadRequestException(
+        'Say who to invite in a voice message first',
+      );
+    }
+    if (meeting.status === 'sent' && !meeting.changed) {
+      throw new BadRequestException('The attendees already have this meeting');
+    }
+
+    const update = meeting.status === 'sent';
+    const sent: Meeting = {
+      ...meeting,
+      sequence: update ? meeting.sequence + 1 : meeting.sequence,
+      status: 'sent',
+      changed: false,
+      invited: meeting.attendees.map((attendee) => attendee.address!),
+    };
+    const dropped = meeting.invited.filter(
+      (address) => !sent.invited.includes(address),
+    );
+
+    // Stored before anything is queued, so every invitation that goes out carries a sequence
+    // the store knows and the next update gets a higher one
+    this.meetings.set(sent.id, sent);
+    try {
+      this.queue(sent, 'REQUEST', sent.invited, context.chatId);
+    } catch (error) {
+      // Nothing went out; the sequence stays used up
+      this.meetings.set(meeting.id, { ...meeting, sequence: sent.sequence });
+      throw error;
+    }
+    if (dropped.length > 0) {
+      try {
+        this.queue(sent, 'CANCEL', dropped, context.chatId);
+      } catch (error) {
+        // The invitations went out; keep the dropped attendees so the next send cancels them
+        this.meetings.set(sent.id, {
+          ...sent,
+          invited: [...sent.invited, ...dropped],
+          changed: true,
+        });
+        throw error;
+      }
+    }
+
+    return this.preview(
+      sent.id,
+      `📨 ${update ? 'Update' : 'Invitations'} on the way to ${sent.invited.join(', ')}:\n\n` +
+        this.formatMeeting(sent, context.timezone),
+      this.buttonsFor(sent),
+    );
+  }
+
+  /**
+   * Queues the cancellation of a sent meeting, or deletes one that was never sent.
+   *
+   * @param {Meeting} meeting - Meeting to cancel
+   * @param {IntentActionContext} context - Who pressed the button, and in which chat
+   * @returns {IntentPreview} The finished preview
+   * @private
+   */
+  private cancel(
+    meeting: Meeting,
+    context: IntentActionContext,
+  ): IntentPreview {
+    if (meeting.status === 'draft') {
+      this.meetings.delete(meeting.id);
+      return this.preview(meeting.id, `🗑 Deleted meeting: ${meeting.title}`);
+    }
+
+    const cancelled: Meeting = {
+      ...meeting,
+      sequence: meeting.sequence + 1,
+      status: 'cancelled',
+      changed: false,
+    };
+    this.meetings.set(cancelled.id, cancelled);
+    try {
+      this.queue(cancelled, 'CANCEL', meeting.invited, context.chatId);
+    } catch (error) {
+      this.meetings.set(meeting.id, {
+        ...meeting,
+        sequence: cancelled.sequence,
+      });
+      throw error;
+    }
+
+    return this.preview(
+      cancelled.id,
+      `❌ Cancellation on the way to ${meeting.invited.join(', ')}:\n\n` +
+        this.formatMeeting(cancelled, context.timezone),
+    );
+  }
+
+  /**
+   * Queues an invitation, update or cancellation email with the meeting as a calendar event.
+   *
+   * @param {Meeting} meeting - Meeting as it is sent, with its new sequence
+   * @param {CalendarMethod} method - REQUEST to invite or update, CANCEL to call off
+   * @param {string[]} recipients - Addresses to send to
+   * @param {number} chatId - Telegram chat told about the delivery
+   * @throws {BadRequestException} If the user has no account to send from or is over quota
+   * @private
+   */
+  private queue(
+    meeting: Meeting,
+    method: CalendarMethod,
+    recipients: string[],
+    chatId: number,
+  ): void {
+    const account = this.accountService.resolve(meeting.userId);
+    const start = new Date(meeting.start!);
+    const when = formatInTimezone(start, meeting.timezone);
+    const subject =
+      method === 'CANCEL'
+        ? `Cancelled: ${meeting.title}`
+        : meeting.sequence > 0
+          ? `Updated invitation: ${meeting.title}`
+          : `Invitation: ${meeting.title}`;
+    const body =
+      method === 'CANCEL'
+        ? `${meeting.title} on ${when} is cancelled.`
+        : [
+            meeting.sequence > 0
+              ? `${meeting.title} has changed.`
+              : `You are invited to ${meeting.title}.`,
+            '',
+            `When: ${when}, ${meeting.durationMinutes} min`,
+            meeting.location && `Where: ${meeting.location}`,
+            `With: ${meeting.attendees
+              .map((attendee) => attendee.name ?? attendee.address)
+              .join(', ')}`,
+          ]
+            .filter((line) => line !== undefined)
+            .join('\n');
+
+    this.outboxService.enqueue(
+      { to: recipients, subject, body },
+      {
+        userId: meeting.userId,
+        chatId,
+        reference: `meeting:${meeting.id}`,
+        calendar: renderCalendarInvite(
+          {
+            uid: meeting.uid,
+            sequence: meeting.sequence,
+            title: meeting.title,
+            location: meeting.location,
+            start,
+            end: new Date(start.getTime() + meeting.durationMinutes * 60000),
+            organizer: this.parseAddress(account.from ?? account.user),
+            // Dropped attendees are no longer in the meeting, but their cancellation must name them
+            attendees: recipients.map((address) => ({
+              address,
+              name: meeting.attendees.find(
+                (attendee) => attendee.address === address,
+              )?.name,
+            })),
+          },
+          method,
+        ),
+      },
+    );
+  }
+
+  /**
+   * Splits a sender such as "Jane Doe <jane@example.com>" into its name and address.
+   *
+   * @param {string} sender - Sender address, with or without a name
+   * @returns {CalendarAttendee} The address and name
+   * @private
+   */
+  private parseAddress(sender: string): CalendarAttendee {
+    const match = NAMED_ADDRESS_PATTERN.exec(sender);
+    return match
+      ? { address: match[2].trim(), name: match[1].trim() || undefined }
+      : { address: sender.trim() };
+  }
+
+  /**
+   * Finds a user's meetings that are not cancelled and have not started yet, soonest first;
+   * meetings without a time come last.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {Meeting[]} The meetings
+   * @private
+   */
+  private listUpcoming(userId: number): Meeting[] {
+    const now = new Date().toISOString();
+    return this.meetings
+      .values()
+      .filter(
+        (meeting) =>
+          meeting.userId === userId &&
+          meeting.status !== 'cancelled' &&
+          (!meeting.start || meeting.start > now),
+      )
+      .sort((a, b) => {
+        if (a.start && b.start) {
+          return a.start.localeCompare(b.start);
+        }
+        if (a.start || b.start) {
+          return a.start ? -1 : 1;
+        }
+        return a.createdAt.localeCompare(b.createdAt);
+      });
+  }
+
+  /**
+   * Buttons for where a meeting stands: send or delete a draft, send the changes to a sent
+   * meeting, or cancel it.
+   *
+   * @param {Meeting} meeting - The meeting
+   * @returns {IntentButton[][]} Rows of buttons
+   * @private
+   */
+  private buttonsFor(meeting: Meeting): IntentButton[][] {
+    if (meeting.status === 'draft') {
+      return [
+        [
+          { label: '📨 Send invitations', action: 'send' },
+          { label: '🗑 Delete', action: 'delete' },
+        ],
+      ];
+    }
+    return [
+      [
+        ...(meeting.changed
+          ? [{ label: '📨 Send update', action: 'send' }]
+          : []),
+        { label: '❌ Cancel meeting', action: 'cancel' },
+      ],
+    ];
+  }
+
+  /**
+   * Builds a preview.
+   *
+   * @param {string} id - Meeting ID, empty if the preview is about none
+   * @param {string} text - Preview text
+   * @param {IntentButton[][]} [buttons] - Rows of buttons
+   * @returns {IntentPreview} The preview
+   * @private
+   */
+  private preview(
+    id: string,
+    text: string,
+    buttons?: IntentButton[][],
+  ): IntentPreview {
+    return { id, text, buttons };
+  }
+
+  /**
+   * Describes a user's meetings for the extraction prompt, so messages can refer to them.
+   *
+   * @param {Meeting[]} meetings - The user's upcoming meetings
+   * @param {string} timezone - IANA timezone of the user
+   * @returns {string} One line per meeting with its ID and fields
+   * @private
+   */
+  private formatForPrompt(meetings: Meeting[], timezone: string): string {
+    if (meetings.length === 0) {
+      return 'The user has no meetings yet, so "action" is "create"';
+    }
+
+    return (
+      `The user's meetings, times in ${timezone}:\n` +
+      meetings
+        .map(
+          (meeting) =>
+            `- ID ${meeting.id}: "${meeting.title}", ` +
+            (meeting.start
+              ? `starts ${toLocalDateTime(new Date(meeting.start), timezone)}`
+              : 'no time') +
+            `, ${meeting.durationMinutes} min, with ` +
+            (meeting.attendees
+              .map((attendee) =>
+                [attendee.name, attendee.address && `<${attendee.address}>`]
+                  .filter(Boolean)
+                  .join(' '),
+              )
+              .join(', ') || 'nobody') +
+            (meeting.location ? `, at ${meeting.location}` : ''),
+        )
+        .join('\n')
+    );
+  }
+
+  /**
+   * Formats a meeting for a preview or list.
+   *
+   * @param {Meeting} meeting - Meeting to format
+   * @param {string} timezone - IANA timezone of the user
+   * @returns {string} Title, time, attendees, location and whether the invitations were sent
+   * @private
+   */
+  private formatMeeting(meeting: Meeting, timezone: string): string {
+    const attendees = meeting.attendees.map((attendee) =>
+      attendee.name && attendee.address
+        ? `${attendee.name} <${attendee.address}>`
+        : (attendee.address ?? `❓ ${attendee.name}`),
+    );
+    const status = {
+      draft: '✏️ Invitations not sent yet',
+      sent: meeting.changed
+        ? '✏️ Changed since the invitations were sent'
+        : '📨 Invitations sent',
+      cancelled: '❌ Cancelled',
+    }[meeting.status];
+
+    return [
+      `📌 ${meeting.title}`,
+      meeting.start
+        ? `🕘 When: ${formatInTimezone(new Date(meeting.start), timezone)}, ${meeting.durationMinutes} min`
+        : '🕘 When: ❓ no time was given',
+      attendees.length > 0 && `👥 With: ${attendees.join(', ')}`,
+      meeting.location && `📍 ${meeting.location}`,
+      status,
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+}
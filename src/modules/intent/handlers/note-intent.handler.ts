@@ -0,0 +1,198 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { GptService, GptResponse } from '../../gpt/gpt.service';
+import { StorageService, Collection } from '../../storage/storage.service';
+import { formatInTimezone } from '../../preference/timezone';
+import {
+  IntentHandler,
+  IntentContext,
+  IntentResult,
+  IntentPreview,
+  IntentActionContext,
+} from './intent-handler.interface';
+
+/** Notes shown by the notes command, newest first */
+const LISTED_NOTES = 10;
+
+const noteSchema = z.object({
+  title: z
+    .string()
+    .refine((value) => value.trim().length > 0, 'Title cannot be empty')
+    .describe('A few words saying what the note is about'),
+  text: z
+    .string()
+    .refine((value) => value.trim().length > 0, 'Text cannot be empty')
+    .describe('The note, cleaned up but with nothing left out'),
+  tags: z
+    .array(z.string())
+    .describe('Up to three lowercase keywords to find the note by'),
+});
+
+type NoteData = z.infer<typeof noteSchema>;
+
+/**
+ * A note saved from a voice message.
+ *
+ * @interface Note
+ */
+interface Note {
+  id: string;
+  userId: number;
+  title: string;
+  text: string;
+  tags: string[];
+  createdAt: string;
+}
+
+/**
+ * Saves ideas and things to remember that are neither emails, meetings nor to-do items.
+ *
+ * @class NoteIntentHandler
+ * @implements {IntentHandler<NoteData>}
+ */
+@Injectable()
+export class NoteIntentHandler implements IntentHandler<NoteData> {
+  readonly name = 'note';
+  readonly label = 'a note';
+  readonly description =
+    'keep an idea, fact or thought for later, e.g. "note that the gate code is 4512"';
+  readonly command = 'notes';
+  readonly commandDescription = 'List your latest notes';
+
+  private readonly notes: Collection<Note>;
+
+  /**
+   * Creates an instance of NoteIntentHandler.
+   *
+   * @param {GptService} gptService - Service extracting the note
+   * @param {StorageService} storageService - Service for persisting notes
+   */
+  constructor(
+    private gptService: GptService,
+    private storageService: StorageService,
+  ) {
+    this.notes = this.storageService.collection<Note>('notes');
+  }
+
+  /**
+   * Extracts the note.
+   *
+   * @param {IntentContext} context - The transcript and who sent it
+   * @returns {Promise<GptResponse<NoteData>>} Title, text and tags
+   */
+  extract(context: IntentContext): Promise<GptResponse<NoteData>> {
+    return this.gptService.extractStructured(
+      context.transcript,
+      noteSchema,
+      {
+        name: 'save_note',
+        description: 'Save a note from the transcribed message',
+        guidelines: [
+          'Keep every fact of the message in "text"; only tidy the wording',
+          'Leave instructions such as "note that" or "remember" out of the note',
+        ],
+      },
+      undefined,
+      { language: context.language, timezone: context.timezone },
+    );
+  }
+
+  /**
+   * Saves the note.
+   *
+   * @param {NoteData} data - The extracted note
+   * @param {IntentContext} context - The transcript and who sent it
+   * @returns {IntentResult} Preview with a Delete button
+   */
+  handle(data: NoteData, context: IntentContext): IntentResult {
+    const note: Note = {
+      id: randomUUID(),
+      userId: context.userId,
+      title: data.title.trim(),
+      text: data.text.trim(),
+      tags: data.tags
+        .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, '-'))
+        .filter(Boolean)
+        .slice(0, 3),
+      createdAt: new Date().toISOString(),
+    };
+    this.notes.set(note.id, note);
+    return {
+      kind: 'preview',
+      preview: {
+        id: note.id,
+        text: '🗒 Note saved:\n\n' + this.formatNote(note),
+        buttons: [[{ label: '🗑 Delete', action: 'delete' }]],
+      },
+    };
+  }
+
+  /**
+   * Deletes a note.
+   *
+   * @param {string} action - "delete"
+   * @param {string} id - Note ID
+   * @param {IntentActionContext} context - Who pressed the button
+   * @returns {IntentPreview} The finished preview
+   * @throws {NotFoundException} If the note no longer exists or belongs to someone else
+   */
+  handleAction(
+    action: string,
+    id: string,
+    context: IntentActionContext,
+  ): IntentPreview {
+    const note = this.notes.get(id);
+    if (!note || note.userId !== context.userId) {
+      throw new NotFoundException('This note no longer exists');
+    }
+
+    this.notes.delete(id);
+    return { id, text: `🗑 Deleted note: ${note.title}` };
+  }
+
+  /**
+   * Lists a user's latest notes.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {string} timezone - IANA timezone of the user
+   * @returns {string} The list, or a message saying there are no notes
+   */
+  list(userId: number, timezone: string): string {
+    const notes = this.notes
+      .values()
+      .filter((note) => note.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    if (notes.length === 0) {
+      return '🗒 You have no notes. Say "note that…" in a voice message to save one.';
+    }
+
+    return (
+      `🗒 Your latest notes (${Math.min(notes.length, LISTED_NOTES)} of ${notes.length}):\n\n` +
+      notes
+        .slice(0, LISTED_NOTES)
+        .map(
+          (note) =>
+            `${formatInTimezone(new Date(note.createdAt), timezone)}\n` +
+            this.formatNote(note),
+        )
+        .join('\n\n')
+    );
+  }
+
+  /**
+   * Formats a note for a preview or list.
+   *
+   * @param {Note} note - Note to format
+   * @returns {string} Title, text and tags
+   * @private
+   */
+  private formatNote(note: Note): string {
+    return (
+      `📌 ${note.title}\n${note.text}` +
+      (note.tags.length > 0
+        ? `\n${note.tags.map((tag) => `#${tag}`).join(' ')}`
+        : '')
+    );
+  }
+}
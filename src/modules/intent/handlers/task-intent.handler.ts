@@ -0,0 +1,228 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import {
+  GptService,
+  GptResponse,
+  localDateTimeSchema,
+} from '../../gpt/gpt.service';
+import { StorageService, Collection } from '../../storage/storage.service';
+import { fromLocalDateTime, formatInTimezone } from '../../preference/timezone';
+import {
+  IntentHandler,
+  IntentContext,
+  IntentResult,
+  IntentPreview,
+  IntentActionContext,
+} from './intent-handler.interface';
+
+const taskSchema = z.object({
+  title: z
+    .string()
+    .refine((value) => value.trim().length > 0, 'Title cannot be empty')
+    .describe('What has to be done, as a short imperative'),
+  due: localDateTimeSchema.describe(
+    'When it has to be done by, or null if the message does not say',
+  ),
+  notes: z
+    .string()
+    .nullable()
+    .describe('Details that do not fit in the title, or null'),
+});
+
+type TaskData = z.infer<typeof taskSchema>;
+
+/**
+ * A to-do item saved from a voice message.
+ *
+ * @interface Task
+ */
+interface Task {
+  id: string;
+  userId: number;
+  title: string;
+  notes?: string;
+  /** When it is due, as an ISO instant */
+  due?: string;
+  done: boolean;
+  createdAt: string;
+}
+
+/**
+ * Saves to-do items from transcripts such as "remind me to renew the insurance by Friday".
+ *
+ * @class TaskIntentHandler
+ * @implements {IntentHandler<TaskData>}
+ */
+@Injectable()
+export class TaskIntentHandler implements IntentHandler<TaskData> {
+  readonly name = 'task';
+  readonly label = 'a to-do item';
+  readonly description =
+    'remember something the user has to do, e.g. "remind me to call the bank tomorrow"';
+  readonly command = 'tasks';
+  readonly commandDescription = 'List your open to-do items, and tick them off';
+
+  private readonly tasks: Collection<Task>;
+
+  /**
+   * Creates an instance of TaskIntentHandler.
+   *
+   * @param {GptService} gptService - Service extracting the task
+   * @param {StorageService} storageService - Service for persisting tasks
+   */
+  constructor(
+    private gptService: GptService,
+    private storageService: StorageService,
+  ) {
+    this.tasks = this.storageService.collection<Task>('tasks');
+  }
+
+  /**
+   * Extracts the task.
+   *
+   * @param {IntentContext} context - The transcript and who sent it
+   * @returns {Promise<GptResponse<TaskData>>} Title, due time and notes
+   */
+  extract(context: IntentContext): Promise<GptResponse<TaskData>> {
+    return this.gptService.extractStructured(
+      context.transcript,
+      taskSchema,
+      {
+        name: 'create_task',
+        description: 'Create a to-do item from the transcribed message',
+        guidelines: [
+          'Write "title" as a short imperative, e.g. "Renew the car insurance"',
+          'Set "due" only if the message says when it has to be done',
+          'Leave reminders such as "remind me to" out of the title',
+        ],
+      },
+      undefined,
+      { language: context.language, timezone: context.timezone },
+    );
+  }
+
+  /**
+   * Saves the task.
+   *
+   * @param {TaskData} data - The extracted task
+   * @param {IntentContext} context - The transcript and who sent it
+   * @returns {IntentResult} Preview with Done and Delete buttons
+   */
+  handle(data: TaskData, context: IntentContext): IntentResult {
+    const task: Task = {
+      id: randomUUID(),
+      userId: context.userId,
+      title: data.title.trim(),
+      notes: data.notes?.trim() || undefined,
+      due: data.due
+        ? fromLocalDateTime(data.due, context.timezone)?.toISOString()
+        : undefined,
+      done: false,
+      createdAt: new Date().toISOString(),
+    };
+    this.tasks.set(task.id, task);
+    return {
+      kind: 'preview',
+      preview: {
+        id: task.id,
+        text: '✅ To-do saved:\n\n' + this.formatTask(task, context.timezone),
+        buttons: [
+          [
+            { label: '☑️ Done', action: 'done' },
+            { label: '🗑 Delete', action: 'delete' },
+          ],
+        ],
+      },
+    };
+  }
+
+  /**
+   * Ticks off or deletes a task.
+   *
+   * @param {string} action - "done" or "delete"
+   * @param {string} id - Task ID
+   * @param {IntentActionContext} context - Who pressed the button
+   * @returns {IntentPreview} The finished preview
+   * @throws {NotFoundException} If the task no longer exists or belongs to someone else
+   */
+  handleAction(
+    action: string,
+    id: string,
+    context: IntentActionContext,
+  ): IntentPreview {
+    const task = this.tasks.get(id);
+    if (!task || task.userId !== context.userId) {
+      throw new NotFoundException('This to-do item no longer exists');
+    }
+
+    if (action === 'delete') {
+      this.tasks.delete(id);
+      return { id, text: `🗑 Deleted: ${task.title}` };
+    }
+
+    const done = { ...task, done: true };
+    this.tasks.set(id, done);
+    return {
+      id,
+      text: '☑️ Done:\n\n' + this.formatTask(done, context.timezone),
+    };
+  }
+
+  /**
+   * Lists a user's open tasks, those due soonest first.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {string} timezone - IANA timezone of the user
+   * @returns {string} The list, or a message saying there is nothing to do
+   */
+  list(userId: number, timezone: string): string {
+    const open = this.tasks
+      .values()
+      .filter((task) => task.userId === userId && !task.done)
+      .sort((a, b) => {
+        // Tasks without a due time come last, oldest first
+        if (a.due && b.due) {
+          return a.due.localeCompare(b.due);
+        }
+        if (a.due || b.due) {
+          return a.due ? -1 : 1;
+        }
+        return a.createdAt.localeCompare(b.createdAt);
+      });
+    if (open.length === 0) {
+      return '📋 You have no open to-do items. Say "remind me to…" in a voice message to add one.';
+    }
+
+    return (
+      '📋 Your to-do items:\n\n' +
+      open
+        .map(
+          (task, index) =>
+            `${index + 1}. ${task.title}` +
+            (task.due
+              ? ` (due ${formatInTimezone(new Date(task.due), timezone)})`
+              : ''),
+        )
+        .join('\n')
+    );
+  }
+
+  /**
+   * Formats a task for a preview.
+   *
+   * @param {Task} task - Task to format
+   * @param {string} timezone - IANA timezone of the user
+   * @returns {string} Title, due time and notes
+   * @private
+   */
+  private formatTask(task: Task, timezone: string): string {
+    return [
+      `📌 ${task.title}`,
+      task.due && `🗓 Due: ${formatInTimezone(new Date(task.due), timezone)}`,
+      task.notes && `📝 ${task.notes}`,
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+}
@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { IntentService } from './intent.service';
+import { EmailIntentHandler } from './handlers/email-intent.handler';
+import { MeetingIntentHandler } from './handlers/meeting-intent.handler';
+import { TaskIntentHandler } from './handlers/task-intent.handler';
+import { NoteIntentHandler } from './handlers/note-intent.handler';
+import { GptModule } from '../gpt/gpt.module';
+import { DraftModule } from '../draft/draft.module';
+import { ContactModule } from '../contact/contact.module';
+import { AccountModule } from '../account/account.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { PreferenceModule } from '../preference/preference.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [
+    GptModule,
+    DraftModule,
+    ContactModule,
+    AccountModule,
+    OutboxModule,
+    PreferenceModule,
+    StorageModule,
+  ],
+  providers: [
+    IntentService,
+    EmailIntentHandler,
+    MeetingIntentHandler,
+    TaskIntentHandler,
+    NoteIntentHandler,
+  ],
+  exports: [IntentService],
+})
+export class IntentModule {}
@@ -0,0 +1,158 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GptService, GptResponse } from '../gpt/gpt.service';
+import {
+  IntentHandler,
+  IntentContext,
+  IntentResult,
+} from './handlers/intent-handler.interface';
+import { EmailIntentHandler } from './handlers/email-intent.handler';
+import { MeetingIntentHandler } from './handlers/meeting-intent.handler';
+import { TaskIntentHandler } from './handlers/task-intent.handler';
+import { NoteIntentHandler } from './handlers/note-intent.handler';
+
+/** Handler names double as callback prefixes, so they are kept to letters */
+const HANDLER_NAME_PATTERN = /^[a-z]+$/;
+
+/**
+ * What a transcript was routed to, and what the handler made of it.
+ *
+ * @interface IntentRouting
+ */
+export interface IntentRouting {
+  handler: IntentHandler;
+  result: IntentResult;
+}
+
+/**
+ * Registry of the intents a transcript can have. Routes each transcript to the handler GPT classifies it as,
+ * which extracts its own data and acts on it. Handlers are tried in the order they were registered.
+ *
+ * @class IntentService
+ */
+@Injectable()
+export class IntentService {
+  private readonly logger = new Logger(IntentService.name);
+  private readonly handlers = new Map<string, IntentHandler>();
+
+  /**
+   * Creates an instance of IntentService with the built-in handlers.
+   *
+   * @param {GptService} gptService - Service classifying transcripts
+   * @param {EmailIntentHandler} emailHandler - Email drafts
+   * @param {MeetingIntentHandler} meetingHandler - Meetings
+   * @param {TaskIntentHandler} taskHandler - To-do items
+   * @param {NoteIntentHandler} noteHandler - Notes
+   */
+  constructor(
+    private gptService: GptService,
+    emailHandler: EmailIntentHandler,
+    meetingHandler: MeetingIntentHandler,
+    taskHandler: TaskIntentHandler,
+    noteHandler: NoteIntentHandler,
+  ) {
+    for (const handler of [
+      emailHandler,
+      meetingHandler,
+      taskHandler,
+      noteHandler,
+    ]) {
+      this.register(handler);
+    }
+  }
+
+  /**
+   * Adds a handler, making its intent available to the classifier.
+   *
+   * @param {IntentHandler} handler - Handler to add
+   * @throws {Error} If the name is not lowercase letters, or the name or command is already taken
+   */
+  register(handler: IntentHandler): void {
+    if (!HANDLER_NAME_PATTERN.test(handler.name)) {
+      throw new Error(
+        `Intent name "${handler.name}" must be lowercase letters only`,
+      );
+    }
+    if (this.handlers.has(handler.name)) {
+      throw new Error(`Intent "${handler.name}" is already registered`);
+    }
+    if (handler.command && this.findByCommand(handler.command)) {
+      throw new Error(
+        `Command /${handler.command} of intent "${handler.name}" is already taken`,
+      );
+    }
+
+    this.handlers.set(handler.name, handler);
+    this.logger.log(`Registered intent "${handler.name}"`);
+  }
+
+  /**
+   * Gets a handler by name.
+   *
+   * @param {string} name - Intent name
+   * @returns {IntentHandler | undefined} The handler, or undefined if there is none
+   */
+  get(name: string): IntentHandler | undefined {
+    return this.handlers.get(name);
+  }
+
+  /**
+   * Lists the registered handlers in registration order.
+   *
+   * @returns {IntentHandler[]} The handlers
+   */
+  list(): IntentHandler[] {
+    return [...this.handlers.values()];
+  }
+
+  /**
+   * Finds the handler a command belongs to.
+   *
+   * @param {string} command - Command without the slash
+   * @returns {IntentHandler | undefined} The handler, or undefined if no handler has the command
+   */
+  findByCommand(command: string): IntentHandler | undefined {
+    return this.list().find((handler) => handler.command === command);
+  }
+
+  /**
+   * Classifies a transcript, then lets the matching handler extract its data and act on it.
+   *
+   * @param {IntentContext} context - The transcript and who sent it
+   * @returns {Promise<GptResponse<IntentRouting | null>>} The handler and its result, or null if the transcript
+   * has none of the intents, with the GPT usage of both steps
+   * @throws {BadRequestException} If the handler finds nothing to extract after all
+   */
+  async route(
+    context: IntentContext,
+  ): Promise<GptResponse<IntentRouting | null>> {
+    const classification = await this.gptService.classifyIntent(
+      context.transcript,
+      this.list().map(({ name, description }) => ({ name, description })),
+    );
+    const handler =
+      classification.data !== null
+        ? this.handlers.get(classification.data)
+        : undefined;
+    if (!handler) {
+      this.logger.debug('Transcript has no known intent');
+      return { ...classification, data: null };
+    }
+
+    this.logger.debug(`Routing transcript to intent "${handler.name}"`);
+    const extraction = await handler.extract(context);
+    const usage = {
+      promptTokens:
+        classification.usage.promptTokens + extraction.usage.promptTokens,
+      completionTokens:
+        classification.usage.completionTokens +
+        extraction.usage.completionTokens,
+      totalTokens:
+        classification.usage.totalTokens + extraction.usage.totalTokens,
+    };
+
+    return {
+      data: { handler, result: handler.handle(extraction.data, context) },
+      usage,
+    };
+  }
+}
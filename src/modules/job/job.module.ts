@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JobService } from './job.service';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [ConfigModule, StorageModule],
+  providers: [JobService],
+  exports: [JobService],
+})
+export class JobModule {}
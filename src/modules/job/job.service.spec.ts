@@ -0,0 +1,352 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StorageService } from '../storage/storage.service';
+import { Job, JobDefinition, JobService } from './job.service';
+
+type Stage = 'first' | 'second' | 'third';
+
+interface Payload {
+  runs: string[];
+}
+
+/** Definition fields to override; stages without a handler here record that they ran */
+type Overrides = Partial<
+  Omit<JobDefinition<Payload, Stage>, 'handlers'> & {
+    handlers: Partial<JobDefinition<Payload, Stage>['handlers']>;
+  }
+>;
+
+/** Lets queued jobs run: polls and stage handlers are chained through setImmediate and promises */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 20; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+function transientError(): Error {
+  return Object.assign(new Error('Connection reset'), { code: 'ECONNRESET' });
+}
+
+describe('JobService', () => {
+  let dataDir: string;
+  let services: JobService[];
+
+  /** Starts the queue on the data directory, the way the application does on boot */
+  function start(definition: Overrides = {}): JobService {
+    const config = new ConfigService({
+      DATA_DIR: dataDir,
+      JOB_MAX_ATTEMPTS: 3,
+      JOB_RETRY_DELAY: 100,
+    });
+    const service = new JobService(config, new StorageService(config));
+    const record =
+      (stage: Stage) =>
+      (job: Job<Payload>): Promise<void> => {
+        job.payload.runs.push(stage);
+        return Promise.resolve();
+      };
+    service.register<Payload, Stage>('test', {
+      stages: ['first', 'second', 'third'],
+      ...definition,
+      handlers: {
+        first: record('first'),
+        second: record('second'),
+        third: record('third'),
+        ...definition.handlers,
+      },
+    });
+    service.onApplicationBootstrap();
+    services.push(service);
+    return service;
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+    services = [];
+  });
+
+  afterEach(() => {
+    services.forEach((service) => service.onModuleDestroy());
+    jest.useRealTimers();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('runs the stages in order and completes the job', async () => {
+    const service = start();
+
+    const { id } = service.enqueue<Payload>('test', { runs: [] });
+    await settle();
+
+    const job = service.get<Payload>(id)!;
+    expect(job.status).toBe('completed');
+    expect(job.payload.runs).toEqual(['first', 'second', 'third']);
+    expect(Object.values(job.stages).map((stage) => stage.status)).toEqual([
+      'done',
+      'done',
+      'done',
+    ]);
+  });
+
+  it('follows goto and complete outcomes', async () => {
+    const service = start({
+      handlers: {
+        first: () => Promise.resolve({ goto: 'third' as const }),
+        second: () => Promise.resolve(),
+        third: () => Promise.resolve('complete' as const),
+      },
+    });
+
+    const { id } = service.enqueue<Payload>('test', { runs: [] });
+    await settle();
+
+    const job = service.get<Payload>(id)!;
+    expect(job.status).toBe('completed');
+    expect(job.stages.second.status).toBe('skipped');
+    expect(job.stages.third.status).toBe('done');
+  });
+
+  it('parks a waiting stage until the job is resumed', async () => {
+    const service = start({
+      handlers: {
+        second: (job) => {
+          job.payload.runs.push('second');
+          return Promise.resolve('wait' as const);
+        },
+      },
+    });
+
+    const { id } = service.enqueue<Payload>('test', { runs: [] });
+    await settle();
+    expect(service.get<Payload>(id)!.status).toBe('waiting');
+
+    expect(service.resume(id)).toBe(true);
+    await settle();
+
+    const job = service.get<Payload>(id)!;
+    expect(job.status).toBe('completed');
+    expect(job.payload.runs).toEqual(['first', 'second', 'third']);
+  });
+
+  it('retries a transient failure with exponential backoff', async () => {
+    let failures = 2;
+    const onRetry = jest.fn(() => Promise.resolve());
+    const service = start({
+      onRetry,
+      handlers: {
+        second: (job) => {
+          if (failures-- > 0) {
+            return Promise.reject(transientError());
+          }
+          job.payload.runs.push('second');
+          return Promise.resolve();
+        },
+      },
+    });
+
+    const { id } = service.enqueue<Payload>('test', { runs: [] });
+    await settle();
+    expect(service.get<Payload>(id)!.status).toBe('queued');
+    expect(service.get<Payload>(id)!.stages.second.error).toBe(
+      'Connection reset',
+    );
+
+    // Each retry is picked up by the next poll once its delay has passed
+    for (let i = 0; i < 2; i++) {
+      jest.advanceTimersByTime(1000);
+      await settle();
+    }
+
+    const job = service.get<Payload>(id)!;
+    expect(job.status).toBe('completed');
+    expect(job.payload.runs).toEqual(['first', 'second', 'third']);
+    expect(job.stages.second).toMatchObject({ status: 'done', attempts: 3 });
+    expect(job.stages.second.error).toBeUndefined();
+    expect(onRetry.mock.calls.map((call: unknown[]) => call[2])).toEqual([
+      100, 200,
+    ]);
+  });
+
+  it('waits for the backoff delay before retrying', async () => {
+    const handler = jest.fn(() => Promise.reject(transientError()));
+    const service = start({ retryDelay: 5000, handlers: { first: handler } });
+
+    service.enqueue<Payload>('test', { runs: [] });
+    await settle();
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(4000);
+    await settle();
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1000);
+    await settle();
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up on a transient failure once the attempts run out', async () => {
+    const onFailed = jest.fn(() => Promise.resolve());
+    const service = start({
+      onFailed,
+      handlers: { second: () => Promise.reject(transientError()) },
+    });
+
+    const { id } = service.enqueue<Payload>('test', { runs: [] });
+    for (let i = 0; i < 3; i++) {
+      await settle();
+      jest.advanceTimersByTime(1000);
+    }
+    await settle();
+
+    const job = service.get<Payload>(id)!;
+    expect(job.status).toBe('failed');
+    expect(job.stages.second).toMatchObject({ status: 'failed', attempts: 3 });
+    expect(onFailed).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails a permanent error right away and skips the remaining stages', async () => {
+    const onRetry = jest.fn(() => Promise.resolve());
+    const onFailed = jest.fn(() => Promise.resolve());
+    const service = start({
+      onRetry,
+      onFailed,
+      handlers: {
+        second: () =>
+          Promise.reject(new BadRequestException('Not an email request')),
+      },
+    });
+
+    const { id } = service.enqueue<Payload>('test', { runs: [] });
+    await settle();
+
+    const job = service.get<Payload>(id)!;
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('Not an email request');
+    expect(job.stages.second).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(job.stages.third.status).toBe('skipped');
+    expect(onRetry).not.toHaveBeenCalled();
+    expect(onFailed).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a failed job from the given stage', async () => {
+    let fail = true;
+    const service = start({
+      handlers: {
+        second: (job) => {
+          if (fail) {
+            return Promise.reject(new Error('Unsupported format'));
+          }
+          job.payload.runs.push('second');
+          return Promise.resolve();
+        },
+      },
+    });
+
+    const { id } = service.enqueue<Payload>('test', { runs: [] });
+    await settle();
+    expect(service.get<Payload>(id)!.status).toBe('failed');
+
+    fail = false;
+    expect(service.resume(id, 'second')).toBe(true);
+    await settle();
+
+    const job = service.get<Payload>(id)!;
+    expect(job.status).toBe('completed');
+    expect(job.payload.runs).toEqual(['first', 'second', 'third']);
+  });
+
+  it('starts the interrupted stage over after a restart', async () => {
+    // The second stage never finishes, as if the process stopped while running it
+    const first = start({
+      handlers: { second: () => new Promise<void>(() => {}) },
+    });
+    const { id } = first.enqueue<Payload>('test', { runs: [] });
+    await settle();
+    expect(first.get<Payload>(id)!.status).toBe('running');
+    first.onModuleDestroy();
+
+    const onResume = jest.fn(() => Promise.resolve());
+    const second = start({ onResume });
+    await settle();
+
+    const job = second.get<Payload>(id)!;
+    expect(onResume).toHaveBeenCalledWith(expect.objectContaining({ id }));
+    expect(job.status).toBe('completed');
+    // The first stage finished before the restart and is not repeated
+    expect(job.payload.runs).toEqual(['first', 'second', 'third']);
+    expect(job.stages.second.attempts).toBe(2);
+  });
+
+  it('keeps waiting jobs waiting across a restart', async () => {
+    const first = start({
+      handlers: { first: () => Promise.resolve('wait' as const) },
+    });
+    const { id } = first.enqueue<Payload>('test', { runs: [] });
+    await settle();
+    first.onModuleDestroy();
+
+    const second = start();
+    await settle();
+    expect(second.get<Payload>(id)!.status).toBe('waiting');
+
+    second.resume(id);
+    await settle();
+    expect(second.get<Payload>(id)!.payload.runs).toEqual(['second', 'third']);
+  });
+
+  it('removes the finished jobs that match and keeps the others', async () => {
+    const service = start({
+      handlers: {
+        first: (job) =>
+          Promise.resolve(job.payload.runs.length > 0 ? 'wait' : undefined),
+      },
+    });
+    const done = service.enqueue<Payload>('test', { runs: [] });
+    const other = service.enqueue<Payload>('test', { runs: [] });
+    const waiting = service.enqueue<Payload>('test', { runs: ['wait'] });
+    await settle();
+
+    expect(
+      service.removeFinished<Payload>('test', (job) => job.id !== other.id),
+    ).toBe(1);
+    expect(service.get(done.id)).toBeUndefined();
+    expect(service.get(other.id)?.status).toBe('completed');
+    expect(service.get(waiting.id)?.status).toBe('waiting');
+
+    // The deletion is written to disk
+    service.onModuleDestroy();
+    expect(start().get(done.id)).toBeUndefined();
+  });
+
+  it('deletes old finished jobs on restart, except failed ones of keepFailed types', async () => {
+    const failing = {
+      handlers: { first: () => Promise.reject(new Error('Broken')) },
+    };
+    const first = start();
+    const completed = first.enqueue<Payload>('test', { runs: [] });
+    await settle();
+    first.onModuleDestroy();
+
+    const second = start({ keepFailed: true, ...failing });
+    const failed = second.enqueue<Payload>('test', { runs: [] });
+    await settle();
+    second.onModuleDestroy();
+
+    jest.advanceTimersByTime(25 * 60 * 60 * 1000);
+
+    const kept = start({ keepFailed: true });
+    expect(kept.get(failed.id)?.status).toBe('failed');
+    expect(kept.get(completed.id)).toBeUndefined();
+
+    kept.onModuleDestroy();
+    const cleaned = start();
+    expect(cleaned.get(failed.id)).toBeUndefined();
+  });
+});
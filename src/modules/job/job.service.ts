@@ -0,0 +1,685 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { StorageService, Collection } from '../storage/storage.service';
+import { isTransientError } from './transient-error';
+
+/**
+ * Lifecycle states of a job.
+ * queued → running → (next stage) queued → ... → completed. A stage may put the job in waiting
+ * until something outside the queue resumes it, e.g. a user confirming a draft.
+ */
+export type JobStatus =
+  | 'queued'
+  | 'running'
+  | 'waiting'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/** State of a single stage of a job */
+export type JobStageStatus =
+  | 'pending'
+  | 'running'
+  | 'waiting'
+  | 'done'
+  | 'failed'
+  | 'skipped';
+
+/**
+ * Progress of one stage of a job.
+ *
+ * @interface JobStageState
+ */
+export interface JobStageState {
+  status: JobStageStatus;
+  /** Number of times the stage has been started */
+  attempts: number;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Message of the last failure */
+  error?: string;
+}
+
+/**
+ * A persisted unit of work that runs through a fixed list of stages.
+ * Dates are ISO strings, as jobs are stored as JSON.
+ *
+ * @interface Job
+ * @template P - Payload type, shared by all stages of the job
+ */
+export interface Job<P = unknown> {
+  /** Unique job identifier */
+  id: string;
+  /** Registered job type, which determines the stages and their handlers */
+  type: string;
+  status: JobStatus;
+  /** Stage that is running, waiting or will run next */
+  stage: string;
+  /** Per-stage progress, in stage order */
+  stages: Record<string, JobStageState>;
+  /** Input of the job and results of finished stages */
+  payload: P;
+  /** Earliest time the current stage may run; later than now while a retry is backing off */
+  runAt: string;
+  /** Message of the error that failed the job */
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * What a stage handler asks the queue to do next.
+ * Nothing moves on to the following stage; 'wait' parks the job until resume();
+ * 'complete' finishes the job and skips the remaining stages; `{ goto }` jumps to another stage.
+ */
+export type StageOutcome<S extends string> =
+  | void
+  | 'wait'
+  | 'complete'
+  | { goto: S };
+
+/**
+ * Runs one stage of a job. A handler must be safe to run again with the same job:
+ * after a crash or a transient failure the stage starts over.
+ */
+export type StageHandler<P, S extends string> = (
+  job: Job<P>,
+) => Promise<StageOutcome<S>>;
+
+/**
+ * How jobs of one type are processed.
+ *
+ * @interface JobDefinition
+ * @template P - Payload type
+ * @template S - Stage names
+ */
+export interface JobDefinition<P, S extends string> {
+  /** Stages in the order they run */
+  stages: readonly S[];
+  handlers: Record<S, StageHandler<P, S>>;
+  /** Called before a transient failure is retried */
+  onRetry?: (job: Job<P>, error: Error, delayMs: number) => Promise<void>;
+  /** Called once a job has failed for good */
+  onFailed?: (job: Job<P>, error: Error) => Promise<void>;
+  /** Called at startup for jobs that were queued or running when the application stopped */
+  onResume?: (job: Job<P>) => Promise<void>;
+  /** Attempts per stage, instead of JOB_MAX_ATTEMPTS */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds, instead of JOB_RETRY_DELAY */
+  retryDelay?: number;
+  /** Keep failed jobs until they are removed or retried, instead of deleting them with finished jobs */
+  keepFailed?: boolean;
+}
+
+/** How long finished jobs are kept before they are deleted */
+const FINISHED_JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/** How often the queue looks for due jobs */
+const POLL_INTERVAL_MS = 1000;
+
+/** Longest wait between two attempts of a stage */
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Service running multi-stage background jobs that survive restarts.
+ * Jobs are persisted after every stage. A stage failing with a transient error
+ * (timeout, rate limit, server error) is retried with exponential backoff; any other
+ * error fails the job. Jobs that were interrupted by a restart start their current stage over.
+ *
+ * @class JobService
+ * @implements {OnApplicationBootstrap}
+ * @implements {OnModuleDestroy}
+ */
+@Injectable()
+export class JobService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(JobService.name);
+  private readonly jobs: Collection<Job>;
+  private readonly definitions = new Map<string, JobDefinition<any, string>>();
+  private readonly running = new Set<string>();
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelay: number;
+  private pollTimer?: NodeJS.Timeout;
+
+  /**
+   * Creates an instance of JobService.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   * @param {StorageService} storageService - Service for persisting jobs
+   */
+  constructor(
+    private configService: ConfigService,
+    private storageService: StorageService,
+  ) {
+    this.jobs = this.storageService.collection<Job>('jobs');
+    this.concurrency = this.configService.get<number>('JOB_CONCURRENCY', 2);
+    this.maxAttempts = this.configService.get<number>('JOB_MAX_ATTEMPTS', 5);
+    this.retryDelay = this.configService.get<number>('JOB_RETRY_DELAY', 5000);
+  }
+
+  /**
+   * Lifecycle hook that recovers interrupted jobs and starts processing.
+   * Runs after every module has initialized, so all job types are registered by then.
+   */
+  onApplicationBootstrap() {
+    this.recover();
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.pollTimer.unref();
+    this.poll();
+  }
+
+  /**
+   * Lifecycle hook that stops picking up jobs. Jobs still running are resumed on the next start.
+   */
+  onModuleDestroy() {
+    clearInterval(this.pollTimer);
+  }
+
+  /**
+   * Registers the stages and handlers of a job type.
+   *
+   * @param {string} type - Job type
+   * @param {JobDefinition<P, S>} definition - Stages and handlers
+   */
+  register<P, S extends string>(
+    type: string,
+    definition: JobDefinition<P, S>,
+  ): void {
+    this.definitions.set(type, definition as JobDefinition<any, string>);
+  }
+
+  /**
+   * Creates a job at its first stage and schedules it right away, or at a later time.
+   *
+   * @param {string} type - Registered job type
+   * @param {P} payload - Job input
+   * @param {Date} [runAt] - When the job should start
+   * @returns {Job<P>} The queued job
+   * @throws {Error} If the job type is not registered
+   */
+  enqueue<P>(type: string, payload: P, runAt?: Date): Job<P> {
+    const definition = this.getDefinition(type);
+    const now = new Date().toISOString();
+    const job: Job<P> = {
+      id: randomUUID(),
+      type,
+      status: 'queued',
+      stage: definition.stages[0],
+      stages: Object.fromEntries(
+        definition.stages.map((stage) => [
+          stage,
+          { status: 'pending', attempts: 0 },
+        ]),
+      ),
+      payload,
+      runAt: runAt?.toISOString() ?? now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.save(job);
+    this.logger.log(`Job ${job.id} (${type}) queued`);
+    setImmediate(() => this.poll());
+    return job;
+  }
+
+  /**
+   * Retrieves a job by ID.
+   *
+   * @param {string} id - Job ID
+   * @returns {Job<P> | undefined} The job, if it still exists
+   */
+  get<P>(id: string): Job<P> | undefined {
+    return this.jobs.get(id) as Job<P> | undefined;
+  }
+
+  /**
+   * Finds the first job of a type matching a predicate.
+   *
+   * @param {string} type - Job type
+   * @param {(job: Job<P>) => boolean} predicate - Condition the job must meet
+   * @returns {Job<P> | undefined} The job, if any
+   */
+  find<P>(
+    type: string,
+    predicate: (job: Job<P>) => boolean,
+  ): Job<P> | undefined {
+    return this.jobs
+      .values()
+      .find((job) => job.type === type && predicate(job as Job<P>)) as
+      | Job<P>
+      | undefined;
+  }
+
+  /**
+   * Lists the jobs of a type, oldest first.
+   *
+   * @param {string} type - Job type
+   * @param {(job: Job<P>) => boolean} [predicate] - Condition the jobs must meet
+   * @returns {Job<P>[]} The jobs
+   */
+  list<P>(type: string, predicate?: (job: Job<P>) => boolean): Job<P>[] {
+    return (this.jobs.values().filter((job) => job.type === type) as Job<P>[])
+      .filter((job) => !predicate || predicate(job))
+      .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+  }
+
+  /**
+   * Stores intermediate results of a running stage, so a retry or a restart does not repeat them.
+   *
+   * @param {Job<P>} job - Job being processed
+   * @param {Partial<P>} changes - Payload fields to update
+   */
+  checkpoint<P>(job: Job<P>, changes: Partial<P>): void {
+    Object.assign(job.payload as object, changes);
+    this.save(job);
+  }
+
+  /**
+   * Continues a waiting job, or retries a failed one.
+   * The job runs the given stage, or the stage after the one it is waiting in.
+   *
+   * @param {string} id - Job ID
+   * @param {string} [stage] - Stage to run
+   * @returns {boolean} False if the job does not exist or is not waiting or failed
+   */
+  resume(id: string, stage?: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== 'waiting' && job.status !== 'failed')) {
+      return false;
+    }
+
+    const definition = this.getDefinition(job.type);
+    if (job.status === 'waiting') {
+      this.finishStage(job, 'done');
+    }
+
+    const next = stage ?? this.nextStage(definition, job.stage);
+    if (!next) {
+      this.finish(job, 'completed');
+      return true;
+    }
+
+    this.moveTo(job, next);
+    setImmediate(() => this.poll());
+    return true;
+  }
+
+  /**
+   * Moves a queued job to another start time.
+   *
+   * @param {string} id - Job ID
+   * @param {Date} runAt - When the job should run
+   * @returns {boolean} False if the job does not exist or is not queued
+   */
+  reschedule(id: string, runAt: Date): boolean {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'queued') {
+      return false;
+    }
+    job.runAt = runAt.toISOString();
+    this.save(job);
+    setImmediate(() => this.poll());
+    return true;
+  }
+
+  /**
+   * Completes a waiting job, skipping its remaining stages.
+   *
+   * @param {string} id - Job ID
+   * @returns {boolean} False if the job does not exist or is not waiting
+   */
+  complete(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'waiting') {
+      return false;
+    }
+    this.finishStage(job, 'done');
+    this.finish(job, 'completed');
+    return true;
+  }
+
+  /**
+   * Cancels a job that is queued, waiting or backing off. A running stage cannot be interrupted.
+   *
+   * @param {string} id - Job ID
+   * @returns {boolean} False if the job does not exist, is running or is already finished
+   */
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'waiting')) {
+      return false;
+    }
+    this.finish(job, 'cancelled');
+    return true;
+  }
+
+  /**
+   * Deletes a job that is not running.
+   *
+   * @param {string} id - Job ID
+   * @returns {boolean} False if the job does not exist or is running
+   */
+  remove(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || job.status === 'running') {
+      return false;
+    }
+    this.jobs.delete(id);
+    this.logger.log(`Job ${id} (${job.type}) removed`);
+    return true;
+  }
+
+  /**
+   * Deletes the finished jobs of a type that match, such as those of a user who asked to be forgotten.
+   *
+   * @param {string} type - Job type
+   * @param {(job: Job<P>) => boolean} predicate - Whether to delete a job
+   * @returns {number} Number of deleted jobs
+   */
+  removeFinished<P>(type: string, predicate: (job: Job<P>) => boolean): number {
+    const removed = this.jobs.deleteWhere(
+      (job) =>
+        job.type === type && this.isFinished(job) && predicate(job as Job<P>),
+    );
+    if (removed > 0) {
+      this.logger.log(`${removed} finished ${type} jobs removed`);
+    }
+    return removed;
+  }
+
+  /**
+   * Puts jobs interrupted by a shutdown back in the queue and deletes old finished jobs.
+   *
+   * @private
+   */
+  private recover(): void {
+    for (const job of this.jobs.values()) {
+      if (this.isFinished(job)) {
+        const keep =
+          job.status === 'failed' && this.definitions.get(job.type)?.keepFailed;
+        if (
+          !keep &&
+          Date.now() - Date.parse(job.updatedAt) > FINISHED_JOB_RETENTION_MS
+        ) {
+          this.jobs.delete(job.id);
+        }
+        continue;
+      }
+
+      if (job.status === 'waiting') {
+        continue;
+      }
+
+      if (job.status === 'running') {
+        job.stages[job.stage].status = 'pending';
+        job.status = 'queued';
+        this.save(job);
+      }
+      this.logger.log(`Resuming job ${job.id} (${job.type}) at ${job.stage}`);
+
+      const definition = this.definitions.get(job.type);
+      definition
+        ?.onResume?.(job)
+        .catch((error) =>
+          this.logger.warn(
+            `Resume hook of job ${job.id} failed: ${(error as Error).message}`,
+          ),
+        );
+    }
+  }
+
+  /**
+   * Starts due queued jobs, up to the concurrency limit.
+   *
+   * @private
+   */
+  private poll(): void {
+    if (this.running.size >= this.concurrency) {
+      return;
+    }
+
+    const now = Date.now();
+    const due = this.jobs
+      .values()
+      .filter(
+        (job) =>
+          job.status === 'queued' &&
+          !this.running.has(job.id) &&
+          this.definitions.has(job.type) &&
+          Date.parse(job.runAt) <= now,
+      )
+      .sort((a, b) => Date.parse(a.runAt) - Date.parse(b.runAt));
+
+    for (const job of due.slice(0, this.concurrency - this.running.size)) {
+      this.running.add(job.id);
+      this.run(job)
+        .catch((error) =>
+          this.logger.error(
+            `Job ${job.id} crashed: ${(error as Error).message}`,
+          ),
+        )
+        .finally(() => {
+          this.running.delete(job.id);
+          setImmediate(() => this.poll());
+        });
+    }
+  }
+
+  /**
+   * Runs the current stage of a job and moves it forward according to the outcome.
+   *
+   * @param {Job} job - Queued job
+   * @private
+   */
+  private async run(job: Job): Promise<void> {
+    const definition = this.getDefinition(job.type);
+    const state = job.stages[job.stage];
+
+    job.status = 'running';
+    state.status = 'running';
+    state.attempts++;
+    state.startedAt = new Date().toISOString();
+    this.save(job);
+    this.logger.debug(
+      `Job ${job.id}: ${job.stage} (attempt ${state.attempts}/${definition.maxAttempts ?? this.maxAttempts})`,
+    );
+
+    let outcome: StageOutcome<string>;
+    try {
+      outcome = await definition.handlers[job.stage](job);
+    } catch (error) {
+      await this.handleFailure(job, definition, error as Error);
+      return;
+    }
+
+    if (outcome === 'wait') {
+      job.status = 'waiting';
+      state.status = 'waiting';
+      this.save(job);
+      return;
+    }
+
+    this.finishStage(job, 'done');
+    const next =
+      outcome === 'complete'
+        ? undefined
+        : typeof outcome === 'object'
+          ? outcome.goto
+          : this.nextStage(definition, job.stage);
+
+    if (next) {
+      this.moveTo(job, next);
+    } else {
+      this.finish(job, 'completed');
+    }
+  }
+
+  /**
+   * Schedules a retry for transient failures with attempts left, and fails the job otherwise.
+   *
+   * @param {Job} job - Job whose stage failed
+   * @param {JobDefinition} definition - Definition of the job type
+   * @param {Error} error - The failure
+   * @private
+   */
+  private async handleFailure(
+    job: Job,
+    definition: JobDefinition<unknown, string>,
+    error: Error,
+  ): Promise<void> {
+    const state = job.stages[job.stage];
+    state.error = error.message;
+
+    const maxAttempts = definition.maxAttempts ?? this.maxAttempts;
+    if (isTransientError(error) && state.attempts < maxAttempts) {
+      const delayMs = Math.min(
+        (definition.retryDelay ?? this.retryDelay) * 2 ** (state.attempts - 1),
+        MAX_RETRY_DELAY_MS,
+      );
+      this.logger.warn(
+        `Job ${job.id}: ${job.stage} failed (${error.message}), retrying in ${delayMs}ms`,
+      );
+
+      job.status = 'queued';
+      state.status = 'pending';
+      job.runAt = new Date(Date.now() + delayMs).toISOString();
+      this.save(job);
+
+      await definition
+        .onRetry?.(job, error, delayMs)
+        .catch((hookError) =>
+          this.logger.warn(
+            `Retry hook of job ${job.id} failed: ${(hookError as Error).message}`,
+          ),
+        );
+      return;
+    }
+
+    this.logger.error(`Job ${job.id}: ${job.stage} failed: ${error.message}`);
+    this.finishStage(job, 'failed');
+    job.error = error.message;
+    this.finish(job, 'failed');
+
+    await definition
+      .onFailed?.(job, error)
+      .catch((hookError) =>
+        this.logger.warn(
+          `Failure hook of job ${job.id} failed: ${(hookError as Error).message}`,
+        ),
+      );
+  }
+
+  /**
+   * Makes a stage the current one and queues the job to run it now.
+   *
+   * @param {Job} job - Job to move
+   * @param {string} stage - Stage to run next
+   * @private
+   */
+  private moveTo(job: Job, stage: string): void {
+    job.stage = stage;
+    job.stages[stage] = { status: 'pending', attempts: 0 };
+    job.status = 'queued';
+    job.runAt = new Date().toISOString();
+    job.error = undefined;
+    this.save(job);
+  }
+
+  /**
+   * Marks the current stage as finished.
+   *
+   * @param {Job} job - Job whose stage finished
+   * @param {JobStageStatus} status - Final status of the stage
+   * @private
+   */
+  private finishStage(job: Job, status: 'done' | 'failed'): void {
+    const state = job.stages[job.stage];
+    state.status = status;
+    state.finishedAt = new Date().toISOString();
+    if (status === 'done') {
+      state.error = undefined;
+    }
+  }
+
+  /**
+   * Moves a job to a final status, marking the stages that never ran as skipped.
+   *
+   * @param {Job} job - Job to finish
+   * @param {JobStatus} status - Final status
+   * @private
+   */
+  private finish(job: Job, status: 'completed' | 'failed' | 'cancelled'): void {
+    for (const state of Object.values(job.stages)) {
+      if (state.status === 'pending' || state.status === 'waiting') {
+        state.status = 'skipped';
+      }
+    }
+    job.status = status;
+    this.save(job);
+    this.logger.log(`Job ${job.id} (${job.type}) ${status}`);
+  }
+
+  /**
+   * Gets the stage that follows another one.
+   *
+   * @param {JobDefinition} definition - Definition of the job type
+   * @param {string} stage - Current stage
+   * @returns {string | undefined} The next stage, or undefined after the last one
+   * @private
+   */
+  private nextStage(
+    definition: JobDefinition<unknown, string>,
+    stage: string,
+  ): string | undefined {
+    return definition.stages[definition.stages.indexOf(stage) + 1];
+  }
+
+  /**
+   * Checks whether a job has reached a final status.
+   *
+   * @param {Job} job - Job to check
+   * @returns {boolean} True if the job is completed, failed or cancelled
+   * @private
+   */
+  private isFinished(job: Job): boolean {
+    return (
+      job.status === 'completed' ||
+      job.status === 'failed' ||
+      job.status === 'cancelled'
+    );
+  }
+
+  /**
+   * Gets the definition of a job type.
+   *
+   * @param {string} type - Job type
+   * @returns {JobDefinition} The definition
+   * @throws {Error} If the job type is not registered
+   * @private
+   */
+  private getDefinition(type: string): JobDefinition<unknown, string> {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new Error(`Unknown job type: ${type}`);
+    }
+    return definition;
+  }
+
+  /**
+   * Persists a job.
+   *
+   * @param {Job} job - Job to store
+   * @private
+   */
+  private save(job: Job<unknown>): void {
+    job.updatedAt = new Date().toISOString();
+    this.jobs.set(job.id, job);
+  }
+}
@@ -0,0 +1,77 @@
+import {
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { isTransientError } from './transient-error';
+
+function errorWith(details: object): Error {
+  return Object.assign(new Error('Request failed'), details);
+}
+
+describe('isTransientError', () => {
+  it.each(['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNECTION', 'ESOCKET'])(
+    'retries the %s network error',
+    (code) => {
+      expect(isTransientError(errorWith({ code }))).toBe(true);
+    },
+  );
+
+  it.each([408, 429, 500, 503])('retries HTTP status %d', (status) => {
+    // OpenAI SDK, Axios and Telegraf put the status in different places
+    expect(isTransientError(errorWith({ status }))).toBe(true);
+    expect(isTransientError(errorWith({ response: { status } }))).toBe(true);
+    expect(
+      isTransientError(errorWith({ response: { error_code: status } })),
+    ).toBe(true);
+    expect(isTransientError(errorWith({ code: status }))).toBe(true);
+  });
+
+  it.each([400, 401, 403, 404, 413])('fails HTTP status %d', (status) => {
+    expect(isTransientError(errorWith({ status }))).toBe(false);
+    expect(isTransientError(errorWith({ response: { status } }))).toBe(false);
+  });
+
+  it('retries OpenAI connection errors', () => {
+    const error = new Error('Connection error.');
+    error.name = 'APIConnectionTimeoutError';
+    expect(isTransientError(error)).toBe(true);
+  });
+
+  it('retries streams aborted by a timeout signal', () => {
+    const aborted = new Error('The operation was aborted', {
+      cause: new DOMException('The operation timed out.', 'TimeoutError'),
+    });
+    aborted.name = 'AbortError';
+    expect(isTransientError(aborted)).toBe(true);
+  });
+
+  it('retries temporary SMTP rejections but not permanent ones', () => {
+    expect(isTransientError(errorWith({ responseCode: 421 }))).toBe(true);
+    expect(isTransientError(errorWith({ responseCode: 451 }))).toBe(true);
+    expect(isTransientError(errorWith({ responseCode: 550 }))).toBe(false);
+  });
+
+  it('follows the cause chain', () => {
+    const cause = errorWith({ code: 'ECONNREFUSED' });
+    const wrapped = new Error('Failed to download voice message', {
+      cause: new Error('Failed to get file URL', { cause }),
+    });
+    expect(isTransientError(wrapped)).toBe(true);
+  });
+
+  it('treats HTTP exceptions raised by the application as final', () => {
+    expect(isTransientError(new BadRequestException('No email found'))).toBe(
+      false,
+    );
+    expect(
+      isTransientError(new ServiceUnavailableException('Quota exceeded')),
+    ).toBe(false);
+  });
+
+  it('fails plain errors and non-errors', () => {
+    expect(isTransientError(new Error('Unsupported format'))).toBe(false);
+    expect(isTransientError(errorWith({ code: 'ENOENT' }))).toBe(false);
+    expect(isTransientError('ECONNRESET')).toBe(false);
+    expect(isTransientError(undefined)).toBe(false);
+  });
+});
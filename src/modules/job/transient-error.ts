@@ -0,0 +1,89 @@
+import { HttpException } from '@nestjs/common';
+
+/** Network error codes that usually clear up on their own */
+const TRANSIENT_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  // Nodemailer connection failures
+  'ECONNECTION',
+  'ESOCKET',
+]);
+
+/** Errors the OpenAI SDK raises when the API cannot be reached, and the reason of a timed out AbortSignal */
+const TRANSIENT_NAMES = new Set([
+  'APIConnectionError',
+  'APIConnectionTimeoutError',
+  'TimeoutError',
+]);
+
+/**
+ * The fields the HTTP, Telegram, OpenAI and SMTP clients put on their errors.
+ *
+ * @interface ErrorDetails
+ */
+interface ErrorDetails {
+  name?: string;
+  /** Node error code, or the Telegram error code */
+  code?: string | number;
+  /** HTTP status (OpenAI SDK) */
+  status?: number;
+  /** HTTP response (Axios) or Bot API response (Telegraf) */
+  response?: { status?: number; error_code?: number };
+  /** SMTP reply code (Nodemailer) */
+  responseCode?: number;
+  cause?: unknown;
+}
+
+/**
+ * Tells whether an error is worth retrying: timeouts, dropped connections, rate limits,
+ * server errors and temporary SMTP rejections. Validation errors and anything the
+ * application raised as an HTTP exception are final.
+ * Errors wrapped with a `cause` are inspected down the chain.
+ *
+ * @param {unknown} error - The error to classify
+ * @returns {boolean} True if the same operation may succeed later
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof HttpException) {
+    return false;
+  }
+
+  let current: unknown = error;
+  while (current && typeof current === 'object') {
+    const { name, code, status, response, responseCode, cause } =
+      current as ErrorDetails;
+
+    const httpStatus =
+      status ??
+      response?.status ??
+      response?.error_code ??
+      (typeof code === 'number' ? code : undefined);
+    if (
+      httpStatus !== undefined &&
+      (httpStatus === 408 || httpStatus === 429 || httpStatus >= 500)
+    ) {
+      return true;
+    }
+
+    if (typeof code === 'string' && TRANSIENT_CODES.has(code)) return true;
+    if (name && TRANSIENT_NAMES.has(name)) return true;
+    // 4xx SMTP replies are temporary failures, 5xx are permanent
+    if (
+      responseCode !== undefined &&
+      responseCode >= 400 &&
+      responseCode < 500
+    ) {
+      return true;
+    }
+
+    current = cause;
+  }
+
+  return false;
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { OutboxService } from './outbox.service';
+import { EmailModule } from '../email/email.module';
+import { JobModule } from '../job/job.module';
+import { StorageModule } from '../storage/storage.module';
+import { UsageModule } from '../usage/usage.module';
+
+@Module({
+  imports: [ConfigModule, EmailModule, JobModule, StorageModule, UsageModule],
+  providers: [OutboxService],
+  exports: [OutboxService],
+})
+export class OutboxModule {}
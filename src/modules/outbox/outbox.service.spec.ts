@@ -0,0 +1,286 @@
+import { ConflictException, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EmailDelivery, EmailService } from '../email/email.service';
+import { ExtractedEmail } from '../gpt/gpt.service';
+import { JobService } from '../job/job.service';
+import { StorageService } from '../storage/storage.service';
+import { UsageService } from '../usage/usage.service';
+import { OutboxEntry, OutboxEvent, OutboxService } from './outbox.service';
+
+const EMAIL: ExtractedEmail = {
+  to: ['ana@example.com'],
+  subject: 'Quarterly report',
+  body: 'The report is attached.',
+};
+
+/** Lets queued jobs run: polls and stage handlers are chained through setImmediate and promises */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 20; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+function transientError(): Error {
+  return Object.assign(new Error('Connection reset'), { code: 'ECONNRESET' });
+}
+
+function delivered(messageId = '<1@example.com>'): EmailDelivery {
+  return { messageId, accepted: EMAIL.to, rejected: [] };
+}
+
+/** The parts of EmailService the outbox uses */
+interface FakeEmailService {
+  validate: jest.Mock;
+  checkSender: jest.Mock;
+  createMessageId: jest.Mock<string, [number | undefined]>;
+  sendHtmlEmail: jest.Mock<
+    Promise<EmailDelivery>,
+    Parameters<EmailService['sendHtmlEmail']>
+  >;
+}
+
+describe('OutboxService', () => {
+  let dataDir: string;
+  let jobServices: JobService[];
+  let emailService: FakeEmailService;
+  let usageService: UsageService;
+  let events: [OutboxEntry, OutboxEvent][];
+
+  /** Starts the outbox on the data directory, the way the application does on boot */
+  function start(): OutboxService {
+    const config = new ConfigService({
+      DATA_DIR: dataDir,
+      OUTBOX_MAX_ATTEMPTS: 3,
+      OUTBOX_RETRY_DELAY: 100,
+    });
+    const storage = new StorageService(config);
+    const jobService = new JobService(config, storage);
+    usageService = new UsageService(config, storage);
+    const outbox = new OutboxService(
+      config,
+      emailService as unknown as EmailService,
+      jobService,
+      storage,
+      usageService,
+    );
+    outbox.onModuleInit();
+    outbox.onEvent((entry, event) => {
+      events.push([entry, event]);
+    });
+    jobService.onApplicationBootstrap();
+    jobServices.push(jobService);
+    return outbox;
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'));
+    jobServices = [];
+    events = [];
+    let messageIds = 0;
+    emailService = {
+      validate: jest.fn(),
+      checkSender: jest.fn(),
+      createMessageId: jest.fn<string, [number | undefined]>(
+        () => `<${++messageIds}@example.com>`,
+      ),
+      sendHtmlEmail: jest.fn<
+        Promise<EmailDelivery>,
+        Parameters<EmailService['sendHtmlEmail']>
+      >(() => Promise.resolve(delivered())),
+    };
+  });
+
+  afterEach(() => {
+    jobServices.forEach((service) => service.onModuleDestroy());
+    jest.useRealTimers();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('sends an email from its owner, counts it and reports it sent', async () => {
+    const outbox = start();
+    const { id } = outbox.enqueue(EMAIL, {
+      userId: 7,
+      attachments: [{ filename: 'report.pdf', content: Buffer.from('pdf') }],
+    });
+    await settle();
+
+    expect(emailService.sendHtmlEmail).toHaveBeenCalledWith(
+      EMAIL,
+      expect.objectContaining({
+        userId: 7,
+        messageId: '<1@example.com>',
+        attachments: [{ filename: 'report.pdf', content: Buffer.from('pdf') }],
+      }),
+    );
+    expect(outbox.get(id)).toMatchObject({
+      status: 'sent',
+      attempts: 1,
+      delivery: delivered(),
+    });
+    expect(usageService.getTotals(7, 'day').emailsSent).toBe(1);
+    expect(events.map(([entry, event]) => [entry.id, event])).toEqual([
+      [id, 'sent'],
+    ]);
+  });
+
+  describe('retries', () => {
+    it('retries a transient failure with backoff and the same Message-ID', async () => {
+      emailService.sendHtmlEmail
+        .mockRejectedValueOnce(transientError())
+        .mockRejectedValueOnce(transientError());
+      const outbox = start();
+      const { id } = outbox.enqueue(EMAIL, { userId: 7 });
+      await settle();
+
+      const retrying = outbox.get(id);
+      expect(retrying).toMatchObject({
+        status: 'queued',
+        attempts: 1,
+        lastError: 'Connection reset',
+      });
+      expect(retrying.nextAttemptAt!.getTime() - Date.now()).toBe(100);
+
+      // Each retry is picked up by the next poll once its delay has passed
+      for (let i = 0; i < 2; i++) {
+        jest.advanceTimersByTime(1000);
+        await settle();
+      }
+
+      expect(outbox.get(id)).toMatchObject({ status: 'sent', attempts: 3 });
+      expect(
+        emailService.sendHtmlEmail.mock.calls.map((call) => call[1]?.messageId),
+      ).toEqual(Array(3).fill('<1@example.com>'));
+      expect(events.map(([, event]) => event)).toEqual([
+        'retrying',
+        'retrying',
+        'sent',
+      ]);
+    });
+
+    it('keeps an email that runs out of attempts as dead', async () => {
+      emailService.sendHtmlEmail.mockRejectedValue(transientError());
+      const outbox = start();
+      const { id } = outbox.enqueue(EMAIL, { userId: 7 });
+      for (let i = 0; i < 3; i++) {
+        await settle();
+        jest.advanceTimersByTime(1000);
+      }
+      await settle();
+
+      expect(outbox.get(id)).toMatchObject({ status: 'dead', attempts: 3 });
+      expect(outbox.list(7).map((entry) => entry.id)).toEqual([id]);
+      expect(events.map(([, event]) => event).pop()).toBe('dead');
+      expect(usageService.getTotals(7, 'day').emailsSent).toBe(0);
+    });
+
+    it('fails a permanent error right away', async () => {
+      emailService.sendHtmlEmail.mockRejectedValue(
+        new Error('550 Mailbox unavailable'),
+      );
+      const outbox = start();
+      const { id } = outbox.enqueue(EMAIL, { userId: 7 });
+      await settle();
+
+      expect(outbox.get(id)).toMatchObject({
+        status: 'dead',
+        attempts: 1,
+        lastError: '550 Mailbox unavailable',
+      });
+      expect(events.map(([, event]) => event)).toEqual(['dead']);
+    });
+
+    it('sends a dead email again when retried', async () => {
+      emailService.sendHtmlEmail.mockRejectedValueOnce(
+        new Error('550 Mailbox unavailable'),
+      );
+      const outbox = start();
+      const { id } = outbox.enqueue(EMAIL, { userId: 7 });
+      await settle();
+
+      expect(outbox.retry(id).status).toBe('queued');
+      jest.advanceTimersByTime(1000);
+      await settle();
+
+      expect(outbox.get(id).status).toBe('sent');
+      expect(emailService.sendHtmlEmail).toHaveBeenCalledTimes(2);
+      expect(() => outbox.retry(id)).toThrow(ConflictException);
+    });
+
+    it('removes a dead email when discarded', async () => {
+      emailService.sendHtmlEmail.mockRejectedValue(
+        new Error('550 Mailbox unavailable'),
+      );
+      const outbox = start();
+      const { id } = outbox.enqueue(EMAIL, { userId: 7 });
+      await settle();
+
+      expect(outbox.discard(id).status).toBe('dead');
+      expect(outbox.list(7)).toEqual([]);
+      expect(() => outbox.get(id)).toThrow(NotFoundException);
+    });
+  });
+
+  describe('forget', () => {
+    it("deletes a user's sent emails, keeping the ones not sent yet", async () => {
+      const outbox = start();
+      const sent = outbox.enqueue(EMAIL, { userId: 7 });
+      await settle();
+      emailService.sendHtmlEmail.mockRejectedValue(
+        new Error('550 Mailbox unavailable'),
+      );
+      const dead = outbox.enqueue(EMAIL, { userId: 7 });
+      await settle();
+
+      expect(outbox.forget(7)).toBe(1);
+
+      expect(() => outbox.get(sent.id)).toThrow(NotFoundException);
+      expect(outbox.get(dead.id).status).toBe('dead');
+    });
+  });
+
+  describe('restarts', () => {
+    it('sends an email interrupted mid-delivery again with the same Message-ID', async () => {
+      // The first process stops while the SMTP server is still answering
+      emailService.sendHtmlEmail.mockReturnValueOnce(new Promise(() => {}));
+      const { id } = start().enqueue(EMAIL, { userId: 7 });
+      await settle();
+      jobServices[0].onModuleDestroy();
+
+      const outbox = start();
+      await settle();
+
+      expect(outbox.get(id).status).toBe('sent');
+      expect(emailService.sendHtmlEmail).toHaveBeenCalledTimes(2);
+      const [first, second] = emailService.sendHtmlEmail.mock.calls;
+      expect(first[1]?.messageId).toBe('<1@example.com>');
+      expect(second[1]?.messageId).toBe('<1@example.com>');
+      expect(emailService.createMessageId).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not send an email again once its delivery is recorded', async () => {
+      // The first process stops after the email was accepted, while telling the chat
+      const first = start();
+      first.onEvent(() => new Promise(() => {}));
+      const { id } = first.enqueue(EMAIL, { userId: 7 });
+      await settle();
+      jobServices[0].onModuleDestroy();
+
+      const outbox = start();
+      await settle();
+
+      expect(outbox.get(id)).toMatchObject({
+        status: 'sent',
+        delivery: delivered(),
+      });
+      expect(emailService.sendHtmlEmail).toHaveBeenCalledTimes(1);
+    });
+  });
+});
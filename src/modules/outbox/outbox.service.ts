@@ -0,0 +1,487 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtractedEmail } from '../gpt/gpt.service';
+import {
+  EmailService,
+  EmailDelivery,
+  EmailThread,
+} from '../email/email.service';
+import { EmailTemplateName } from '../email/email-templates';
+import { CalendarInvite } from '../email/calendar-invite';
+import { JobService, Job } from '../job/job.service';
+import { StorageService } from '../storage/storage.service';
+import { UsageService } from '../usage/usage.service';
+
+/** Job type of outgoing emails */
+const OUTBOX_JOB = 'email';
+
+/**
+ * Delivery states of an outbox entry.
+ * (scheduled →) queued → sending → sent; a transient failure goes back to queued until the attempts
+ * run out, then the entry is dead until it is retried or discarded.
+ */
+export type OutboxStatus = 'scheduled' | 'queued' | 'sending' | 'sent' | 'dead';
+
+/** What happened to an outbox entry, as reported to listeners */
+export type OutboxEvent = 'retrying' | 'sent' | 'dead' | 'discarded';
+
+/**
+ * A file attached to an outgoing email.
+ *
+ * @interface OutboxAttachment
+ */
+export interface OutboxAttachment {
+  filename: string;
+  content: Buffer;
+}
+
+/**
+ * Options for queueing an email.
+ *
+ * @interface EnqueueEmailOptions
+ */
+export interface EnqueueEmailOptions {
+  attachments?: OutboxAttachment[];
+  /** Telegram user the email belongs to, who can see it with /outbox */
+  userId?: number;
+  /** Telegram chat to notify about the delivery */
+  chatId?: number;
+  /** ID of what the email was sent from, e.g. a draft */
+  reference?: string;
+  /** When to send the email; right away when unset */
+  sendAt?: Date;
+  /** Template the body is rendered into */
+  template?: EmailTemplateName;
+  /** Signature appended below the body */
+  signature?: string;
+  /** Calendar invitation sent along, for meeting invites */
+  calendar?: CalendarInvite;
+  /** Conversation the email replies to */
+  thread?: EmailThread;
+}
+
+/**
+ * An email in the outbox.
+ *
+ * @interface OutboxEntry
+ */
+export interface OutboxEntry {
+  id: string;
+  status: OutboxStatus;
+  email: ExtractedEmail;
+  /** File names of the attachments */
+  attachments: string[];
+  userId?: number;
+  chatId?: number;
+  reference?: string;
+  /** When the email is due to be sent, while scheduled */
+  sendAt?: Date;
+  /** Delivery attempts made so far */
+  attempts: number;
+  /** When the next attempt is due, while queued */
+  nextAttemptAt?: Date;
+  /** Message of the last failed attempt */
+  lastError?: string;
+  /** Accepted and rejected recipients, once sent */
+  delivery?: EmailDelivery;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Outbox entry as persisted with its job. Attachments are stored as files next to the collection.
+ *
+ * @interface OutboxPayload
+ */
+interface OutboxPayload {
+  email: ExtractedEmail;
+  attachments: { filename: string; path: string }[];
+  userId?: number;
+  chatId?: number;
+  reference?: string;
+  /** Requested send time, as an ISO string, until the email is sent or retried */
+  sendAt?: string;
+  template?: EmailTemplateName;
+  signature?: string;
+  calendar?: CalendarInvite;
+  thread?: EmailThread;
+  /** Message-ID every attempt sends the email with, fixed before the first one */
+  messageId?: string;
+  delivery?: EmailDelivery;
+}
+
+type OutboxListener = (
+  entry: OutboxEntry,
+  event: OutboxEvent,
+) => void | Promise<void>;
+
+/**
+ * Service that persists confirmed emails and delivers them in the background.
+ * Transient SMTP failures (connection problems, 4xx replies) are retried with exponential backoff;
+ * an email that keeps failing, or fails permanently, becomes dead and stays in the outbox
+ * until it is retried or discarded.
+ * Delivery is at least once: an email the server accepted just before a crash, before the delivery
+ * was recorded, is sent again on restart, with the same Message-ID so the duplicate can be recognized.
+ *
+ * @class OutboxService
+ * @implements {OnModuleInit}
+ */
+@Injectable()
+export class OutboxService implements OnModuleInit {
+  private readonly logger = new Logger(OutboxService.name);
+  private readonly listeners: OutboxListener[] = [];
+  private readonly attachmentDir: string;
+
+  /**
+   * Creates an instance of OutboxService.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   * @param {EmailService} emailService - Service for sending emails
+   * @param {JobService} jobService - Queue running the deliveries
+   * @param {StorageService} storageService - Service for persisting attachments
+   * @param {UsageService} usageService - Ledger counting sent emails against quotas
+   */
+  constructor(
+    private configService: ConfigService,
+    private emailService: EmailService,
+    private jobService: JobService,
+    private storageService: StorageService,
+    private usageService: UsageService,
+  ) {
+    this.attachmentDir = this.storageService.directory('outbox');
+  }
+
+  /**
+   * Lifecycle hook that registers the delivery job.
+   */
+  onModuleInit() {
+    this.jobService.register<OutboxPayload, 'deliver'>(OUTBOX_JOB, {
+      stages: ['deliver'],
+      handlers: { deliver: (job) => this.deliver(job) },
+      onRetry: (job) => this.notify(job, 'retrying'),
+      onFailed: (job) => this.notify(job, 'dead'),
+      maxAttempts: this.configService.get<number>('OUTBOX_MAX_ATTEMPTS', 8),
+      retryDelay: this.configService.get<number>('OUTBOX_RETRY_DELAY', 30000),
+      keepFailed: true,
+    });
+  }
+
+  /**
+   * Registers a callback invoked when an email is sent, retried, dies or is discarded.
+   *
+   * @param {OutboxListener} listener - Callback receiving the entry and what happened
+   */
+  onEvent(listener: OutboxListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Validates an email and puts it in the outbox; it is sent in the background, at its send time if it has one.
+   *
+   * @param {ExtractedEmail} email - Email to send
+   * @param {EnqueueEmailOptions} options - Attachments, owner, reference, send time and rendering
+   * @returns {OutboxEntry} The queued entry
+   * @throws {BadRequestException} If the email is invalid or its owner has no account to send from
+   * @throws {HttpException} 429 if its owner has used up their email quota
+   */
+  enqueue(
+    email: ExtractedEmail,
+    options: EnqueueEmailOptions = {},
+  ): OutboxEntry {
+    this.emailService.validate(email);
+    this.emailService.checkSender(options.userId);
+    this.usageService.assertWithinQuota(options.userId, 'emails');
+
+    // Attachments are copied, as the files they came from may be deleted before delivery
+    const folder = path.join(this.attachmentDir, randomUUID());
+    const attachments = (options.attachments ?? []).map((file, index) => {
+      fs.mkdirSync(folder, { recursive: true });
+      const filePath = path.join(
+        folder,
+        `${index}-${path.basename(file.filename)}`,
+      );
+      fs.writeFileSync(filePath, file.content);
+      return { filename: file.filename, path: filePath };
+    });
+
+    const job = this.jobService.enqueue<OutboxPayload>(
+      OUTBOX_JOB,
+      {
+        email,
+        attachments,
+        userId: options.userId,
+        chatId: options.chatId,
+        reference: options.reference,
+        sendAt: options.sendAt?.toISOString(),
+        template: options.template,
+        signature: options.signature,
+        calendar: options.calendar,
+        thread: options.thread,
+      },
+      options.sendAt,
+    );
+    return this.toEntry(job);
+  }
+
+  /**
+   * Retrieves an outbox entry.
+   *
+   * @param {string} id - Entry ID
+   * @returns {OutboxEntry} The entry
+   * @throws {NotFoundException} If the entry does not exist
+   */
+  get(id: string): OutboxEntry {
+    return this.toEntry(this.getJob(id));
+  }
+
+  /**
+   * Lists a user's emails that are not sent yet: scheduled, queued, sending and dead.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {OutboxEntry[]} The entries, oldest first
+   */
+  list(userId: number): OutboxEntry[] {
+    return this.jobService
+      .list<OutboxPayload>(
+        OUTBOX_JOB,
+        (job) =>
+          job.payload.userId === userId &&
+          job.status !== 'completed' &&
+          job.status !== 'cancelled',
+      )
+      .map((job) => this.toEntry(job));
+  }
+
+  /**
+   * Sends a dead email again, with a fresh set of attempts.
+   *
+   * @param {string} id - Entry ID
+   * @returns {OutboxEntry} The queued entry
+   * @throws {NotFoundException} If the entry does not exist
+   * @throws {ConflictException} If the entry is not dead
+   */
+  retry(id: string): OutboxEntry {
+    const job = this.getJob(id);
+    if (job.status !== 'failed' || !this.jobService.resume(id, 'deliver')) {
+      throw new ConflictException(`Email is ${this.toEntry(job).status}`);
+    }
+    this.jobService.checkpoint(job, { sendAt: undefined });
+    this.logger.log(`Outbox entry ${id} retried`);
+    return this.get(id);
+  }
+
+  /**
+   * Moves a scheduled email to another send time.
+   *
+   * @param {string} id - Entry ID
+   * @param {Date} sendAt - New send time; a time in the past sends it right away
+   * @returns {OutboxEntry} The rescheduled entry
+   * @throws {NotFoundException} If the entry does not exist
+   * @throws {ConflictException} If the email is not scheduled
+   */
+  reschedule(id: string, sendAt: Date): OutboxEntry {
+    const job = this.getJob(id);
+    const entry = this.toEntry(job);
+    if (
+      entry.status !== 'scheduled' ||
+      !this.jobService.reschedule(id, sendAt)
+    ) {
+      throw new ConflictException(`Email is ${entry.status}`);
+    }
+    this.jobService.checkpoint(job, { sendAt: sendAt.toISOString() });
+    this.logger.log(
+      `Outbox entry ${id} rescheduled for ${sendAt.toISOString()}`,
+    );
+    return this.get(id);
+  }
+
+  /**
+   * Removes a scheduled, queued or dead email from the outbox without sending it.
+   *
+   * @param {string} id - Entry ID
+   * @returns {OutboxEntry} The discarded entry
+   * @throws {NotFoundException} If the entry does not exist
+   * @throws {ConflictException} If the email is being sent or already sent
+   */
+  discard(id: string): OutboxEntry {
+    const job = this.getJob(id);
+    const entry = this.toEntry(job);
+    if (entry.status === 'sending' || entry.status === 'sent') {
+      throw new ConflictException(`Email is ${entry.status}`);
+    }
+
+    this.jobService.cancel(id);
+    this.jobService.remove(id);
+    this.releaseAttachments(job.payload);
+    this.logger.log(`Outbox entry ${id} discarded`);
+
+    void this.notify(job, 'discarded');
+    return entry;
+  }
+
+  /**
+   * Deletes a user's sent emails. Emails that are not sent yet stay until they are sent or discarded.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {number} How many emails were deleted
+   */
+  forget(userId: number): number {
+    return this.jobService.removeFinished<OutboxPayload>(
+      OUTBOX_JOB,
+      (job) => job.payload.userId === userId && job.status === 'completed',
+    );
+  }
+
+  /**
+   * Deliver stage: renders the email into its template and sends it with its attachments from its owner's account.
+   * The Message-ID is stored before the first attempt and the delivery as soon as the server accepts the email,
+   * so an interrupted job neither sends a recorded email again nor resends one under a new Message-ID.
+   *
+   * @param {Job<OutboxPayload>} job - Outbox job
+   * @private
+   */
+  private async deliver(job: Job<OutboxPayload>): Promise<void> {
+    if (job.payload.delivery) {
+      this.logger.log(
+        `Outbox entry ${job.id} was sent before a restart, not sending it again`,
+      );
+    } else {
+      if (!job.payload.messageId) {
+        this.jobService.checkpoint(job, {
+          messageId: this.emailService.createMessageId(job.payload.userId),
+        });
+      }
+
+      const {
+        email,
+        attachments,
+        userId,
+        template,
+        signature,
+        calendar,
+        thread,
+        messageId,
+      } = job.payload;
+      const delivery = await this.emailService.sendHtmlEmail(email, {
+        userId,
+        template,
+        signature,
+        calendar,
+        thread,
+        messageId,
+        attachments: attachments.map((file) => ({
+          filename: file.filename,
+          content: fs.readFileSync(file.path),
+        })),
+      });
+      this.jobService.checkpoint(job, { delivery });
+    }
+
+    this.usageService.record(job.payload.userId, { emailsSent: 1 });
+    this.releaseAttachments(job.payload);
+    await this.notify(job, 'sent');
+  }
+
+  /**
+   * Deletes the stored attachments of an email.
+   *
+   * @param {OutboxPayload} payload - Outbox job payload
+   * @private
+   */
+  private releaseAttachments(payload: OutboxPayload): void {
+    const [first] = payload.attachments;
+    if (first) {
+      fs.rmSync(path.dirname(first.path), { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Tells listeners what happened to an entry, ignoring their failures.
+   *
+   * @param {Job<OutboxPayload>} job - Outbox job
+   * @param {OutboxEvent} event - What happened
+   * @private
+   */
+  private async notify(
+    job: Job<OutboxPayload>,
+    event: OutboxEvent,
+  ): Promise<void> {
+    const entry = this.toEntry(job);
+    for (const listener of this.listeners) {
+      try {
+        await listener(entry, event);
+      } catch (error) {
+        this.logger.error(
+          `Outbox listener failed: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Retrieves the job of an outbox entry.
+   *
+   * @param {string} id - Entry ID
+   * @returns {Job<OutboxPayload>} The job
+   * @throws {NotFoundException} If the entry does not exist
+   * @private
+   */
+  private getJob(id: string): Job<OutboxPayload> {
+    const job = this.jobService.get<OutboxPayload>(id);
+    if (!job || job.type !== OUTBOX_JOB) {
+      throw new NotFoundException('Email not found in the outbox');
+    }
+    return job;
+  }
+
+  /**
+   * Describes a job as an outbox entry.
+   *
+   * @param {Job<OutboxPayload>} job - Outbox job
+   * @returns {OutboxEntry} The entry
+   * @private
+   */
+  private toEntry(job: Job<OutboxPayload>): OutboxEntry {
+    const { payload } = job;
+    const state = job.stages.deliver;
+    const scheduled =
+      job.status === 'queued' &&
+      state.attempts === 0 &&
+      payload.sendAt !== undefined;
+    const statuses: Record<Job['status'], OutboxStatus> = {
+      queued: 'queued',
+      waiting: 'queued',
+      running: 'sending',
+      completed: 'sent',
+      failed: 'dead',
+      cancelled: 'dead',
+    };
+
+    return {
+      id: job.id,
+      status: scheduled ? 'scheduled' : statuses[job.status],
+      email: payload.email,
+      attachments: payload.attachments.map((file) => file.filename),
+      userId: payload.userId,
+      chatId: payload.chatId,
+      reference: payload.reference,
+      sendAt: scheduled ? new Date(job.runAt) : undefined,
+      attempts: state.attempts,
+      nextAttemptAt:
+        job.status === 'queued' && !scheduled ? new Date(job.runAt) : undefined,
+      lastError: state.error,
+      delivery: payload.delivery,
+      createdAt: new Date(job.createdAt),
+      updatedAt: new Date(job.updatedAt),
+    };
+  }
+}
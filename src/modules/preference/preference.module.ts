@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PreferenceService } from './preference.service';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [ConfigModule, StorageModule],
+  providers: [PreferenceService],
+  exports: [PreferenceService],
+})
+export class PreferenceModule {}
@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageService, Collection } from '../storage/storage.service';
+import { TranscriptionProviderName } from '../whisper/providers/transcription-provider.interface';
+import {
+  EmailTemplateName,
+  DEFAULT_EMAIL_TEMPLATE,
+} from '../email/email-templates';
+
+/**
+ * Per-user settings.
+ *
+ * @interface UserPreferences
+ */
+export interface UserPreferences {
+  /** Attach the original voice recording to sent emails by default */
+  attachRecording: boolean;
+  /** Attach a plain-text transcript to sent emails by default */
+  attachTranscript: boolean;
+  /** Template new emails are rendered into */
+  emailTemplate: EmailTemplateName;
+  /** Signature appended to the user's emails */
+  signature?: string;
+  /** ISO-639-1 code of the language the user always speaks; detected automatically when unset */
+  language?: string;
+  /** Transcription backend to use instead of the deployment default */
+  transcriptionProvider?: TranscriptionProviderName;
+  /** IANA timezone spoken times are read in, e.g. "Europe/Lisbon"; the deployment default when unset */
+  timezone?: string;
+}
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  attachRecording: false,
+  attachTranscript: false,
+  emailTemplate: DEFAULT_EMAIL_TEMPLATE,
+};
+
+/**
+ * Service responsible for persisting per-user preferences.
+ *
+ * @class PreferenceService
+ */
+@Injectable()
+export class PreferenceService {
+  private readonly preferences: Collection<Partial<UserPreferences>>;
+
+  /**
+   * Creates an instance of PreferenceService.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   * @param {StorageService} storageService - Service for persisting preferences
+   */
+  constructor(
+    private configService: ConfigService,
+    private storageService: StorageService,
+  ) {
+    this.preferences =
+      this.storageService.collection<Partial<UserPreferences>>('preferences');
+  }
+
+  /**
+   * Gets a user's preferences, filling in defaults for anything not set.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {UserPreferences} The user's preferences
+   */
+  get(userId: number): UserPreferences {
+    return {
+      ...DEFAULT_PREFERENCES,
+      ...this.preferences.get(String(userId)),
+    };
+  }
+
+  /**
+   * Gets the timezone a user's times are in, falling back to DEFAULT_TIMEZONE.
+   *
+   * @param {number} [userId] - Telegram user ID; omitted for clients without a user, such as the HTTP API
+   * @returns {string} IANA timezone
+   */
+  getTimezone(userId?: number): string {
+    const timezone =
+      userId !== undefined ? this.get(userId).timezone : undefined;
+    return (
+      timezone ?? this.configService.get<string>('DEFAULT_TIMEZONE', 'UTC')
+    );
+  }
+
+  /**
+   * Updates some of a user's preferences.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {Partial<UserPreferences>} changes - Preferences to change
+   * @returns {UserPreferences} The updated preferences
+   */
+  update(userId: number, changes: Partial<UserPreferences>): UserPreferences {
+    this.preferences.set(String(userId), {
+      ...this.preferences.get(String(userId)),
+      ...changes,
+    });
+    return this.get(userId);
+  }
+}
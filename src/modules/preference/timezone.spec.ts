@@ -0,0 +1,70 @@
+import {
+  formatInTimezone,
+  fromLocalDateTime,
+  isValidTimezone,
+  toLocalDateTime,
+} from './timezone';
+
+describe('timezone', () => {
+  describe('isValidTimezone', () => {
+    it('accepts IANA names and rejects anything else', () => {
+      expect(isValidTimezone('Europe/Lisbon')).toBe(true);
+      expect(isValidTimezone('UTC')).toBe(true);
+      expect(isValidTimezone('Lisbon')).toBe(false);
+    });
+  });
+
+  describe('toLocalDateTime', () => {
+    it('writes the wall-clock time of an instant, following daylight saving', () => {
+      expect(
+        toLocalDateTime(new Date('2025-01-15T09:00:00Z'), 'Europe/Lisbon'),
+      ).toBe('2025-01-15T09:00');
+      expect(
+        toLocalDateTime(new Date('2025-06-15T09:00:00Z'), 'Europe/Lisbon'),
+      ).toBe('2025-06-15T10:00');
+      expect(
+        toLocalDateTime(new Date('2025-06-15T02:30:00Z'), 'America/New_York'),
+      ).toBe('2025-06-14T22:30');
+    });
+  });
+
+  describe('fromLocalDateTime', () => {
+    it('finds the instant a local time refers to', () => {
+      expect(fromLocalDateTime('2025-06-15T10:00', 'Europe/Lisbon')).toEqual(
+        new Date('2025-06-15T09:00:00Z'),
+      );
+      expect(fromLocalDateTime('2025-12-01T09:00', 'Asia/Kolkata')).toEqual(
+        new Date('2025-12-01T03:30:00Z'),
+      );
+    });
+
+    it('reads a time skipped by daylight saving with the offset from before the change', () => {
+      // Clocks in Lisbon went from 01:00 to 02:00 on 30 March 2025
+      expect(fromLocalDateTime('2025-03-30T01:30', 'Europe/Lisbon')).toEqual(
+        new Date('2025-03-30T01:30:00Z'),
+      );
+    });
+
+    it('round-trips with toLocalDateTime', () => {
+      const local = '2025-11-02T08:15';
+
+      const instant = fromLocalDateTime(local, 'America/New_York')!;
+
+      expect(toLocalDateTime(instant, 'America/New_York')).toBe(local);
+    });
+
+    it('rejects text that is not a real date and time', () => {
+      expect(fromLocalDateTime('2025-02-30T09:00', 'UTC')).toBeUndefined();
+      expect(fromLocalDateTime('tomorrow at 9', 'UTC')).toBeUndefined();
+    });
+  });
+
+  describe('formatInTimezone', () => {
+    it('shows the local time with the timezone', () => {
+      // ICU versions differ in the punctuation after the weekday
+      expect(
+        formatInTimezone(new Date('2025-06-02T08:00:00Z'), 'Europe/Lisbon'),
+      ).toMatch(/^Mon,? 2 Jun, 09:00 \(Europe\/Lisbon\)$/);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/** Local date and time as written in prompts and accepted back: "2025-06-02T09:00" */
+const LOCAL_DATE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * Tells whether a name is an IANA timezone the runtime knows, e.g. "Europe/Lisbon".
+ *
+ * @param {string} timezone - Timezone name
+ * @returns {boolean} True if dates can be shown in it
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads the wall-clock fields of an instant in a timezone.
+ *
+ * @param {Date} date - Instant
+ * @param {string} timezone - IANA timezone
+ * @returns {Record<string, number>} Year, month, day, hour, minute and second
+ */
+function wallClock(date: Date, timezone: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  return Object.fromEntries(
+    parts
+      .filter((part) => part.type !== 'literal')
+      .map((part) => [part.type, Number(part.value)]),
+  );
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds.
+ *
+ * @param {Date} date - Instant
+ * @param {string} timezone - IANA timezone
+ * @returns {number} Offset; positive east of Greenwich
+ */
+function offsetAt(date: Date, timezone: string): number {
+  const { year, month, day, hour, minute, second } = wallClock(date, timezone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Writes an instant as local date and time in a timezone, e.g. "2025-06-02T09:00".
+ *
+ * @param {Date} date - Instant
+ * @param {string} timezone - IANA timezone
+ * @returns {string} Local date and time, to the minute
+ */
+export function toLocalDateTime(date: Date, timezone: string): string {
+  const { year, month, day, hour, minute } = wallClock(date, timezone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+}
+
+/**
+ * Finds the instant a local date and time refers to in a timezone.
+ * Times skipped by a daylight saving change resolve to the same offset as just before it.
+ *
+ * @param {string} local - Local date and time, e.g. "2025-06-02T09:00"
+ * @param {string} timezone - IANA timezone
+ * @returns {Date | undefined} The instant, or undefined if the text is not a valid date and time
+ */
+export function fromLocalDateTime(
+  local: string,
+  timezone: string,
+): Date | undefined {
+  const match = LOCAL_DATE_TIME.exec(local.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [year, month, day, hour, minute, second] = match
+    .slice(1)
+    .map((value) => Number(value ?? 0));
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  const check = new Date(asUtc);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return undefined;
+  }
+
+  // The offset depends on the instant, which depends on the offset: a second pass settles DST changes
+  let instant = asUtc - offsetAt(check, timezone);
+  instant = asUtc - offsetAt(new Date(instant), timezone);
+  return new Date(instant);
+}
+
+/**
+ * Formats an instant for people in a timezone, e.g. "Mon, 2 Jun, 09:00 (Europe/Lisbon)".
+ *
+ * @param {Date} date - Instant
+ * @param {string} timezone - IANA timezone
+ * @returns {string} Readable date and time
+ */
+export function formatInTimezone(date: Date, timezone: string): string {
+  const formatted = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(date);
+  return `${formatted} (${timezone})`;
+}
@@ -0,0 +1,182 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A named, persisted key-value collection.
+ * Values are kept in memory and written to a JSON file on every change.
+ *
+ * @class Collection
+ * @template T
+ */
+export class Collection<T> {
+  private readonly items = new Map<string, T>();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly logger: Logger,
+  ) {
+    this.load();
+  }
+
+  get(key: string): T | undefined {
+    return this.items.get(key);
+  }
+
+  has(key: string): boolean {
+    return this.items.has(key);
+  }
+
+  set(key: string, value: T): void {
+    this.items.set(key, value);
+    this.flush();
+  }
+
+  delete(key: string): boolean {
+    const deleted = this.items.delete(key);
+    if (deleted) {
+      this.flush();
+    }
+    return deleted;
+  }
+
+  /**
+   * Deletes every value that matches, writing the file once rather than once per value.
+   *
+   * @param {(value: T, key: string) => boolean} predicate - Whether to delete a value
+   * @returns {number} Number of deleted values
+   */
+  deleteWhere(predicate: (value: T, key: string) => boolean): number {
+    let deleted = 0;
+    for (const [key, value] of this.items) {
+      if (predicate(value, key)) {
+        this.items.delete(key);
+        deleted++;
+      }
+    }
+    if (deleted > 0) {
+      this.flush();
+    }
+    return deleted;
+  }
+
+  values(): T[] {
+    return [...this.items.values()];
+  }
+
+  entries(): [string, T][] {
+    return [...this.items.entries()];
+  }
+
+  /**
+   * Loads the collection from disk, starting empty if the file is missing or unreadable.
+   *
+   * @private
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as Record<
+        string,
+        T
+      >;
+      for (const [key, value] of Object.entries(raw)) {
+        this.items.set(key, value);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to load ${this.filePath}, starting empty: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Writes the collection to disk atomically (temporary file + rename).
+   *
+   * @private
+   */
+  private flush(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(
+      tmpPath,
+      JSON.stringify(Object.fromEntries(this.items), null, 2),
+    );
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Service providing file-based persistence for application state.
+ * Each collection is stored as a JSON file in the configured data directory.
+ *
+ * @class StorageService
+ */
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly dataDir: string;
+  private readonly collections = new Map<string, Collection<unknown>>();
+
+  /**
+   * Creates an instance of StorageService.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   */
+  constructor(private configService: ConfigService) {
+    this.dataDir = path.resolve(
+      this.configService.get<string>(
+        'DATA_DIR',
+        path.resolve(__dirname, '../../../data'),
+      ),
+    );
+    this.ensureDataDirectory();
+  }
+
+  /**
+   * Ensures the data directory exists.
+   *
+   * @private
+   */
+  private ensureDataDirectory(): void {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Returns the collection with the given name, loading it from disk on first use.
+   *
+   * @param {string} name - Collection name, used as the file name
+   * @returns {Collection<T>} The collection
+   */
+  collection<T>(name: string): Collection<T> {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new Collection<unknown>(
+        path.join(this.dataDir, `${name}.json`),
+        this.logger,
+      );
+      this.collections.set(name, collection);
+    }
+    return collection as Collection<T>;
+  }
+
+  /**
+   * Returns a directory in the data directory for files that do not fit in a collection,
+   * such as email attachments, creating it on first use.
+   *
+   * @param {string} name - Directory name
+   * @returns {string} Absolute path of the directory
+   */
+  directory(name: string): string {
+    const dirPath = path.join(this.dataDir, name);
+    if (!fs.existsSync(dirPath)) {
+      fs.mkdirSync(dirPath, { recursive: true });
+    }
+    return dirPath;
+  }
+}
@@ -0,0 +1,283 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  BadRequestException,
+} from '@nestjs/common';
+import { Telegraf, Context, Markup } from 'telegraf';
+import {
+  AccessService,
+  AccessRequest,
+  Role,
+  ROLE_DESCRIPTIONS,
+  isRole,
+} from '../../access/access.service';
+import { TELEGRAM_BOT } from '../telegram.constants';
+import { TelegramHandler } from './telegram-handler.interface';
+
+/**
+ * Handler of who may use the bot: /request for users without access, and /users, /allow, /deny
+ * and the buttons under access requests for admins.
+ *
+ * @class AccessTelegramHandler
+ * @implements {TelegramHandler}
+ */
+@Injectable()
+export class AccessTelegramHandler implements TelegramHandler {
+  readonly commandRoles: Record<string, Role> = {
+    allow: 'admin',
+    deny: 'admin',
+    users: 'admin',
+  };
+  readonly callbackRoles: Record<string, Role> = { access: 'admin' };
+
+  private readonly logger = new Logger(AccessTelegramHandler.name);
+
+  /**
+   * Creates an instance of AccessTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {AccessService} accessService - Service deciding who may use the bot and what for
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private accessService: AccessService,
+  ) {}
+
+  register(): void {
+    this.bot.command('request', async (ctx) => {
+      await this.handleAccessRequest(ctx);
+    });
+
+    this.bot.command('users', async (ctx) => {
+      await this.handleListUsers(ctx);
+    });
+
+    this.bot.command('allow', async (ctx) => {
+      await this.handleAllow(ctx, ctx.payload);
+    });
+
+    this.bot.command('deny', async (ctx) => {
+      await this.handleDeny(ctx, ctx.payload);
+    });
+
+    this.bot.action(/^access:(allow|deny):(\d+)(?::(\w+))?$/, async (ctx) => {
+      const [, action, userId, role] = ctx.match;
+      await ctx.answerCbQuery();
+      await ctx.editMessageReplyMarkup(undefined);
+      await this.decideAccess(
+        ctx,
+        Number(userId),
+        action === 'allow' && isRole(role) ? role : undefined,
+      );
+    });
+  }
+
+  /**
+   * Handles the /request command: asks the admins for access and tells them about it.
+   *
+   * @param {Context} ctx - Telegram context
+   * @private
+   */
+  private async handleAccessRequest(ctx: Context): Promise<void> {
+    if (!ctx.from || !ctx.chat) {
+      return;
+    }
+
+    const role = this.accessService.getRole(ctx.from.id, ctx.chat.id);
+    if (role) {
+      await ctx.reply(
+        `✅ You already have access: you can ${ROLE_DESCRIPTIONS[role]}.`,
+      );
+      return;
+    }
+    if (this.accessService.isDenied(ctx.from.id)) {
+      await ctx.reply('🚫 An admin has denied you access to this bot.');
+      return;
+    }
+
+    const { request, created } = this.accessService.requestAccess({
+      userId: ctx.from.id,
+      chatId: ctx.chat.id,
+      name: [ctx.from.first_name, ctx.from.last_name].filter(Boolean).join(' '),
+      username: ctx.from.username,
+    });
+    if (!created) {
+      await ctx.reply(
+        "⏳ Your request is waiting for an admin. I'll let you know when they decide.",
+      );
+      return;
+    }
+
+    for (const adminId of this.accessService.getAdminIds()) {
+      try {
+        await this.bot.telegram.sendMessage(
+          adminId,
+          `🙋 ${this.describeRequester(request)} asked for access.`,
+          this.accessRequestKeyboard(request.userId),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to tell admin ${adminId} about an access request: ${(error as Error).message}`,
+        );
+      }
+    }
+    await ctx.reply(
+      "📨 Your request was sent to the admins. I'll let you know when they decide.",
+    );
+  }
+
+  /**
+   * Handles the /users command: lists who has access, who was denied, and pending requests with buttons to answer them.
+   *
+   * @param {Context} ctx - Telegram context
+   * @private
+   */
+  private async handleListUsers(ctx: Context): Promise<void> {
+    const users = this.accessService.list();
+    const requests = this.accessService.listRequests();
+
+    const lines = users.map(
+      (user) =>
+        `${user.role ? (user.role === 'admin' ? '👑' : '✅') : '🚫'} ${user.name ? `${user.name} ` : ''}(${user.userId}): ` +
+        (user.role ?? 'denied') +
+        (user.source === 'config' ? ', from the configuration' : ''),
+    );
+    await ctx.reply(
+      lines.length > 0
+        ? `👥 Users:\n\n${lines.join('\n')}`
+        : '👥 No users have been given access yet.',
+    );
+
+    for (const request of requests) {
+      await ctx.reply(
+        `⏳ ${this.describeRequester(request)} asked for access on ${request.requestedAt.toLocaleDateString('en-GB')}.`,
+        this.accessRequestKeyboard(request.userId),
+      );
+    }
+  }
+
+  /**
+   * Handles the /allow command: gives a user access with a role.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - User ID, optionally followed by the role (DEFAULT_ROLE when omitted)
+   * @private
+   */
+  private async handleAllow(ctx: Context, args: string): Promise<void> {
+    const [id, role = this.accessService.getDefaultRole()] = args
+      .trim()
+      .split(/\s+/);
+    if (!/^\d+$/.test(id ?? '') || !isRole(role)) {
+      await ctx.reply(
+        'Usage: /allow <user ID> [transcriber|sender|admin]\nUsers without access see their ID when they message me.',
+      );
+      return;
+    }
+    await this.decideAccess(ctx, Number(id), role);
+  }
+
+  /**
+   * Handles the /deny command: takes a user's access away.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - User ID
+   * @private
+   */
+  private async handleDeny(ctx: Context, args: string): Promise<void> {
+    const id = args.trim();
+    if (!/^\d+$/.test(id)) {
+      await ctx.reply('Usage: /deny <user ID>');
+      return;
+    }
+    await this.decideAccess(ctx, Number(id), undefined);
+  }
+
+  /**
+   * Allows or denies a user and tells them about it if they asked for access or were allowed.
+   *
+   * @param {Context} ctx - Telegram context of the admin
+   * @param {number} userId - User to decide on
+   * @param {Role | undefined} role - Role to give, or undefined to deny
+   * @private
+   */
+  private async decideAccess(
+    ctx: Context,
+    userId: number,
+    role: Role | undefined,
+  ): Promise<void> {
+    if (!ctx.from) {
+      return;
+    }
+
+    let request: AccessRequest | undefined;
+    try {
+      request = role
+        ? this.accessService.allow(userId, role, ctx.from.id)
+        : this.accessService.deny(userId, ctx.from.id);
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        await ctx.reply(`❌ ${error.message}`);
+        return;
+      }
+      throw error;
+    }
+
+    const label = request ? this.describeRequester(request) : `User ${userId}`;
+    await ctx.reply(
+      role
+        ? `✅ ${label} can now ${ROLE_DESCRIPTIONS[role]}.`
+        : `🚫 ${label} no longer has access.`,
+    );
+
+    if (!role && !request) {
+      return;
+    }
+    try {
+      await this.bot.telegram.sendMessage(
+        request?.chatId ?? userId,
+        role
+          ? `✅ You now have access: you can ${ROLE_DESCRIPTIONS[role]}. Send /help to get started.`
+          : '🚫 An admin has denied your access request.',
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to tell user ${userId} about their access: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Names the user behind an access request, e.g. "Anna Silva (@anna, 12345)".
+   *
+   * @param {AccessRequest} request - Access request
+   * @returns {string} Name, username and ID
+   * @private
+   */
+  private describeRequester(request: AccessRequest): string {
+    return `${request.name || 'Someone'} (${request.username ? `@${request.username}, ` : ''}${request.userId})`;
+  }
+
+  /**
+   * Builds the buttons admins answer an access request with.
+   *
+   * @param {number} userId - Requesting user
+   * @returns Inline keyboard markup
+   * @private
+   */
+  private accessRequestKeyboard(userId: number) {
+    return Markup.inlineKeyboard([
+      [
+        Markup.button.callback(
+          '🎙 Transcribe only',
+          `access:allow:${userId}:transcriber`,
+        ),
+        Markup.button.callback(
+          '📧 Transcribe & send',
+          `access:allow:${userId}:sender`,
+        ),
+      ],
+      [Markup.button.callback('🚫 Deny', `access:deny:${userId}`)],
+    ]);
+  }
+}
@@ -0,0 +1,249 @@
+import { Injectable, Inject, Logger, HttpException } from '@nestjs/common';
+import { Telegraf, Context } from 'telegraf';
+import { AccountService } from '../../account/account.service';
+import { findSmtpPreset, SmtpPreset } from '../../account/smtp-presets';
+import { EmailService } from '../../email/email.service';
+import { InboxService } from '../../inbox/inbox.service';
+import { Role } from '../../access/access.service';
+import {
+  TELEGRAM_BOT,
+  EMAIL_PATTERN,
+  MAIL_SERVER_PATTERN,
+} from '../telegram.constants';
+import { TelegramHandler, TextContext } from './telegram-handler.interface';
+
+/** How long a /connect conversation waits for the next answer */
+const CONNECT_SESSION_TTL = 10 * 60 * 1000;
+
+/**
+ * A /connect conversation in progress, asking for the address, the server and then the password.
+ *
+ * @interface ConnectSession
+ */
+interface ConnectSession {
+  step: 'address' | 'server' | 'password';
+  address?: string;
+  host?: string;
+  port?: number;
+  /** Server of the address's provider, used if the user answers "ok" */
+  preset?: SmtpPreset;
+  expiresAt: number;
+}
+
+/**
+ * Handler of the account users send from: the /connect conversation and /disconnect.
+ *
+ * @class AccountTelegramHandler
+ * @implements {TelegramHandler}
+ */
+@Injectable()
+export class AccountTelegramHandler implements TelegramHandler {
+  readonly commandRoles: Record<string, Role> = {
+    connect: 'sender',
+    disconnect: 'sender',
+  };
+
+  private readonly logger = new Logger(AccountTelegramHandler.name);
+  /** /connect conversations in progress, keyed by chat ID; they only run in private chats */
+  private readonly connectSessions = new Map<number, ConnectSession>();
+
+  /**
+   * Creates an instance of AccountTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {AccountService} accountService - Service managing the accounts users send from
+   * @param {EmailService} emailService - Service checking SMTP logins
+   * @param {InboxService} inboxService - Service reading the mailbox of a linked account
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private accountService: AccountService,
+    private emailService: EmailService,
+    private inboxService: InboxService,
+  ) {}
+
+  register(): void {
+    this.bot.command('connect', async (ctx) => {
+      await this.handleConnect(ctx);
+    });
+
+    this.bot.command('disconnect', async (ctx) => {
+      await this.handleDisconnect(ctx);
+    });
+  }
+
+  /**
+   * Reads the next answer of a /connect conversation: the address, the server, then the password.
+   * The password is checked against the server before the account is saved, and its message is deleted.
+   *
+   * @param {TextContext} ctx - Telegram context with text message
+   * @returns {Promise<boolean>} False if the chat has no /connect conversation in progress
+   */
+  async handleText(ctx: TextContext): Promise<boolean> {
+    const chatId = ctx.message.chat.id;
+    const session = this.connectSessions.get(chatId);
+    if (!session || !ctx.from) {
+      return false;
+    }
+    if (session.expiresAt < Date.now()) {
+      this.connectSessions.delete(chatId);
+      return false;
+    }
+
+    const answer = ctx.message.text.trim();
+    if (answer.toLowerCase() === 'cancel') {
+      this.connectSessions.delete(chatId);
+      await ctx.reply('🚫 Connecting your account was cancelled.');
+      return true;
+    }
+    session.expiresAt = Date.now() + CONNECT_SESSION_TTL;
+
+    if (session.step === 'address') {
+      if (!EMAIL_PATTERN.test(answer)) {
+        await ctx.reply(
+          "❌ That doesn't look like an email address. Please send one like name@example.com.",
+        );
+        return true;
+      }
+      session.address = answer;
+      session.preset = findSmtpPreset(answer);
+      session.step = 'server';
+      await ctx.reply(
+        session.preset
+          ? `🖥️ ${session.preset.provider} sends email through ${session.preset.host}:${session.preset.port}. Reply "ok" to use it, or send another server as host:port.`
+          : "🖥️ What is your outgoing (SMTP) server? Send it as host:port, e.g. smtp.example.com:587. Your email provider's help pages list it.",
+      );
+      return true;
+    }
+
+    if (session.step === 'server') {
+      const match = MAIL_SERVER_PATTERN.exec(answer);
+      if (session.preset && /^(ok|yes)$/i.test(answer)) {
+        session.host = session.preset.host;
+        session.port = session.preset.port;
+      } else if (match && Number(match[2] ?? 587) <= 65535) {
+        session.host = match[1].toLowerCase();
+        session.port = Number(match[2] ?? 587);
+      } else {
+        await ctx.reply(
+          '❌ Please send the server as host:port, e.g. smtp.example.com:587.',
+        );
+        return true;
+      }
+      session.step = 'password';
+      await ctx.reply(
+        `🔑 Now send the password for ${session.address}.` +
+          (session.preset?.hint && session.host === session.preset.host
+            ? `\n${session.preset.hint}`
+            : '') +
+          "\nI'll delete your message as soon as I've read it, and store the password encrypted.",
+      );
+      return true;
+    }
+
+    try {
+      await ctx.deleteMessage(ctx.message.message_id);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to delete password message in chat ${chatId}: ${(error as Error).message}`,
+      );
+    }
+
+    const settings = {
+      host: session.host!,
+      port: session.port!,
+      // Port 465 speaks TLS from the start; the others upgrade with STARTTLS
+      secure: session.port === 465,
+      user: session.address!,
+      pass: ctx.message.text,
+    };
+    await ctx.reply(`⏳ Signing in to ${settings.host}...`);
+    try {
+      await this.emailService.verifyAccount(settings);
+      this.accountService.link(ctx.from.id, settings);
+      this.connectSessions.delete(chatId);
+      await ctx.reply(
+        `✅ Connected! Your emails will now be sent from ${settings.user}. Use /disconnect to unlink it.`,
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        await ctx.reply(
+          `❌ ${error.message}. Send the password again, or /connect to start over.`,
+        );
+        return true;
+      }
+      this.connectSessions.delete(chatId);
+      this.logger.error(
+        `Failed to connect account for user ${ctx.from.id}: ${(error as Error).message}`,
+      );
+      await ctx.reply(
+        "❌ I couldn't connect your account. Please try /connect again later.",
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Handles the /connect command: starts a conversation linking the user's own SMTP account.
+   *
+   * @param {Context} ctx - Telegram context
+   * @private
+   */
+  private async handleConnect(ctx: Context): Promise<void> {
+    if (!ctx.from || !ctx.chat) {
+      return;
+    }
+
+    if (!this.accountService.canLink()) {
+      await ctx.reply(
+        'ℹ️ Connecting your own email account is not enabled on this server.',
+      );
+      return;
+    }
+    if (ctx.chat.type !== 'private') {
+      await ctx.reply(
+        '🔒 Your password is needed to connect an account, so please use /connect in a private chat with me.',
+      );
+      return;
+    }
+
+    const current = this.accountService.get(ctx.from.id);
+    const intro = current
+      ? `📬 Your emails are sent from ${current.from ?? current.user} via ${current.host}:${current.port}. Continuing replaces that account.\n\n`
+      : '';
+    this.connectSessions.set(ctx.chat.id, {
+      step: 'address',
+      expiresAt: Date.now() + CONNECT_SESSION_TTL,
+    });
+    await ctx.reply(
+      `${intro}📧 Which email address should your emails come from?\n\nSend "cancel" at any time to stop.`,
+    );
+  }
+
+  /**
+   * Handles the /disconnect command: unlinks the user's own SMTP account.
+   *
+   * @param {Context} ctx - Telegram context
+   * @private
+   */
+  private async handleDisconnect(ctx: Context): Promise<void> {
+    if (!ctx.from) {
+      return;
+    }
+
+    if (!this.accountService.unlink(ctx.from.id)) {
+      await ctx.reply(
+        'ℹ️ You have no email account connected. Use /connect to link one.',
+      );
+      return;
+    }
+    // Its login is gone, so the inbox can no longer be read
+    this.inboxService.disconnect(ctx.from.id);
+    await ctx.reply(
+      '🔌 Your email account was disconnected. ' +
+        (this.accountService.hasSharedAccount()
+          ? 'Your emails will be sent from the shared account.'
+          : 'Use /connect to link one before sending more emails.'),
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Telegraf, Context } from 'telegraf';
+import { ContactService } from '../../contact/contact.service';
+import { Role } from '../../access/access.service';
+import { toLanguageCode, getLanguageName } from '../../whisper/languages';
+import { TELEGRAM_BOT } from '../telegram.constants';
+import { TelegramHandler } from './telegram-handler.interface';
+
+/**
+ * Handler of the address book commands: /contacts, /addcontact, /removecontact and /contactlanguage.
+ *
+ * @class ContactTelegramHandler
+ * @implements {TelegramHandler}
+ */
+@Injectable()
+export class ContactTelegramHandler implements TelegramHandler {
+  readonly commandRoles: Record<string, Role> = {
+    contacts: 'sender',
+    addcontact: 'sender',
+    removecontact: 'sender',
+    contactlanguage: 'sender',
+  };
+
+  /**
+   * Creates an instance of ContactTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {ContactService} contactService - Service managing users' address books
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private contactService: ContactService,
+  ) {}
+
+  register(): void {
+    this.bot.command('contacts', async (ctx) => {
+      await this.handleListContacts(ctx);
+    });
+
+    this.bot.command('addcontact', async (ctx) => {
+      await this.handleAddContact(ctx, ctx.payload);
+    });
+
+    this.bot.command('removecontact', async (ctx) => {
+      await this.handleRemoveContact(ctx, ctx.payload);
+    });
+
+    this.bot.command('contactlanguage', async (ctx) => {
+      await this.handleContactLanguage(ctx, ctx.payload);
+    });
+  }
+
+  /**
+   * Handles the /contacts command by listing the user's address book.
+   *
+   * @param {Context} ctx - Telegram context
+   * @private
+   */
+  private async handleListContacts(ctx: Context): Promise<void> {
+    const contacts = ctx.from ? this.contactService.list(ctx.from.id) : [];
+    if (contacts.length === 0) {
+      await ctx.reply(
+        '📇 Your address book is empty. Add someone with /addcontact <name> <email> [description]',
+      );
+      return;
+    }
+
+    const lines = contacts.map(
+      (c) =>
+        `• ${c.name} <${c.email}>${c.description ? ` — ${c.description}` : ''}` +
+        (c.language ? ` 🌐 ${getLanguageName(c.language)}` : ''),
+    );
+    await ctx.reply('📇 Your contacts:\n\n' + lines.join('\n'));
+  }
+
+  /**
+   * Handles the /addcontact command.
+   * Expects "<name> <email> [description]", e.g. "John Smith john@company.com finance".
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - Command arguments
+   * @private
+   */
+  private async handleAddContact(ctx: Context, args: string): Promise<void> {
+    const words = args.trim().split(/\s+/);
+    const emailIndex = words.findIndex((word) => word.includes('@'));
+
+    if (!ctx.from || emailIndex < 1) {
+      await ctx.reply(
+        'Usage: /addcontact <name> <email> [description]\nExample: /addcontact John Smith john@company.com finance',
+      );
+      return;
+    }
+
+    try {
+      const contact = this.contactService.add(ctx.from.id, {
+        name: words.slice(0, emailIndex).join(' '),
+        email: words[emailIndex],
+        description: words.slice(emailIndex + 1).join(' ') || undefined,
+      });
+      await ctx.reply(
+        `✅ Added ${contact.name} <${contact.email}> to your contacts.`,
+      );
+    } catch (error) {
+      await ctx.reply(`❌ ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Handles the /removecontact command.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - Contact name or email address
+   * @private
+   */
+  private async handleRemoveContact(ctx: Context, args: string): Promise<void> {
+    if (!ctx.from || !args.trim()) {
+      await ctx.reply('Usage: /removecontact <name or email>');
+      return;
+    }
+
+    const removed = this.contactService.remove(ctx.from.id, args);
+    if (removed.length === 0) {
+      await ctx.reply(`ℹ️ No contact named "${args.trim()}" found.`);
+      return;
+    }
+
+    await ctx.reply(
+      `🗑️ Removed ${removed.map((c) => c.name).join(', ')} from your contacts.`,
+    );
+  }
+
+  /**
+   * Handles the /contactlanguage command: sets the language emails to a contact are translated into.
+   * Expects "<name or email> <language|off>", e.g. "John Smith en".
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - Command arguments
+   * @private
+   */
+  private async handleContactLanguage(
+    ctx: Context,
+    args: string,
+  ): Promise<void> {
+    const words = args.trim().split(/\s+/);
+    if (!ctx.from || words.length < 2) {
+      await ctx.reply(
+        'Usage: /contactlanguage <name or email> <language|off>\nExample: /contactlanguage John Smith en',
+      );
+      return;
+    }
+
+    const choice = words.pop()!;
+    const language = toLanguageCode(choice);
+    if (!language && choice.toLowerCase() !== 'off') {
+      await ctx.reply(
+        `❌ Unknown language "${choice}". Use a code or name such as en, pt or Spanish.`,
+      );
+      return;
+    }
+
+    const name = words.join(' ');
+    const updated = this.contactService.setLanguage(
+      ctx.from.id,
+      name,
+      language,
+    );
+    if (updated.length === 0) {
+      await ctx.reply(`ℹ️ No contact named "${name}" found.`);
+      return;
+    }
+
+    const names = updated.map((c) => c.name).join(', ');
+    await ctx.reply(
+      language
+        ? `🌐 Emails to ${names} will be translated into ${getLanguageName(language)}, and you choose which version to send.`
+        : `🌐 Emails to ${names} will be sent as you dictate them.`,
+    );
+  }
+}
@@ -0,0 +1,907 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleInit,
+  ConflictException,
+  BadRequestException,
+  HttpException,
+} from '@nestjs/common';
+import { Telegraf, Context, Markup } from 'telegraf';
+import {
+  GptService,
+  ExtractedEmail,
+  RecipientField,
+  UnresolvedRecipient,
+} from '../../gpt/gpt.service';
+import { DraftService, Draft, MissingField } from '../../draft/draft.service';
+import { ContactService } from '../../contact/contact.service';
+import { PreferenceService } from '../../preference/preference.service';
+import { JobService, Job } from '../../job/job.service';
+import { UsageService } from '../../usage/usage.service';
+import { Role } from '../../access/access.service';
+import { EmailTemplateName } from '../../email/email-templates';
+import { formatInTimezone } from '../../preference/timezone';
+import { getLanguageName } from '../../whisper/languages';
+import { TELEGRAM_BOT, EMAIL_PATTERN } from '../telegram.constants';
+import { VOICE_JOB, VoiceJobPayload } from '../voice-job';
+import { TelegramHandler, TextContext } from './telegram-handler.interface';
+
+/** Actions available on a draft preview's inline keyboard */
+type DraftAction =
+  | 'send'
+  | 'original'
+  | 'translated'
+  | 'cancel'
+  | 'edit'
+  | 'recording'
+  | 'transcript';
+
+/** Display names of the recipient lists */
+const RECIPIENT_LABELS: Record<RecipientField, string> = {
+  to: 'To',
+  cc: 'CC',
+  bcc: 'BCC',
+};
+
+/** How to ask for each part of an email the user did not give */
+const MISSING_FIELD_QUESTIONS: Record<MissingField, string> = {
+  body: 'what the email should say',
+  subject: 'what its subject should be',
+};
+
+/**
+ * Handler of the email draft flow: shows drafts for review, asks for missing recipients and content,
+ * applies changes asked for by text and sends or cancels drafts from their buttons.
+ *
+ * @class DraftTelegramHandler
+ * @implements {TelegramHandler}
+ * @implements {OnModuleInit}
+ */
+@Injectable()
+export class DraftTelegramHandler implements TelegramHandler, OnModuleInit {
+  readonly commandRoles: Record<string, Role> = { undo: 'sender' };
+  readonly callbackRoles: Record<string, Role> = { draft: 'sender' };
+
+  private readonly logger = new Logger(DraftTelegramHandler.name);
+
+  /**
+   * Creates an instance of DraftTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {DraftService} draftService - Service managing pending email drafts
+   * @param {GptService} gptService - Service revising and translating drafts
+   * @param {ContactService} contactService - Address books recipients are looked up in
+   * @param {PreferenceService} preferenceService - Timezones send times are shown in
+   * @param {JobService} jobService - Queue running the voice jobs drafts come from
+   * @param {UsageService} usageService - Ledger of the tokens revisions and translations use
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private draftService: DraftService,
+    private gptService: GptService,
+    private contactService: ContactService,
+    private preferenceService: PreferenceService,
+    private jobService: JobService,
+    private usageService: UsageService,
+  ) {}
+
+  /**
+   * Lifecycle hook that follows drafts as they are sent, cancelled or expire.
+   */
+  onModuleInit() {
+    this.draftService.onFinished((draft) => this.handleDraftFinished(draft));
+  }
+
+  register(): void {
+    this.bot.command('undo', async (ctx) => {
+      await this.handleUndo(ctx);
+    });
+
+    this.bot.action(
+      /^draft:(send|original|translated|cancel|edit|recording|transcript):(.+)$/,
+      async (ctx) => {
+        const [, action, draftId] = ctx.match;
+        await this.handleDraftAction(ctx, action as DraftAction, draftId);
+      },
+    );
+
+    this.bot.action(/^draft:pick:([^:]+):(\d+)$/, async (ctx) => {
+      const [, draftId, index] = ctx.match;
+      await this.handleRecipientPick(ctx, draftId, Number(index));
+    });
+  }
+
+  /**
+   * Handles text messages sent while a draft is pending in the chat.
+   * Accepts "yes" / "no" as shortcuts for the buttons; anything else is treated as a change request.
+   *
+   * @param {TextContext} ctx - Telegram context with text message
+   * @returns {Promise<boolean>} False if the sender has no pending draft in the chat
+   */
+  async handleText(ctx: TextContext): Promise<boolean> {
+    const draft = this.getOwnActiveDraft(
+      ctx.message.chat.id,
+      ctx.message.from.id,
+    );
+    if (!draft) {
+      return false;
+    }
+
+    const text = ctx.message.text.trim();
+    const answer = text.toLowerCase();
+
+    if (answer === 'yes') {
+      await this.sendDraft(ctx, draft);
+    } else if (answer === 'no') {
+      this.draftService.cancel(draft.id);
+      await this.clearDraftKeyboard(draft);
+      await ctx.reply('❌ Email cancelled.');
+    } else if (draft.unresolvedRecipients.length > 0) {
+      await this.answerRecipient(ctx, draft, text);
+    } else {
+      await this.reviseDraft(ctx.message.chat.id, draft, text);
+    }
+    return true;
+  }
+
+  /**
+   * Sends the preview of a draft with Send / Edit / Cancel buttons, translating it first if it should be.
+   * The keyboard of the previous preview, if any, is removed so only the latest one is actionable.
+   *
+   * @param {Draft} draft - Draft to present
+   */
+  async presentDraft(draft: Draft): Promise<void> {
+    if (draft.chatId === undefined) {
+      return;
+    }
+
+    await this.clearDraftKeyboard(draft);
+
+    if (draft.unresolvedRecipients.length > 0) {
+      await this.askForRecipient(draft);
+      return;
+    }
+
+    const missing = this.draftService.getMissingFields(draft);
+    if (missing.length > 0) {
+      await this.askForContent(draft, missing);
+      return;
+    }
+
+    const { chatId } = draft;
+    draft = await this.translateDraft(draft);
+    const { translation } = draft;
+
+    const header =
+      draft.revisions.length === 0
+        ? '📧 I found email information in your message:\n\n'
+        : `📧 Here's the updated draft (revision ${draft.revisions.length}, /undo to go back):\n\n`;
+
+    // Both versions as they will be sent: rendered into the template, with the signature
+    const message = await this.bot.telegram.sendMessage(
+      chatId,
+      header +
+        this.formatEmail(
+          { ...draft.email, body: this.draftService.render(draft, false).text },
+          draft.unresolvedRecipients,
+        ) +
+        (translation
+          ? `\n\n🌐 ${getLanguageName(translation.language)} translation (/translate off to drop it):\n` +
+            `📝 Subject: ${translation.subject}\n\n` +
+            `📄 Body:\n${this.draftService.render(draft, true).text}`
+          : '') +
+        `\n\n🎨 Template: ${draft.template} (/template to change)` +
+        (draft.sendAt
+          ? `\n\n🕘 Send at: ${formatInTimezone(draft.sendAt, this.preferenceService.getTimezone(draft.userId))}`
+          : '') +
+        (translation
+          ? '\n\nWhich version would you like to send? You can also tell me what to change.'
+          : '\n\nWould you like to send this email? You can also tell me what to change.') +
+        `\n\n🆔 ${draft.id}`,
+      this.draftKeyboard(draft),
+    );
+
+    this.draftService.update(draft.id, {
+      previewMessageId: message.message_id,
+    });
+  }
+
+  /**
+   * Removes the inline keyboard from a draft preview, ignoring messages that can no longer be edited.
+   *
+   * @param {Draft} draft - Draft whose preview should be cleared
+   */
+  async clearDraftKeyboard(draft: Draft): Promise<void> {
+    if (draft.chatId === undefined || !draft.previewMessageId) {
+      return;
+    }
+
+    try {
+      await this.bot.telegram.editMessageReplyMarkup(
+        draft.chatId,
+        draft.previewMessageId,
+        undefined,
+        undefined,
+      );
+    } catch (error) {
+      this.logger.debug(
+        `Could not clear keyboard of draft ${draft.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Gets the pending draft of a chat if it belongs to a user. In group chats the other members
+   * must not send, change or answer questions about someone else's draft.
+   *
+   * @param {number} chatId - Telegram chat ID
+   * @param {number | undefined} userId - Telegram user ID of the sender of the update
+   * @returns {Draft | undefined} The draft, if there is one and the user owns it
+   */
+  getOwnActiveDraft(
+    chatId: number,
+    userId: number | undefined,
+  ): Draft | undefined {
+    const draft = this.draftService.getActiveForChat(chatId);
+    return draft && draft.userId === userId ? draft : undefined;
+  }
+
+  /**
+   * Checks whether a message is aimed at a pending draft: either the user pressed Edit
+   * or the message is a Telegram reply to the draft preview.
+   *
+   * @param {number | undefined} replyToMessageId - ID of the message the incoming message replies to
+   * @param {Draft} draft - Pending draft of the chat
+   * @returns {boolean} True if the message should revise the draft
+   */
+  isDraftReply(replyToMessageId: number | undefined, draft: Draft): boolean {
+    if (draft.awaitingEdit) {
+      return true;
+    }
+    return (
+      replyToMessageId !== undefined &&
+      replyToMessageId === draft.previewMessageId
+    );
+  }
+
+  /**
+   * Applies a change request to a draft with GPT and presents the new revision.
+   *
+   * @param {number} chatId - Telegram chat ID
+   * @param {Draft} draft - Draft to revise
+   * @param {string} instruction - What the user wants changed
+   */
+  async reviseDraft(
+    chatId: number,
+    draft: Draft,
+    instruction: string,
+  ): Promise<void> {
+    await this.bot.telegram.sendMessage(chatId, '✏️ Updating your draft...');
+
+    try {
+      this.usageService.assertWithinQuota(draft.userId, 'tokens');
+      const revision = await this.gptService.reviseEmail(
+        draft.email,
+        instruction,
+        undefined,
+        {
+          contacts:
+            draft.userId !== undefined
+              ? this.contactService.list(draft.userId)
+              : [],
+          timezone: this.preferenceService.getTimezone(draft.userId),
+          sendAt: draft.sendAt,
+        },
+      );
+      this.usageService.recordTokens(draft.userId, revision);
+      const updated = this.draftService.revise(draft.id, revision.data);
+      await this.presentDraft(updated);
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        await this.bot.telegram.sendMessage(
+          chatId,
+          `ℹ️ This draft is already ${draft.status}.`,
+        );
+        return;
+      }
+      if (error instanceof HttpException) {
+        await this.bot.telegram.sendMessage(chatId, `📊 ${error.message}`);
+        return;
+      }
+
+      this.logger.error(
+        `Failed to revise draft ${draft.id}: ${(error as Error).message}`,
+      );
+      await this.bot.telegram.sendMessage(
+        chatId,
+        "❌ I couldn't apply that change. Please try rephrasing it.",
+      );
+    }
+  }
+
+  /**
+   * Puts a confirmed draft in the outbox, telling the chat why if it cannot be queued.
+   * A draft that can be fixed is shown again.
+   *
+   * @param {number} chatId - Telegram chat ID
+   * @param {Draft} draft - Draft to send
+   * @returns {Promise<'queued' | 'finished' | 'failed'>} 'finished' if the draft was already sent or cancelled,
+   * 'failed' if it is pending again
+   */
+  async queueDraft(
+    chatId: number,
+    draft: Draft,
+  ): Promise<'queued' | 'finished' | 'failed'> {
+    try {
+      const sending = this.draftService.send(draft.id);
+      this.logger.log(
+        `Draft ${draft.id} queued as outbox entry ${sending.outboxId}`,
+      );
+      return 'queued';
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        await this.bot.telegram.sendMessage(
+          chatId,
+          `ℹ️ This draft is already ${draft.status}.`,
+        );
+        return 'finished';
+      }
+
+      if (error instanceof BadRequestException) {
+        await this.bot.telegram.sendMessage(chatId, `❌ ${error.message}`);
+      } else if (error instanceof HttpException) {
+        await this.bot.telegram.sendMessage(chatId, `📊 ${error.message}`);
+      } else {
+        this.logger.error('Failed to queue email:', error);
+        await this.bot.telegram.sendMessage(
+          chatId,
+          '❌ Failed to send email. Please try again later.',
+        );
+      }
+      await this.presentDraft(draft);
+      return 'failed';
+    }
+  }
+
+  /**
+   * Applies a new template or signature to the user's pending draft in a chat and shows the result.
+   *
+   * @param {number} chatId - Telegram chat ID
+   * @param {number} userId - Telegram user ID whose settings changed
+   * @param {{ template?: EmailTemplateName; signature?: string }} changes - New rendering settings
+   */
+  async restyleActiveDraft(
+    chatId: number,
+    userId: number,
+    changes: { template?: EmailTemplateName; signature?: string },
+  ): Promise<void> {
+    const draft = this.getOwnActiveDraft(chatId, userId);
+    if (draft) {
+      await this.presentDraft(this.draftService.update(draft.id, changes));
+    }
+  }
+
+  /**
+   * Builds the inline keyboard of a draft preview.
+   * A translated draft has a send button per version. The last row toggles which source files are attached; it is only shown when the draft has a source.
+   *
+   * @param {Draft} draft - Draft to build the keyboard for
+   * @returns The inline keyboard markup
+   * @private
+   */
+  private draftKeyboard(draft: Draft) {
+    const send = draft.sendAt ? '🕘 Schedule' : '✅ Send';
+    const edit = Markup.button.callback('✏️ Edit', `draft:edit:${draft.id}`);
+    const cancel = Markup.button.callback(
+      '❌ Cancel',
+      `draft:cancel:${draft.id}`,
+    );
+    // A translated draft is sent in the version the user picks
+    const rows = draft.translation
+      ? [
+          [
+            Markup.button.callback(
+              `${send} ${getLanguageName(draft.translation.language)}`,
+              `draft:translated:${draft.id}`,
+            ),
+            Markup.button.callback(
+              `${send} original`,
+              `draft:original:${draft.id}`,
+            ),
+          ],
+          [edit, cancel],
+        ]
+      : [
+          [
+            Markup.button.callback(send, `draft:send:${draft.id}`),
+            edit,
+            cancel,
+          ],
+        ];
+
+    if (draft.source) {
+      const mark = (on: boolean) => (on ? '☑️' : '⬜');
+      rows.push([
+        Markup.button.callback(
+          `${mark(draft.attachments.recording)} Attach recording`,
+          `draft:recording:${draft.id}`,
+        ),
+        Markup.button.callback(
+          `${mark(draft.attachments.transcript)} Attach transcript`,
+          `draft:transcript:${draft.id}`,
+        ),
+      ]);
+    }
+
+    return Markup.inlineKeyboard(rows);
+  }
+
+  /**
+   * Asks the user to clarify the first unresolved recipient of a draft, offering matching contacts as buttons.
+   *
+   * @param {Draft} draft - Draft with unresolved recipients
+   * @private
+   */
+  private async askForRecipient(draft: Draft): Promise<void> {
+    if (draft.chatId === undefined) {
+      return;
+    }
+
+    const { field, name, candidates } = draft.unresolvedRecipients[0];
+    const role = RECIPIENT_LABELS[field];
+
+    let question: string;
+    if (candidates.length > 0) {
+      question = `👥 Several contacts match "${name}". Who did you mean (${role})?`;
+    } else if (name) {
+      question = `❓ I couldn't find "${name}" (${role}) in your contacts. Reply with an email address or a contact name.`;
+    } else {
+      question =
+        '❓ Who should receive this email? Reply with an email address or a contact name.';
+    }
+
+    const message = await this.bot.telegram.sendMessage(
+      draft.chatId,
+      `${question}\n\n` +
+        this.formatEmail(draft.email, draft.unresolvedRecipients),
+      Markup.inlineKeyboard([
+        ...candidates.map((contact, index) => [
+          Markup.button.callback(
+            `${contact.name} <${contact.email}>`,
+            `draft:pick:${draft.id}:${index}`,
+          ),
+        ]),
+        [Markup.button.callback('❌ Cancel', `draft:cancel:${draft.id}`)],
+      ]),
+    );
+
+    this.draftService.update(draft.id, {
+      previewMessageId: message.message_id,
+    });
+  }
+
+  /**
+   * Asks the user for the parts of the email they did not say. The next message in the chat,
+   * typed or spoken, revises the draft with them.
+   *
+   * @param {Draft} draft - Draft with an empty subject or body
+   * @param {MissingField[]} missing - The empty parts
+   * @private
+   */
+  private async askForContent(
+    draft: Draft,
+    missing: MissingField[],
+  ): Promise<void> {
+    if (draft.chatId === undefined) {
+      return;
+    }
+
+    const question = missing
+      .map((field) => MISSING_FIELD_QUESTIONS[field])
+      .join(' and ');
+    const message = await this.bot.telegram.sendMessage(
+      draft.chatId,
+      `✍️ Tell me ${question}. Reply with text or a voice note.\n\n` +
+        this.formatEmail(draft.email),
+      Markup.inlineKeyboard([
+        [Markup.button.callback('❌ Cancel', `draft:cancel:${draft.id}`)],
+      ]),
+    );
+
+    this.draftService.update(draft.id, {
+      awaitingEdit: true,
+      previewMessageId: message.message_id,
+    });
+  }
+
+  /**
+   * Handles a contact button press on a recipient question.
+   *
+   * @param {Context} ctx - Telegram callback query context
+   * @param {string} draftId - Target draft ID
+   * @param {number} index - Index of the chosen candidate
+   * @private
+   */
+  private async handleRecipientPick(
+    ctx: Context,
+    draftId: string,
+    index: number,
+  ): Promise<void> {
+    const draft = ctx.chat && this.getOwnActiveDraft(ctx.chat.id, ctx.from?.id);
+    const contact =
+      draft?.id === draftId
+        ? draft.unresolvedRecipients[0]?.candidates[index]
+        : undefined;
+
+    if (!draft || !contact) {
+      await ctx.answerCbQuery('This question is no longer open.');
+      return;
+    }
+
+    await ctx.answerCbQuery();
+    await this.presentDraft(
+      this.draftService.resolveRecipient(draft.id, contact.email),
+    );
+  }
+
+  /**
+   * Resolves a typed answer to a recipient question: an email address or a contact name.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {Draft} draft - Draft with unresolved recipients
+   * @param {string} answer - The user's reply
+   * @private
+   */
+  private async answerRecipient(
+    ctx: Context,
+    draft: Draft,
+    answer: string,
+  ): Promise<void> {
+    if (answer.includes('@')) {
+      if (!EMAIL_PATTERN.test(answer)) {
+        await ctx.reply(`❌ "${answer}" is not a valid email address.`);
+        return;
+      }
+      await this.presentDraft(
+        this.draftService.resolveRecipient(draft.id, answer.toLowerCase()),
+      );
+      return;
+    }
+
+    const matches =
+      draft.userId !== undefined
+        ? this.contactService.search(draft.userId, answer)
+        : [];
+    if (matches.length === 1) {
+      await this.presentDraft(
+        this.draftService.resolveRecipient(draft.id, matches[0].email),
+      );
+      return;
+    }
+
+    const [current, ...remaining] = draft.unresolvedRecipients;
+    await this.presentDraft(
+      this.draftService.update(draft.id, {
+        unresolvedRecipients: [
+          { field: current.field, name: answer, candidates: matches },
+          ...remaining,
+        ],
+      }),
+    );
+  }
+
+  /**
+   * Formats an email for display in a Telegram message.
+   *
+   * Every recipient list is shown in full, with unresolved names marked so the user can check them before sending.
+   *
+   * @param {ExtractedEmail} email - Email to format
+   * @param {UnresolvedRecipient[]} unresolved - Recipients still awaiting clarification
+   * @returns {string} Human-readable email summary
+   * @private
+   */
+  private formatEmail(
+    email: ExtractedEmail,
+    unresolved: UnresolvedRecipient[] = [],
+  ): string {
+    const recipients = (field: RecipientField): string[] => [
+      ...(email[field] ?? []),
+      ...unresolved
+        .filter((r) => r.field === field)
+        .map((r) => `❓ ${r.name || '?'}`),
+    ];
+
+    const lines = [`📨 To: ${recipients('to').join(', ') || '❓'}`];
+    for (const field of ['cc', 'bcc'] as const) {
+      const list = recipients(field);
+      if (list.length > 0) {
+        lines.push(`👥 ${RECIPIENT_LABELS[field]}: ${list.join(', ')}`);
+      }
+    }
+
+    return (
+      lines.join('\n') +
+      '\n' +
+      `📝 Subject: ${email.subject || '❓'}\n\n` +
+      `📄 Body:\n${email.body || '❓'}`
+    );
+  }
+
+  /**
+   * Handles a Send / Edit / Cancel button press on a draft preview.
+   *
+   * @param {Context} ctx - Telegram callback query context
+   * @param {DraftAction} action - Requested action
+   * @param {string} draftId - Target draft ID
+   * @private
+   */
+  private async handleDraftAction(
+    ctx: Context,
+    action: DraftAction,
+    draftId: string,
+  ): Promise<void> {
+    let draft: Draft;
+    try {
+      draft = this.draftService.get(draftId);
+    } catch {
+      await ctx.answerCbQuery('This draft no longer exists.');
+      return;
+    }
+
+    if (draft.chatId !== ctx.chat?.id) {
+      await ctx.answerCbQuery('This draft belongs to another chat.');
+      return;
+    }
+
+    if (draft.userId !== ctx.from?.id) {
+      await ctx.answerCbQuery(
+        'Only the person who dictated this draft can use these buttons.',
+      );
+      return;
+    }
+
+    if (draft.status !== 'pending') {
+      await ctx.answerCbQuery(`This draft is already ${draft.status}.`);
+      await this.clearDraftKeyboard(draft);
+      return;
+    }
+
+    await ctx.answerCbQuery();
+
+    switch (action) {
+      case 'send':
+        await this.sendDraft(ctx, draft);
+        break;
+      case 'original':
+      case 'translated':
+        await this.sendDraft(
+          ctx,
+          this.draftService.update(draft.id, {
+            useTranslation: action === 'translated',
+          }),
+        );
+        break;
+      case 'cancel':
+        this.draftService.cancel(draft.id);
+        await this.clearDraftKeyboard(draft);
+        await ctx.reply('❌ Email cancelled.');
+        break;
+      case 'edit':
+        this.draftService.update(draft.id, { awaitingEdit: true });
+        await ctx.reply(
+          '✏️ What should I change? Reply with text or a voice note, for example:\n\n' +
+            '• "Change the subject to Q3 budget"\n' +
+            '• "Make it shorter"\n' +
+            '• "Add that I\'ll be late"',
+        );
+        break;
+      case 'recording':
+      case 'transcript': {
+        const updated = this.draftService.update(draft.id, {
+          attachments: {
+            ...draft.attachments,
+            [action]: !draft.attachments[action],
+          },
+        });
+        await ctx.editMessageReplyMarkup(
+          this.draftKeyboard(updated).reply_markup,
+        );
+        break;
+      }
+    }
+  }
+
+  /**
+   * Handles the /undo command by restoring the previous version of the chat's draft.
+   *
+   * @param {Context} ctx - Telegram context
+   * @private
+   */
+  private async handleUndo(ctx: Context): Promise<void> {
+    const draft = ctx.chat && this.getOwnActiveDraft(ctx.chat.id, ctx.from?.id);
+    if (!draft) {
+      await ctx.reply('ℹ️ You have no pending draft.');
+      return;
+    }
+
+    if (draft.revisions.length === 0) {
+      await ctx.reply('ℹ️ This draft has no earlier version.');
+      return;
+    }
+
+    await this.presentDraft(this.draftService.undo(draft.id));
+  }
+
+  /**
+   * Confirms a draft: resumes its voice job at the send stage, which sends it and reports the result.
+   * Drafts resent or forwarded from /history have no voice job and are queued right away.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {Draft} draft - Draft to send
+   * @private
+   */
+  private async sendDraft(ctx: Context, draft: Draft): Promise<void> {
+    await this.clearDraftKeyboard(draft);
+
+    const job = this.findDraftJob(draft.id);
+    if (!job) {
+      if (
+        draft.chatId === undefined ||
+        (await this.queueDraft(draft.chatId, draft)) !== 'queued'
+      ) {
+        return;
+      }
+    } else if (!this.jobService.resume(job.id, 'send')) {
+      await ctx.reply('ℹ️ This draft is already being sent.');
+      return;
+    }
+
+    if (draft.sendAt && draft.sendAt.getTime() > Date.now()) {
+      const when = formatInTimezone(
+        draft.sendAt,
+        this.preferenceService.getTimezone(draft.userId),
+      );
+      await ctx.reply(
+        `🕘 Your email will be sent ${when}. Use /scheduled to change or cancel it.`,
+      );
+      return;
+    }
+    await ctx.reply('📤 Sending your email...');
+  }
+
+  /**
+   * Disables the preview buttons of a finished draft and tells the chat about outcomes it did not trigger itself:
+   * delivery of the email, expiry, or a send / cancel made through the HTTP API.
+   *
+   * @param {Draft} draft - Finished draft
+   * @private
+   */
+  private async handleDraftFinished(draft: Draft): Promise<void> {
+    if (draft.chatId === undefined) {
+      return;
+    }
+
+    // Finish the voice job waiting for confirmation; a send started from Telegram finishes it itself
+    const job = this.findDraftJob(draft.id);
+    if (job?.status === 'waiting') {
+      if (draft.status === 'sent') {
+        this.jobService.complete(job.id);
+      } else {
+        this.jobService.cancel(job.id);
+      }
+    }
+
+    await this.clearDraftKeyboard(draft);
+
+    let notice: string | undefined;
+    if (draft.status === 'expired') {
+      notice = `⌛ Your draft "${draft.email.subject}" expired and was not sent.`;
+    } else if (draft.status === 'sent') {
+      notice =
+        draft.finishedVia === 'api'
+          ? `✅ Your draft "${draft.email.subject}" was sent from the web client.`
+          : this.describeDelivery(
+              draft.email.subject,
+              draft.email.to,
+              draft.delivery?.rejected ?? [],
+            );
+    } else if (draft.finishedVia === 'api' && !draft.outboxId) {
+      // A draft discarded from the outbox is confirmed by /outbox itself
+      notice = `❌ Your draft "${draft.email.subject}" was cancelled from the web client.`;
+    }
+
+    if (notice) {
+      await this.bot.telegram.sendMessage(draft.chatId, notice);
+    }
+  }
+
+  /**
+   * Translates a pending draft into the language it should be sent in, unless it already is.
+   * Dictated drafts nobody asked to translate take the language their recipients' contacts share.
+   * A failed translation is reported, and the draft is shown without it.
+   *
+   * @param {Draft} draft - Pending draft with a subject and body
+   * @returns {Promise<Draft>} The draft, with its translation if it has one
+   * @private
+   */
+  private async translateDraft(draft: Draft): Promise<Draft> {
+    if (
+      draft.translateTo === undefined &&
+      draft.userId !== undefined &&
+      draft.source?.language
+    ) {
+      const preferred = this.contactService.getPreferredLanguage(
+        draft.userId,
+        draft.email.to,
+      );
+      if (preferred) {
+        draft = this.draftService.update(draft.id, { translateTo: preferred });
+      }
+    }
+
+    const language = this.draftService.getPendingTranslation(draft);
+    if (!language) {
+      return draft;
+    }
+
+    try {
+      this.usageService.assertWithinQuota(draft.userId, 'tokens');
+      const response = await this.gptService.translateEmail(
+        draft.email,
+        language,
+      );
+      this.usageService.recordTokens(draft.userId, response);
+      return this.draftService.setTranslation(draft.id, {
+        language,
+        ...response.data,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to translate draft ${draft.id} into ${language}: ${(error as Error).message}`,
+      );
+      await this.bot.telegram.sendMessage(
+        draft.chatId!,
+        `❌ I couldn't translate your draft into ${getLanguageName(language)}` +
+          (error instanceof HttpException ? ` (${error.message})` : '') +
+          `. You can send it as written, or try /translate ${language} again.`,
+      );
+      return draft;
+    }
+  }
+
+  /**
+   * Describes a delivered email, including the recipients the server rejected.
+   *
+   * @param {string} subject - Email subject
+   * @param {string[]} to - Recipients
+   * @param {string[]} rejected - Rejected recipients
+   * @returns {string} Notice for the chat
+   * @private
+   */
+  private describeDelivery(
+    subject: string,
+    to: string[],
+    rejected: string[],
+  ): string {
+    let notice = `✅ Your email "${subject}" was sent to ${to.join(', ')}.`;
+    if (rejected.length > 0) {
+      notice += `\n⚠️ The mail server rejected: ${rejected.join(', ')}`;
+    }
+    return notice;
+  }
+
+  /**
+   * Finds the voice job a draft was created by.
+   *
+   * @param {string} draftId - Draft ID
+   * @returns {Job<VoiceJobPayload> | undefined} The job, if still kept
+   * @private
+   */
+  private findDraftJob(draftId: string): Job<VoiceJobPayload> | undefined {
+    return this.jobService.find<VoiceJobPayload>(
+      VOICE_JOB,
+      (job) => job.payload.draftId === draftId,
+    );
+  }
+}
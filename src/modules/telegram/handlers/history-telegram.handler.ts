@@ -0,0 +1,358 @@
+import { Injectable, Inject, HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Telegraf, Context, Markup } from 'telegraf';
+import {
+  HistoryService,
+  HistoryEntry,
+  ReuseMode,
+} from '../../history/history.service';
+import { InboxService } from '../../inbox/inbox.service';
+import { PreferenceService } from '../../preference/preference.service';
+import { AccessService, Role } from '../../access/access.service';
+import { JobService } from '../../job/job.service';
+import { DraftService, Draft } from '../../draft/draft.service';
+import { OutboxService } from '../../outbox/outbox.service';
+import { formatInTimezone } from '../../preference/timezone';
+import { TELEGRAM_BOT } from '../telegram.constants';
+import { VOICE_JOB, VoiceJobPayload } from '../voice-job';
+import { TelegramHandler } from './telegram-handler.interface';
+import { DraftTelegramHandler } from './draft-telegram.handler';
+import { TranscriptionTelegramHandler } from './transcription-telegram.handler';
+
+/** Longest excerpt of a transcript or email body shown in /history and /search */
+const HISTORY_EXCERPT_CHARS = 120;
+
+/** Icons of the kinds of history entries */
+const HISTORY_ICONS: Record<HistoryEntry['kind'], string> = {
+  transcript: '🎙️',
+  draft: '📝',
+  email: '📧',
+};
+
+/**
+ * Handler of the user's history: /history, /search, resending or forwarding old emails, and /forget.
+ *
+ * @class HistoryTelegramHandler
+ * @implements {TelegramHandler}
+ */
+@Injectable()
+export class HistoryTelegramHandler implements TelegramHandler {
+  readonly callbackRoles: Record<string, Role> = { reuse: 'sender' };
+
+  /**
+   * Creates an instance of HistoryTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {ConfigService} configService - Service for accessing configuration values
+   * @param {HistoryService} historyService - Per-user history of transcripts, drafts and sent emails
+   * @param {InboxService} inboxService - Service keeping the emails relayed to users
+   * @param {PreferenceService} preferenceService - Timezones entries are shown in
+   * @param {AccessService} accessService - Service deciding who may resend and forward emails
+   * @param {JobService} jobService - Queue keeping finished voice jobs
+   * @param {DraftService} draftService - Service keeping finished drafts
+   * @param {OutboxService} outboxService - Outbox keeping sent emails
+   * @param {DraftTelegramHandler} drafts - Handler showing the drafts made from old emails
+   * @param {TranscriptionTelegramHandler} transcriptions - Handler keeping transcriptions for export
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private configService: ConfigService,
+    private historyService: HistoryService,
+    private inboxService: InboxService,
+    private preferenceService: PreferenceService,
+    private accessService: AccessService,
+    private jobService: JobService,
+    private draftService: DraftService,
+    private outboxService: OutboxService,
+    private drafts: DraftTelegramHandler,
+    private transcriptions: TranscriptionTelegramHandler,
+  ) {}
+
+  register(): void {
+    this.bot.command('history', async (ctx) => {
+      await this.handleHistory(ctx, 0);
+    });
+
+    this.bot.command('search', async (ctx) => {
+      await this.handleSearch(ctx, ctx.payload);
+    });
+
+    this.bot.command('forget', async (ctx) => {
+      await ctx.reply(
+        '🧹 Delete your history: every transcript, finished draft and sent email I keep, and the emails I relayed to you? ' +
+          'Your account, contacts, settings, notes and to-do items stay, and so do the draft you are working on and ' +
+          'the emails waiting in /outbox.',
+        Markup.inlineKeyboard([
+          [
+            Markup.button.callback('🗑 Delete it', 'forget:confirm'),
+            Markup.button.callback('↩️ Keep it', 'forget:keep'),
+          ],
+        ]),
+      );
+    });
+
+    this.bot.action(/^history:(\d+)$/, async (ctx) => {
+      await ctx.answerCbQuery();
+      await this.handleHistory(ctx, Number(ctx.match[1]));
+    });
+
+    this.bot.action(/^reuse:(resend|forward):(.+)$/, async (ctx) => {
+      const [, mode, entryId] = ctx.match;
+      await this.handleReuse(ctx, mode as ReuseMode, entryId);
+    });
+
+    this.bot.action(/^forget:(confirm|keep)$/, async (ctx) => {
+      await ctx.answerCbQuery();
+      await ctx.editMessageReplyMarkup(undefined);
+      await this.handleForget(ctx, ctx.match[1] === 'confirm');
+    });
+  }
+
+  /**
+   * Handles the /history command and its page buttons: lists what the user said and sent, newest first,
+   * with buttons to resend or forward the emails and drafts of the page.
+   *
+   * @param {Context} ctx - Telegram context; a page button edits its own message
+   * @param {number} page - Zero-based page number
+   * @private
+   */
+  private async handleHistory(ctx: Context, page: number): Promise<void> {
+    if (!ctx.from || !ctx.chat) {
+      return;
+    }
+
+    const history = this.historyService.list(ctx.from.id, page);
+    if (history.total === 0) {
+      await ctx.reply(
+        '🗂 Your history is empty. Transcripts, drafts and sent emails show up here.',
+      );
+      return;
+    }
+
+    const timezone = this.preferenceService.getTimezone(ctx.from.id);
+    const { entries, offset } = history;
+    const text =
+      `🗂 Your history (page ${history.page + 1} of ${history.pages}):\n\n` +
+      entries
+        .map((entry, index) =>
+          this.formatHistoryEntry(entry, offset + index + 1, timezone),
+        )
+        .join('\n\n') +
+      `\n\n🧹 Kept for ${this.configService.get<number>('HISTORY_RETENTION_DAYS', 90)} days. /forget deletes it now.`;
+
+    const rows = this.reuseButtons(ctx.from.id, ctx.chat.id, entries, offset);
+    const navigation = [
+      Markup.button.callback(
+        '⬅️ Newer',
+        `history:${history.page - 1}`,
+        history.page === 0,
+      ),
+      Markup.button.callback(
+        'Older ➡️',
+        `history:${history.page + 1}`,
+        history.page === history.pages - 1,
+      ),
+    ].filter((button) => !button.hide);
+    const keyboard = Markup.inlineKeyboard(
+      navigation.length > 0 ? [...rows, navigation] : rows,
+    );
+
+    if (ctx.callbackQuery) {
+      await ctx.editMessageText(text, keyboard);
+    } else {
+      await ctx.reply(text, keyboard);
+    }
+  }
+
+  /**
+   * Handles the /search command: lists the user's transcripts and emails containing every word, newest first.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} query - Words to search for
+   * @private
+   */
+  private async handleSearch(ctx: Context, query: string): Promise<void> {
+    if (!ctx.from || !ctx.chat) {
+      return;
+    }
+    if (!query.trim()) {
+      await ctx.reply(
+        '🔎 What should I look for? Send /search followed by some words, e.g. /search budget Anna.',
+      );
+      return;
+    }
+
+    const { entries, total } = this.historyService.search(ctx.from.id, query);
+    if (total === 0) {
+      await ctx.reply(`🔎 Nothing in your history mentions "${query.trim()}".`);
+      return;
+    }
+
+    const timezone = this.preferenceService.getTimezone(ctx.from.id);
+    await ctx.reply(
+      `🔎 ${total === 1 ? '1 match' : `${total} matches`}` +
+        (total > entries.length ? `, the newest ${entries.length}` : '') +
+        ':\n\n' +
+        entries
+          .map((entry, index) =>
+            this.formatHistoryEntry(entry, index + 1, timezone),
+          )
+          .join('\n\n'),
+      Markup.inlineKeyboard(
+        this.reuseButtons(ctx.from.id, ctx.chat.id, entries, 0),
+      ),
+    );
+  }
+
+  /**
+   * Builds the Resend / Forward buttons of the emails and drafts in a list of history entries.
+   * Users who cannot send emails get none.
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {number} chatId - Telegram chat ID
+   * @param {HistoryEntry[]} entries - Listed entries
+   * @param {number} offset - How many entries come before the first one in the list
+   * @returns One row of buttons per email or draft
+   * @private
+   */
+  private reuseButtons(
+    userId: number,
+    chatId: number,
+    entries: HistoryEntry[],
+    offset: number,
+  ) {
+    if (!this.accessService.can(userId, chatId, 'sender')) {
+      return [];
+    }
+    return entries
+      .map((entry, index) => ({ entry, number: offset + index + 1 }))
+      .filter(({ entry }) => entry.email)
+      .map(({ entry, number }) => [
+        Markup.button.callback(
+          `🔁 Resend ${number}`,
+          `reuse:resend:${entry.id}`,
+        ),
+        Markup.button.callback(
+          `↪️ Forward ${number}`,
+          `reuse:forward:${entry.id}`,
+        ),
+      ]);
+  }
+
+  /**
+   * Formats a history entry as a numbered item of /history or /search.
+   *
+   * @param {HistoryEntry} entry - Entry to format
+   * @param {number} number - Its number in the list
+   * @param {string} timezone - Timezone its time is shown in
+   * @returns {string} The item
+   * @private
+   */
+  private formatHistoryEntry(
+    entry: HistoryEntry,
+    number: number,
+    timezone: string,
+  ): string {
+    const excerpt = (text: string) => {
+      const line = text.replace(/\s+/g, ' ').trim();
+      return line.length > HISTORY_EXCERPT_CHARS
+        ? `${line.slice(0, HISTORY_EXCERPT_CHARS - 1)}…`
+        : line;
+    };
+    const heading = `${number}. ${HISTORY_ICONS[entry.kind]} ${formatInTimezone(new Date(entry.createdAt), timezone)}`;
+
+    if (!entry.email) {
+      return `${heading}\n   "${excerpt(entry.transcript ?? '')}"`;
+    }
+
+    const to = entry.email.to.join(', ') || '❓';
+    const outcome =
+      entry.kind === 'email'
+        ? `Sent to ${to}` + (entry.messageId ? ` (${entry.messageId})` : '')
+        : `Draft to ${to}, ${entry.status}`;
+    return (
+      `${heading}\n   ${outcome}\n` +
+      `   📝 ${entry.email.subject || '❓'}\n` +
+      `   "${excerpt(entry.email.body)}"`
+    );
+  }
+
+  /**
+   * Handles a Resend / Forward button press under /history or /search: makes a new draft from the old email,
+   * addressed to the same recipients or asking who to forward it to.
+   *
+   * @param {Context} ctx - Telegram callback query context
+   * @param {ReuseMode} mode - Resend or forward
+   * @param {string} entryId - History entry ID
+   * @private
+   */
+  private async handleReuse(
+    ctx: Context,
+    mode: ReuseMode,
+    entryId: string,
+  ): Promise<void> {
+    if (!ctx.from || !ctx.chat) {
+      return;
+    }
+
+    let created: { draft: Draft; replaced?: Draft };
+    try {
+      created = this.historyService.reuse(
+        ctx.from.id,
+        ctx.chat.id,
+        entryId,
+        mode,
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        await ctx.answerCbQuery(`${error.message}.`);
+        return;
+      }
+      throw error;
+    }
+
+    await ctx.answerCbQuery();
+    if (created.replaced) {
+      await this.drafts.clearDraftKeyboard(created.replaced);
+    }
+    await this.drafts.presentDraft(created.draft);
+  }
+
+  /**
+   * Answers the /forget confirmation: deletes the user's history, the emails relayed to them, their finished
+   * voice jobs, drafts and sent emails, and the transcriptions kept for export in their private chat.
+   *
+   * @param {Context} ctx - Telegram callback query context
+   * @param {boolean} confirmed - Whether the user chose to delete
+   * @private
+   */
+  private async handleForget(ctx: Context, confirmed: boolean): Promise<void> {
+    if (!ctx.from) {
+      return;
+    }
+    if (!confirmed) {
+      await ctx.reply('👍 Nothing was deleted.');
+      return;
+    }
+
+    const userId = ctx.from.id;
+    const entries = this.historyService.forget(userId);
+    const emails = this.inboxService.forget(userId);
+    // Transcripts and email bodies are also kept in the voice jobs, the drafts and the outbox
+    this.jobService.removeFinished<VoiceJobPayload>(
+      VOICE_JOB,
+      (job) => job.payload.userId === userId,
+    );
+    this.draftService.forget(userId);
+    this.outboxService.forget(userId);
+    // A private chat has the user's ID
+    this.transcriptions.forgetTranscriptions(userId);
+    await ctx.reply(
+      `🧹 Deleted ${entries === 1 ? '1 history entry' : `${entries} history entries`}` +
+        (emails > 0
+          ? ` and ${emails === 1 ? '1 relayed email' : `${emails} relayed emails`}`
+          : '') +
+        '.',
+    );
+  }
+}
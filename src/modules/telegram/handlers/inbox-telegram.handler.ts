@@ -0,0 +1,190 @@
+import {
+  Injectable,
+  Inject,
+  OnModuleInit,
+  HttpException,
+} from '@nestjs/common';
+import { Telegraf, Context } from 'telegraf';
+import { InboxService, InboundEmail } from '../../inbox/inbox.service';
+import { AccountService } from '../../account/account.service';
+import { findSmtpPreset } from '../../account/smtp-presets';
+import { PreferenceService } from '../../preference/preference.service';
+import { AccessService, Role } from '../../access/access.service';
+import { formatInTimezone } from '../../preference/timezone';
+import { TELEGRAM_BOT, MAIL_SERVER_PATTERN } from '../telegram.constants';
+import { TelegramHandler } from './telegram-handler.interface';
+
+/** IMAP port over TLS, used when /inbox is given a server without a port */
+const IMAPS_PORT = 993;
+
+/** Longest part of an email body shown when it could not be summarized */
+const RELAYED_BODY_PREVIEW_CHARS = 500;
+
+/**
+ * Handler of the mail relayed to users: /inbox connects their mailbox, and new emails are sent to the chat.
+ * Voice replies to a relayed email are drafted by the voice pipeline (see VoiceTelegramHandler).
+ *
+ * @class InboxTelegramHandler
+ * @implements {TelegramHandler}
+ * @implements {OnModuleInit}
+ */
+@Injectable()
+export class InboxTelegramHandler implements TelegramHandler, OnModuleInit {
+  readonly commandRoles: Record<string, Role> = { inbox: 'sender' };
+
+  /**
+   * Creates an instance of InboxTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {InboxService} inboxService - Service relaying new mail and drafting replies to it
+   * @param {AccountService} accountService - Service managing the accounts whose mailboxes are read
+   * @param {PreferenceService} preferenceService - Timezones times are shown in
+   * @param {AccessService} accessService - Service deciding who still gets their mail relayed
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private inboxService: InboxService,
+    private accountService: AccountService,
+    private preferenceService: PreferenceService,
+    private accessService: AccessService,
+  ) {}
+
+  /**
+   * Lifecycle hook that relays the new emails of connected mailboxes.
+   */
+  onModuleInit() {
+    this.inboxService.onMessage((email) => this.relayInboundEmail(email));
+  }
+
+  register(): void {
+    this.bot.command('inbox', async (ctx) => {
+      await this.handleInbox(ctx, ctx.payload);
+    });
+  }
+
+  /**
+   * Handles the /inbox command: shows whether new mail is relayed to the chat, connects the mailbox of the
+   * user's linked account ("on" for their provider's server, or host:port), or stops relaying it ("off").
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - "on", "off", host:port, or nothing to show the status
+   * @private
+   */
+  private async handleInbox(ctx: Context, args: string): Promise<void> {
+    if (!ctx.from || !ctx.chat) {
+      return;
+    }
+
+    const choice = args.trim().toLowerCase();
+    if (choice === 'off') {
+      await ctx.reply(
+        this.inboxService.disconnect(ctx.from.id)
+          ? '🔕 New emails are no longer relayed here.'
+          : 'ℹ️ Your inbox is not connected.',
+      );
+      return;
+    }
+
+    if (!choice) {
+      const mailbox = this.inboxService.get(ctx.from.id);
+      if (!mailbox) {
+        await ctx.reply(
+          '📭 Your inbox is not connected.\n' +
+            'Use /inbox on to get new emails here, or /inbox host:port if your provider is not recognized, e.g. /inbox imap.example.com:993.',
+        );
+        return;
+      }
+      const timezone = this.preferenceService.getTimezone(ctx.from.id);
+      await ctx.reply(
+        `📥 New emails to ${mailbox.user} (${mailbox.host}:${mailbox.port}) are relayed ` +
+          (mailbox.chatId === ctx.chat.id
+            ? 'here'
+            : 'to the chat you connected it in') +
+          '.\n' +
+          (mailbox.lastError
+            ? `⚠️ The last check failed: ${mailbox.lastError}\n`
+            : mailbox.lastPolledAt
+              ? `🕘 Last checked ${formatInTimezone(mailbox.lastPolledAt, timezone)}\n`
+              : '') +
+          'Reply to a relayed email with a voice message to answer it. Use /inbox off to stop.',
+      );
+      return;
+    }
+
+    if (ctx.chat.type !== 'private') {
+      await ctx.reply(
+        '🔒 Your emails are private, so please use /inbox in a private chat with me.',
+      );
+      return;
+    }
+
+    const account = this.accountService.get(ctx.from.id);
+    const preset = account ? findSmtpPreset(account.user) : undefined;
+    const match = MAIL_SERVER_PATTERN.exec(choice);
+    let server: { host: string; port: number };
+    if (choice === 'on' && preset) {
+      server = preset.imap;
+    } else if (match && Number(match[2] ?? IMAPS_PORT) <= 65535) {
+      server = { host: match[1], port: Number(match[2] ?? IMAPS_PORT) };
+    } else {
+      await ctx.reply(
+        choice === 'on'
+          ? "🖥️ I don't know the incoming (IMAP) server of your provider. Send it as /inbox host:port, e.g. /inbox imap.example.com:993."
+          : '❌ Please send the server as /inbox host:port, e.g. /inbox imap.example.com:993.',
+      );
+      return;
+    }
+
+    await ctx.reply(`⏳ Signing in to ${server.host}...`);
+    try {
+      // Port 993 speaks TLS from the start; the others upgrade with STARTTLS when offered
+      const mailbox = await this.inboxService.connect(
+        ctx.from.id,
+        ctx.chat.id,
+        { ...server, secure: server.port === IMAPS_PORT },
+      );
+      await ctx.reply(
+        `✅ New emails to ${mailbox.user} will be relayed here with a summary. ` +
+          'Reply to one with a voice message to answer it. Use /inbox off to stop.',
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        await ctx.reply(`❌ ${error.message}.`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Relays a new email to the chat its mailbox was connected in, with its summary.
+   * Users who lost the sender role get nothing.
+   *
+   * @param {InboundEmail} email - The new email
+   * @private
+   */
+  private async relayInboundEmail(email: InboundEmail): Promise<void> {
+    if (!this.accessService.can(email.userId, email.chatId, 'sender')) {
+      return;
+    }
+
+    const timezone = this.preferenceService.getTimezone(email.userId);
+    const sender = email.from.name
+      ? `${email.from.name} <${email.from.address}>`
+      : email.from.address;
+    const content = email.summary
+      ? `📝 ${email.summary}`
+      : email.body.length > RELAYED_BODY_PREVIEW_CHARS
+        ? `${email.body.slice(0, RELAYED_BODY_PREVIEW_CHARS)}…`
+        : email.body || '(no text)';
+    const message = await this.bot.telegram.sendMessage(
+      email.chatId,
+      `📥 New email from ${sender}\n` +
+        `📌 ${email.subject}\n` +
+        `🕘 ${formatInTimezone(new Date(email.receivedAt), timezone)}\n\n` +
+        `${content}\n\n` +
+        '↩️ Reply to this message with a voice message to answer it.',
+    );
+    this.inboxService.markRelayed(email.id, message.message_id);
+  }
+}
@@ -0,0 +1,202 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { Telegraf, Context, Markup } from 'telegraf';
+import { IntentService, IntentRouting } from '../../intent/intent.service';
+import { IntentPreview } from '../../intent/handlers/intent-handler.interface';
+import { PreferenceService } from '../../preference/preference.service';
+import { UsageService } from '../../usage/usage.service';
+import { Role } from '../../access/access.service';
+import { TranscriptionResult } from '../../whisper/whisper.service';
+import { isTransientError } from '../../job/transient-error';
+import { TELEGRAM_BOT } from '../telegram.constants';
+import { TelegramHandler } from './telegram-handler.interface';
+
+/**
+ * Handler of what transcripts are routed to besides emails: meetings, to-do items and notes.
+ * Shows the previews intent handlers make, with their buttons, and registers their list commands.
+ *
+ * @class IntentTelegramHandler
+ * @implements {TelegramHandler}
+ */
+@Injectable()
+export class IntentTelegramHandler implements TelegramHandler {
+  readonly callbackRoles: Record<string, Role> = { intent: 'sender' };
+
+  private readonly logger = new Logger(IntentTelegramHandler.name);
+
+  /**
+   * Creates an instance of IntentTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {IntentService} intentService - Registry routing transcripts to emails, meetings, to-dos and notes
+   * @param {PreferenceService} preferenceService - Timezones spoken times are read in
+   * @param {UsageService} usageService - Ledger of the tokens routing uses
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private intentService: IntentService,
+    private preferenceService: PreferenceService,
+    private usageService: UsageService,
+  ) {}
+
+  /**
+   * The commands of intent handlers need the sender role, like the intents themselves.
+   */
+  get commandRoles(): Record<string, Role> {
+    return Object.fromEntries(
+      this.intentService
+        .list()
+        .filter((handler) => handler.command)
+        .map((handler) => [handler.command!, 'sender' as const]),
+    );
+  }
+
+  register(): void {
+    for (const handler of this.intentService.list()) {
+      if (handler.command && handler.list) {
+        this.bot.command(handler.command, async (ctx) => {
+          await ctx.reply(
+            handler.list!(
+              ctx.from.id,
+              this.preferenceService.getTimezone(ctx.from.id),
+            ),
+          );
+        });
+      }
+    }
+
+    this.bot.action(/^intent:([a-z]+):([a-z]+):(.+)$/, async (ctx) => {
+      const [, name, action, id] = ctx.match;
+      await this.handleIntentAction(ctx, name, action, id);
+    });
+  }
+
+  /**
+   * Routes a transcription to the intent it has: an email, a meeting, a to-do item, a note...
+   *
+   * @param {number} userId - Telegram user ID
+   * @param {number} chatId - Telegram chat ID
+   * @param {TranscriptionResult} transcription - The transcription
+   * @param {string} [audioPath] - Original recording, which a draft takes over
+   * @returns {Promise<IntentRouting | null>} What the transcription was routed to, or null if it asks for nothing
+   * @throws {Error} If GPT cannot be reached, so the stage is retried
+   */
+  async routeTranscription(
+    userId: number,
+    chatId: number,
+    transcription: TranscriptionResult,
+    audioPath?: string,
+  ): Promise<IntentRouting | null> {
+    const { text, language } = transcription;
+    try {
+      const response = await this.intentService.route({
+        userId,
+        chatId,
+        transcript: text,
+        language,
+        timezone: this.preferenceService.getTimezone(userId),
+        audioPath,
+      });
+      this.usageService.recordTokens(userId, response);
+      return response.data;
+    } catch (routeError) {
+      // Rate limits and outages are retried; anything else means the message holds less than it seemed
+      if (isTransientError(routeError)) {
+        throw routeError;
+      }
+      this.logger.debug(
+        `Nothing extracted from the message: ${(routeError as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Sends the preview of an item an intent handler made, with the handler's buttons.
+   *
+   * @param {number} chatId - Telegram chat ID
+   * @param {string} name - Name of the intent handler
+   * @param {IntentPreview} preview - Preview to send
+   */
+  async presentIntentPreview(
+    chatId: number,
+    name: string,
+    preview: IntentPreview,
+  ): Promise<void> {
+    await this.bot.telegram.sendMessage(
+      chatId,
+      preview.text,
+      this.intentKeyboard(name, preview),
+    );
+  }
+
+  /**
+   * Tells the chat that a message asked for none of the intents, listing what it could have asked for.
+   *
+   * @param {number} chatId - Telegram chat ID
+   */
+  async presentNothingFound(chatId: number): Promise<void> {
+    const labels = this.intentService.list().map((handler) => handler.label);
+    await this.bot.telegram.sendMessage(
+      chatId,
+      `🤷 I didn't find anything to do in this message. I can make ${labels.slice(0, -1).join(', ')} or ${labels.slice(-1)[0]}.`,
+    );
+  }
+
+  /**
+   * Builds the inline keyboard of an intent preview; its buttons call back as "intent:<name>:<action>:<id>".
+   *
+   * @param {string} name - Name of the intent handler
+   * @param {IntentPreview} preview - Preview with its buttons
+   * @returns The inline keyboard markup
+   * @private
+   */
+  private intentKeyboard(name: string, preview: IntentPreview) {
+    return Markup.inlineKeyboard(
+      (preview.buttons ?? []).map((row) =>
+        row.map((button) =>
+          Markup.button.callback(
+            button.label,
+            `intent:${name}:${button.action}:${preview.id}`,
+          ),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Handles a button press under an intent preview, replacing the preview with the handler's answer.
+   *
+   * @param {Context} ctx - Telegram callback query context
+   * @param {string} name - Name of the intent handler
+   * @param {string} action - Action of the button
+   * @param {string} id - Item the preview is about
+   * @private
+   */
+  private async handleIntentAction(
+    ctx: Context,
+    name: string,
+    action: string,
+    id: string,
+  ): Promise<void> {
+    const handler = this.intentService.get(name);
+    if (!ctx.from || !ctx.chat || !handler?.handleAction) {
+      await ctx.answerCbQuery('This button no longer works.');
+      return;
+    }
+
+    let preview: IntentPreview;
+    try {
+      preview = handler.handleAction(action, id, {
+        userId: ctx.from.id,
+        chatId: ctx.chat.id,
+        timezone: this.preferenceService.getTimezone(ctx.from.id),
+      });
+    } catch (error) {
+      await ctx.answerCbQuery((error as Error).message);
+      return;
+    }
+
+    await ctx.answerCbQuery();
+    await ctx.editMessageText(preview.text, this.intentKeyboard(name, preview));
+  }
+}
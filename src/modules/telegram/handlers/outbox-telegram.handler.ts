@@ -0,0 +1,397 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleInit,
+  HttpException,
+} from '@nestjs/common';
+import { Telegraf, Context, Markup } from 'telegraf';
+import {
+  OutboxService,
+  OutboxEntry,
+  OutboxEvent,
+} from '../../outbox/outbox.service';
+import { GptService } from '../../gpt/gpt.service';
+import { PreferenceService } from '../../preference/preference.service';
+import { UsageService } from '../../usage/usage.service';
+import { Role } from '../../access/access.service';
+import { formatInTimezone } from '../../preference/timezone';
+import { TELEGRAM_BOT } from '../telegram.constants';
+import { TelegramHandler, TextContext } from './telegram-handler.interface';
+
+/** Actions available on the /scheduled list */
+type ScheduledAction = 'now' | 'reschedule' | 'cancel';
+
+/**
+ * Handler of the emails waiting to be sent: /outbox with its retries and failures, and /scheduled
+ * with sending now, rescheduling and cancelling.
+ *
+ * @class OutboxTelegramHandler
+ * @implements {TelegramHandler}
+ * @implements {OnModuleInit}
+ */
+@Injectable()
+export class OutboxTelegramHandler implements TelegramHandler, OnModuleInit {
+  readonly commandRoles: Record<string, Role> = {
+    outbox: 'sender',
+    scheduled: 'sender',
+  };
+  readonly callbackRoles: Record<string, Role> = {
+    outbox: 'sender',
+    scheduled: 'sender',
+  };
+
+  private readonly logger = new Logger(OutboxTelegramHandler.name);
+  /** Outbox entries awaiting a new send time, keyed by "chatId:messageId" of the question */
+  private readonly reschedulePrompts = new Map<string, string>();
+
+  /**
+   * Creates an instance of OutboxTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {OutboxService} outboxService - Outbox delivering confirmed emails
+   * @param {GptService} gptService - Service reading new send times
+   * @param {PreferenceService} preferenceService - Timezones send times are read and shown in
+   * @param {UsageService} usageService - Ledger of the tokens reading send times uses
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private outboxService: OutboxService,
+    private gptService: GptService,
+    private preferenceService: PreferenceService,
+    private usageService: UsageService,
+  ) {}
+
+  /**
+   * Lifecycle hook that follows the deliveries of the outbox.
+   */
+  onModuleInit() {
+    this.outboxService.onEvent((entry, event) =>
+      this.handleOutboxEvent(entry, event),
+    );
+  }
+
+  register(): void {
+    this.bot.command('outbox', async (ctx) => {
+      await this.handleOutbox(ctx);
+    });
+
+    this.bot.command('scheduled', async (ctx) => {
+      await this.handleScheduled(ctx);
+    });
+
+    this.bot.action(/^outbox:(retry|discard):(.+)$/, async (ctx) => {
+      const [, action, entryId] = ctx.match;
+      await this.handleOutboxAction(
+        ctx,
+        action as 'retry' | 'discard',
+        entryId,
+      );
+    });
+
+    this.bot.action(/^scheduled:(now|reschedule|cancel):(.+)$/, async (ctx) => {
+      const [, action, entryId] = ctx.match;
+      await this.handleScheduledAction(ctx, action as ScheduledAction, entryId);
+    });
+  }
+
+  /**
+   * Reads a new send time from a reply to a reschedule question.
+   *
+   * @param {TextContext} ctx - Telegram context with text message
+   * @returns {Promise<boolean>} False if the message does not answer a reschedule question
+   */
+  async handleText(ctx: TextContext): Promise<boolean> {
+    const replyTo = ctx.message.reply_to_message?.message_id;
+    const key = `${ctx.message.chat.id}:${replyTo}`;
+    const entryId =
+      replyTo !== undefined ? this.reschedulePrompts.get(key) : undefined;
+    if (!entryId) {
+      return false;
+    }
+
+    const timezone = this.preferenceService.getTimezone(ctx.from?.id);
+    try {
+      const parsed = await this.gptService.parseSendTime(
+        ctx.message.text,
+        undefined,
+        { timezone },
+      );
+      this.usageService.recordTokens(ctx.from?.id, parsed);
+      const sendAt = parsed.data;
+      if (!sendAt) {
+        await ctx.reply(
+          '❌ I couldn\'t find a future time in that. Reply to my question again with something like "tomorrow at 9am".',
+        );
+        return true;
+      }
+
+      const entry = this.outboxService.reschedule(entryId, sendAt);
+      this.reschedulePrompts.delete(key);
+      await ctx.reply(
+        `🕘 "${entry.email.subject}" will now be sent ${formatInTimezone(sendAt, timezone)}.`,
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        this.reschedulePrompts.delete(key);
+        await ctx.reply(`ℹ️ ${error.message}`);
+        return true;
+      }
+      this.logger.error(
+        `Failed to reschedule outbox entry ${entryId}: ${(error as Error).message}`,
+      );
+      await ctx.reply("❌ I couldn't read that time. Please try again.");
+    }
+    return true;
+  }
+
+  /**
+   * Handles the /outbox command: lists the user's emails that are not delivered yet,
+   * with buttons to retry dead ones and discard the ones not being sent.
+   *
+   * @param {Context} ctx - Telegram context
+   * @private
+   */
+  private async handleOutbox(ctx: Context): Promise<void> {
+    const entries = ctx.from
+      ? this.outboxService
+          .list(ctx.from.id)
+          .filter((entry) => entry.status !== 'scheduled')
+      : [];
+    if (entries.length === 0) {
+      await ctx.reply(
+        '📭 Your outbox is empty. All your emails have been delivered.',
+      );
+      return;
+    }
+
+    const lines = entries.map((entry, index) => {
+      let line = `${index + 1}. "${entry.email.subject}" to ${entry.email.to.join(', ')}\n   ${this.describeOutboxStatus(entry)}`;
+      if (entry.lastError) {
+        line += `\n   Last error: ${entry.lastError}`;
+      }
+      return line;
+    });
+
+    const rows = entries
+      .map((entry, index) => [
+        Markup.button.callback(
+          `🔁 Retry ${index + 1}`,
+          `outbox:retry:${entry.id}`,
+          entry.status !== 'dead',
+        ),
+        Markup.button.callback(
+          `🗑 Discard ${index + 1}`,
+          `outbox:discard:${entry.id}`,
+          entry.status === 'sending',
+        ),
+      ])
+      .filter((row) => row.some((button) => !button.hide));
+
+    await ctx.reply(
+      '📤 Your outbox:\n\n' + lines.join('\n\n'),
+      Markup.inlineKeyboard(rows),
+    );
+  }
+
+  /**
+   * Handles a Retry / Discard button press under the /outbox list.
+   *
+   * @param {Context} ctx - Telegram callback query context
+   * @param {'retry' | 'discard'} action - Requested action
+   * @param {string} entryId - Outbox entry ID
+   * @private
+   */
+  private async handleOutboxAction(
+    ctx: Context,
+    action: 'retry' | 'discard',
+    entryId: string,
+  ): Promise<void> {
+    let entry: OutboxEntry;
+    try {
+      entry = this.outboxService.get(entryId);
+      if (entry.userId !== ctx.from?.id) {
+        await ctx.answerCbQuery('This email is not yours.');
+        return;
+      }
+      entry =
+        action === 'retry'
+          ? this.outboxService.retry(entryId)
+          : this.outboxService.discard(entryId);
+    } catch (error) {
+      await ctx.answerCbQuery((error as Error).message);
+      return;
+    }
+
+    await ctx.answerCbQuery();
+    await ctx.reply(
+      action === 'retry'
+        ? `🔁 Sending "${entry.email.subject}" again...`
+        : `🗑 "${entry.email.subject}" was removed from your outbox and will not be sent.`,
+    );
+  }
+
+  /**
+   * Handles the /scheduled command: lists the user's emails waiting for their send time,
+   * with buttons to send them now, pick another time or cancel them.
+   *
+   * @param {Context} ctx - Telegram context
+   * @private
+   */
+  private async handleScheduled(ctx: Context): Promise<void> {
+    const entries = ctx.from
+      ? this.outboxService
+          .list(ctx.from.id)
+          .filter((entry) => entry.status === 'scheduled')
+      : [];
+    if (!ctx.from || entries.length === 0) {
+      await ctx.reply(
+        '🕘 You have no scheduled emails. Say when to send one, e.g. "send it tomorrow at 9am".',
+      );
+      return;
+    }
+
+    const timezone = this.preferenceService.getTimezone(ctx.from.id);
+    const lines = entries.map(
+      (entry, index) =>
+        `${index + 1}. "${entry.email.subject}" to ${entry.email.to.join(', ')}\n` +
+        `   🕘 ${formatInTimezone(entry.sendAt!, timezone)}`,
+    );
+    const rows = entries.map((entry, index) => [
+      Markup.button.callback(
+        `🚀 Now ${index + 1}`,
+        `scheduled:now:${entry.id}`,
+      ),
+      Markup.button.callback(
+        `⏰ Reschedule ${index + 1}`,
+        `scheduled:reschedule:${entry.id}`,
+      ),
+      Markup.button.callback(
+        `🗑 Cancel ${index + 1}`,
+        `scheduled:cancel:${entry.id}`,
+      ),
+    ]);
+
+    await ctx.reply(
+      '🕘 Your scheduled emails:\n\n' + lines.join('\n\n'),
+      Markup.inlineKeyboard(rows),
+    );
+  }
+
+  /**
+   * Handles a Now / Reschedule / Cancel button press under the /scheduled list.
+   * Rescheduling asks for the new time, which is read from the reply (see handleText).
+   *
+   * @param {Context} ctx - Telegram callback query context
+   * @param {ScheduledAction} action - Requested action
+   * @param {string} entryId - Outbox entry ID
+   * @private
+   */
+  private async handleScheduledAction(
+    ctx: Context,
+    action: ScheduledAction,
+    entryId: string,
+  ): Promise<void> {
+    let entry: OutboxEntry;
+    try {
+      entry = this.outboxService.get(entryId);
+      if (entry.userId !== ctx.from?.id) {
+        await ctx.answerCbQuery('This email is not yours.');
+        return;
+      }
+      if (entry.status !== 'scheduled') {
+        await ctx.answerCbQuery(
+          `This email is no longer scheduled (${entry.status}).`,
+        );
+        return;
+      }
+
+      if (action === 'now') {
+        entry = this.outboxService.reschedule(entryId, new Date());
+      } else if (action === 'cancel') {
+        entry = this.outboxService.discard(entryId);
+      }
+    } catch (error) {
+      await ctx.answerCbQuery((error as Error).message);
+      return;
+    }
+
+    await ctx.answerCbQuery();
+    if (action === 'now') {
+      await ctx.reply(`📤 Sending "${entry.email.subject}" now...`);
+    } else if (action === 'cancel') {
+      await ctx.reply(
+        `🗑 "${entry.email.subject}" was cancelled and will not be sent.`,
+      );
+    } else {
+      const question = await ctx.reply(
+        `⏰ When should "${entry.email.subject}" be sent? Reply with a time, e.g. "Friday at 3pm".`,
+        Markup.forceReply(),
+      );
+      this.reschedulePrompts.set(
+        `${question.chat.id}:${question.message_id}`,
+        entryId,
+      );
+    }
+  }
+
+  /**
+   * Tells the chat when one of its emails could not be delivered right away, and when it gave up.
+   * Delivered emails are reported when their draft finishes (see DraftTelegramHandler).
+   *
+   * @param {OutboxEntry} entry - Outbox entry
+   * @param {OutboxEvent} event - What happened to it
+   * @private
+   */
+  private async handleOutboxEvent(
+    entry: OutboxEntry,
+    event: OutboxEvent,
+  ): Promise<void> {
+    if (entry.chatId === undefined) {
+      return;
+    }
+
+    const subject = entry.email.subject;
+    if (event === 'retrying' && entry.attempts === 1) {
+      await this.bot.telegram.sendMessage(
+        entry.chatId,
+        `⏳ Your email "${subject}" could not be sent yet (${entry.lastError}). ` +
+          'It is in your outbox and will be retried automatically, see /outbox.',
+      );
+    } else if (event === 'dead') {
+      await this.bot.telegram.sendMessage(
+        entry.chatId,
+        `❌ Your email "${subject}" could not be delivered: ${entry.lastError}\n` +
+          'Use /outbox to retry or discard it.',
+      );
+    }
+  }
+
+  /**
+   * Describes where an outbox entry stands.
+   *
+   * @param {OutboxEntry} entry - Outbox entry
+   * @returns {string} Status line
+   * @private
+   */
+  private describeOutboxStatus(entry: OutboxEntry): string {
+    const attempts = `${entry.attempts} attempt${entry.attempts === 1 ? '' : 's'}`;
+    switch (entry.status) {
+      case 'sending':
+        return `📤 Sending now (${attempts} so far)`;
+      case 'dead':
+        return `❌ Not delivered after ${attempts}`;
+      default: {
+        const minutes = entry.nextAttemptAt
+          ? Math.max(
+              0,
+              Math.ceil((entry.nextAttemptAt.getTime() - Date.now()) / 60000),
+            )
+          : 0;
+        return entry.attempts === 0
+          ? '⏳ Waiting to be sent'
+          : `⏳ Retrying in ${minutes} min (${attempts} so far)`;
+      }
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Telegraf, Context, Markup } from 'telegraf';
+import { PreferenceService } from '../../preference/preference.service';
+import { isValidTimezone, formatInTimezone } from '../../preference/timezone';
+import {
+  EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_DESCRIPTIONS,
+  isEmailTemplateName,
+} from '../../email/email-templates';
+import { Role } from '../../access/access.service';
+import { TELEGRAM_BOT } from '../telegram.constants';
+import { TelegramHandler } from './telegram-handler.interface';
+import { DraftTelegramHandler } from './draft-telegram.handler';
+
+/** Longest signature accepted by /signature */
+const MAX_SIGNATURE_LENGTH = 500;
+
+/**
+ * Handler of the settings of the emails a user sends: /timezone, /attachments, /template and /signature.
+ * A new template or signature also applies to the user's pending draft.
+ *
+ * @class PreferenceTelegramHandler
+ * @implements {TelegramHandler}
+ */
+@Injectable()
+export class PreferenceTelegramHandler implements TelegramHandler {
+  readonly commandRoles: Record<string, Role> = {
+    timezone: 'sender',
+    attachments: 'sender',
+    template: 'sender',
+    signature: 'sender',
+  };
+  readonly callbackRoles: Record<string, Role> = { template: 'sender' };
+
+  /**
+   * Creates an instance of PreferenceTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {PreferenceService} preferenceService - Service managing per-user preferences
+   * @param {DraftTelegramHandler} drafts - Handler showing the restyled pending draft
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private preferenceService: PreferenceService,
+    private drafts: DraftTelegramHandler,
+  ) {}
+
+  register(): void {
+    this.bot.command('timezone', async (ctx) => {
+      await this.handleTimezone(ctx, ctx.payload);
+    });
+
+    this.bot.command('attachments', async (ctx) => {
+      await this.handleAttachmentDefaults(ctx, ctx.payload);
+    });
+
+    this.bot.command('template', async (ctx) => {
+      await this.handleTemplate(ctx, ctx.payload);
+    });
+
+    this.bot.command('signature', async (ctx) => {
+      await this.handleSignature(ctx, ctx.payload);
+    });
+
+    this.bot.action(
+      new RegExp(`^template:(${EMAIL_TEMPLATES.join('|')})$`),
+      async (ctx) => {
+        await ctx.answerCbQuery();
+        await this.handleTemplate(ctx, ctx.match[1]);
+      },
+    );
+  }
+
+  /**
+   * Handles the /timezone command: shows or sets the timezone spoken send times are read in.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - IANA timezone such as "Europe/Lisbon", or "default"
+   * @private
+   */
+  private async handleTimezone(ctx: Context, args: string): Promise<void> {
+    if (!ctx.from) {
+      return;
+    }
+
+    const choice = args.trim();
+    if (choice.toLowerCase() === 'default') {
+      this.preferenceService.update(ctx.from.id, { timezone: undefined });
+    } else if (choice) {
+      if (!isValidTimezone(choice)) {
+        await ctx.reply(
+          `❌ Unknown timezone "${choice}". Use a name like "Europe/Lisbon" or "America/New_York".`,
+        );
+        return;
+      }
+      this.preferenceService.update(ctx.from.id, { timezone: choice });
+    }
+
+    const timezone = this.preferenceService.getTimezone(ctx.from.id);
+    await ctx.reply(
+      `🌍 Your timezone is ${timezone}; it is now ${formatInTimezone(new Date(), timezone)}.\n` +
+        'Use /timezone <Area/City> to change it, e.g. /timezone Europe/Lisbon.',
+    );
+  }
+
+  /**
+   * Handles the /attachments command: shows or changes which source files are attached by default.
+   * Expects "recording on", "transcript off", etc.; without arguments shows the current defaults.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - Command arguments
+   * @private
+   */
+  private async handleAttachmentDefaults(
+    ctx: Context,
+    args: string,
+  ): Promise<void> {
+    if (!ctx.from) {
+      return;
+    }
+
+    const match = args
+      .trim()
+      .toLowerCase()
+      .match(/^(recording|transcript)\s+(on|off)$/);
+    if (args.trim() && !match) {
+      await ctx.reply('Usage: /attachments [recording|transcript] [on|off]');
+      return;
+    }
+
+    const preferences = match
+      ? this.preferenceService.update(ctx.from.id, {
+          [match[1] === 'recording' ? 'attachRecording' : 'attachTranscript']:
+            match[2] === 'on',
+        })
+      : this.preferenceService.get(ctx.from.id);
+
+    const state = (on: boolean) => (on ? 'on' : 'off');
+    await ctx.reply(
+      '📎 Default attachments for new drafts:\n\n' +
+        `🎙️ Original recording: ${state(preferences.attachRecording)}\n` +
+        `📝 Transcript: ${state(preferences.attachTranscript)}\n\n` +
+        'You can still change them per email with the buttons under each draft.',
+    );
+  }
+
+  /**
+   * Handles the /template command: shows the templates as buttons, or picks one.
+   * The choice becomes the default for new emails and applies to the pending draft, if any.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - Template name
+   * @private
+   */
+  private async handleTemplate(ctx: Context, args: string): Promise<void> {
+    if (!ctx.from || !ctx.chat) {
+      return;
+    }
+
+    const choice = args.trim().toLowerCase();
+    if (!choice) {
+      const current = this.preferenceService.get(ctx.from.id).emailTemplate;
+      const lines = EMAIL_TEMPLATES.map(
+        (name) =>
+          `${name === current ? '✅' : '▫️'} ${name} — ${EMAIL_TEMPLATE_DESCRIPTIONS[name]}`,
+      );
+      await ctx.reply(
+        '🎨 Email templates:\n\n' + lines.join('\n'),
+        Markup.inlineKeyboard(
+          EMAIL_TEMPLATES.map((name) =>
+            Markup.button.callback(name, `template:${name}`),
+          ),
+        ),
+      );
+      return;
+    }
+
+    if (!isEmailTemplateName(choice)) {
+      await ctx.reply(`Usage: /template [${EMAIL_TEMPLATES.join('|')}]`);
+      return;
+    }
+
+    this.preferenceService.update(ctx.from.id, { emailTemplate: choice });
+    await ctx.reply(`🎨 Your emails now use the ${choice} template.`);
+    await this.drafts.restyleActiveDraft(ctx.chat.id, ctx.from.id, {
+      template: choice,
+    });
+  }
+
+  /**
+   * Handles the /signature command: shows, sets or removes the signature added to the user's emails.
+   * The signature may span several lines; it applies to new emails and to the pending draft, if any.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - Signature text, or "off"
+   * @private
+   */
+  private async handleSignature(ctx: Context, args: string): Promise<void> {
+    if (!ctx.from || !ctx.chat) {
+      return;
+    }
+
+    const text = args.trim();
+    if (!text) {
+      const { signature } = this.preferenceService.get(ctx.from.id);
+      await ctx.reply(
+        signature
+          ? `✍️ Your signature:\n\n${signature}\n\nUse /signature <text> to change it or /signature off to remove it.`
+          : '✍️ You have no signature. Set one with /signature <text>; it can span several lines.',
+      );
+      return;
+    }
+
+    if (text.length > MAX_SIGNATURE_LENGTH) {
+      await ctx.reply(
+        `❌ Signatures can be at most ${MAX_SIGNATURE_LENGTH} characters long.`,
+      );
+      return;
+    }
+
+    const signature = text.toLowerCase() === 'off' ? undefined : text;
+    this.preferenceService.update(ctx.from.id, { signature });
+    await ctx.reply(
+      signature ? '✍️ Signature saved.' : '✍️ Signature removed.',
+    );
+    await this.drafts.restyleActiveDraft(ctx.chat.id, ctx.from.id, {
+      signature,
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { Context } from 'telegraf';
+import { Message } from 'telegraf/typings/core/types/typegram';
+import { Role } from '../../access/access.service';
+
+/** Telegram context of a text message */
+export type TextContext = Context & { message: Message.TextMessage };
+
+/**
+ * The commands, buttons and conversations of one feature of the bot, such as /history or /connect.
+ * TelegramService checks the roles they need before any handler runs, then registers each handler.
+ *
+ * @interface TelegramHandler
+ */
+export interface TelegramHandler {
+  /** Commands that need more than the transcriber role, without the slash */
+  readonly commandRoles?: Record<string, Role>;
+  /** Roles needed by the buttons of each callback prefix, as in "draft:send:<id>" */
+  readonly callbackRoles?: Record<string, Role>;
+
+  /**
+   * Registers the handler's commands and button actions with the bot.
+   */
+  register(): void;
+
+  /**
+   * Reads a text message that answers a question the handler asked, such as a new send time.
+   *
+   * @param {TextContext} ctx - Telegram context with the text message
+   * @returns {Promise<boolean>} False if the message is not meant for the handler
+   */
+  handleText?(ctx: TextContext): Promise<boolean>;
+}
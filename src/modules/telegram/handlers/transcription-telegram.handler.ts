@@ -0,0 +1,309 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Telegraf, Context, Markup } from 'telegraf';
+import {
+  WhisperService,
+  TranscriptionResult,
+} from '../../whisper/whisper.service';
+import { TranscriptionProviderName } from '../../whisper/providers/transcription-provider.interface';
+import { toLanguageCode, getLanguageName } from '../../whisper/languages';
+import {
+  renderTranscription,
+  TRANSCRIPT_FILE_EXTENSIONS,
+} from '../../whisper/transcript-format';
+import { PreferenceService } from '../../preference/preference.service';
+import { TELEGRAM_BOT } from '../telegram.constants';
+import { TelegramHandler } from './telegram-handler.interface';
+
+/** Formats a transcription can be exported in as a document */
+type ExportFormat = 'srt' | 'vtt' | 'json';
+
+/** How many recent transcriptions per chat are kept for export */
+const RECENT_TRANSCRIPTIONS_PER_CHAT = 5;
+
+/**
+ * A transcription kept in memory so it can be exported after the fact.
+ *
+ * @interface RecentTranscription
+ */
+export interface RecentTranscription {
+  /** The voice message that was transcribed */
+  voiceMessageId: number;
+  /** The bot's reply with the transcription */
+  replyMessageId?: number;
+  result: TranscriptionResult;
+  recordedAt: Date;
+}
+
+/**
+ * Handler of the transcription settings (/engine, /language) and of exporting recent transcriptions
+ * as subtitle or JSON files (/srt, /vtt, /json and the buttons under each transcription).
+ *
+ * @class TranscriptionTelegramHandler
+ * @implements {TelegramHandler}
+ */
+@Injectable()
+export class TranscriptionTelegramHandler implements TelegramHandler {
+  private readonly recentTranscriptions = new Map<
+    number,
+    RecentTranscription[]
+  >();
+
+  /**
+   * Creates an instance of TranscriptionTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {WhisperService} whisperService - Service listing the transcription providers
+   * @param {PreferenceService} preferenceService - Service storing each user's provider and language
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private whisperService: WhisperService,
+    private preferenceService: PreferenceService,
+  ) {}
+
+  register(): void {
+    this.bot.command('engine', async (ctx) => {
+      await this.handleTranscriptionProvider(ctx, ctx.payload);
+    });
+
+    this.bot.command('language', async (ctx) => {
+      await this.handleLanguage(ctx, ctx.payload);
+    });
+
+    this.bot.command(['srt', 'vtt', 'json'], async (ctx) => {
+      const format = ctx.command as ExportFormat;
+      const replyTo = ctx.message.reply_to_message?.message_id;
+      const recent = this.findRecentTranscription(ctx.message.chat.id, replyTo);
+      if (!recent) {
+        await ctx.reply(
+          'ℹ️ No recent transcription to export. Send a voice message first.',
+        );
+        return;
+      }
+      await this.sendTranscriptionExport(ctx, recent, format);
+    });
+
+    this.bot.action(/^export:(srt|vtt|json):(\d+)$/, async (ctx) => {
+      const [, format, voiceMessageId] = ctx.match;
+      const chatId = ctx.chat?.id;
+      const recent =
+        chatId !== undefined
+          ? this.findRecentTranscription(chatId, Number(voiceMessageId))
+          : undefined;
+      if (!recent) {
+        await ctx.answerCbQuery('This transcription is no longer available.');
+        return;
+      }
+      await ctx.answerCbQuery();
+      await this.sendTranscriptionExport(ctx, recent, format as ExportFormat);
+    });
+  }
+
+  /**
+   * Gets the transcription provider chosen by a user, falling back to the deployment default
+   * when none is chosen or the chosen one has since been disabled.
+   *
+   * @param {number} userId - Telegram user ID
+   * @returns {TranscriptionProviderName} Provider to transcribe with
+   */
+  getTranscriptionProvider(userId: number): TranscriptionProviderName {
+    const { transcriptionProvider } = this.preferenceService.get(userId);
+    return transcriptionProvider &&
+      this.whisperService
+        .getAvailableProviders()
+        .includes(transcriptionProvider)
+      ? transcriptionProvider
+      : this.whisperService.getDefaultProvider();
+  }
+
+  /**
+   * Keeps a transcription available for export, dropping the oldest ones of the chat.
+   *
+   * @param {number} chatId - Telegram chat ID
+   * @param {number} voiceMessageId - ID of the transcribed voice message
+   * @param {TranscriptionResult} result - The transcription
+   * @returns {RecentTranscription} The stored entry
+   */
+  rememberTranscription(
+    chatId: number,
+    voiceMessageId: number,
+    result: TranscriptionResult,
+  ): RecentTranscription {
+    const recent: RecentTranscription = {
+      voiceMessageId,
+      result,
+      recordedAt: new Date(),
+    };
+    const entries = [...(this.recentTranscriptions.get(chatId) ?? []), recent];
+    this.recentTranscriptions.set(
+      chatId,
+      entries.slice(-RECENT_TRANSCRIPTIONS_PER_CHAT),
+    );
+    return recent;
+  }
+
+  /**
+   * Forgets the transcriptions kept for export in a chat.
+   *
+   * @param {number} chatId - Telegram chat ID; a private chat has the user's ID
+   */
+  forgetTranscriptions(chatId: number): void {
+    this.recentTranscriptions.delete(chatId);
+  }
+
+  /**
+   * Builds the export buttons shown under a transcription.
+   *
+   * @param {number} voiceMessageId - ID of the transcribed voice message
+   * @returns Inline keyboard markup
+   */
+  exportKeyboard(voiceMessageId: number) {
+    return Markup.inlineKeyboard([
+      Markup.button.callback('📄 SRT', `export:srt:${voiceMessageId}`),
+      Markup.button.callback('📄 VTT', `export:vtt:${voiceMessageId}`),
+      Markup.button.callback('📄 JSON', `export:json:${voiceMessageId}`),
+    ]);
+  }
+
+  /**
+   * Finds a recent transcription of a chat: the one belonging to the given voice or reply message,
+   * or the latest one when no message is given.
+   *
+   * @param {number} chatId - Telegram chat ID
+   * @param {number} [messageId] - ID of the voice message or of the bot's transcription reply
+   * @returns {RecentTranscription | undefined} The transcription, if still kept
+   * @private
+   */
+  private findRecentTranscription(
+    chatId: number,
+    messageId?: number,
+  ): RecentTranscription | undefined {
+    const entries = this.recentTranscriptions.get(chatId) ?? [];
+    if (messageId === undefined) {
+      return entries[entries.length - 1];
+    }
+    return entries.find(
+      (entry) =>
+        entry.voiceMessageId === messageId ||
+        entry.replyMessageId === messageId,
+    );
+  }
+
+  /**
+   * Sends a transcription as a subtitle or JSON document.
+   * JSON exports carry the full result: text, language, duration and timed segments.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {RecentTranscription} recent - The transcription to export
+   * @param {ExportFormat} format - Export format
+   * @private
+   */
+  private async sendTranscriptionExport(
+    ctx: Context,
+    recent: RecentTranscription,
+    format: ExportFormat,
+  ): Promise<void> {
+    const renderFormat = format === 'json' ? 'verbose_json' : format;
+    const content = renderTranscription(recent.result, renderFormat);
+    // e.g. "transcript-2024-05-14-09-30-12.srt"
+    const timestamp = recent.recordedAt
+      .toISOString()
+      .slice(0, 19)
+      .replace(/[T:]/g, '-');
+    const filename = `transcript-${timestamp}.${TRANSCRIPT_FILE_EXTENSIONS[renderFormat]}`;
+
+    await ctx.replyWithDocument(
+      { source: Buffer.from(content, 'utf8'), filename },
+      {
+        reply_parameters: {
+          message_id: recent.replyMessageId ?? recent.voiceMessageId,
+          allow_sending_without_reply: true,
+        },
+      },
+    );
+  }
+
+  /**
+   * Handles the /engine command: shows or changes the transcription provider used for the user's voice messages.
+   * "default" goes back to the deployment default.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - Command arguments
+   * @private
+   */
+  private async handleTranscriptionProvider(
+    ctx: Context,
+    args: string,
+  ): Promise<void> {
+    if (!ctx.from) {
+      return;
+    }
+
+    const available = this.whisperService.getAvailableProviders();
+    const choice = args.trim().toLowerCase();
+
+    if (
+      choice &&
+      choice !== 'default' &&
+      !available.includes(choice as TranscriptionProviderName)
+    ) {
+      await ctx.reply(
+        `Usage: /engine [${[...available, 'default'].join('|')}]`,
+      );
+      return;
+    }
+
+    if (choice) {
+      this.preferenceService.update(ctx.from.id, {
+        transcriptionProvider:
+          choice === 'default'
+            ? undefined
+            : (choice as TranscriptionProviderName),
+      });
+    }
+
+    const current = this.getTranscriptionProvider(ctx.from.id);
+    await ctx.reply(
+      `🎧 Your voice messages are transcribed with: ${current}\n\n` +
+        `Available: ${available.join(', ')} (default: ${this.whisperService.getDefaultProvider()})` +
+        (available.length > 1 ? '\nUse /engine <name> to switch.' : ''),
+    );
+  }
+
+  /**
+   * Handles the /language command: shows, pins or unpins the language of the user's voice messages.
+   * Accepts a code ("pt") or a name ("Portuguese"); "auto" goes back to automatic detection.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - Command arguments
+   * @private
+   */
+  private async handleLanguage(ctx: Context, args: string): Promise<void> {
+    if (!ctx.from) {
+      return;
+    }
+
+    const choice = args.trim().toLowerCase();
+    if (choice === 'auto') {
+      this.preferenceService.update(ctx.from.id, { language: undefined });
+    } else if (choice) {
+      const code = toLanguageCode(choice);
+      if (!code) {
+        await ctx.reply(
+          `❌ Unknown language "${args.trim()}". Use a code like "pt" or a name like "Portuguese", or "auto".`,
+        );
+        return;
+      }
+      this.preferenceService.update(ctx.from.id, { language: code });
+    }
+
+    const { language } = this.preferenceService.get(ctx.from.id);
+    await ctx.reply(
+      language
+        ? `🌐 Your voice messages are transcribed as ${getLanguageName(language)} (${language}).\n` +
+            'Emails are written in that language unless you ask for another one. Use /language auto to detect it again.'
+        : '🌐 The language of your voice messages is detected automatically.\n' +
+            'Use /language <code or name> to pin one, e.g. /language pt.',
+    );
+  }
+}
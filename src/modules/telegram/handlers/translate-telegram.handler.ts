@@ -0,0 +1,114 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Telegraf, Context } from 'telegraf';
+import { DraftService } from '../../draft/draft.service';
+import { Role } from '../../access/access.service';
+import { toLanguageCode, getLanguageName } from '../../whisper/languages';
+import { TELEGRAM_BOT } from '../telegram.constants';
+import { TelegramHandler } from './telegram-handler.interface';
+import { DraftTelegramHandler } from './draft-telegram.handler';
+
+/**
+ * Handler of /translate, which translates the pending draft before it is sent.
+ * Drafts are translated when they are shown (see DraftTelegramHandler.presentDraft).
+ *
+ * @class TranslateTelegramHandler
+ * @implements {TelegramHandler}
+ */
+@Injectable()
+export class TranslateTelegramHandler implements TelegramHandler {
+  readonly commandRoles: Record<string, Role> = { translate: 'sender' };
+
+  /**
+   * Creates an instance of TranslateTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {DraftService} draftService - Service managing pending email drafts
+   * @param {DraftTelegramHandler} drafts - Handler showing the translated draft
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private draftService: DraftService,
+    private drafts: DraftTelegramHandler,
+  ) {}
+
+  register(): void {
+    this.bot.command('translate', async (ctx) => {
+      await this.handleTranslate(ctx, ctx.payload);
+    });
+  }
+
+  /**
+   * Handles the /translate command: translates the chat's pending draft into a language, or drops its translation ("off").
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - Language code or name, "off", or nothing to show the current translation
+   * @private
+   */
+  private async handleTranslate(ctx: Context, args: string): Promise<void> {
+    const draft =
+      ctx.chat && this.drafts.getOwnActiveDraft(ctx.chat.id, ctx.from?.id);
+    if (!draft) {
+      await ctx.reply(
+        'ℹ️ You have no pending draft. Dictate an email first, or say "send it in English" while you do.',
+      );
+      return;
+    }
+
+    const choice = args.trim();
+    if (!choice) {
+      await ctx.reply(
+        (draft.translation
+          ? `🌐 Your draft is translated into ${getLanguageName(draft.translation.language)}.`
+          : '🌐 Your draft is not translated.') +
+          '\nUse /translate <language> to translate it, e.g. /translate en, or /translate off to send it as written.',
+      );
+      return;
+    }
+
+    if (choice.toLowerCase() === 'off') {
+      await this.drafts.presentDraft(
+        this.draftService.update(draft.id, {
+          translateTo: null,
+          translation: undefined,
+          useTranslation: false,
+        }),
+      );
+      return;
+    }
+
+    const language = toLanguageCode(choice);
+    if (!language) {
+      await ctx.reply(
+        `❌ Unknown language "${choice}". Use a code or name such as en, pt or Spanish.`,
+      );
+      return;
+    }
+    if (draft.source?.language === language) {
+      await ctx.reply(
+        `ℹ️ You dictated this draft in ${getLanguageName(language)} already.`,
+      );
+      return;
+    }
+
+    if (draft.translation?.language === language) {
+      await this.drafts.presentDraft(
+        this.draftService.update(draft.id, {
+          translateTo: language,
+          useTranslation: true,
+        }),
+      );
+      return;
+    }
+
+    await ctx.reply(
+      `🌐 Translating your draft into ${getLanguageName(language)}...`,
+    );
+    await this.drafts.presentDraft(
+      this.draftService.update(draft.id, {
+        translateTo: language,
+        translation: undefined,
+        useTranslation: false,
+      }),
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Telegraf, Context } from 'telegraf';
+import {
+  UsageService,
+  QuotaKind,
+  measureUsage,
+} from '../../usage/usage.service';
+import { AccessService } from '../../access/access.service';
+import { TELEGRAM_BOT } from '../telegram.constants';
+import { TelegramHandler } from './telegram-handler.interface';
+
+/** How each quota is named in /usage */
+const USAGE_LABELS: Record<QuotaKind, string> = {
+  audio: '🎙 Audio minutes',
+  tokens: '🧠 AI tokens',
+  emails: '📧 Emails sent',
+};
+
+/**
+ * Handler of /usage, which shows users what they consumed and lets admins export everyone's usage.
+ *
+ * @class UsageTelegramHandler
+ * @implements {TelegramHandler}
+ */
+@Injectable()
+export class UsageTelegramHandler implements TelegramHandler {
+  /**
+   * Creates an instance of UsageTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {UsageService} usageService - Ledger of what users consume, enforcing quotas
+   * @param {AccessService} accessService - Service telling admins apart
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private usageService: UsageService,
+    private accessService: AccessService,
+  ) {}
+
+  register(): void {
+    this.bot.command('usage', async (ctx) => {
+      await this.handleUsage(ctx, ctx.payload);
+    });
+  }
+
+  /**
+   * Handles the /usage command: shows the user's usage against their limits, or exports everyone's as CSV for admins.
+   *
+   * @param {Context} ctx - Telegram context
+   * @param {string} args - Empty, or "csv" optionally followed by a month (YYYY-MM)
+   * @private
+   */
+  private async handleUsage(ctx: Context, args: string): Promise<void> {
+    if (!ctx.from) {
+      return;
+    }
+
+    const [action, month = new Date().toISOString().slice(0, 7)] = args
+      .trim()
+      .toLowerCase()
+      .split(/\s+/);
+    if (action === 'csv') {
+      if (!this.accessService.can(ctx.from.id, ctx.chat?.id, 'admin')) {
+        await ctx.reply("🔒 Only admins can export everyone's usage.");
+        return;
+      }
+      if (!/^\d{4}-\d{2}$/.test(month)) {
+        await ctx.reply('Usage: /usage csv [YYYY-MM]');
+        return;
+      }
+      await ctx.replyWithDocument({
+        source: Buffer.from(this.usageService.exportCsv(month), 'utf8'),
+        filename: `usage-${month}.csv`,
+      });
+      return;
+    }
+
+    const day = this.usageService.getTotals(ctx.from.id, 'day');
+    const monthly = this.usageService.getTotals(ctx.from.id, 'month');
+    const lines = (Object.keys(USAGE_LABELS) as QuotaKind[]).map((kind) => {
+      const quota = this.usageService.getQuota(kind);
+      const format = (used: number, limit?: number) =>
+        `${kind === 'audio' ? used.toFixed(1) : Math.round(used)}${limit !== undefined ? ` / ${limit}` : ''}`;
+      return (
+        `${USAGE_LABELS[kind]}: ${format(measureUsage(day, kind), quota.day)} today, ` +
+        `${format(measureUsage(monthly, kind), quota.month)} this month`
+      );
+    });
+    await ctx.reply(
+      `📊 Your usage (days and months are UTC):\n\n${lines.join('\n')}`,
+    );
+  }
+}
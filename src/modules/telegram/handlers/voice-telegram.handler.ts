@@ -0,0 +1,754 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleInit,
+  BadRequestException,
+  HttpException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Telegraf, Context } from 'telegraf';
+import { Message } from 'telegraf/typings/core/types/typegram';
+import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'node:stream/promises';
+import {
+  WhisperService,
+  TranscriptionProgress,
+} from '../../whisper/whisper.service';
+import { getLanguageName } from '../../whisper/languages';
+import {
+  guessMediaType,
+  SUPPORTED_MEDIA_DESCRIPTION,
+} from '../../whisper/media-type';
+import { DraftService, Draft } from '../../draft/draft.service';
+import { JobService, Job, StageOutcome } from '../../job/job.service';
+import { AccessService } from '../../access/access.service';
+import { UsageService } from '../../usage/usage.service';
+import { PreferenceService } from '../../preference/preference.service';
+import { HistoryService } from '../../history/history.service';
+import { InboxService } from '../../inbox/inbox.service';
+import { TELEGRAM_BOT } from '../telegram.constants';
+import {
+  VOICE_JOB,
+  VOICE_JOB_STAGES,
+  VoiceJobStage,
+  VoiceJobPayload,
+  IncomingMedia,
+} from '../voice-job';
+import { TelegramHandler } from './telegram-handler.interface';
+import { DraftTelegramHandler } from './draft-telegram.handler';
+import { IntentTelegramHandler } from './intent-telegram.handler';
+import { TranscriptionTelegramHandler } from './transcription-telegram.handler';
+
+/** Largest file the Telegram Bot API lets bots download */
+const TELEGRAM_DOWNLOAD_LIMIT = 20 * 1024 * 1024;
+
+/** Milliseconds a download may take before it is abandoned and retried */
+const DOWNLOAD_TIMEOUT = 120000;
+
+/** What each stage is doing, for messages about retries */
+const VOICE_STAGE_LABELS: Record<VoiceJobStage, string> = {
+  download: 'downloading your recording',
+  convert: 'converting your recording',
+  transcribe: 'transcribing your recording',
+  extract: 'preparing your draft',
+  confirm: 'waiting for your confirmation',
+  send: 'sending your email',
+};
+
+/**
+ * Handler of voice messages and other media with sound: queues them as voice jobs that download,
+ * convert and transcribe the recording, then act on what it asks for.
+ *
+ * @class VoiceTelegramHandler
+ * @implements {TelegramHandler}
+ * @implements {OnModuleInit}
+ */
+@Injectable()
+export class VoiceTelegramHandler implements TelegramHandler, OnModuleInit {
+  private readonly logger = new Logger(VoiceTelegramHandler.name);
+  private readonly tmpDir: string;
+
+  /**
+   * Creates an instance of VoiceTelegramHandler.
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {ConfigService} configService - Service for accessing configuration values
+   * @param {WhisperService} whisperService - Service for voice message transcription
+   * @param {DraftService} draftService - Service managing pending email drafts
+   * @param {JobService} jobService - Queue running voice messages through the pipeline
+   * @param {AccessService} accessService - Service deciding who may act on transcriptions
+   * @param {UsageService} usageService - Ledger of what users consume, enforcing quotas
+   * @param {PreferenceService} preferenceService - Service storing each user's pinned language
+   * @param {HistoryService} historyService - Per-user history the transcripts are recorded in
+   * @param {InboxService} inboxService - Service drafting voice replies to relayed emails
+   * @param {DraftTelegramHandler} drafts - Handler showing and sending the drafts
+   * @param {IntentTelegramHandler} intents - Handler routing transcriptions to meetings, to-dos and notes
+   * @param {TranscriptionTelegramHandler} transcriptions - Handler keeping transcriptions for export
+   */
+  constructor(
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private configService: ConfigService,
+    private whisperService: WhisperService,
+    private draftService: DraftService,
+    private jobService: JobService,
+    private accessService: AccessService,
+    private usageService: UsageService,
+    private preferenceService: PreferenceService,
+    private historyService: HistoryService,
+    private inboxService: InboxService,
+    private drafts: DraftTelegramHandler,
+    private intents: IntentTelegramHandler,
+    private transcriptions: TranscriptionTelegramHandler,
+  ) {
+    this.tmpDir = path.resolve(__dirname, '../../../../tmp');
+    this.ensureTmpDirectory();
+  }
+
+  /**
+   * Lifecycle hook that registers the voice job before the queue resumes interrupted jobs.
+   */
+  onModuleInit() {
+    this.registerVoiceJob();
+  }
+
+  register(): void {
+    this.bot.on(
+      ['voice', 'audio', 'video_note', 'video', 'document'],
+      async (ctx) => {
+        const media = this.getIncomingMedia(ctx.message);
+        if (!media) {
+          return;
+        }
+
+        try {
+          await this.handleVoiceMessage(ctx, media);
+        } catch (error) {
+          this.logger.error(`Error processing ${media.label}:`, error);
+          await ctx.reply(
+            `❌ Sorry, I encountered an error while processing your ${media.label}. Please try again later.`,
+          );
+        }
+      },
+    );
+  }
+
+  /**
+   * Ensures the temporary directory exists for storing voice messages.
+   * Creates the directory if it doesn't exist.
+   *
+   * @private
+   */
+  private ensureTmpDirectory(): void {
+    if (!fs.existsSync(this.tmpDir)) {
+      fs.mkdirSync(this.tmpDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Describes the audio-carrying media of a message, if any.
+   *
+   * @param {Message} message - Incoming message
+   * @returns {IncomingMedia | undefined} The media, or undefined if the message has none
+   * @private
+   */
+  private getIncomingMedia(message: Message): IncomingMedia | undefined {
+    if ('voice' in message) {
+      const { file_id, mime_type, file_size } = message.voice;
+      return {
+        label: 'voice message',
+        fileId: file_id,
+        mimeType: mime_type ?? 'audio/ogg',
+        fileSize: file_size,
+      };
+    }
+    if ('video_note' in message) {
+      const { file_id, file_size } = message.video_note;
+      return {
+        label: 'video note',
+        fileId: file_id,
+        mimeType: 'video/mp4',
+        fileSize: file_size,
+      };
+    }
+    if ('audio' in message) {
+      const { file_id, file_name, mime_type, file_size } = message.audio;
+      return {
+        label: 'audio file',
+        fileId: file_id,
+        fileName: file_name,
+        mimeType: mime_type,
+        fileSize: file_size,
+      };
+    }
+    if ('video' in message) {
+      const { file_id, file_name, mime_type, file_size } = message.video;
+      return {
+        label: 'video',
+        fileId: file_id,
+        fileName: file_name,
+        mimeType: mime_type,
+        fileSize: file_size,
+      };
+    }
+    if ('document' in message) {
+      const { file_id, file_name, mime_type, file_size } = message.document;
+      return {
+        label: 'file',
+        fileId: file_id,
+        fileName: file_name,
+        mimeType: mime_type,
+        fileSize: file_size,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Handles incoming voice messages and other media with sound (audio files, video notes, videos, documents).
+   * Rejects what cannot be transcribed, then queues a voice job that downloads and transcribes
+   * the recording in the background, and acts on what it asks for.
+   *
+   * @param {Context & { message: Message }} ctx - Telegram context with the media message
+   * @param {IncomingMedia} media - The media to transcribe
+   * @throws {Error} If the job cannot be queued
+   * @private
+   */
+  private async handleVoiceMessage(
+    ctx: Context & { message: Message },
+    media: IncomingMedia,
+  ): Promise<void> {
+    if (!ctx.message.from) {
+      return;
+    }
+
+    // Reject what clearly is not audio or video before downloading it
+    const mediaType = guessMediaType(media.mimeType, media.fileName);
+    if (!mediaType) {
+      const description = [
+        media.fileName && `"${media.fileName}"`,
+        media.mimeType && `(${media.mimeType})`,
+      ]
+        .filter(Boolean)
+        .join(' ');
+      await ctx.reply(
+        `❌ I can't transcribe this ${media.label}${description ? ` ${description}` : ''}.\n` +
+          `Please send ${SUPPORTED_MEDIA_DESCRIPTION}.`,
+      );
+      return;
+    }
+
+    if (media.fileSize && media.fileSize > TELEGRAM_DOWNLOAD_LIMIT) {
+      await ctx.reply(
+        `❌ This ${media.label} is ${Math.round(media.fileSize / 1024 / 1024)}MB, but Telegram only lets bots download ` +
+          `files up to ${TELEGRAM_DOWNLOAD_LIMIT / 1024 / 1024}MB. Please send a shorter recording or use the HTTP API.`,
+      );
+      return;
+    }
+
+    try {
+      this.usageService.assertWithinQuota(ctx.message.from.id, 'audio');
+    } catch (error) {
+      if (error instanceof HttpException) {
+        await ctx.reply(`📊 ${error.message}`);
+        return;
+      }
+      throw error;
+    }
+
+    // Send initial response
+    const status = await ctx.reply(`⏳ Processing your ${media.label}...`);
+
+    // Transcribe with the user's settings at the time the message arrived, detecting the language unless pinned
+    const userId = ctx.message.from.id;
+    const { language } = this.preferenceService.get(userId);
+    this.jobService.enqueue<VoiceJobPayload>(VOICE_JOB, {
+      chatId: ctx.message.chat.id,
+      userId,
+      messageId: ctx.message.message_id,
+      replyToMessageId:
+        'reply_to_message' in ctx.message
+          ? ctx.message.reply_to_message?.message_id
+          : undefined,
+      media,
+      extension: mediaType.extension,
+      statusMessageId: status.message_id,
+      provider: this.transcriptions.getTranscriptionProvider(userId),
+      language,
+    });
+  }
+
+  /**
+   * Registers the stages of the voice-to-email pipeline with the job queue.
+   *
+   * @private
+   */
+  private registerVoiceJob(): void {
+    this.jobService.register<VoiceJobPayload, VoiceJobStage>(VOICE_JOB, {
+      stages: VOICE_JOB_STAGES,
+      handlers: {
+        download: (job) => this.downloadStage(job),
+        convert: (job) => this.convertStage(job),
+        transcribe: (job) => this.transcribeStage(job),
+        extract: (job) => this.extractStage(job),
+        confirm: (job) => this.confirmStage(job),
+        send: (job) => this.sendStage(job),
+      },
+      onRetry: (job, _error, delayMs) => this.handleVoiceJobRetry(job, delayMs),
+      onFailed: (job, error) => this.handleVoiceJobFailed(job, error),
+      onResume: (job) => this.handleVoiceJobResumed(job),
+    });
+  }
+
+  /**
+   * Download stage: fetches the media from Telegram into the temporary directory.
+   *
+   * @param {Job<VoiceJobPayload>} job - Voice job
+   * @private
+   */
+  private async downloadStage(job: Job<VoiceJobPayload>): Promise<void> {
+    const { media, extension } = job.payload;
+    const fileUrl = await this.getFileUrl(media.fileId);
+    const filePath = path.join(this.tmpDir, `${media.fileId}.${extension}`);
+
+    await this.downloadFile(fileUrl, filePath);
+    this.logger.log(`Voice message downloaded successfully: ${filePath}`);
+    this.jobService.checkpoint(job, { filePath });
+  }
+
+  /**
+   * Convert stage: validates the download and converts it for the transcription provider.
+   *
+   * @param {Job<VoiceJobPayload>} job - Voice job
+   * @private
+   */
+  private async convertStage(job: Job<VoiceJobPayload>): Promise<void> {
+    const { filePath, convertedPath: previous, provider } = job.payload;
+    // Left over if a previous attempt was interrupted
+    this.deleteFile(previous);
+
+    const convertedPath = await this.whisperService.prepareAudio(
+      this.stageInput(filePath, 'filePath'),
+      provider,
+    );
+    this.jobService.checkpoint(job, { convertedPath });
+  }
+
+  /**
+   * Transcribe stage: transcribes the converted audio, reporting progress of long recordings.
+   *
+   * @param {Job<VoiceJobPayload>} job - Voice job
+   * @private
+   */
+  private async transcribeStage(job: Job<VoiceJobPayload>): Promise<void> {
+    const {
+      chatId,
+      userId,
+      statusMessageId,
+      convertedPath,
+      language,
+      provider,
+    } = job.payload;
+
+    const transcription = await this.whisperService.transcribePrepared(
+      this.stageInput(convertedPath, 'convertedPath'),
+      {
+        language,
+        provider,
+        onProgress: (progress) =>
+          this.showTranscriptionProgress(chatId, statusMessageId, progress),
+      },
+    );
+
+    this.jobService.checkpoint(job, {
+      transcription,
+      convertedPath: undefined,
+    });
+    this.usageService.record(userId, { audioSeconds: transcription.duration });
+    this.historyService.recordTranscript(
+      userId,
+      chatId,
+      transcription.text,
+      transcription.language,
+    );
+    this.deleteFile(convertedPath);
+  }
+
+  /**
+   * Extract stage: sends the transcription, then revises the pending draft it replies to, drafts an answer
+   * to the relayed email it replies to, or routes it to the intent it has. A new email draft is presented
+   * for confirmation; meetings, to-do items and notes are shown and finish the job.
+   *
+   * @param {Job<VoiceJobPayload>} job - Voice job
+   * @returns {Promise<StageOutcome<VoiceJobStage>>} 'complete' when no new draft needs confirming
+   * @private
+   */
+  private async extractStage(
+    job: Job<VoiceJobPayload>,
+  ): Promise<StageOutcome<VoiceJobStage>> {
+    const { payload } = job;
+    const { chatId, userId, messageId } = payload;
+    const transcription = this.stageInput(
+      payload.transcription,
+      'transcription',
+    );
+    const { text, language } = transcription;
+
+    // Send the transcription, once
+    if (payload.transcriptionMessageId === undefined) {
+      const languageLabel = language
+        ? `\n🌐 Language: ${getLanguageName(language)}${payload.language ? ' (pinned with /language)' : ' (detected)'}`
+        : '';
+      const recent = this.transcriptions.rememberTranscription(
+        chatId,
+        messageId,
+        transcription,
+      );
+      const transcriptionMessage = await this.bot.telegram.sendMessage(
+        chatId,
+        "✅ Here's your transcription:\n\n" + text + '\n' + languageLabel,
+        this.transcriptions.exportKeyboard(messageId),
+      );
+      recent.replyMessageId = transcriptionMessage.message_id;
+      this.jobService.checkpoint(job, {
+        transcriptionMessageId: transcriptionMessage.message_id,
+      });
+    }
+
+    // The draft was created by an earlier attempt that failed to present it
+    if (payload.draftId) {
+      await this.drafts.presentDraft(this.draftService.get(payload.draftId));
+      return;
+    }
+
+    // Transcribers get the transcription only
+    if (!this.accessService.can(userId, chatId, 'sender')) {
+      this.releaseVoiceJobFiles(payload);
+      return 'complete';
+    }
+
+    try {
+      this.usageService.assertWithinQuota(userId, 'tokens');
+    } catch (error) {
+      if (!(error instanceof HttpException)) {
+        throw error;
+      }
+      await this.bot.telegram.sendMessage(
+        chatId,
+        `📊 ${error.message} I can transcribe, but not act on messages until then.`,
+      );
+      this.releaseVoiceJobFiles(payload);
+      return 'complete';
+    }
+
+    // A voice reply to a pending draft is a change request, not a new email
+    const pendingDraft = this.drafts.getOwnActiveDraft(chatId, userId);
+    if (
+      pendingDraft &&
+      this.drafts.isDraftReply(payload.replyToMessageId, pendingDraft)
+    ) {
+      await this.drafts.reviseDraft(chatId, pendingDraft, text);
+      this.releaseVoiceJobFiles(payload);
+      return 'complete';
+    }
+
+    let created: { draft: Draft; replaced?: Draft };
+    const inbound =
+      payload.replyToMessageId !== undefined
+        ? this.inboxService.findByRelayMessage(chatId, payload.replyToMessageId)
+        : undefined;
+    if (inbound) {
+      // A voice reply to a relayed email answers it
+      const response = await this.inboxService.draftReply(inbound, {
+        userId,
+        chatId,
+        transcript: text,
+        language,
+        audioPath: payload.filePath,
+      });
+      this.usageService.recordTokens(userId, response);
+      created = response.data;
+    } else {
+      const routing = await this.intents.routeTranscription(
+        userId,
+        chatId,
+        transcription,
+        payload.filePath,
+      );
+      if (routing?.result.kind !== 'draft') {
+        if (routing?.result.kind === 'preview') {
+          await this.intents.presentIntentPreview(
+            chatId,
+            routing.handler.name,
+            routing.result.preview,
+          );
+        } else {
+          await this.intents.presentNothingFound(chatId);
+        }
+        this.releaseVoiceJobFiles(payload);
+        return 'complete';
+      }
+      created = routing.result;
+    }
+
+    // From here on the draft owns the recording
+    const { draft, replaced } = created;
+    this.jobService.checkpoint(job, { draftId: draft.id });
+
+    if (replaced) {
+      await this.drafts.clearDraftKeyboard(replaced);
+    }
+
+    await this.drafts.presentDraft(draft);
+  }
+
+  /**
+   * Confirm stage: waits until the user sends the draft. Sending resumes the job at the send stage;
+   * a cancelled, expired or API-sent draft finishes it (see DraftTelegramHandler).
+   *
+   * @param {Job<VoiceJobPayload>} job - Voice job
+   * @returns {Promise<StageOutcome<VoiceJobStage>>} 'wait' while the draft is pending
+   * @private
+   */
+  private confirmStage(
+    job: Job<VoiceJobPayload>,
+  ): Promise<StageOutcome<VoiceJobStage>> {
+    const draft = this.draftService.get(
+      this.stageInput(job.payload.draftId, 'draftId'),
+    );
+    return Promise.resolve(draft.status === 'pending' ? 'wait' : 'complete');
+  }
+
+  /**
+   * Send stage: puts the confirmed draft in the outbox, which delivers it in the background
+   * (see DraftTelegramHandler and OutboxTelegramHandler). A draft that cannot be queued is shown again.
+   *
+   * @param {Job<VoiceJobPayload>} job - Voice job
+   * @returns {Promise<StageOutcome<VoiceJobStage>>} Back to 'confirm' if the draft could not be queued
+   * @private
+   */
+  private async sendStage(
+    job: Job<VoiceJobPayload>,
+  ): Promise<StageOutcome<VoiceJobStage>> {
+    const draft = this.draftService.get(
+      this.stageInput(job.payload.draftId, 'draftId'),
+    );
+    const outcome = await this.drafts.queueDraft(job.payload.chatId, draft);
+    if (outcome !== 'queued') {
+      return outcome === 'finished' ? 'complete' : { goto: 'confirm' };
+    }
+  }
+
+  /**
+   * Tells the chat that a stage hit a temporary problem and will be retried.
+   *
+   * @param {Job<VoiceJobPayload>} job - Voice job
+   * @param {number} delayMs - Time until the retry
+   * @private
+   */
+  private async handleVoiceJobRetry(
+    job: Job<VoiceJobPayload>,
+    delayMs: number,
+  ): Promise<void> {
+    const { chatId, statusMessageId } = job.payload;
+    const stage = job.stage as VoiceJobStage;
+    const text =
+      `⚠️ Temporary problem while ${VOICE_STAGE_LABELS[stage]}. ` +
+      `Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${job.stages[stage].attempts + 1})...`;
+
+    // Until the transcription is out, the "Processing" message is the place to report progress
+    if (job.payload.transcriptionMessageId === undefined) {
+      await this.bot.telegram.editMessageText(
+        chatId,
+        statusMessageId,
+        undefined,
+        text,
+      );
+    } else {
+      await this.bot.telegram.sendMessage(chatId, text);
+    }
+  }
+
+  /**
+   * Cleans up after a voice job that failed for good and tells the chat why.
+   * A failed send leaves the draft pending, so it is shown again for another try.
+   *
+   * @param {Job<VoiceJobPayload>} job - Failed voice job
+   * @param {Error} error - The failure
+   * @private
+   */
+  private async handleVoiceJobFailed(
+    job: Job<VoiceJobPayload>,
+    error: Error,
+  ): Promise<void> {
+    const { chatId, media, draftId } = job.payload;
+    this.releaseVoiceJobFiles(job.payload);
+
+    if (job.stage === 'send' && draftId) {
+      await this.bot.telegram.sendMessage(
+        chatId,
+        '❌ Failed to send email. Please try again later.',
+      );
+      const draft = this.draftService.get(draftId);
+      if (draft.status === 'pending') {
+        await this.drafts.presentDraft(draft);
+      }
+      return;
+    }
+
+    // Unreadable media, no audio track, etc.: tell the user what is wrong instead of a generic error
+    await this.bot.telegram.sendMessage(
+      chatId,
+      error instanceof BadRequestException
+        ? `❌ ${error.message}`
+        : `❌ Failed to process your ${media.label}. Please try again.`,
+    );
+  }
+
+  /**
+   * Lets the chat know that processing continues after a restart.
+   *
+   * @param {Job<VoiceJobPayload>} job - Interrupted voice job
+   * @private
+   */
+  private async handleVoiceJobResumed(
+    job: Job<VoiceJobPayload>,
+  ): Promise<void> {
+    const { chatId, messageId, media } = job.payload;
+    const text =
+      job.stage === 'send'
+        ? '🔄 I was restarted while sending your email. Trying again now...'
+        : `🔄 I was restarted while processing your ${media.label}. Picking up where I left off...`;
+
+    await this.bot.telegram.sendMessage(chatId, text, {
+      reply_parameters: {
+        message_id: messageId,
+        allow_sending_without_reply: true,
+      },
+    });
+  }
+
+  /**
+   * Deletes the files of a voice job, except the recording once a draft owns it.
+   *
+   * @param {VoiceJobPayload} payload - Voice job payload
+   * @private
+   */
+  private releaseVoiceJobFiles(payload: VoiceJobPayload): void {
+    this.deleteFile(payload.convertedPath);
+    if (!payload.draftId) {
+      this.deleteFile(payload.filePath);
+    }
+  }
+
+  /**
+   * Deletes a temporary file if it exists.
+   *
+   * @param {string} [filePath] - File to delete
+   * @private
+   */
+  private deleteFile(filePath?: string): void {
+    if (filePath && fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  /**
+   * Gets the result of an earlier stage, which must exist when a later stage runs.
+   *
+   * @param {T | undefined} value - Stored result
+   * @param {string} name - Payload field, for the error message
+   * @returns {T} The result
+   * @throws {Error} If the earlier stage did not store it
+   * @private
+   */
+  private stageInput<T>(value: T | undefined, name: string): T {
+    if (value === undefined) {
+      throw new Error(`Voice job is missing ${name}`);
+    }
+    return value;
+  }
+
+  /**
+   * Updates the processing message while a long recording is transcribed in chunks.
+   *
+   * @param {number} chatId - Telegram chat ID
+   * @param {number} statusMessageId - The "Processing" message to edit
+   * @param {TranscriptionProgress} progress - Chunks transcribed so far
+   * @private
+   */
+  private async showTranscriptionProgress(
+    chatId: number,
+    statusMessageId: number,
+    progress: TranscriptionProgress,
+  ): Promise<void> {
+    const percent = Math.round((progress.completed / progress.total) * 100);
+    await this.bot.telegram.editMessageText(
+      chatId,
+      statusMessageId,
+      undefined,
+      `⏳ Long recording split into ${progress.total} parts. ` +
+        `Transcribed ${progress.completed}/${progress.total} (${percent}%)...`,
+    );
+  }
+
+  /**
+   * Retrieves the download URL for a Telegram file.
+   *
+   * @param {string} fileId - Telegram file ID
+   * @returns {Promise<string>} The download URL for the file
+   * @throws {Error} If file URL retrieval fails
+   * @private
+   */
+  private async getFileUrl(fileId: string): Promise<string> {
+    try {
+      const token = this.configService.get<string>('TELEGRAM_BOT_TOKEN');
+      const resp = await axios.get<{ result?: { file_path?: string } }>(
+        `https://api.telegram.org/bot${token}/getFile?file_id=${fileId}`,
+      );
+
+      if (!resp.data?.result?.file_path) {
+        throw new Error('Invalid response from Telegram API');
+      }
+
+      return `https://api.telegram.org/file/bot${token}/${resp.data.result.file_path}`;
+    } catch (error) {
+      this.logger.error(`Failed to get file URL: ${(error as Error).message}`);
+      throw new Error('Failed to retrieve voice message from Telegram', {
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Downloads a file from a URL to a specified destination.
+   * A download that fails or stalls rejects, so the job's retries can fetch the file again.
+   *
+   * @param {string} url - The URL to download from
+   * @param {string} destination - The local path to save the file
+   * @returns {Promise<void>}
+   * @throws {Error} If file download fails or takes longer than DOWNLOAD_TIMEOUT
+   * @private
+   */
+  private async downloadFile(url: string, destination: string): Promise<void> {
+    const signal = AbortSignal.timeout(DOWNLOAD_TIMEOUT);
+
+    try {
+      const response = await axios.get<Readable>(url, {
+        responseType: 'stream',
+        timeout: 30000, // 30 seconds timeout
+      });
+
+      await pipeline(response.data, fs.createWriteStream(destination), {
+        signal,
+      });
+      this.logger.log(`File downloaded successfully to ${destination}`);
+    } catch (error) {
+      this.logger.error(`Download failed: ${(error as Error).message}`);
+      throw new Error('Failed to download voice message', { cause: error });
+    }
+  }
+}
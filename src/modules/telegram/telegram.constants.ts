@@ -0,0 +1,12 @@
+/** Injection token of the Telegraf bot shared by TelegramService and the feature handlers */
+export const TELEGRAM_BOT = 'TELEGRAM_BOT';
+
+/** Injection token of the feature handlers, in the order their text replies are tried */
+export const TELEGRAM_HANDLERS = 'TELEGRAM_HANDLERS';
+
+/** Loose email address check for typed answers; full validation happens before sending */
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Mail server as typed in /connect and /inbox: "smtp.example.com" or "smtp.example.com:587" */
+export const MAIL_SERVER_PATTERN =
+  /^([a-z0-9-]+(?:\.[a-z0-9-]+)+)(?::(\d{1,5}))?$/i;
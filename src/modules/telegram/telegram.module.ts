@@ -1,14 +1,61 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { Telegraf } from 'telegraf';
 import { TelegramService } from './telegram.service';
+import { TELEGRAM_BOT, TELEGRAM_HANDLERS } from './telegram.constants';
+import { TelegramHandler } from './handlers/telegram-handler.interface';
+import { AccountTelegramHandler } from './handlers/account-telegram.handler';
+import { OutboxTelegramHandler } from './handlers/outbox-telegram.handler';
+import { DraftTelegramHandler } from './handlers/draft-telegram.handler';
+import { TranslateTelegramHandler } from './handlers/translate-telegram.handler';
+import { IntentTelegramHandler } from './handlers/intent-telegram.handler';
+import { VoiceTelegramHandler } from './handlers/voice-telegram.handler';
+import { TranscriptionTelegramHandler } from './handlers/transcription-telegram.handler';
+import { HistoryTelegramHandler } from './handlers/history-telegram.handler';
+import { InboxTelegramHandler } from './handlers/inbox-telegram.handler';
+import { ContactTelegramHandler } from './handlers/contact-telegram.handler';
+import { PreferenceTelegramHandler } from './handlers/preference-telegram.handler';
+import { AccessTelegramHandler } from './handlers/access-telegram.handler';
+import { UsageTelegramHandler } from './handlers/usage-telegram.handler';
 import { WhisperModule } from '../whisper/whisper.module';
 import { GptModule } from '../gpt/gpt.module';
+import { DraftModule } from '../draft/draft.module';
+import { ContactModule } from '../contact/contact.module';
+import { PreferenceModule } from '../preference/preference.module';
+import { JobModule } from '../job/job.module';
+import { OutboxModule } from '../outbox/outbox.module';
 import { EmailModule } from '../email/email.module';
+import { AccountModule } from '../account/account.module';
+import { AccessModule } from '../access/access.module';
+import { UsageModule } from '../usage/usage.module';
+import { IntentModule } from '../intent/intent.module';
+import { InboxModule } from '../inbox/inbox.module';
+import { HistoryModule } from '../history/history.module';
+
+/**
+ * Feature handlers of the bot. Text messages are offered to them in this order,
+ * so conversations waiting for a specific answer come before draft revisions.
+ */
+const HANDLERS = [
+  AccountTelegramHandler,
+  OutboxTelegramHandler,
+  DraftTelegramHandler,
+  TranslateTelegramHandler,
+  IntentTelegramHandler,
+  VoiceTelegramHandler,
+  TranscriptionTelegramHandler,
+  HistoryTelegramHandler,
+  InboxTelegramHandler,
+  ContactTelegramHandler,
+  PreferenceTelegramHandler,
+  AccessTelegramHandler,
+  UsageTelegramHandler,
+];
 
 /**
  * Module responsible for Telegram bot functionality.
  * Integrates voice message processing, transcription, and email extraction capabilities.
- * 
+ *
  * @class TelegramModule
  */
 @Module({
@@ -16,9 +63,39 @@ import { EmailModule } from '../email/email.module';
     ConfigModule,
     WhisperModule,
     GptModule,
-    EmailModule
+    DraftModule,
+    ContactModule,
+    PreferenceModule,
+    JobModule,
+    OutboxModule,
+    EmailModule,
+    AccountModule,
+    AccessModule,
+    UsageModule,
+    IntentModule,
+    InboxModule,
+    HistoryModule,
+  ],
+  providers: [
+    {
+      provide: TELEGRAM_BOT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const token = configService.get<string>('TELEGRAM_BOT_TOKEN');
+        if (!token) {
+          throw new Error('TELEGRAM_BOT_TOKEN is not defined');
+        }
+        return new Telegraf(token);
+      },
+    },
+    ...HANDLERS,
+    {
+      provide: TELEGRAM_HANDLERS,
+      inject: HANDLERS,
+      useFactory: (...handlers: TelegramHandler[]) => handlers,
+    },
+    TelegramService,
   ],
-  providers: [TelegramService],
   exports: [TelegramService],
 })
-export class TelegramModule {}
\ No newline at end of file
+export class TelegramModule {}
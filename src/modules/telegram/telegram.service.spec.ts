@@ -0,0 +1,176 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Context, Telegraf } from 'telegraf';
+import { AccessService } from '../access/access.service';
+import { IntentService } from '../intent/intent.service';
+import { StorageService } from '../storage/storage.service';
+import { TelegramHandler } from './handlers/telegram-handler.interface';
+import { TelegramService } from './telegram.service';
+
+const ADMIN = 1;
+const TRANSCRIBER = 2;
+const SENDER = 3;
+const STRANGER = 4;
+const GROUP = -100;
+
+type Middleware = (ctx: Context, next: () => Promise<void>) => Promise<void>;
+
+/** What a test update looks like, with the replies it got */
+interface FakeContext {
+  from: { id: number };
+  chat: { id: number; type: string };
+  message?: { text: string };
+  callbackQuery?: { data: string };
+  reply: jest.Mock;
+  answerCbQuery: jest.Mock;
+}
+
+describe('TelegramService', () => {
+  let dataDir: string;
+  let accessService: AccessService;
+  let middleware: Middleware;
+
+  /**
+   * Runs an update through the access check.
+   *
+   * @returns {Promise<boolean>} True if the update reached the handlers
+   */
+  async function dispatch(update: FakeContext): Promise<boolean> {
+    const next = jest.fn(() => Promise.resolve());
+    await middleware(update as unknown as Context, next);
+    return next.mock.calls.length > 0;
+  }
+
+  function message(
+    userId: number,
+    text: string,
+    chat = { id: userId, type: 'private' },
+  ): FakeContext {
+    return {
+      from: { id: userId },
+      chat,
+      message: { text },
+      reply: jest.fn(),
+      answerCbQuery: jest.fn(),
+    };
+  }
+
+  function button(userId: number, data: string): FakeContext {
+    return {
+      from: { id: userId },
+      chat: { id: userId, type: 'private' },
+      callbackQuery: { data },
+      reply: jest.fn(),
+      answerCbQuery: jest.fn(),
+    };
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'telegram-'));
+    const config = new ConfigService({
+      DATA_DIR: dataDir,
+      ADMIN_IDS: String(ADMIN),
+      ALLOWED_USER_IDS: String(TRANSCRIBER),
+      ALLOWED_CHAT_IDS: String(GROUP),
+      DEFAULT_ROLE: 'transcriber',
+    });
+    accessService = new AccessService(config, new StorageService(config));
+    accessService.allow(SENDER, 'sender', ADMIN);
+
+    const bot = {
+      use: jest.fn((handler: Middleware) => {
+        middleware = handler;
+      }),
+      start: jest.fn(),
+      help: jest.fn(),
+      on: jest.fn(),
+      catch: jest.fn(),
+    };
+    const handler: TelegramHandler = {
+      commandRoles: { connect: 'sender', allow: 'admin' },
+      callbackRoles: { draft: 'sender' },
+      register: jest.fn(),
+    };
+    const service = new TelegramService(
+      bot as unknown as Telegraf,
+      accessService,
+      { list: () => [] } as unknown as IntentService,
+      [handler],
+    );
+    // Registers the handlers without launching the bot
+    service['setupBotHandlers']();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('authorize', () => {
+    it('lets every user with access transcribe', async () => {
+      expect(await dispatch(message(TRANSCRIBER, 'hello'))).toBe(true);
+      expect(await dispatch(message(TRANSCRIBER, '/srt'))).toBe(true);
+    });
+
+    it('keeps commands for the roles that need them', async () => {
+      const refused = message(TRANSCRIBER, '/connect');
+
+      expect(await dispatch(refused)).toBe(false);
+      expect(refused.reply).toHaveBeenCalledWith(
+        expect.stringContaining('You can transcribe voice messages, but not'),
+      );
+      expect(await dispatch(message(SENDER, '/connect'))).toBe(true);
+      expect(await dispatch(message(SENDER, '/allow 2 sender'))).toBe(false);
+      expect(await dispatch(message(ADMIN, '/allow@vox_bot 2 sender'))).toBe(
+        true,
+      );
+    });
+
+    it('keeps buttons for the roles that need them', async () => {
+      const refused = button(TRANSCRIBER, 'draft:send:abc');
+
+      expect(await dispatch(refused)).toBe(false);
+      expect(refused.answerCbQuery).toHaveBeenCalledWith(
+        expect.stringContaining('but not this'),
+      );
+      expect(refused.reply).not.toHaveBeenCalled();
+      expect(await dispatch(button(SENDER, 'draft:send:abc'))).toBe(true);
+    });
+
+    it('only lets users without access ask for it', async () => {
+      const refused = message(STRANGER, 'hello');
+
+      expect(await dispatch(refused)).toBe(false);
+      expect(refused.reply).toHaveBeenCalledWith(
+        expect.stringContaining(`your user ID is ${STRANGER}`),
+      );
+      expect(await dispatch(message(STRANGER, '/request'))).toBe(true);
+    });
+
+    it('refuses users an admin denied, even when allowlisted', async () => {
+      accessService.deny(TRANSCRIBER, ADMIN);
+
+      expect(await dispatch(message(TRANSCRIBER, 'hello'))).toBe(false);
+    });
+
+    it('gives members of allowed groups the default role there', async () => {
+      const group = { id: GROUP, type: 'group' };
+
+      expect(await dispatch(message(STRANGER, 'hello', group))).toBe(true);
+      expect(await dispatch(message(STRANGER, '/connect', group))).toBe(false);
+    });
+
+    it('ignores plain messages from strangers in groups', async () => {
+      const chatter = message(STRANGER, 'hello', { id: -200, type: 'group' });
+
+      expect(await dispatch(chatter)).toBe(false);
+      expect(chatter.reply).not.toHaveBeenCalled();
+    });
+  });
+});
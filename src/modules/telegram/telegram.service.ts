@@ -1,72 +1,56 @@
-import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { Injectable, OnModuleInit, Logger, Inject } from '@nestjs/common';
 import { Telegraf, Context } from 'telegraf';
-import { Message } from 'telegraf/typings/core/types/typegram';
-import axios from 'axios';
-import * as fs from 'fs';
-import * as path from 'path';
-import { WhisperService } from '../whisper/whisper.service';
-import { GptService } from '../gpt/gpt.service';
-import { EmailService } from '../email/email.service';
+import {
+  AccessService,
+  Role,
+  ROLE_DESCRIPTIONS,
+  hasRole,
+} from '../access/access.service';
+import { IntentService } from '../intent/intent.service';
+import { TELEGRAM_BOT, TELEGRAM_HANDLERS } from './telegram.constants';
+import { TelegramHandler } from './handlers/telegram-handler.interface';
 
 /**
  * Service responsible for handling Telegram bot operations.
- * This service manages voice message processing, transcription, and email information extraction.
- * 
+ * This service launches the bot, checks what each user may do and registers the feature handlers
+ * (see handlers/), which process voice messages, drafts, history and the other commands.
+ *
  * @class TelegramService
  * @implements {OnModuleInit}
  */
 @Injectable()
 export class TelegramService implements OnModuleInit {
-  private readonly bot: Telegraf;
   private readonly logger = new Logger(TelegramService.name);
-  private readonly tmpDir: string;
+  /** Commands that need more than the transcriber role; every other command is open to all users with access */
+  private readonly commandRoles: Record<string, Role> = {};
+  /** Roles needed by the buttons of each callback prefix, as in "draft:send:<id>" */
+  private readonly callbackRoles: Record<string, Role> = {};
 
   /**
    * Creates an instance of TelegramService.
-   * 
-   * @param {ConfigService} configService - Service for accessing configuration values
-   * @param {WhisperService} whisperService - Service for voice message transcription
-   * @param {GptService} gptService - Service for email information extraction
-   * @param {EmailService} emailService - Service for sending emails
-   * @throws {Error} If TELEGRAM_BOT_TOKEN is not defined in environment variables
+   *
+   * @param {Telegraf} bot - Telegram bot
+   * @param {AccessService} accessService - Service deciding who may use the bot and what for
+   * @param {IntentService} intentService - Registry of the intents whose commands /help lists
+   * @param {TelegramHandler[]} handlers - Feature handlers, in the order their text replies are tried
    */
   constructor(
-    private configService: ConfigService,
-    private whisperService: WhisperService,
-    private gptService: GptService,
-    private emailService: EmailService,
-  ) {
-    const token = this.configService.get<string>('TELEGRAM_BOT_TOKEN');
-    if (!token) {
-      throw new Error('TELEGRAM_BOT_TOKEN is not defined');
-    }
-    this.bot = new Telegraf(token);
-    this.tmpDir = path.resolve(__dirname, '../../../tmp');
-    this.ensureTmpDirectory();
-  }
-
-  /**
-   * Ensures the temporary directory exists for storing voice messages.
-   * Creates the directory if it doesn't exist.
-   * 
-   * @private
-   */
-  private ensureTmpDirectory(): void {
-    if (!fs.existsSync(this.tmpDir)) {
-      fs.mkdirSync(this.tmpDir, { recursive: true });
-    }
-  }
+    @Inject(TELEGRAM_BOT) private bot: Telegraf,
+    private accessService: AccessService,
+    private intentService: IntentService,
+    @Inject(TELEGRAM_HANDLERS) private handlers: TelegramHandler[],
+  ) {}
 
   /**
    * Lifecycle hook that is called once the module has been initialized.
    * Sets up bot handlers and launches the bot.
-   * 
+   *
    * @public
    */
   onModuleInit() {
     this.setupBotHandlers();
-    this.bot.launch()
+    this.bot
+      .launch()
       .then(() => this.logger.log('🤖 Telegram bot successfully launched'))
       .catch((error) => this.logger.error('Failed to launch bot:', error));
 
@@ -77,198 +61,162 @@ export class TelegramService implements OnModuleInit {
 
   /**
    * Sets up all bot command and message handlers.
-   * Configures start, help commands and voice message handling.
-   * 
+   * Configures start, help commands, then the commands, buttons and replies of each feature handler.
+   *
    * @private
    */
   private setupBotHandlers(): void {
-    this.bot.start((ctx) => {
-      ctx.reply(
+    for (const handler of this.handlers) {
+      Object.assign(this.commandRoles, handler.commandRoles);
+      Object.assign(this.callbackRoles, handler.callbackRoles);
+    }
+
+    // Runs before every handler: users without the role an update needs go no further
+    this.bot.use(async (ctx, next) => {
+      if (await this.authorize(ctx)) {
+        await next();
+      }
+    });
+
+    this.bot.start(async (ctx) => {
+      await ctx.reply(
         '👋 Welcome! I can help you with voice messages.\n\n' +
-        '🎯 What I can do:\n' +
-        '1. Transcribe voice messages to text\n' +
-        '2. Extract email information from your voice\n' +
-        '3. Send emails directly from voice messages\n\n' +
-        'Just send me a voice message and I\'ll process it for you!\n\n' +
-        'Use /help to see available commands.'
+          '🎯 What I can do:\n' +
+          '1. Transcribe voice messages to text\n' +
+          '2. Turn what you say into emails, meetings, to-do items or notes\n' +
+          '3. Send emails directly from voice messages\n\n' +
+          "Just send me a voice message and I'll process it for you!\n\n" +
+          'Use /help to see available commands.',
       );
     });
 
-    this.bot.help((ctx) => {
-      ctx.reply(
+    this.bot.help(async (ctx) => {
+      const isAdmin =
+        ctx.from !== undefined &&
+        this.accessService.can(ctx.from.id, ctx.chat.id, 'admin');
+      await ctx.reply(
         '🎯 Available commands:\n\n' +
-        '/start - Start the bot\n' +
-        '/help - Show this help message\n\n' +
-        '📝 How to use:\n' +
-        '1. Send a voice message\n' +
-        '2. I\'ll transcribe it\n' +
-        '3. If it contains email information, I\'ll extract it\n' +
-        '4. You can choose to send the email directly\n\n' +
-        '💡 Tip: Speak clearly and mention the email details you want to include!'
+          '/start - Start the bot\n' +
+          '/help - Show this help message\n' +
+          '/connect - Link the email account your emails are sent from\n' +
+          '/disconnect - Unlink your email account\n' +
+          '/inbox [on|host:port|off] - Get new emails here, and answer them with a voice reply\n' +
+          '/undo - Restore the previous version of your draft\n' +
+          '/translate [language|off] - Translate your draft before sending it, e.g. /translate en\n' +
+          '/outbox - See emails waiting to be delivered, and retry or discard them\n' +
+          '/scheduled - See emails scheduled for later, and reschedule or cancel them\n' +
+          '/history - Browse what you said and sent, and resend or forward old emails\n' +
+          '/search <words> - Find past transcripts and emails\n' +
+          '/forget - Delete your history\n' +
+          this.intentService
+            .list()
+            .filter((handler) => handler.command)
+            .map(
+              (handler) =>
+                `/${handler.command} - ${handler.commandDescription}\n`,
+            )
+            .join('') +
+          '/timezone [Area/City|default] - Set the timezone of the times you say, e.g. "send it tomorrow at 9am"\n' +
+          '/contacts - List your contacts\n' +
+          '/addcontact <name> <email> [description] - Add a contact\n' +
+          '/removecontact <name or email> - Remove a contact\n' +
+          '/contactlanguage <name or email> <language|off> - Translate the emails you send to a contact\n' +
+          '/attachments [recording|transcript] [on|off] - Default attachments for your emails\n' +
+          '/template [name] - Choose how your emails look (standard, formal, memo)\n' +
+          '/signature [text|off] - Set the signature added to your emails\n' +
+          '/engine [name|default] - Choose how your voice messages are transcribed\n' +
+          '/usage - See what you have used today and this month, and your limits\n' +
+          '/language [code|auto] - Pin the language you speak, or detect it automatically\n' +
+          '/srt, /vtt, /json - Export your latest transcription (or the one you reply to) as a file\n\n' +
+          '📝 How to use:\n' +
+          '1. Send a voice message\n' +
+          "2. I'll transcribe it\n" +
+          "3. If it asks for an email, I'll prepare a draft; meetings, to-do items and notes are saved for you\n" +
+          '4. Use the Send, Edit or Cancel buttons under the draft\n' +
+          '5. To change the draft, just tell me what to change by text or voice\n\n' +
+          '💡 Tip: Speak clearly and mention the email details you want to include! ' +
+          'Save people with /addcontact and just say "email John from finance".' +
+          (isAdmin
+            ? '\n\n👑 Admin commands:\n' +
+              '/users - List who has access, and pending requests\n' +
+              '/allow <user ID> [transcriber|sender|admin] - Give a user access\n' +
+              "/deny <user ID> - Take a user's access away\n" +
+              "/usage csv [YYYY-MM] - Export everyone's usage for a month as CSV"
+            : ''),
       );
     });
 
-    this.bot.on('voice', async (ctx) => {
-      try {
-        await this.handleVoiceMessage(ctx);
-      } catch (error) {
-        this.logger.error('Error processing voice message:', error);
-        await ctx.reply('❌ Sorry, I encountered an error while processing your voice message. Please try again later.');
+    for (const handler of this.handlers) {
+      handler.register();
+    }
+
+    // Text that is not a command may answer a question a handler asked; the first one it is meant for takes it
+    this.bot.on('text', async (ctx) => {
+      // Commands the handlers registered never get here, so this one is unknown or mistyped
+      const command = ctx.message.entities?.find(
+        (entity) => entity.type === 'bot_command' && entity.offset === 0,
+      );
+      if (command) {
+        await ctx.reply(
+          `❓ I don't know ${ctx.message.text.slice(0, command.length)}. Send /help to see what I can do.`,
+        );
+        return;
+      }
+
+      for (const handler of this.handlers) {
+        if (await handler.handleText?.(ctx)) {
+          return;
+        }
       }
     });
 
     // Handle bot errors
     this.bot.catch((err: Error, ctx) => {
       this.logger.error(`Bot error: ${err.message}`);
-      ctx.reply('❌ An error occurred. Please try again later.');
+      void ctx.reply('❌ An error occurred. Please try again later.');
     });
   }
 
   /**
-   * Handles incoming voice messages.
-   * Downloads, transcribes, and extracts email information from the voice message.
-   * 
-   * @param {Context & { message: Message.VoiceMessage }} ctx - Telegram context with voice message
-   * @throws {Error} If voice message processing fails
+   * Checks that the sender of an update has the role it needs, telling them when they do not.
+   * Users without access may only use /request; in group chats they are ignored rather than answered.
+   *
+   * @param {Context} ctx - Telegram context
+   * @returns {Promise<boolean>} True if the update may be handled
    * @private
    */
-  private async handleVoiceMessage(ctx: Context & { message: Message.VoiceMessage }): Promise<void> {
-    const fileId = ctx.message.voice.file_id;
-    const fileUrl = await this.getFileUrl(fileId);
-    const filePath = path.join(this.tmpDir, `${fileId}.ogg`);
-
-    try {
-      // Send initial response
-      await ctx.reply('⏳ Processing your voice message...');
-
-      // Download the voice message
-      await this.downloadFile(fileUrl, filePath);
-      this.logger.log(`Voice message downloaded successfully: ${filePath}`);
-
-      // Transcribe the voice message
-      const transcription = await this.whisperService.transcribe(filePath, {
-        language: 'en',
-        responseFormat: 'text',
-      });
-
-      // Send the transcription
-      await ctx.reply(
-        '✅ Here\'s your transcription:\n\n' +
-        transcription
-      );
-
-      // Try to extract email information
-      try {
-        const emailInfo = await this.gptService.extractEmailFields(transcription);
-        
-        // Format the email information nicely
-        const emailMessage = 
-          '📧 I found email information in your message:\n\n' +
-          `📨 To: ${emailInfo.data.to}\n` +
-          `📝 Subject: ${emailInfo.data.subject}\n\n` +
-          `📄 Body:\n${emailInfo.data.body}\n\n` +
-          'Would you like to send this email? Reply with "yes" to send or "no" to cancel.';
-
-        await ctx.reply(emailMessage);
-
-        // Create a one-time message handler
-        const messageHandler = this.bot.on('message', async (ctx) => {
-          if (ctx.message && 'text' in ctx.message) {
-            const text = ctx.message.text.toLowerCase();
-            
-            if (text === 'yes') {
-              try {
-                // Send the email
-                const messageId = await this.emailService.sendEmail(emailInfo.data);
-                await ctx.reply('✅ Email sent successfully!');
-                this.logger.log(`Email sent with ID: ${messageId}`);
-              } catch (error) {
-                this.logger.error('Failed to send email:', error);
-                await ctx.reply('❌ Failed to send email. Please try again later.');
-              }
-            } else if (text === 'no') {
-              await ctx.reply('❌ Email cancelled.');
-            } else {
-              await ctx.reply('Please reply with "yes" to send the email or "no" to cancel.');
-              return; // Keep listening
-            }
-          }
-        });
-
-      } catch (emailError) {
-        this.logger.debug('No email information found in the message');
-        await ctx.reply('No email information found in the message');
-      }
-
-    } catch (error) {
-      this.logger.error(`Failed to process voice message: ${error.message}`);
-      await ctx.reply('❌ Failed to process your voice message. Please try again.');
-      throw error;
-    } finally {
-      // Cleanup: Remove the temporary file
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-      }
+  private async authorize(ctx: Context): Promise<boolean> {
+    if (!ctx.from) {
+      return false;
     }
-  }
-
-  /**
-   * Retrieves the download URL for a Telegram file.
-   * 
-   * @param {string} fileId - Telegram file ID
-   * @returns {Promise<string>} The download URL for the file
-   * @throws {Error} If file URL retrieval fails
-   * @private
-   */
-  private async getFileUrl(fileId: string): Promise<string> {
-    try {
-      const token = this.configService.get<string>('TELEGRAM_BOT_TOKEN');
-      const resp = await axios.get(`https://api.telegram.org/bot${token}/getFile?file_id=${fileId}`);
-      
-      if (!resp.data?.result?.file_path) {
-        throw new Error('Invalid response from Telegram API');
-      }
 
-      return `https://api.telegram.org/file/bot${token}/${resp.data.result.file_path}`;
-    } catch (error) {
-      this.logger.error(`Failed to get file URL: ${error.message}`);
-      throw new Error('Failed to retrieve voice message from Telegram');
+    const role = this.accessService.getRole(ctx.from.id, ctx.chat?.id);
+    const text =
+      ctx.message && 'text' in ctx.message ? ctx.message.text : undefined;
+    const command = text
+      ? /^\/(\w+)(?:@\w+)?(?:\s|$)/.exec(text)?.[1]?.toLowerCase()
+      : undefined;
+    const callback =
+      ctx.callbackQuery && 'data' in ctx.callbackQuery
+        ? ctx.callbackQuery.data.split(':')[0]
+        : undefined;
+    const required =
+      (command && this.commandRoles[command]) ||
+      (callback && this.callbackRoles[callback]) ||
+      'transcriber';
+
+    if (hasRole(role, required) || (!role && command === 'request')) {
+      return true;
     }
-  }
-
-  /**
-   * Downloads a file from a URL to a specified destination.
-   * 
-   * @param {string} url - The URL to download from
-   * @param {string} destination - The local path to save the file
-   * @returns {Promise<void>}
-   * @throws {Error} If file download fails
-   * @private
-   */
-  private async downloadFile(url: string, destination: string): Promise<void> {
-    const writer = fs.createWriteStream(destination);
-    
-    try {
-      const response = await axios.get(url, { 
-        responseType: 'stream',
-        timeout: 30000 // 30 seconds timeout
-      });
-      
-      response.data.pipe(writer);
 
-      return new Promise((resolve, reject) => {
-        writer.on('finish', () => {
-          this.logger.log(`File downloaded successfully to ${destination}`);
-          resolve();
-        });
-        writer.on('error', (error) => {
-          this.logger.error(`Error writing file: ${error.message}`);
-          reject(error);
-        });
-      });
-    } catch (error) {
-      this.logger.error(`Download failed: ${error.message}`);
-      throw new Error('Failed to download voice message');
+    const refusal = role
+      ? `🔒 You can ${ROLE_DESCRIPTIONS[role]}, but not this. Ask an admin if you need more.`
+      : `🔒 You don't have access to this bot yet. Send /request to ask an admin for it (your user ID is ${ctx.from.id}).`;
+    if (callback !== undefined) {
+      await ctx.answerCbQuery(refusal);
+    } else if (ctx.message && (ctx.chat?.type === 'private' || command)) {
+      await ctx.reply(refusal);
     }
+    return false;
   }
 }
@@ -0,0 +1,63 @@
+import { TranscriptionResult } from '../whisper/whisper.service';
+import { TranscriptionProviderName } from '../whisper/providers/transcription-provider.interface';
+
+/** Job type of the voice-to-email pipeline */
+export const VOICE_JOB = 'voice';
+
+/** Stages a voice message goes through, in order */
+export const VOICE_JOB_STAGES = [
+  'download',
+  'convert',
+  'transcribe',
+  'extract',
+  'confirm',
+  'send',
+] as const;
+
+export type VoiceJobStage = (typeof VOICE_JOB_STAGES)[number];
+
+/**
+ * A file with sound sent to the bot, whatever kind of message carried it.
+ *
+ * @interface IncomingMedia
+ */
+export interface IncomingMedia {
+  /** How the media is referred to in replies, e.g. "video note" */
+  label: string;
+  fileId: string;
+  fileName?: string;
+  mimeType?: string;
+  fileSize?: number;
+}
+
+/**
+ * A voice message on its way through the pipeline, persisted with its job.
+ * Each stage stores its result here so later stages, retries and restarts can pick it up.
+ *
+ * @interface VoiceJobPayload
+ */
+export interface VoiceJobPayload {
+  chatId: number;
+  userId: number;
+  /** The message carrying the media */
+  messageId: number;
+  /** Message the media replied to, used to recognize change requests for a draft */
+  replyToMessageId?: number;
+  media: IncomingMedia;
+  /** Extension of the format guessed from the message, used for the downloaded file */
+  extension: string;
+  /** The "Processing" message, edited with progress */
+  statusMessageId: number;
+  /** Provider and pinned language, as set when the message arrived */
+  provider: TranscriptionProviderName;
+  language?: string;
+  /** Downloaded recording */
+  filePath?: string;
+  /** Recording converted for the provider, deleted once transcribed */
+  convertedPath?: string;
+  transcription?: TranscriptionResult;
+  /** The bot's reply with the transcription */
+  transcriptionMessageId?: number;
+  /** Draft created from the transcription */
+  draftId?: string;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { UsageService } from './usage.service';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [ConfigModule, StorageModule],
+  providers: [UsageService],
+  exports: [UsageService],
+})
+export class UsageModule {}
@@ -0,0 +1,159 @@
+import { HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StorageService } from '../storage/storage.service';
+import { UsageService } from './usage.service';
+
+describe('UsageService', () => {
+  let dataDir: string;
+
+  function createService(settings: Record<string, unknown> = {}): UsageService {
+    const config = new ConfigService({ DATA_DIR: dataDir, ...settings });
+    return new UsageService(config, new StorageService(config));
+  }
+
+  /** Expects a 429 whose message names the quota that ran out */
+  function expectQuotaExceeded(action: () => void, message: RegExp): void {
+    try {
+      action();
+    } catch (error) {
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+      expect((error as HttpException).message).toMatch(message);
+      return;
+    }
+    throw new Error('Expected the quota to be exceeded');
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-06-15T12:00:00Z') });
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('ledger', () => {
+    it('adds up what a user consumes over the day and the month', () => {
+      const service = createService();
+      service.record(7, { audioSeconds: 90, emailsSent: 1 });
+      service.recordTokens(7, {
+        data: {},
+        usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+      });
+      jest.setSystemTime(new Date('2025-06-16T08:00:00Z'));
+      service.record(7, { audioSeconds: 30 });
+      service.record(8, { audioSeconds: 600 });
+
+      expect(service.getTotals(7, 'day')).toEqual({
+        audioSeconds: 30,
+        promptTokens: 0,
+        completionTokens: 0,
+        emailsSent: 0,
+      });
+      expect(service.getTotals(7, 'month')).toEqual({
+        audioSeconds: 120,
+        promptTokens: 100,
+        completionTokens: 20,
+        emailsSent: 1,
+      });
+    });
+
+    it('keeps the ledger across restarts', () => {
+      createService().record(7, { emailsSent: 2 });
+
+      expect(createService().getTotals(7, 'day').emailsSent).toBe(2);
+    });
+  });
+
+  describe('quotas', () => {
+    it('refuses work once the daily allowance is used up', () => {
+      const service = createService({ QUOTA_DAILY_AUDIO_MINUTES: 2 });
+      service.record(7, { audioSeconds: 90 });
+      expect(() => service.assertWithinQuota(7, 'audio')).not.toThrow();
+
+      service.record(7, { audioSeconds: 30 });
+      expectQuotaExceeded(
+        () => service.assertWithinQuota(7, 'audio'),
+        /daily allowance of 2 audio minutes.*midnight UTC/,
+      );
+      expect(() => service.assertWithinQuota(8, 'audio')).not.toThrow();
+    });
+
+    it('counts prompt and completion tokens against the monthly allowance', () => {
+      const service = createService({ QUOTA_MONTHLY_TOKENS: 1000 });
+      service.record(7, { promptTokens: 600, completionTokens: 300 });
+      jest.setSystemTime(new Date('2025-06-20T12:00:00Z'));
+      expect(() => service.assertWithinQuota(7, 'tokens')).not.toThrow();
+
+      service.record(7, { completionTokens: 100 });
+      expectQuotaExceeded(
+        () => service.assertWithinQuota(7, 'tokens'),
+        /monthly allowance of 1000 AI tokens.*1st of next month/,
+      );
+
+      jest.setSystemTime(new Date('2025-07-01T00:00:00Z'));
+      expect(() => service.assertWithinQuota(7, 'tokens')).not.toThrow();
+    });
+
+    it('limits HTTP API requests together', () => {
+      const service = createService({ QUOTA_DAILY_EMAILS: 1 });
+      service.record(undefined, { emailsSent: 1 });
+
+      expectQuotaExceeded(
+        () => service.assertWithinQuota(undefined, 'emails'),
+        /daily allowance of 1 emails/,
+      );
+      expect(() => service.assertWithinQuota(7, 'emails')).not.toThrow();
+    });
+
+    it('does not limit kinds without a quota', () => {
+      const service = createService();
+      service.record(7, { audioSeconds: 1e6 });
+
+      expect(() => service.assertWithinQuota(7, 'audio')).not.toThrow();
+    });
+  });
+
+  describe('exportCsv', () => {
+    it('exports a month with the team each day is charged to', () => {
+      const service = createService({
+        USAGE_TEAMS: 'sales=7, 8; platform=api',
+      });
+      service.record(8, { audioSeconds: 61.4, emailsSent: 1 });
+      service.record(undefined, { promptTokens: 10, completionTokens: 5 });
+      service.record(7, { audioSeconds: 10 });
+      service.record(9, { emailsSent: 2 });
+      jest.setSystemTime(new Date('2025-07-01T00:00:00Z'));
+      service.record(7, { audioSeconds: 10 });
+
+      expect(service.exportCsv('2025-06').split('\n')).toEqual([
+        'date,user_id,team,audio_seconds,prompt_tokens,completion_tokens,total_tokens,emails_sent',
+        '2025-06-15,api,platform,0,10,5,15,0',
+        '2025-06-15,7,sales,10,0,0,0,0',
+        '2025-06-15,8,sales,61,0,0,0,1',
+        '2025-06-15,9,,0,0,0,0,2',
+      ]);
+    });
+
+    it('keeps past days with the team they were charged to', () => {
+      createService({ USAGE_TEAMS: 'sales=7' }).record(7, { emailsSent: 1 });
+      jest.setSystemTime(new Date('2025-06-16T08:00:00Z'));
+      createService({ USAGE_TEAMS: 'support=7' }).record(7, { emailsSent: 1 });
+
+      expect(createService().exportCsv('2025-06').split('\n').slice(1)).toEqual(
+        ['2025-06-15,7,sales,0,0,0,0,1', '2025-06-16,7,support,0,0,0,0,1'],
+      );
+    });
+  });
+});
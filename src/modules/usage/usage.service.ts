@@ -0,0 +1,277 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageService, Collection } from '../storage/storage.service';
+import { GptResponse } from '../gpt/gpt.service';
+
+/** What the ledger counts */
+export const USAGE_METRICS = [
+  'audioSeconds',
+  'promptTokens',
+  'completionTokens',
+  'emailsSent',
+] as const;
+
+export type UsageMetric = (typeof USAGE_METRICS)[number];
+
+export type Usage = Record<UsageMetric, number>;
+
+/** What quotas limit: audio minutes, GPT tokens (prompt and completion) and emails sent */
+export type QuotaKind = 'audio' | 'tokens' | 'emails';
+
+export type QuotaPeriod = 'day' | 'month';
+
+/**
+ * Limits of one kind of usage; unset limits are unlimited.
+ *
+ * @interface Quota
+ */
+export interface Quota {
+  day?: number;
+  month?: number;
+}
+
+/**
+ * A user's usage on one day (UTC), as kept in the ledger.
+ *
+ * @interface UsageRecord
+ */
+export interface UsageRecord extends Usage {
+  /** "YYYY-MM-DD" */
+  date: string;
+  /** Telegram user ID; undefined for HTTP API requests without a user */
+  userId?: number;
+  /** Team the usage is charged to, from USAGE_TEAMS */
+  team?: string;
+}
+
+const EMPTY_USAGE: Usage = {
+  audioSeconds: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  emailsSent: 0,
+};
+
+/** Names of the quota kinds in messages */
+const QUOTA_LABELS: Record<QuotaKind, string> = {
+  audio: 'audio minutes',
+  tokens: 'AI tokens',
+  emails: 'emails',
+};
+
+/**
+ * Reads the teams usage is charged to.
+ *
+ * @param {string} [value] - Teams and their members, such as "sales=123,456; platform=789,api",
+ * where "api" stands for HTTP API requests without a user
+ * @returns {Map<string, string>} Team of each member, keyed by Telegram user ID or "api"
+ */
+function parseTeams(value?: string): Map<string, string> {
+  const teams = new Map<string, string>();
+  for (const entry of (value ?? '').split(';')) {
+    const [team, members = ''] = entry.split('=').map((part) => part.trim());
+    for (const member of members.split(',')) {
+      if (team && member.trim()) {
+        teams.set(member.trim(), team);
+      }
+    }
+  }
+  return teams;
+}
+
+/**
+ * Measures a kind of quota in a usage total.
+ *
+ * @param {Usage} usage - Usage total
+ * @param {QuotaKind} kind - Kind of quota
+ * @returns {number} Audio minutes, tokens or emails
+ */
+export function measureUsage(usage: Usage, kind: QuotaKind): number {
+  switch (kind) {
+    case 'audio':
+      return usage.audioSeconds / 60;
+    case 'tokens':
+      return usage.promptTokens + usage.completionTokens;
+    case 'emails':
+      return usage.emailsSent;
+  }
+}
+
+/**
+ * Service keeping a ledger of what each user consumes per day, and enforcing the daily and monthly quotas.
+ * Days and months are UTC. HTTP API requests without a user are counted, and limited, together as "api".
+ * Each entry also carries the team of its user, so that the CSV export can be charged back by team.
+ *
+ * @class UsageService
+ */
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+  private readonly ledger: Collection<UsageRecord>;
+  private readonly quotas: Record<QuotaKind, Quota>;
+  private readonly teams: Map<string, string>;
+
+  /**
+   * Creates an instance of UsageService.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   * @param {StorageService} storageService - Service for persisting the ledger
+   */
+  constructor(
+    private configService: ConfigService,
+    private storageService: StorageService,
+  ) {
+    this.ledger = this.storageService.collection<UsageRecord>('usage');
+    this.quotas = {
+      audio: {
+        day: this.configService.get<number>('QUOTA_DAILY_AUDIO_MINUTES'),
+        month: this.configService.get<number>('QUOTA_MONTHLY_AUDIO_MINUTES'),
+      },
+      tokens: {
+        day: this.configService.get<number>('QUOTA_DAILY_TOKENS'),
+        month: this.configService.get<number>('QUOTA_MONTHLY_TOKENS'),
+      },
+      emails: {
+        day: this.configService.get<number>('QUOTA_DAILY_EMAILS'),
+        month: this.configService.get<number>('QUOTA_MONTHLY_EMAILS'),
+      },
+    };
+    this.teams = parseTeams(this.configService.get<string>('USAGE_TEAMS'));
+  }
+
+  /**
+   * Gets the team a user's usage is charged to.
+   *
+   * @param {number | undefined} userId - Telegram user ID; undefined for HTTP API requests without a user
+   * @returns {string | undefined} The team, if the user is in one
+   */
+  getTeam(userId: number | undefined): string | undefined {
+    return this.teams.get(String(userId ?? 'api'));
+  }
+
+  /**
+   * Adds usage to a user's ledger entry for today.
+   *
+   * @param {number | undefined} userId - Telegram user ID; undefined for HTTP API requests without a user
+   * @param {Partial<Usage>} usage - What was consumed
+   */
+  record(userId: number | undefined, usage: Partial<Usage>): void {
+    const date = new Date().toISOString().slice(0, 10);
+    const key = `${date}:${userId ?? 'api'}`;
+    const current = this.ledger.get(key) ?? { ...EMPTY_USAGE, date, userId };
+
+    // The day is charged to the user's team at the time, so moving a user does not rewrite past months
+    const updated = { ...current, team: this.getTeam(userId) };
+    for (const metric of USAGE_METRICS) {
+      updated[metric] += usage[metric] ?? 0;
+    }
+    this.ledger.set(key, updated);
+  }
+
+  /**
+   * Adds the tokens of a GPT call to a user's ledger.
+   *
+   * @param {number | undefined} userId - Telegram user ID; undefined for HTTP API requests without a user
+   * @param {GptResponse<unknown>} response - Response carrying the token counts
+   */
+  recordTokens(
+    userId: number | undefined,
+    response: GptResponse<unknown>,
+  ): void {
+    this.record(userId, {
+      promptTokens: response.usage.promptTokens,
+      completionTokens: response.usage.completionTokens,
+    });
+  }
+
+  /**
+   * Sums a user's usage over the current day or month.
+   *
+   * @param {number | undefined} userId - Telegram user ID; undefined for HTTP API requests without a user
+   * @param {QuotaPeriod} period - Day or month
+   * @returns {Usage} Usage so far in the period
+   */
+  getTotals(userId: number | undefined, period: QuotaPeriod): Usage {
+    const prefix = new Date().toISOString().slice(0, period === 'day' ? 10 : 7);
+    const totals = { ...EMPTY_USAGE };
+    for (const record of this.ledger.values()) {
+      if (record.userId === userId && record.date.startsWith(prefix)) {
+        for (const metric of USAGE_METRICS) {
+          totals[metric] += record[metric];
+        }
+      }
+    }
+    return totals;
+  }
+
+  /**
+   * Gets the configured limits of a kind of usage.
+   *
+   * @param {QuotaKind} kind - Kind of quota
+   * @returns {Quota} Daily and monthly limits
+   */
+  getQuota(kind: QuotaKind): Quota {
+    return this.quotas[kind];
+  }
+
+  /**
+   * Checks that a user has not used up a quota, for the day or the month.
+   * Work that starts under the quota is finished, so a user may end slightly above it.
+   *
+   * @param {number | undefined} userId - Telegram user ID; undefined for HTTP API requests, which share one allowance
+   * @param {QuotaKind} kind - Kind of quota
+   * @throws {HttpException} 429 with a message saying which quota ran out and when it resets
+   */
+  assertWithinQuota(userId: number | undefined, kind: QuotaKind): void {
+    for (const period of ['day', 'month'] as const) {
+      const limit = this.quotas[kind][period];
+      if (limit === undefined) {
+        continue;
+      }
+
+      const used = measureUsage(this.getTotals(userId, period), kind);
+      if (used >= limit) {
+        this.logger.log(
+          `User ${userId ?? 'api'} reached the ${period === 'day' ? 'daily' : 'monthly'} ${kind} quota`,
+        );
+        throw new HttpException(
+          `You've used your ${period === 'day' ? 'daily' : 'monthly'} allowance of ${limit} ${QUOTA_LABELS[kind]}. ` +
+            `It resets ${period === 'day' ? 'at midnight UTC' : 'on the 1st of next month'}.`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+  }
+
+  /**
+   * Exports the ledger entries of a month as CSV, one row per user and day, with the team each day is charged to.
+   *
+   * @param {string} month - Month as "YYYY-MM"
+   * @returns {string} CSV with a header row
+   */
+  exportCsv(month: string): string {
+    const rows = this.ledger
+      .values()
+      .filter((record) => record.date.startsWith(month))
+      .sort(
+        (a, b) =>
+          a.date.localeCompare(b.date) || (a.userId ?? 0) - (b.userId ?? 0),
+      )
+      .map((record) =>
+        [
+          record.date,
+          record.userId ?? 'api',
+          record.team ?? '',
+          Math.round(record.audioSeconds),
+          record.promptTokens,
+          record.completionTokens,
+          record.promptTokens + record.completionTokens,
+          record.emailsSent,
+        ].join(','),
+      );
+
+    return [
+      'date,user_id,team,audio_seconds,prompt_tokens,completion_tokens,total_tokens,emails_sent',
+      ...rows,
+    ].join('\n');
+  }
+}
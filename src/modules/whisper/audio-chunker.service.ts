@@ -0,0 +1,263 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as ffmpeg from 'fluent-ffmpeg';
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * A slice of a longer recording.
+ *
+ * @interface AudioChunk
+ */
+export interface AudioChunk {
+  /** Path to the chunk file */
+  path: string;
+  /** Offset of the chunk in the original recording, in seconds */
+  start: number;
+  /** End of the chunk in the original recording, in seconds */
+  end: number;
+}
+
+/**
+ * A stretch of silence detected by FFmpeg, in seconds.
+ *
+ * @interface Silence
+ */
+interface Silence {
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits long recordings into chunks at silence boundaries, so each chunk stays
+ * under the transcription provider's limits and no word is cut in half.
+ *
+ * @class AudioChunkerService
+ */
+@Injectable()
+export class AudioChunkerService {
+  private readonly logger = new Logger(AudioChunkerService.name);
+  private readonly chunkSeconds: number;
+  private readonly silenceThreshold: string;
+  private readonly minSilenceSeconds: number;
+
+  /**
+   * Creates an instance of AudioChunkerService.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   */
+  constructor(private configService: ConfigService) {
+    this.chunkSeconds = this.configService.get<number>(
+      'TRANSCRIPTION_CHUNK_SECONDS',
+      600,
+    );
+    this.silenceThreshold = this.configService.get<string>(
+      'TRANSCRIPTION_SILENCE_THRESHOLD',
+      '-30dB',
+    );
+    this.minSilenceSeconds = this.configService.get<number>(
+      'TRANSCRIPTION_MIN_SILENCE_SECONDS',
+      0.5,
+    );
+  }
+
+  /**
+   * Splits an audio file when it is longer than the chunk length or larger than maxBytes.
+   * Short files are returned as a single chunk pointing at the original file.
+   *
+   * @param {string} audioPath - Path to the (already converted) audio file
+   * @param {number} [maxBytes] - Largest file the provider accepts
+   * @returns {Promise<AudioChunk[]>} The chunks in order
+   */
+  async split(audioPath: string, maxBytes?: number): Promise<AudioChunk[]> {
+    const duration = await this.probeDuration(audioPath);
+    const size = fs.statSync(audioPath).size;
+
+    // Keep a margin below the provider limit, as bitrates vary across a file
+    const maxSecondsForSize =
+      maxBytes && duration > 0
+        ? Math.floor(((maxBytes * 0.9) / size) * duration)
+        : Infinity;
+    const maxSeconds = Math.min(this.chunkSeconds, maxSecondsForSize);
+
+    if (duration <= maxSeconds) {
+      return [{ path: audioPath, start: 0, end: duration }];
+    }
+
+    const silences = await this.detectSilences(audioPath);
+    const boundaries = this.planBoundaries(duration, silences, maxSeconds);
+    this.logger.log(
+      `Splitting ${path.basename(audioPath)} (${Math.round(duration)}s) into ${boundaries.length} chunks`,
+    );
+
+    const chunks: AudioChunk[] = [];
+    try {
+      for (const [index, [start, end]] of boundaries.entries()) {
+        const chunkPath = this.getChunkPath(audioPath, index);
+        await this.extract(audioPath, chunkPath, start, end - start);
+        chunks.push({ path: chunkPath, start, end });
+      }
+    } catch (error) {
+      this.cleanup(chunks);
+      throw error;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Deletes chunk files, leaving the original recording alone.
+   *
+   * @param {AudioChunk[]} chunks - Chunks returned by split
+   * @param {string} [originalPath] - Original file, which is never deleted
+   */
+  cleanup(chunks: AudioChunk[], originalPath?: string): void {
+    for (const chunk of chunks) {
+      if (chunk.path !== originalPath && fs.existsSync(chunk.path)) {
+        fs.unlinkSync(chunk.path);
+      }
+    }
+  }
+
+  /**
+   * Picks chunk boundaries: each cut is placed in the middle of the latest silence
+   * in the second half of the allowed window, or at the window end when there is none.
+   *
+   * @param {number} duration - Total duration in seconds
+   * @param {Silence[]} silences - Detected silences
+   * @param {number} maxSeconds - Longest allowed chunk
+   * @returns {Array<[number, number]>} Start and end of each chunk
+   * @private
+   */
+  private planBoundaries(
+    duration: number,
+    silences: Silence[],
+    maxSeconds: number,
+  ): Array<[number, number]> {
+    const boundaries: Array<[number, number]> = [];
+    let start = 0;
+
+    while (duration - start > maxSeconds) {
+      const windowEnd = start + maxSeconds;
+      const cut = silences
+        .map((silence) => (silence.start + silence.end) / 2)
+        .filter((middle) => middle > start + maxSeconds / 2)
+        .filter((middle) => middle <= windowEnd)
+        .pop();
+
+      const end = cut ?? windowEnd;
+      boundaries.push([start, end]);
+      start = end;
+    }
+
+    boundaries.push([start, duration]);
+    return boundaries;
+  }
+
+  /**
+   * Reads the duration of an audio file with ffprobe.
+   *
+   * @param {string} audioPath - Path to the audio file
+   * @returns {Promise<number>} Duration in seconds
+   * @private
+   */
+  private probeDuration(audioPath: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(audioPath, (err, data) => {
+        if (err) {
+          reject(
+            new Error(
+              `Failed to read audio duration: ${(err as Error).message}`,
+            ),
+          );
+          return;
+        }
+        resolve(Number(data.format.duration) || 0);
+      });
+    });
+  }
+
+  /**
+   * Finds silences with FFmpeg's silencedetect filter.
+   *
+   * @param {string} audioPath - Path to the audio file
+   * @returns {Promise<Silence[]>} Silences in order
+   * @private
+   */
+  private detectSilences(audioPath: string): Promise<Silence[]> {
+    return new Promise((resolve, reject) => {
+      const silences: Silence[] = [];
+      let silenceStart: number | undefined;
+
+      ffmpeg(audioPath)
+        .audioFilters(
+          `silencedetect=noise=${this.silenceThreshold}:d=${this.minSilenceSeconds}`,
+        )
+        .format('null')
+        .on('stderr', (line: string) => {
+          const start = line.match(/silence_start: ([\d.]+)/);
+          const end = line.match(/silence_end: ([\d.]+)/);
+          if (start) {
+            silenceStart = Number(start[1]);
+          } else if (end && silenceStart !== undefined) {
+            silences.push({ start: silenceStart, end: Number(end[1]) });
+            silenceStart = undefined;
+          }
+        })
+        .on('error', (err) => {
+          reject(new Error(`Failed to detect silences: ${err.message}`));
+        })
+        .on('end', () => {
+          this.logger.debug(`Detected ${silences.length} silences`);
+          resolve(silences);
+        })
+        .save('-');
+    });
+  }
+
+  /**
+   * Copies a time range of an audio file into a new file.
+   *
+   * @param {string} input - Path to the audio file
+   * @param {string} output - Path for the chunk
+   * @param {number} start - Start offset in seconds
+   * @param {number} duration - Length in seconds
+   * @returns {Promise<void>}
+   * @private
+   */
+  private extract(
+    input: string,
+    output: string,
+    start: number,
+    duration: number,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      ffmpeg(input)
+        .setStartTime(start)
+        .setDuration(duration)
+        .outputOptions('-c', 'copy')
+        .on('error', (err) => {
+          reject(new Error(`Failed to split audio: ${err.message}`));
+        })
+        .on('end', () => resolve())
+        .save(output);
+    });
+  }
+
+  /**
+   * Generates the path of a chunk next to the original file.
+   *
+   * @param {string} audioPath - Original audio file path
+   * @param {number} index - Chunk index
+   * @returns {string} Path for the chunk
+   * @private
+   */
+  private getChunkPath(audioPath: string, index: number): string {
+    const extension = path.extname(audioPath);
+    const name = path.basename(audioPath, extension);
+    return path.join(
+      path.dirname(audioPath),
+      `${name}_part${index}${extension}`,
+    );
+  }
+}
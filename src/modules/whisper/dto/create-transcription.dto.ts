@@ -0,0 +1,104 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { z } from 'zod';
+import { TRANSCRIPTION_PROVIDER_NAMES } from '../providers/transcription-provider.interface';
+import { TRANSCRIPT_FORMATS, TranscriptFormat } from '../transcript-format';
+
+export const createTranscriptionSchema = z.object({
+  language: z
+    .string()
+    .regex(/^[a-z]{2}$/, 'Language must be an ISO-639-1 code')
+    .optional(),
+  responseFormat: z.enum(TRANSCRIPT_FORMATS).default('text'),
+  temperature: z.coerce.number().min(0).max(1).optional(),
+  prompt: z.string().max(1000).optional(),
+  provider: z.enum(TRANSCRIPTION_PROVIDER_NAMES).optional(),
+});
+
+/**
+ * Multipart body of POST /transcriptions.
+ * Validated with {@link createTranscriptionSchema}; the decorators only describe it for Swagger.
+ */
+export class CreateTranscriptionDto {
+  @ApiProperty({
+    type: 'string',
+    format: 'binary',
+    description:
+      'Audio or video file (OGG, MP3, M4A, WAV, FLAC, AAC, AMR, MP4, MOV or WebM, up to 200MB)',
+  })
+  file: unknown;
+
+  @ApiPropertyOptional({
+    description: 'ISO-639-1 language code of the audio',
+    example: 'en',
+  })
+  language?: string;
+
+  @ApiPropertyOptional({ enum: TRANSCRIPT_FORMATS, default: 'text' })
+  responseFormat: TranscriptFormat;
+
+  @ApiPropertyOptional({ minimum: 0, maximum: 1, example: 0 })
+  temperature?: number;
+
+  @ApiPropertyOptional({
+    description: 'Text to guide the style or vocabulary of the transcription',
+  })
+  prompt?: string;
+
+  @ApiPropertyOptional({
+    enum: TRANSCRIPTION_PROVIDER_NAMES,
+    description:
+      'Transcription backend; defaults to the deployment default and must be enabled',
+  })
+  provider?: (typeof TRANSCRIPTION_PROVIDER_NAMES)[number];
+}
+
+export class TranscriptSegmentDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty({ description: 'Start in seconds' })
+  start: number;
+
+  @ApiProperty({ description: 'End in seconds' })
+  end: number;
+
+  @ApiProperty()
+  text: string;
+}
+
+export class TranscriptionResultDto {
+  @ApiProperty()
+  text: string;
+
+  @ApiPropertyOptional({ example: 'en' })
+  language?: string;
+
+  @ApiProperty({ description: 'Duration in seconds' })
+  duration: number;
+
+  @ApiProperty({ type: [TranscriptSegmentDto] })
+  segments: TranscriptSegmentDto[];
+}
+
+export class TranscriptionResponseDto {
+  @ApiProperty({ enum: TRANSCRIPT_FORMATS })
+  format: TranscriptFormat;
+
+  @ApiProperty({
+    description:
+      'Transcribed text, or the subtitle file content for srt and vtt',
+  })
+  text: string;
+
+  @ApiPropertyOptional({
+    description: 'ISO-639-1 code of the spoken language',
+    example: 'en',
+  })
+  language?: string;
+
+  @ApiPropertyOptional({
+    description: 'Full result with timed segments, for verbose_json',
+    type: TranscriptionResultDto,
+  })
+  details?: TranscriptionResultDto;
+}
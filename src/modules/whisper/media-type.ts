@@ -0,0 +1,139 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * A container format the transcription pipeline can read audio from.
+ *
+ * @interface MediaType
+ */
+export interface MediaType {
+  /** File extension used for the format, without the dot */
+  extension: string;
+  /** Whether the format is usually a video, in which case only its audio track is used */
+  video: boolean;
+}
+
+const MEDIA_TYPES = {
+  ogg: { extension: 'ogg', video: false },
+  mp3: { extension: 'mp3', video: false },
+  wav: { extension: 'wav', video: false },
+  flac: { extension: 'flac', video: false },
+  aac: { extension: 'aac', video: false },
+  amr: { extension: 'amr', video: false },
+  m4a: { extension: 'm4a', video: false },
+  mp4: { extension: 'mp4', video: true },
+  mov: { extension: 'mov', video: true },
+  webm: { extension: 'webm', video: true },
+} satisfies Record<string, MediaType>;
+
+/** Human-readable list of what can be transcribed, for rejection messages */
+export const SUPPORTED_MEDIA_DESCRIPTION =
+  'audio (OGG/Opus, MP3, M4A, WAV, FLAC, AAC, AMR) or video with sound (MP4, MOV, WebM)';
+
+const MIME_TYPES: Record<string, MediaType> = {
+  'audio/ogg': MEDIA_TYPES.ogg,
+  'audio/opus': MEDIA_TYPES.ogg,
+  'audio/mpeg': MEDIA_TYPES.mp3,
+  'audio/mp3': MEDIA_TYPES.mp3,
+  'audio/wav': MEDIA_TYPES.wav,
+  'audio/x-wav': MEDIA_TYPES.wav,
+  'audio/wave': MEDIA_TYPES.wav,
+  'audio/flac': MEDIA_TYPES.flac,
+  'audio/x-flac': MEDIA_TYPES.flac,
+  'audio/aac': MEDIA_TYPES.aac,
+  'audio/amr': MEDIA_TYPES.amr,
+  'audio/mp4': MEDIA_TYPES.m4a,
+  'audio/x-m4a': MEDIA_TYPES.m4a,
+  'audio/m4a': MEDIA_TYPES.m4a,
+  'audio/webm': MEDIA_TYPES.webm,
+  'video/mp4': MEDIA_TYPES.mp4,
+  'video/quicktime': MEDIA_TYPES.mov,
+  'video/webm': MEDIA_TYPES.webm,
+};
+
+/** Other extensions the same formats are known by */
+const EXTENSION_ALIASES: Record<string, keyof typeof MEDIA_TYPES> = {
+  oga: 'ogg',
+  opus: 'ogg',
+  mpga: 'mp3',
+  m4b: 'm4a',
+  qt: 'mov',
+  mkv: 'webm',
+};
+
+/**
+ * Identifies a media file from its first bytes.
+ *
+ * @param {Buffer} header - At least the first 12 bytes of the file
+ * @returns {MediaType | undefined} The format, or undefined if it is not a supported one
+ */
+export function sniffMediaType(header: Buffer): MediaType | undefined {
+  const ascii = (start: number, end: number) =>
+    header.subarray(start, end).toString('latin1');
+
+  if (ascii(0, 4) === 'OggS') return MEDIA_TYPES.ogg;
+  if (ascii(0, 4) === 'fLaC') return MEDIA_TYPES.flac;
+  if (ascii(0, 5) === '#!AMR') return MEDIA_TYPES.amr;
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return MEDIA_TYPES.wav;
+  if (header.readUInt32BE(0) === 0x1a45dfa3) return MEDIA_TYPES.webm;
+
+  // ISO base media (MP4, M4A, MOV): the brand follows "ftyp"
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand.startsWith('M4A') || brand.startsWith('M4B')) {
+      return MEDIA_TYPES.m4a;
+    }
+    return brand === 'qt  ' ? MEDIA_TYPES.mov : MEDIA_TYPES.mp4;
+  }
+
+  if (ascii(0, 3) === 'ID3') return MEDIA_TYPES.mp3;
+  // Frame sync: ADTS AAC has layer bits 00, MPEG audio has layer bits set
+  if (header[0] === 0xff && (header[1] & 0xe0) === 0xe0) {
+    return (header[1] & 0x06) === 0 ? MEDIA_TYPES.aac : MEDIA_TYPES.mp3;
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the start of a file and identifies its format.
+ *
+ * @param {string} filePath - Path to the file
+ * @returns {MediaType | undefined} The format, or undefined if it is not a supported one
+ */
+export function sniffMediaFile(filePath: string): MediaType | undefined {
+  const header = Buffer.alloc(12);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const bytesRead = fs.readSync(fd, header, 0, header.length, 0);
+    return bytesRead < header.length ? undefined : sniffMediaType(header);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Guesses a format from what the sender declared, before the file is downloaded.
+ * The MIME type wins over the file name; the content is checked again once downloaded.
+ *
+ * @param {string} [mimeType] - Declared MIME type
+ * @param {string} [fileName] - Declared file name
+ * @returns {MediaType | undefined} The likely format, or undefined if neither looks supported
+ */
+export function guessMediaType(
+  mimeType?: string,
+  fileName?: string,
+): MediaType | undefined {
+  const fromMime = mimeType
+    ? MIME_TYPES[mimeType.split(';')[0].trim().toLowerCase()]
+    : undefined;
+  if (fromMime) {
+    return fromMime;
+  }
+
+  const extension = fileName
+    ? path.extname(fileName).slice(1).toLowerCase()
+    : '';
+  const name = EXTENSION_ALIASES[extension] ?? extension;
+  return name in MEDIA_TYPES ? MEDIA_TYPES[name] : undefined;
+}
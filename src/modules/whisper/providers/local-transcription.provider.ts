@@ -0,0 +1,253 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { execFile } from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+import { TranscriptionOptions, TranscriptionResult } from '../whisper.service';
+import { TranscriptionProvider } from './transcription-provider.interface';
+import { toLanguageCode } from '../languages';
+
+export type LocalWhisperEngine = 'whisper.cpp' | 'faster-whisper';
+
+const DEFAULT_BINARIES: Record<LocalWhisperEngine, string> = {
+  'whisper.cpp': 'whisper-cli',
+  'faster-whisper': 'whisper-ctranslate2',
+};
+
+/** A segment as written by whisper.cpp with -oj */
+interface WhisperCppSegment {
+  offsets: { from: number; to: number };
+  text: string;
+}
+
+/** A segment as written by faster-whisper CLIs with --output_format json */
+interface FasterWhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Transcribes audio on this machine by running a whisper.cpp or faster-whisper binary,
+ * so recordings never leave the server.
+ *
+ * faster-whisper is driven through a CLI that follows the openai-whisper arguments,
+ * such as whisper-ctranslate2.
+ *
+ * @class LocalTranscriptionProvider
+ */
+@Injectable()
+export class LocalTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'local';
+  readonly inputFormat = 'wav';
+  private readonly logger = new Logger(LocalTranscriptionProvider.name);
+  private readonly engine: LocalWhisperEngine;
+  private readonly binary: string;
+  private readonly model?: string;
+  private readonly threads?: number;
+  private readonly timeout: number;
+
+  /**
+   * Creates an instance of LocalTranscriptionProvider.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   */
+  constructor(private configService: ConfigService) {
+    this.engine = this.configService.get<LocalWhisperEngine>(
+      'LOCAL_WHISPER_ENGINE',
+      'whisper.cpp',
+    );
+    this.binary =
+      this.configService.get<string>('LOCAL_WHISPER_BINARY') ??
+      DEFAULT_BINARIES[this.engine];
+    this.model = this.configService.get<string>('LOCAL_WHISPER_MODEL');
+    this.threads = this.configService.get<number>('LOCAL_WHISPER_THREADS');
+    this.timeout = this.configService.get<number>(
+      'LOCAL_WHISPER_TIMEOUT',
+      600000,
+    );
+  }
+
+  /**
+   * Runs the local engine on a 16kHz mono WAV file and reads its JSON output.
+   *
+   * @param {string} wavPath - Path to the WAV file
+   * @param {TranscriptionOptions} options - Transcription options
+   * @returns {Promise<TranscriptionResult>} The transcript with its language and timed segments
+   * @throws {Error} If the engine is missing, fails or times out
+   */
+  async transcribe(
+    wavPath: string,
+    options: TranscriptionOptions = {},
+  ): Promise<TranscriptionResult> {
+    const outputDir = fs.mkdtempSync(
+      path.join(path.dirname(wavPath), 'local-whisper-'),
+    );
+
+    try {
+      const outputPath =
+        this.engine === 'whisper.cpp'
+          ? await this.runWhisperCpp(wavPath, outputDir, options)
+          : await this.runFasterWhisper(wavPath, outputDir, options);
+
+      if (!fs.existsSync(outputPath)) {
+        throw new Error(`${this.engine} did not produce ${outputPath}`);
+      }
+
+      const output = fs.readFileSync(outputPath, 'utf8');
+      this.logger.debug(`Local transcription finished with ${this.engine}`);
+
+      const result = this.parseOutput(output);
+      return {
+        ...result,
+        language: result.language ?? toLanguageCode(options.language),
+      };
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Runs whisper.cpp, which writes "<output prefix>.json".
+   *
+   * @param {string} wavPath - Path to the WAV file
+   * @param {string} outputDir - Directory for the output file
+   * @param {TranscriptionOptions} options - Transcription options
+   * @returns {Promise<string>} Path of the output file
+   * @private
+   */
+  private async runWhisperCpp(
+    wavPath: string,
+    outputDir: string,
+    options: TranscriptionOptions,
+  ): Promise<string> {
+    if (!this.model) {
+      throw new Error('LOCAL_WHISPER_MODEL must point to a ggml model file');
+    }
+
+    const prefix = path.join(outputDir, 'transcript');
+    const args = [
+      '-m',
+      this.model,
+      '-f',
+      wavPath,
+      '-of',
+      prefix,
+      '-oj',
+      '-l',
+      options.language ?? 'auto',
+      '-np',
+    ];
+    if (options.prompt) args.push('--prompt', options.prompt);
+    if (options.temperature) args.push('-tp', options.temperature.toString());
+    if (this.threads) args.push('-t', this.threads.toString());
+
+    await this.run(args);
+    return `${prefix}.json`;
+  }
+
+  /**
+   * Runs a faster-whisper CLI, which writes "<output dir>/<input name>.json".
+   *
+   * @param {string} wavPath - Path to the WAV file
+   * @param {string} outputDir - Directory for the output file
+   * @param {TranscriptionOptions} options - Transcription options
+   * @returns {Promise<string>} Path of the output file
+   * @private
+   */
+  private async runFasterWhisper(
+    wavPath: string,
+    outputDir: string,
+    options: TranscriptionOptions,
+  ): Promise<string> {
+    const args = [
+      wavPath,
+      '--model',
+      this.model ?? 'small',
+      '--output_dir',
+      outputDir,
+      '--output_format',
+      'json',
+    ];
+    if (options.language) args.push('--language', options.language);
+    if (options.prompt) args.push('--initial_prompt', options.prompt);
+    if (options.temperature)
+      args.push('--temperature', options.temperature.toString());
+    if (this.threads) args.push('--threads', this.threads.toString());
+
+    await this.run(args);
+    const name = path.basename(wavPath, path.extname(wavPath));
+    return path.join(outputDir, `${name}.json`);
+  }
+
+  /**
+   * Runs the configured binary without a shell.
+   *
+   * @param {string[]} args - Command-line arguments
+   * @returns {Promise<void>}
+   * @throws {Error} If the binary is missing, exits with an error or times out
+   * @private
+   */
+  private run(args: string[]): Promise<void> {
+    this.logger.debug(`Running ${this.binary} ${args.join(' ')}`);
+
+    return new Promise((resolve, reject) => {
+      execFile(
+        this.binary,
+        args,
+        { timeout: this.timeout, maxBuffer: 10 * 1024 * 1024 },
+        (error, _stdout, stderr) => {
+          if (!error) {
+            resolve();
+            return;
+          }
+
+          const code = (error as NodeJS.ErrnoException).code;
+          if (code === 'ENOENT') {
+            reject(new Error(`Local Whisper binary not found: ${this.binary}`));
+          } else if (error.killed) {
+            reject(new Error('Local transcription timed out'));
+          } else {
+            this.logger.error(`${this.binary} failed: ${stderr.trim()}`);
+            reject(new Error('Failed to transcribe audio with local Whisper'));
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * Converts either engine's JSON output to a transcription result.
+   *
+   * @param {string} output - Raw JSON written by the engine
+   * @returns {TranscriptionResult} Text, language, duration and segments
+   * @private
+   */
+  private parseOutput(output: string): TranscriptionResult {
+    const raw = JSON.parse(output) as {
+      result?: { language?: string };
+      transcription?: WhisperCppSegment[];
+      language?: string;
+      segments?: FasterWhisperSegment[];
+    };
+
+    const segments = raw.transcription
+      ? raw.transcription.map((segment) => ({
+          start: segment.offsets.from / 1000,
+          end: segment.offsets.to / 1000,
+          text: segment.text.trim(),
+        }))
+      : (raw.segments ?? []).map((segment) => ({
+          start: segment.start,
+          end: segment.end,
+          text: segment.text.trim(),
+        }));
+
+    return {
+      language: toLanguageCode(raw.result?.language ?? raw.language),
+      duration: segments.length > 0 ? segments[segments.length - 1].end : 0,
+      text: segments.map((segment) => segment.text).join(' '),
+      segments: segments.map((segment, id) => ({ id, ...segment })),
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream } from 'fs';
+import axios, { AxiosError } from 'axios';
+import * as FormData from 'form-data';
+import { TranscriptionOptions, TranscriptionResult } from '../whisper.service';
+import { TranscriptionProvider } from './transcription-provider.interface';
+import { toLanguageCode } from '../languages';
+
+/**
+ * Body of a verbose_json response from the Whisper API.
+ *
+ * @interface WhisperVerboseResponse
+ */
+interface WhisperVerboseResponse {
+  /** Language name, e.g. "portuguese" */
+  language?: string;
+  duration: number;
+  text: string;
+  segments?: { id: number; start: number; end: number; text: string }[];
+}
+
+/**
+ * Transcribes audio with OpenAI's hosted Whisper API.
+ *
+ * @class OpenAiTranscriptionProvider
+ */
+@Injectable()
+export class OpenAiTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+  readonly inputFormat = 'mp3';
+  readonly maxFileSize = 25 * 1024 * 1024; // 25MB (Whisper API limit)
+  private readonly logger = new Logger(OpenAiTranscriptionProvider.name);
+  private readonly timeout: number;
+
+  /**
+   * Creates an instance of OpenAiTranscriptionProvider.
+   *
+   * @param {ConfigService} configService - Service for accessing configuration values
+   */
+  constructor(private configService: ConfigService) {
+    this.timeout = this.configService.get<number>(
+      'TRANSCRIPTION_TIMEOUT',
+      120000,
+    );
+  }
+
+  /**
+   * Sends an audio file to OpenAI's Whisper API for transcription.
+   *
+   * @param {string} mp3Path - Path to the MP3 file
+   * @param {TranscriptionOptions} options - Transcription options
+   * @returns {Promise<TranscriptionResult>} The transcript with its language and timed segments
+   * @throws {Error} If API request fails
+   */
+  async transcribe(
+    mp3Path: string,
+    options: TranscriptionOptions = {},
+  ): Promise<TranscriptionResult> {
+    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not configured');
+    }
+
+    const form = new FormData();
+    form.append('file', createReadStream(mp3Path));
+    form.append('model', 'whisper-1');
+    // verbose_json is the only format that reports segments and the detected language
+    form.append('response_format', 'verbose_json');
+
+    // Add optional parameters if provided
+    if (options.language) form.append('language', options.language);
+    if (options.temperature)
+      form.append('temperature', options.temperature.toString());
+    if (options.prompt) form.append('prompt', options.prompt);
+
+    try {
+      const response = await axios.post<WhisperVerboseResponse>(
+        'https://api.openai.com/v1/audio/transcriptions',
+        form,
+        {
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            ...form.getHeaders(),
+          },
+          timeout: this.timeout,
+        },
+      );
+
+      this.logger.debug('Transcription Response:', {
+        text: response.data.text,
+        language: response.data.language,
+      });
+
+      return {
+        text: response.data.text.trim(),
+        language:
+          toLanguageCode(response.data.language) ??
+          toLanguageCode(options.language),
+        duration: response.data.duration,
+        segments: (response.data.segments ?? []).map((segment) => ({
+          id: segment.id,
+          start: segment.start,
+          end: segment.end,
+          text: segment.text.trim(),
+        })),
+      };
+    } catch (error) {
+      if (error instanceof AxiosError) {
+        if (error.response?.status === 401) {
+          throw new Error('Invalid OpenAI API key', { cause: error });
+        } else if (error.response?.status === 429) {
+          throw new Error('OpenAI API rate limit exceeded', {
+            cause: error,
+          });
+        } else if (error.code === 'ECONNABORTED') {
+          throw new Error('OpenAI API request timed out', {
+            cause: error,
+          });
+        }
+      }
+      this.logger.error(`Whisper API failed: ${(error as Error).message}`);
+      throw new Error('Failed to transcribe audio with Whisper', {
+        cause: error,
+      });
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { TranscriptionOptions, TranscriptionResult } from '../whisper.service';
+
+export const TRANSCRIPTION_PROVIDER_NAMES = ['openai', 'local'] as const;
+
+export type TranscriptionProviderName =
+  (typeof TRANSCRIPTION_PROVIDER_NAMES)[number];
+
+/**
+ * A speech-to-text backend.
+ * WhisperService validates and converts the audio, then hands it to the selected provider.
+ *
+ * @interface TranscriptionProvider
+ */
+export interface TranscriptionProvider {
+  /** Name used in configuration and user preferences */
+  readonly name: TranscriptionProviderName;
+  /** Audio format the provider expects as input */
+  readonly inputFormat: 'mp3' | 'wav';
+  /** Largest file the provider accepts in bytes; longer recordings are split to fit */
+  readonly maxFileSize?: number;
+
+  /**
+   * Transcribes a prepared audio file.
+   *
+   * @param {string} audioPath - Path to the audio file in the provider's input format
+   * @param {TranscriptionOptions} options - Transcription options
+   * @returns {Promise<TranscriptionResult>} The transcript with its language and timed segments
+   */
+  transcribe(
+    audioPath: string,
+    options: TranscriptionOptions,
+  ): Promise<TranscriptionResult>;
+}
@@ -0,0 +1,97 @@
+import { TranscriptionResult, TranscriptSegment } from './whisper.service';
+
+export const TRANSCRIPT_FORMATS = [
+  'json',
+  'text',
+  'srt',
+  'verbose_json',
+  'vtt',
+] as const;
+
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+/** File extension used when a transcript is exported in each format */
+export const TRANSCRIPT_FILE_EXTENSIONS: Record<TranscriptFormat, string> = {
+  text: 'txt',
+  json: 'json',
+  verbose_json: 'json',
+  srt: 'srt',
+  vtt: 'vtt',
+};
+
+/**
+ * Formats seconds as a subtitle timestamp ("00:01:02,345" for SRT, "00:01:02.345" for VTT).
+ *
+ * @param {number} seconds - Offset in seconds
+ * @param {string} separator - Separator before the milliseconds
+ * @returns {string} The timestamp
+ */
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) =>
+    value.toString().padStart(length, '0');
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Renders segments as SubRip subtitles.
+ *
+ * @param {TranscriptSegment[]} segments - Transcript segments
+ * @returns {string} SRT document
+ */
+export function formatSrt(segments: TranscriptSegment[]): string {
+  return segments
+    .map(
+      (segment, index) =>
+        `${index + 1}\n` +
+        `${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n` +
+        `${segment.text}\n`,
+    )
+    .join('\n');
+}
+
+/**
+ * Renders segments as WebVTT subtitles.
+ *
+ * @param {TranscriptSegment[]} segments - Transcript segments
+ * @returns {string} VTT document
+ */
+export function formatVtt(segments: TranscriptSegment[]): string {
+  const cues = segments.map(
+    (segment) =>
+      `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}\n` +
+      `${segment.text}\n`,
+  );
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+/**
+ * Renders a transcription in one of the Whisper response formats.
+ * "json" only carries the text, like OpenAI's API; "verbose_json" carries the whole result.
+ *
+ * @param {TranscriptionResult} result - The transcription
+ * @param {TranscriptFormat} format - Output format
+ * @returns {string} The rendered transcript
+ */
+export function renderTranscription(
+  result: TranscriptionResult,
+  format: TranscriptFormat,
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ text: result.text });
+    case 'verbose_json':
+      return JSON.stringify(result, null, 2);
+    case 'srt':
+      return formatSrt(result.segments);
+    case 'vtt':
+      return formatVtt(result.segments);
+    default:
+      return result.text;
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  Controller,
+  Post,
+  Body,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiConsumes,
+  ApiBody,
+  ApiSecurity,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiTooManyRequestsResponse,
+} from '@nestjs/swagger';
+import * as fs from 'fs';
+import { WhisperService } from './whisper.service';
+import { UsageService } from '../usage/usage.service';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { UploadTimeout } from '../../common/interceptors/timeout.interceptor';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import { audioUploadOptions } from '../../common/uploads/audio-upload.options';
+import { renderTranscription } from './transcript-format';
+import {
+  CreateTranscriptionDto,
+  TranscriptionResponseDto,
+  createTranscriptionSchema,
+} from './dto/create-transcription.dto';
+
+/**
+ * HTTP API exposing the transcription pipeline without Telegram.
+ *
+ * @class WhisperController
+ */
+@ApiTags('transcriptions')
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ description: 'Missing or invalid API key' })
+@UseGuards(ApiKeyGuard)
+@Controller('transcriptions')
+export class WhisperController {
+  private readonly logger = new Logger(WhisperController.name);
+
+  constructor(
+    private whisperService: WhisperService,
+    private usageService: UsageService,
+  ) {}
+
+  /**
+   * Transcribes an uploaded audio file.
+   * The upload is stored in the temporary directory and removed once transcribed.
+   *
+   * @param {Express.Multer.File} file - Uploaded audio file
+   * @param {CreateTranscriptionDto} body - Transcription options
+   * @returns {Promise<TranscriptionResponseDto>} The transcription
+   */
+  @Post()
+  @ApiOperation({ summary: 'Transcribe an audio file with Whisper' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ type: CreateTranscriptionDto })
+  @ApiCreatedResponse({
+    description:
+      'Transcription, wrapped in the standard { data, timestamp, path } envelope',
+    type: TranscriptionResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Missing, empty or unsupported file' })
+  @ApiTooManyRequestsResponse({ description: 'Audio quota used up' })
+  @UploadTimeout()
+  @UseInterceptors(FileInterceptor('file', audioUploadOptions))
+  async create(
+    @UploadedFile() file: Express.Multer.File,
+    @Body(new ZodValidationPipe(createTranscriptionSchema))
+    body: CreateTranscriptionDto,
+  ): Promise<TranscriptionResponseDto> {
+    if (!file) {
+      throw new BadRequestException('An audio file is required');
+    }
+
+    try {
+      this.usageService.assertWithinQuota(undefined, 'audio');
+      const result = await this.whisperService.transcribe(file.path, {
+        language: body.language,
+        temperature: body.temperature,
+        prompt: body.prompt,
+        provider: body.provider,
+      });
+
+      this.usageService.record(undefined, { audioSeconds: result.duration });
+      this.logger.log(
+        `Transcribed ${file.originalname} (${file.size} bytes) as ${body.responseFormat}`,
+      );
+
+      const isJson =
+        body.responseFormat === 'json' ||
+        body.responseFormat === 'verbose_json';
+      return {
+        format: body.responseFormat,
+        text: isJson
+          ? result.text
+          : renderTranscription(result, body.responseFormat),
+        language: result.language,
+        ...(body.responseFormat === 'verbose_json' && { details: result }),
+      };
+    } finally {
+      if (fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+    }
+  }
+}
@@ -1,10 +1,21 @@
 import { Module } from '@nestjs/common';
 import { WhisperService } from './whisper.service';
+import { WhisperController } from './whisper.controller';
 import { ConfigModule } from '@nestjs/config';
+import { OpenAiTranscriptionProvider } from './providers/openai-transcription.provider';
+import { LocalTranscriptionProvider } from './providers/local-transcription.provider';
+import { AudioChunkerService } from './audio-chunker.service';
+import { UsageModule } from '../usage/usage.module';
 
 @Module({
-  imports: [ConfigModule],
-  providers: [WhisperService],
+  imports: [ConfigModule, UsageModule],
+  controllers: [WhisperController],
+  providers: [
+    WhisperService,
+    OpenAiTranscriptionProvider,
+    LocalTranscriptionProvider,
+    AudioChunkerService,
+  ],
   exports: [WhisperService],
 })
-export class WhisperModule {}
\ No newline at end of file
+export class WhisperModule {}
@@ -0,0 +1,142 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AudioChunk, AudioChunkerService } from './audio-chunker.service';
+import { LocalTranscriptionProvider } from './providers/local-transcription.provider';
+import { OpenAiTranscriptionProvider } from './providers/openai-transcription.provider';
+import { TranscriptionProvider } from './providers/transcription-provider.interface';
+import {
+  TranscriptionOptions,
+  TranscriptionProgress,
+  TranscriptionResult,
+  WhisperService,
+} from './whisper.service';
+
+/** Provider that transcribes chunk "n" as "text n" once its transcription is released */
+class FakeProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+  readonly inputFormat = 'mp3';
+  readonly calls: { path: string; options: TranscriptionOptions }[] = [];
+  private running = 0;
+  maxRunning = 0;
+
+  async transcribe(
+    audioPath: string,
+    options: TranscriptionOptions,
+  ): Promise<TranscriptionResult> {
+    this.calls.push({ path: audioPath, options });
+    this.running++;
+    this.maxRunning = Math.max(this.maxRunning, this.running);
+    await new Promise((resolve) => setImmediate(resolve));
+    this.running--;
+    return {
+      text: `text ${audioPath}`,
+      language: options.language ?? (audioPath === '0' ? 'pt' : 'en'),
+      duration: 10,
+      segments: [{ id: 0, start: 1, end: 2, text: ` text ${audioPath} ` }],
+    };
+  }
+}
+
+describe('WhisperService', () => {
+  let provider: FakeProvider;
+  let chunks: AudioChunk[];
+
+  function createService(concurrency: number): WhisperService {
+    const chunker = {
+      split: () => Promise.resolve(chunks),
+      cleanup: jest.fn(),
+    } as unknown as AudioChunkerService;
+    return new WhisperService(
+      new ConfigService({ TRANSCRIPTION_CONCURRENCY: concurrency }),
+      provider as unknown as OpenAiTranscriptionProvider,
+      { name: 'local' } as LocalTranscriptionProvider,
+      chunker,
+    );
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    provider = new FakeProvider();
+    chunks = Array.from({ length: 7 }, (_, index) => ({
+      path: String(index),
+      start: index * 10,
+      end: (index + 1) * 10,
+    }));
+  });
+
+  describe('transcribePrepared', () => {
+    it('stitches the chunks in order with timestamps relative to the recording', async () => {
+      const result = await createService(3).transcribePrepared('recording');
+
+      expect(result.text).toBe(chunks.map((_, i) => `text ${i}`).join(' '));
+      expect(result.duration).toBe(70);
+      expect(result.segments.map((segment) => segment.start)).toEqual([
+        1, 11, 21, 31, 41, 51, 61,
+      ]);
+      expect(result.segments.map((segment) => segment.id)).toEqual([
+        0, 1, 2, 3, 4, 5, 6,
+      ]);
+    });
+
+    it('transcribes the first chunk alone, then the rest at most a few at a time', async () => {
+      await createService(3).transcribePrepared('recording');
+
+      expect(provider.calls[0].path).toBe('0');
+      expect(provider.calls).toHaveLength(7);
+      expect(provider.maxRunning).toBe(3);
+    });
+
+    it('transcribes every chunk in the language detected in the first', async () => {
+      const result = await createService(3).transcribePrepared('recording');
+
+      expect(result.language).toBe('pt');
+      expect(provider.calls[0].options.language).toBeUndefined();
+      expect(
+        provider.calls.slice(1).map((call) => call.options.language),
+      ).toEqual(Array(6).fill('pt'));
+    });
+
+    it('keeps a requested language for every chunk', async () => {
+      await createService(3).transcribePrepared('recording', {
+        language: 'fr',
+      });
+
+      expect(provider.calls.map((call) => call.options.language)).toEqual(
+        Array(7).fill('fr'),
+      );
+    });
+
+    it('prompts each chunk with the end of the previous one within its run', async () => {
+      await createService(2).transcribePrepared('recording', {
+        prompt: 'Names: Ana',
+      });
+
+      const prompts = Object.fromEntries(
+        provider.calls.map((call) => [call.path, call.options.prompt]),
+      );
+      expect(prompts['0']).toBe('Names: Ana');
+      // Runs are chunks 1-3 and 4-6; both start from the first chunk's text
+      expect(prompts['1']).toBe('Names: Ana 0');
+      expect(prompts['2']).toBe('Names: Ana 1');
+      expect(prompts['4']).toBe('Names: Ana 0');
+      expect(prompts['5']).toBe('Names: Ana 4');
+    });
+
+    it('reports progress for every chunk', async () => {
+      const progress: TranscriptionProgress[] = [];
+      await createService(3).transcribePrepared('recording', {
+        onProgress: (update) => {
+          progress.push(update);
+        },
+      });
+
+      expect(progress.map((update) => update.completed)).toEqual([
+        0, 1, 2, 3, 4, 5, 6, 7,
+      ]);
+      expect(progress.every((update) => update.total === 7)).toBe(true);
+    });
+  });
+});
@@ -3,57 +3,169 @@ import { ConfigService } from '@nestjs/config';
 import * as ffmpeg from 'fluent-ffmpeg';
 import * as path from 'path';
 import * as fs from 'fs';
-import { createReadStream } from 'fs';
-import axios, { AxiosError } from 'axios';
-import * as FormData from 'form-data';
-import { OpenAI } from 'openai';
+import {
+  TranscriptionProvider,
+  TranscriptionProviderName,
+} from './providers/transcription-provider.interface';
+import { OpenAiTranscriptionProvider } from './providers/openai-transcription.provider';
+import { LocalTranscriptionProvider } from './providers/local-transcription.provider';
+import { AudioChunkerService, AudioChunk } from './audio-chunker.service';
+import {
+  MediaType,
+  sniffMediaFile,
+  SUPPORTED_MEDIA_DESCRIPTION,
+} from './media-type';
+
+/**
+ * Progress of a transcription that was split into chunks.
+ *
+ * @interface TranscriptionProgress
+ */
+export interface TranscriptionProgress {
+  /** Number of chunks transcribed so far */
+  completed: number;
+  /** Total number of chunks */
+  total: number;
+}
 
 /**
  * Options for audio transcription.
- * 
+ *
  * @interface TranscriptionOptions
  */
-interface TranscriptionOptions {
+export interface TranscriptionOptions {
   /** Language code for transcription (e.g., 'en', 'pt') */
   language?: string;
-  /** Format of the transcription response */
-  responseFormat?: 'json' | 'text' | 'srt' | 'verbose_json' | 'vtt';
   /** Temperature for transcription (0-1) */
   temperature?: number;
   /** Optional prompt to guide transcription */
   prompt?: string;
+  /** Transcription backend to use instead of the deployment default */
+  provider?: TranscriptionProviderName;
+  /** Called as chunks of a long recording finish */
+  onProgress?: (progress: TranscriptionProgress) => void | Promise<void>;
+}
+
+/**
+ * A timed piece of a transcript, in seconds from the start of the recording.
+ *
+ * @interface TranscriptSegment
+ */
+export interface TranscriptSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Result of a transcription, whichever provider produced it.
+ * Render it as text, subtitles or JSON with renderTranscription.
+ *
+ * @interface TranscriptionResult
+ */
+export interface TranscriptionResult {
+  /** The full transcribed text */
+  text: string;
+  /** ISO-639-1 code of the spoken language, detected unless one was requested */
+  language?: string;
+  /** Duration of the recording in seconds */
+  duration: number;
+  /** Timed segments of the transcript */
+  segments: TranscriptSegment[];
 }
 
 /**
- * Service responsible for audio transcription using OpenAI's Whisper API.
- * Handles audio file validation, conversion, and transcription.
- * 
+ * Service responsible for audio transcription.
+ * Handles audio file validation and conversion, then hands the audio to the configured
+ * transcription provider (OpenAI's Whisper API or a local Whisper engine).
+ *
  * @class WhisperService
  */
 @Injectable()
 export class WhisperService {
   private readonly logger = new Logger(WhisperService.name);
   private readonly tmpDir: string;
-  private readonly supportedFormats = ['.ogg', '.mp3', '.wav', '.m4a', '.webm'];
-  private readonly maxFileSize = 25 * 1024 * 1024; // 25MB (Whisper API limit)
-  private readonly openai: OpenAI;
+  private readonly maxFileSize: number;
+  private readonly concurrency: number;
+  private readonly providers = new Map<
+    TranscriptionProviderName,
+    TranscriptionProvider
+  >();
+  private readonly defaultProvider: TranscriptionProviderName;
 
   /**
    * Creates an instance of WhisperService.
-   * 
+   *
    * @param {ConfigService} configService - Service for accessing configuration values
+   * @param {OpenAiTranscriptionProvider} openAiProvider - Transcription with OpenAI's Whisper API
+   * @param {LocalTranscriptionProvider} localProvider - Transcription with a local Whisper binary
+   * @param {AudioChunkerService} audioChunker - Service splitting long recordings
    */
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    openAiProvider: OpenAiTranscriptionProvider,
+    localProvider: LocalTranscriptionProvider,
+    private audioChunker: AudioChunkerService,
+  ) {
     this.tmpDir = path.resolve(__dirname, '../../../tmp');
     this.ensureTmpDirectory();
     this.configureFFmpeg();
-    this.openai = new OpenAI({ apiKey: this.configService.get<string>('OPENAI_API_KEY') });
+    this.maxFileSize = this.configService.get<number>(
+      'MAX_FILE_SIZE',
+      200 * 1024 * 1024,
+    );
+    this.concurrency = this.configService.get<number>(
+      'TRANSCRIPTION_CONCURRENCY',
+      3,
+    );
+
+    this.defaultProvider = this.configService.get<TranscriptionProviderName>(
+      'TRANSCRIPTION_PROVIDER',
+      'openai',
+    );
+    const enabled = (
+      this.configService.get<string>('TRANSCRIPTION_PROVIDERS') ??
+      this.defaultProvider
+    )
+      .split(',')
+      .map((name) => name.trim());
+
+    for (const provider of [openAiProvider, localProvider]) {
+      if (
+        provider.name === this.defaultProvider ||
+        enabled.includes(provider.name)
+      ) {
+        this.providers.set(provider.name, provider);
+      }
+    }
+    this.logger.log(
+      `Transcription providers: ${this.getAvailableProviders().join(', ')} (default: ${this.defaultProvider})`,
+    );
+  }
+
+  /**
+   * Lists the transcription providers enabled in this deployment.
+   *
+   * @returns {TranscriptionProviderName[]} Enabled provider names
+   */
+  getAvailableProviders(): TranscriptionProviderName[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Gets the provider used when none is requested.
+   *
+   * @returns {TranscriptionProviderName} Default provider name
+   */
+  getDefaultProvider(): TranscriptionProviderName {
+    return this.defaultProvider;
   }
 
   /**
    * Configures FFmpeg path for macOS systems.
    * Sets the FFmpeg path if found in the default location.
-   * 
+   *
    * @private
    */
   private configureFFmpeg() {
@@ -70,7 +182,7 @@ export class WhisperService {
   /**
    * Ensures the temporary directory exists for storing audio files.
    * Creates the directory if it doesn't exist.
-   * 
+   *
    * @private
    */
   private ensureTmpDirectory(): void {
@@ -80,54 +192,268 @@ export class WhisperService {
   }
 
   /**
-   * Transcribes an audio file to text using OpenAI's Whisper API.
-   * 
+   * Transcribes an audio file to text with the requested or default provider.
+   * Recordings that are too long or too large for the provider are split at silences and transcribed in chunks.
+   *
    * @param {string} audioPath - Path to the audio file
    * @param {TranscriptionOptions} options - Optional transcription parameters
-   * @returns {Promise<string>} The transcribed text
-   * @throws {BadRequestException} If the audio file is invalid
+   * @returns {Promise<TranscriptionResult>} The transcript with its language and timed segments
+   * @throws {BadRequestException} If the audio file is invalid or the provider is not enabled
    * @throws {Error} If transcription fails
    */
   async transcribe(
     audioPath: string,
     options: TranscriptionOptions = {},
+  ): Promise<TranscriptionResult> {
+    const convertedPath = await this.prepareAudio(audioPath, options.provider);
+    try {
+      return await this.transcribePrepared(convertedPath, options);
+    } finally {
+      // Cleanup
+      if (fs.existsSync(convertedPath)) {
+        fs.unlinkSync(convertedPath);
+      }
+    }
+  }
+
+  /**
+   * Validates a recording and converts it to the format the provider expects.
+   * This is the first half of transcribe(), for callers that run conversion and transcription as separate steps.
+   *
+   * @param {string} audioPath - Path to the audio or video file
+   * @param {TranscriptionProviderName} [providerName] - Provider the audio is prepared for
+   * @returns {Promise<string>} Path of the converted file in the temporary directory; the caller deletes it
+   * @throws {BadRequestException} If the audio file is invalid or the provider is not enabled
+   * @throws {Error} If conversion fails
+   */
+  async prepareAudio(
+    audioPath: string,
+    providerName?: TranscriptionProviderName,
   ): Promise<string> {
+    let convertedPath: string | undefined;
     try {
-      await this.validateAudioFile(audioPath);
-      
-      const fileExtension = path.extname(audioPath).toLowerCase();
-      const mp3Path = this.getMp3Path(audioPath);
+      const provider = this.getProvider(providerName);
+      const mediaType = await this.validateAudioFile(audioPath);
 
-      if (fileExtension !== '.mp3') {
-        await this.convertToMp3(audioPath, mp3Path);
-      } else {
+      convertedPath = this.getConvertedPath(audioPath, provider.inputFormat);
+
+      if (provider.inputFormat === 'mp3' && mediaType.extension === 'mp3') {
         // If it's already MP3, just copy it to the temp directory
-        fs.copyFileSync(audioPath, mp3Path);
+        fs.copyFileSync(audioPath, convertedPath);
+      } else {
+        // Everything else is re-encoded: local engines need 16kHz mono PCM, and videos only keep their audio track
+        await this.convertAudio(audioPath, convertedPath, provider.inputFormat);
       }
 
-      const transcription = await this.sendToWhisper(mp3Path, options);
-      
-      // Cleanup
-      if (fs.existsSync(mp3Path)) {
-        fs.unlinkSync(mp3Path);
+      return convertedPath;
+    } catch (error) {
+      this.logger.error(
+        `Audio preparation failed: ${(error as Error).message}`,
+      );
+      if (convertedPath && fs.existsSync(convertedPath)) {
+        fs.unlinkSync(convertedPath);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Transcribes a file returned by prepareAudio() with the same provider. The file is left in place.
+   *
+   * @param {string} convertedPath - Path returned by prepareAudio
+   * @param {TranscriptionOptions} options - Optional transcription parameters
+   * @returns {Promise<TranscriptionResult>} The transcript with its language and timed segments
+   * @throws {BadRequestException} If the provider is not enabled
+   * @throws {Error} If transcription fails
+   */
+  async transcribePrepared(
+    convertedPath: string,
+    options: TranscriptionOptions = {},
+  ): Promise<TranscriptionResult> {
+    try {
+      const provider = this.getProvider(options.provider);
+      const chunks = await this.audioChunker.split(
+        convertedPath,
+        provider.maxFileSize,
+      );
+      this.logger.log(
+        `Transcribing ${path.basename(convertedPath)} with ${provider.name}`,
+      );
+
+      if (chunks.length === 1) {
+        return await provider.transcribe(convertedPath, options);
       }
 
-      return transcription;
+      try {
+        return await this.transcribeChunks(provider, chunks, options);
+      } finally {
+        this.audioChunker.cleanup(chunks, convertedPath);
+      }
     } catch (error) {
-      this.logger.error(`Transcription failed: ${error.message}`);
+      this.logger.error(`Transcription failed: ${(error as Error).message}`);
       throw error;
     }
   }
 
+  /**
+   * Transcribes chunks of a long recording and stitches them into one transcript.
+   * The first chunk is transcribed alone, so the others are transcribed in the language detected in it
+   * and the transcript cannot switch language partway. The rest are divided into contiguous runs that are
+   * transcribed in parallel; each chunk gets the end of the previous chunk's text as prompt so sentences
+   * split at a silence carry over, and the first chunk of a run the end of the first chunk's text.
+   *
+   * @param {TranscriptionProvider} provider - Provider to transcribe with
+   * @param {AudioChunk[]} chunks - Chunks in order
+   * @param {TranscriptionOptions} options - Transcription options
+   * @returns {Promise<TranscriptionResult>} The stitched transcript
+   * @private
+   */
+  private async transcribeChunks(
+    provider: TranscriptionProvider,
+    chunks: AudioChunk[],
+    options: TranscriptionOptions,
+  ): Promise<TranscriptionResult> {
+    const results = new Array<TranscriptionResult>(chunks.length);
+    let completed = 0;
+
+    await this.reportProgress(options, completed, chunks.length);
+
+    results[0] = await provider.transcribe(chunks[0].path, {
+      ...options,
+      prompt: this.buildChunkPrompt(options.prompt),
+    });
+    const language = options.language ?? results[0].language;
+    completed++;
+    await this.reportProgress(options, completed, chunks.length);
+
+    const remaining = chunks.length - 1;
+    const runs = Math.min(this.concurrency, remaining);
+    const runLength = Math.ceil(remaining / runs);
+
+    await Promise.all(
+      Array.from({ length: runs }, async (_, run) => {
+        const end = Math.min(1 + (run + 1) * runLength, chunks.length);
+        let previousText = results[0].text;
+
+        for (let index = 1 + run * runLength; index < end; index++) {
+          results[index] = await provider.transcribe(chunks[index].path, {
+            ...options,
+            language,
+            prompt: this.buildChunkPrompt(options.prompt, previousText),
+          });
+          previousText = results[index].text;
+
+          completed++;
+          await this.reportProgress(options, completed, chunks.length);
+        }
+      }),
+    );
+
+    return this.stitch(results, chunks);
+  }
+
+  /**
+   * Combines per-chunk transcripts, shifting segment timestamps by each chunk's offset.
+   *
+   * @param {TranscriptionResult[]} results - Transcripts in chunk order
+   * @param {AudioChunk[]} chunks - The chunks they came from
+   * @returns {TranscriptionResult} The combined transcript
+   * @private
+   */
+  private stitch(
+    results: TranscriptionResult[],
+    chunks: AudioChunk[],
+  ): TranscriptionResult {
+    const segments = results.flatMap((result, index) =>
+      result.segments.map((segment) => ({
+        start: segment.start + chunks[index].start,
+        end: segment.end + chunks[index].start,
+        text: segment.text.trim(),
+      })),
+    );
+
+    return {
+      language: results[0].language,
+      duration: chunks[chunks.length - 1].end,
+      text: results
+        .map((result) => result.text.trim())
+        .filter(Boolean)
+        .join(' '),
+      segments: segments.map((segment, id) => ({ id, ...segment })),
+    };
+  }
+
+  /**
+   * Builds the prompt for a chunk from the caller's prompt and the end of the previous chunk.
+   *
+   * @param {string} [prompt] - Prompt given by the caller
+   * @param {string} [previousText] - Transcript of the previous chunk
+   * @returns {string | undefined} The prompt, if any
+   * @private
+   */
+  private buildChunkPrompt(
+    prompt?: string,
+    previousText?: string,
+  ): string | undefined {
+    // Whisper only looks at the last ~224 tokens of a prompt
+    const tail = previousText
+      ?.trim()
+      .slice(-200)
+      .replace(/^\S*\s+/, '');
+    return [prompt, tail].filter(Boolean).join(' ') || undefined;
+  }
+
+  /**
+   * Reports chunk progress to the caller, ignoring failures of the callback.
+   *
+   * @param {TranscriptionOptions} options - Transcription options holding the callback
+   * @param {number} completed - Chunks transcribed so far
+   * @param {number} total - Total number of chunks
+   * @private
+   */
+  private async reportProgress(
+    options: TranscriptionOptions,
+    completed: number,
+    total: number,
+  ): Promise<void> {
+    try {
+      await options.onProgress?.({ completed, total });
+    } catch (error) {
+      this.logger.warn(`Progress callback failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Resolves a provider name to an enabled provider.
+   *
+   * @param {TranscriptionProviderName} [name] - Requested provider, or the default when omitted
+   * @returns {TranscriptionProvider} The provider
+   * @throws {BadRequestException} If the provider is not enabled
+   * @private
+   */
+  private getProvider(
+    name: TranscriptionProviderName = this.defaultProvider,
+  ): TranscriptionProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new BadRequestException(
+        `Transcription provider "${name}" is not enabled. Available providers: ${this.getAvailableProviders().join(', ')}`,
+      );
+    }
+    return provider;
+  }
+
   /**
    * Validates an audio file for transcription.
-   * Checks file existence, size, and format.
-   * 
-   * @param {string} filePath - Path to the audio file
+   * Checks file existence and size, identifies the format from the file content rather than its name,
+   * and makes sure there is an audio track to transcribe.
+   *
+   * @param {string} filePath - Path to the audio or video file
+   * @returns {Promise<MediaType>} The detected format
    * @throws {BadRequestException} If validation fails
    * @private
    */
-  private async validateAudioFile(filePath: string): Promise<void> {
+  private async validateAudioFile(filePath: string): Promise<MediaType> {
     if (!fs.existsSync(filePath)) {
       throw new BadRequestException('Audio file not found');
     }
@@ -138,43 +464,97 @@ export class WhisperService {
     }
 
     if (stats.size > this.maxFileSize) {
-      throw new BadRequestException(`Audio file is too large. Maximum size is ${this.maxFileSize / 1024 / 1024}MB`);
+      throw new BadRequestException(
+        `Audio file is too large. Maximum size is ${this.maxFileSize / 1024 / 1024}MB`,
+      );
+    }
+
+    const mediaType = sniffMediaFile(filePath);
+    if (!mediaType) {
+      throw new BadRequestException(
+        `Unsupported file format. Supported formats are ${SUPPORTED_MEDIA_DESCRIPTION}`,
+      );
     }
 
-    const extension = path.extname(filePath).toLowerCase();
-    if (!this.supportedFormats.includes(extension)) {
+    if (!(await this.hasAudioStream(filePath))) {
       throw new BadRequestException(
-        `Unsupported file format. Supported formats are: ${this.supportedFormats.join(', ')}`,
+        mediaType.video
+          ? 'The video has no audio track to transcribe'
+          : 'The file contains no audio',
       );
     }
+
+    return mediaType;
   }
 
   /**
-   * Generates a unique path for the MP3 file in the temporary directory.
-   * 
+   * Checks with ffprobe whether a file has at least one audio stream.
+   *
+   * @param {string} filePath - Path to the audio or video file
+   * @returns {Promise<boolean>} Whether there is audio to transcribe
+   * @throws {BadRequestException} If the file cannot be read as media
+   * @private
+   */
+  private hasAudioStream(filePath: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(filePath, (err, data) => {
+        if (err) {
+          this.logger.warn(
+            `ffprobe failed for ${filePath}: ${(err as Error).message}`,
+          );
+          reject(
+            new BadRequestException(
+              'The file could not be read as audio or video',
+            ),
+          );
+          return;
+        }
+        resolve(data.streams.some((stream) => stream.codec_type === 'audio'));
+      });
+    });
+  }
+
+  /**
+   * Generates a unique path for the converted file in the temporary directory.
+   *
    * @param {string} originalPath - Original audio file path
-   * @returns {string} Path for the MP3 file
+   * @param {string} format - Target audio format
+   * @returns {string} Path for the converted file
    * @private
    */
-  private getMp3Path(originalPath: string): string {
+  private getConvertedPath(
+    originalPath: string,
+    format: TranscriptionProvider['inputFormat'],
+  ): string {
     const fileName = path.basename(originalPath, path.extname(originalPath));
-    return path.join(this.tmpDir, `${fileName}_${Date.now()}.mp3`);
+    return path.join(this.tmpDir, `${fileName}_${Date.now()}.${format}`);
   }
 
   /**
-   * Converts an audio file to MP3 format using FFmpeg.
-   * 
+   * Converts an audio file, or the audio track of a video, to 16kHz mono MP3 or WAV using FFmpeg.
+   *
    * @param {string} input - Path to the input audio file
-   * @param {string} output - Path for the output MP3 file
+   * @param {string} output - Path for the output file
+   * @param {string} format - Target audio format
    * @returns {Promise<void>}
    * @throws {Error} If conversion fails
    * @private
    */
-  private convertToMp3(input: string, output: string): Promise<void> {
+  private convertAudio(
+    input: string,
+    output: string,
+    format: TranscriptionProvider['inputFormat'],
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
-      ffmpeg(input)
-        .toFormat('mp3')
-        .audioBitrate('128k')
+      const command = ffmpeg(input).noVideo().toFormat(format);
+      if (format === 'mp3') {
+        command.audioBitrate('128k');
+      } else {
+        // whisper.cpp only reads 16-bit PCM
+        command.audioCodec('pcm_s16le');
+      }
+
+      command
         .audioChannels(1)
         .audioFrequency(16000)
         .on('start', (commandLine) => {
@@ -194,67 +574,4 @@ export class WhisperService {
         .save(output);
     });
   }
-
-  /**
-   * Sends an audio file to OpenAI's Whisper API for transcription.
-   * 
-   * @param {string} mp3Path - Path to the MP3 file
-   * @param {TranscriptionOptions} options - Transcription options
-   * @returns {Promise<string>} The transcribed text
-   * @throws {Error} If API request fails
-   * @private
-   */
-  private async sendToWhisper(
-    mp3Path: string,
-    options: TranscriptionOptions = {},
-  ): Promise<string> {
-    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
-
-    const form = new FormData();
-    form.append('file', createReadStream(mp3Path));
-    form.append('model', 'whisper-1');
-
-    // Add optional parameters if provided
-    if (options.language) form.append('language', options.language);
-    if (options.responseFormat) form.append('response_format', options.responseFormat);
-    if (options.temperature) form.append('temperature', options.temperature.toString());
-    if (options.prompt) form.append('prompt', options.prompt);
-
-    try {
-      const response = await axios.post(
-        'https://api.openai.com/v1/audio/transcriptions',
-        form,
-        {
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-            ...form.getHeaders(),
-          },
-          timeout: 30000, // 30 seconds timeout
-        },
-      );
-
-      this.logger.debug('Transcription Response:', {
-        text: response.data,
-        language: options.language,
-        format: options.responseFormat,
-      });
-
-      return response.data;
-    } catch (error) {
-      if (error instanceof AxiosError) {
-        if (error.response?.status === 401) {
-          throw new Error('Invalid OpenAI API key');
-        } else if (error.response?.status === 429) {
-          throw new Error('OpenAI API rate limit exceeded');
-        } else if (error.code === 'ECONNABORTED') {
-          throw new Error('OpenAI API request timed out');
-        }
-      }
-      this.logger.error(`Whisper API failed: ${error.message}`);
-      throw new Error('Failed to transcribe audio with Whisper');
-    }
-  }
 }